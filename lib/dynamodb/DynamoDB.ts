@@ -1,10 +1,41 @@
 import {
+  BatchGetCommand,
+  BatchWriteCommand,
   DeleteCommand,
   DynamoDBDocumentClient,
   GetCommand,
   PutCommand,
+  ScanCommand,
 } from '@aws-sdk/lib-dynamodb';
-import { KVNamespacePutOptions } from '@cloudflare/workers-types';
+import {
+  KVNamespaceGetOptions,
+  KVNamespaceGetWithMetadataResult,
+  KVNamespaceListKey,
+} from '@cloudflare/workers-types';
+import {
+  AtomicKeyValueStore,
+  ListOptions,
+  ListResult,
+  PutIfAbsentOutcome,
+  PutOptions,
+} from '../storage/KeyValueStore';
+import { Logger } from '../utils/logger';
+import { Result } from '../utils/result';
+import {
+  DEFAULT_MAX_ATTEMPTS,
+  RetryPolicy,
+  computeBackoffDelay,
+  retryAsync,
+  sleep,
+} from '../utils/retry';
+import {
+  StorageThrottledError,
+  StorageVersionConflictError,
+  isRetryableStorageError,
+} from '../storage/StorageError';
+import { toStorageError } from './toStorageError';
+
+export type { PutOptions };
 
 /**
  * Represents an item stored in DynamoDB.
@@ -13,80 +44,454 @@ export interface DynamoDBItem {
   key: string;
   value: string;
   expiresAt?: number;
+  metadata?: unknown;
+  version?: number;
 }
 
 /**
- * Options for the put operation in DynamoDB, extending KVNamespacePutOptions.
+ * The attribute names under which the fields of an item are stored.
  */
-export interface PutOptions extends KVNamespacePutOptions {
-  expirationTtl?: number;
+export interface DynamoDBAttributeNames {
+  /**
+   * The partition key attribute. Defaults to 'key'.
+   */
+  key?: string;
+  /**
+   * The payload attribute. Defaults to 'value'.
+   */
+  value?: string;
+  /**
+   * The TTL attribute, holding seconds since the epoch. Defaults to 'expiresAt'.
+   */
+  expiresAt?: string;
+  /**
+   * The metadata attribute. Defaults to 'metadata'.
+   */
+  metadata?: string;
+  /**
+   * The version attribute used by compareAndSet. Defaults to 'version'.
+   */
+  version?: string;
 }
 
+/**
+ * A sort key with a fixed value, for tables whose primary key is composite.
+ * Every item written by a DynamoDB instance carries this sort key value.
+ */
+export interface DynamoDBSortKey {
+  name: string;
+  value: string | number;
+}
+
+/**
+ * Options for constructing a DynamoDB instance.
+ */
+export interface DynamoDBOptions {
+  /**
+   * The attribute names of the table. Unspecified names use the defaults.
+   */
+  attributeNames?: DynamoDBAttributeNames;
+  /**
+   * The sort key of the table, if its primary key is composite.
+   */
+  sortKey?: DynamoDBSortKey;
+  /**
+   * A namespace prepended to every key, so that several services can share one table
+   * without their keys colliding. Keys are stored as `${namespace}:${key}`.
+   */
+  namespace?: string;
+  /**
+   * Returns the current time in milliseconds since the epoch.
+   * Defaults to Date.now. Inject a fixed clock to test expiration deterministically.
+   */
+  now?: () => number;
+  /**
+   * Whether to delete expired items when they are encountered on read.
+   * DynamoDB's TTL sweeper can lag behind, so this removes them eagerly. Defaults to false.
+   */
+  deleteExpiredOnRead?: boolean;
+  /**
+   * The logger that failed operations are reported to. Defaults to console.
+   */
+  logger?: Logger;
+  /**
+   * The policy for retrying failed operations. Operations are not retried by default.
+   * Unless the policy provides its own predicate, only throttling and transient network failures are retried.
+   */
+  retry?: RetryPolicy;
+}
+
+/**
+ * The value types supported by get and getWithMetadata, mirroring KVNamespace.
+ */
+export type GetType = 'text' | 'json' | 'arrayBuffer' | 'stream';
+
+/**
+ * The type argument accepted by get and getWithMetadata:
+ * either a type name or a KVNamespace-style options object.
+ */
+export type GetTypeOrOptions<Type extends GetType = GetType> =
+  | Type
+  | KVNamespaceGetOptions<Type>;
+
+/**
+ * The attribute names used when none are configured.
+ */
+export const DEFAULT_ATTRIBUTE_NAMES: Required<DynamoDBAttributeNames> = {
+  key: 'key',
+  value: 'value',
+  expiresAt: 'expiresAt',
+  metadata: 'metadata',
+  version: 'version',
+};
+
+/**
+ * The separator between a namespace and a key.
+ */
+export const NAMESPACE_SEPARATOR = ':';
+
+/**
+ * The default number of keys returned by list, matching KVNamespace.
+ */
+export const DEFAULT_LIST_LIMIT = 1000;
+
+/**
+ * The maximum number of keys in a single BatchGetItem request.
+ */
+export const BATCH_GET_LIMIT = 100;
+
+/**
+ * The maximum number of requests in a single BatchWriteItem request.
+ */
+export const BATCH_WRITE_LIMIT = 25;
+
+/**
+ * A value read together with its version, for optimistic concurrency control.
+ * Items written without compareAndSet have version 0.
+ */
+export interface VersionedValue {
+  value: string;
+  version: number;
+}
+
+/**
+ * Options for the update operation.
+ */
+export interface UpdateOptions extends PutOptions {
+  /**
+   * The maximum number of read-modify-write attempts before giving up on conflicts. Defaults to 3.
+   */
+  maxAttempts?: number;
+}
+
+/**
+ * The default number of read-modify-write attempts made by update.
+ */
+export const DEFAULT_UPDATE_ATTEMPTS = 3;
+
+/**
+ * An entry to store with putMany.
+ */
+export interface PutEntry {
+  key: string;
+  value: string;
+  options?: PutOptions;
+}
+
+/**
+ * A single write in a BatchWriteItem request, tagged with the key it affects.
+ */
+interface BatchWriteEntry {
+  key: string;
+  request:
+    | { PutRequest: { Item: Record<string, unknown> } }
+    | { DeleteRequest: { Key: Record<string, unknown> } };
+}
+
+/**
+ * Splits an array into chunks of at most the given size.
+ *
+ * @param items - The array to split.
+ * @param size - The maximum size of each chunk.
+ * @returns The chunks, in order.
+ */
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+
+  return chunks;
+};
+
+/**
+ * Resolves the value type from a type name or an options object.
+ *
+ * @param typeOrOptions - The type name or options object.
+ * @returns The resolved value type, defaulting to 'text'.
+ */
+const resolveGetType = (
+  typeOrOptions?: GetTypeOrOptions | Partial<KVNamespaceGetOptions<undefined>>
+): GetType => {
+  if (typeof typeOrOptions === 'string') {
+    return typeOrOptions;
+  }
+
+  return typeOrOptions?.type ?? 'text';
+};
+
+/**
+ * Converts a stored string value to the requested value type.
+ *
+ * @param value - The stored string value.
+ * @param type - The requested value type.
+ * @returns The converted value.
+ * @throws Will throw an error if the type is 'json' and the value is not valid JSON.
+ */
+const decodeValue = (value: string, type: GetType): unknown => {
+  switch (type) {
+    case 'text':
+      return value;
+    case 'json':
+      return JSON.parse(value);
+    case 'arrayBuffer': {
+      const bytes = new TextEncoder().encode(value);
+
+      return bytes.buffer.slice(
+        bytes.byteOffset,
+        bytes.byteOffset + bytes.byteLength
+      );
+    }
+    case 'stream': {
+      const bytes = new TextEncoder().encode(value);
+
+      return new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(bytes);
+          controller.close();
+        },
+      });
+    }
+  }
+};
+
+/**
+ * Encodes a DynamoDB LastEvaluatedKey as an opaque list cursor.
+ *
+ * @param lastEvaluatedKey - The LastEvaluatedKey returned by a scan.
+ * @returns The cursor string.
+ */
+const encodeCursor = (lastEvaluatedKey: Record<string, unknown>): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(lastEvaluatedKey));
+
+  return btoa(String.fromCharCode(...bytes));
+};
+
+/**
+ * Decodes a list cursor back into a DynamoDB ExclusiveStartKey.
+ *
+ * @param cursor - The cursor string returned by a previous list call.
+ * @returns The ExclusiveStartKey to resume the scan from.
+ * @throws Will throw an error if the cursor is malformed.
+ */
+const decodeCursor = (cursor: string): Record<string, unknown> => {
+  const bytes = Uint8Array.from(atob(cursor), (c) => c.charCodeAt(0));
+
+  return JSON.parse(new TextDecoder().decode(bytes));
+};
+
 /**
  * A class to interact with DynamoDB for basic CRUD operations.
+ *
+ * The public surface mirrors Cloudflare's KVNamespace so that code shared
+ * between Workers and AWS can use either backend interchangeably.
  */
-export class DynamoDB {
+export class DynamoDB implements AtomicKeyValueStore {
+  /**
+   * The attribute names of the table, with defaults applied.
+   */
+  private readonly attributes: Required<DynamoDBAttributeNames>;
+
   /**
    * Constructs a new DynamoDB instance.
    *
    * @param client - The DynamoDBDocumentClient instance.
    * @param tableName - The name of the DynamoDB table.
+   * @param options - Optional settings such as the table schema, the namespace, the clock and lazy deletion of expired items.
    */
   constructor(
     private readonly client: DynamoDBDocumentClient,
-    private readonly tableName: string
-  ) {}
+    private readonly tableName: string,
+    private readonly options: DynamoDBOptions = {}
+  ) {
+    this.attributes = {
+      ...DEFAULT_ATTRIBUTE_NAMES,
+      ...options.attributeNames,
+    };
+  }
+
+  /**
+   * Derives an instance scoped to a namespace, sharing the client, table and options.
+   * Namespaces nest: deriving 'b' from an instance scoped to 'a' yields 'a:b'.
+   *
+   * @param namespace - The namespace of the derived instance.
+   * @returns A DynamoDB instance whose keys are isolated within the namespace.
+   */
+  withNamespace(namespace: string): DynamoDB {
+    return new DynamoDB(this.client, this.tableName, {
+      ...this.options,
+      namespace: this.options.namespace
+        ? `${this.options.namespace}${NAMESPACE_SEPARATOR}${namespace}`
+        : namespace,
+    });
+  }
 
   /**
    * Retrieves a value from DynamoDB by key.
    *
    * @param key - The key of the item to retrieve.
-   * @returns A promise that resolves to the value associated with the key, or null if not found.
+   * @param typeOrOptions - The type of the returned value ('text', 'json', 'arrayBuffer' or 'stream'), or an options object. Defaults to 'text'.
+   * @returns A promise that resolves to the value associated with the key, or null if not found or expired.
    * @throws Will throw an error if the DynamoDB operation fails.
    */
-  async get(key: string): Promise<string | null> {
+  async get(
+    key: string,
+    typeOrOptions?:
+      | GetTypeOrOptions<'text'>
+      | Partial<KVNamespaceGetOptions<undefined>>
+  ): Promise<string | null>;
+  async get<ExpectedValue = unknown>(
+    key: string,
+    typeOrOptions: GetTypeOrOptions<'json'>
+  ): Promise<ExpectedValue | null>;
+  async get(
+    key: string,
+    typeOrOptions: GetTypeOrOptions<'arrayBuffer'>
+  ): Promise<ArrayBuffer | null>;
+  async get(
+    key: string,
+    typeOrOptions: GetTypeOrOptions<'stream'>
+  ): Promise<ReadableStream | null>;
+  async get(
+    key: string,
+    typeOrOptions?: GetTypeOrOptions | Partial<KVNamespaceGetOptions<undefined>>
+  ): Promise<unknown> {
     try {
-      const command = new GetCommand({
-        TableName: this.tableName,
-        Key: { key },
-      });
-      const result = await this.client.send(command);
-      const item = result.Item as DynamoDBItem | undefined;
+      const item = await this.getItem(key);
+
+      return item
+        ? decodeValue(item.value, resolveGetType(typeOrOptions))
+        : null;
+    } catch (error) {
+      this.logger.error('Error in DynamoDB get:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a value and its metadata from DynamoDB by key.
+   *
+   * @param key - The key of the item to retrieve.
+   * @param typeOrOptions - The type of the returned value ('text', 'json', 'arrayBuffer' or 'stream'), or an options object. Defaults to 'text'.
+   * @returns A promise that resolves to the value and metadata associated with the key. Both are null if not found or expired.
+   * @throws Will throw an error if the DynamoDB operation fails.
+   */
+  async getWithMetadata<Metadata = unknown>(
+    key: string,
+    typeOrOptions?:
+      | GetTypeOrOptions<'text'>
+      | Partial<KVNamespaceGetOptions<undefined>>
+  ): Promise<KVNamespaceGetWithMetadataResult<string, Metadata>>;
+  async getWithMetadata<ExpectedValue = unknown, Metadata = unknown>(
+    key: string,
+    typeOrOptions: GetTypeOrOptions<'json'>
+  ): Promise<KVNamespaceGetWithMetadataResult<ExpectedValue, Metadata>>;
+  async getWithMetadata<Metadata = unknown>(
+    key: string,
+    typeOrOptions: GetTypeOrOptions<'arrayBuffer'>
+  ): Promise<KVNamespaceGetWithMetadataResult<ArrayBuffer, Metadata>>;
+  async getWithMetadata<Metadata = unknown>(
+    key: string,
+    typeOrOptions: GetTypeOrOptions<'stream'>
+  ): Promise<KVNamespaceGetWithMetadataResult<ReadableStream, Metadata>>;
+  async getWithMetadata(
+    key: string,
+    typeOrOptions?: GetTypeOrOptions | Partial<KVNamespaceGetOptions<undefined>>
+  ): Promise<KVNamespaceGetWithMetadataResult<unknown, unknown>> {
+    try {
+      const item = await this.getItem(key);
 
-      return item?.value ? item.value : null;
+      if (!item) {
+        return { value: null, metadata: null, cacheStatus: null };
+      }
+
+      return {
+        value: decodeValue(item.value, resolveGetType(typeOrOptions)),
+        metadata: item.metadata ?? null,
+        cacheStatus: null,
+      };
     } catch (error) {
-      console.error('Error in DynamoDB get:', error);
+      this.logger.error('Error in DynamoDB getWithMetadata:', error);
       throw error;
     }
   }
 
   /**
-   * Puts a value into DynamoDB with an optional expiration time.
+   * Puts a value into DynamoDB with an optional expiration time and metadata.
    *
    * @param key - The key of the item to store.
    * @param value - The value of the item to store.
-   * @param options - Optional settings for the put operation, including expiration time.
+   * @param options - Optional settings for the put operation, including expiration time and metadata.
+   * If both `expiration` (absolute, in seconds since the epoch) and `expirationTtl` (relative, in seconds) are given, `expiration` takes precedence.
    * @returns A promise that resolves when the operation is complete.
    * @throws Will throw an error if the DynamoDB operation fails.
    */
   async put(key: string, value: string, options?: PutOptions): Promise<void> {
     try {
-      const item: DynamoDBItem = {
-        key,
-        value,
-      };
-
-      if (options?.expirationTtl) {
-        item.expiresAt = Math.floor(Date.now() / 1000) + options.expirationTtl;
-      }
+      const command = new PutCommand({
+        TableName: this.tableName,
+        Item: this.toRecord(this.createItem(key, value, options)),
+      });
+      await this.send(() => this.client.send(command));
+    } catch (error) {
+      this.logger.error('Error in DynamoDB put:', error);
+      throw error;
+    }
+  }
 
+  /**
+   * Puts a value into DynamoDB only if no live item exists for the key.
+   * An item that has expired but has not been swept yet is treated as absent and overwritten.
+   *
+   * @param key - The key of the item to store.
+   * @param value - The value of the item to store.
+   * @param options - Optional settings for the put operation, including expiration time and metadata.
+   * @returns A promise that resolves to 'created' if the item was written, or 'already_exists' if a live item was already stored under the key.
+   * @throws Will throw an error if the DynamoDB operation fails for any other reason.
+   */
+  async putIfAbsent(
+    key: string,
+    value: string,
+    options?: PutOptions
+  ): Promise<PutIfAbsentOutcome> {
+    try {
       const command = new PutCommand({
         TableName: this.tableName,
-        Item: item,
+        Item: this.toRecord(this.createItem(key, value, options)),
+        ConditionExpression: 'attribute_not_exists(#key) OR #expiresAt <= :now',
+        ExpressionAttributeNames: this.attributeNames('key', 'expiresAt'),
+        ExpressionAttributeValues: { ':now': this.nowInSeconds() },
       });
-      await this.client.send(command);
+      await this.send(() => this.client.send(command), false);
+
+      return 'created';
     } catch (error) {
-      console.error('Error in DynamoDB put:', error);
+      if ((error as Error).name === 'ConditionalCheckFailedException') {
+        return 'already_exists';
+      }
+
+      this.logger.error('Error in DynamoDB putIfAbsent:', error);
       throw error;
     }
   }
@@ -102,12 +507,752 @@ export class DynamoDB {
     try {
       const command = new DeleteCommand({
         TableName: this.tableName,
-        Key: { key },
+        Key: this.keyOf(key),
       });
-      await this.client.send(command);
+      await this.send(() => this.client.send(command));
     } catch (error) {
-      console.error('Error in DynamoDB delete:', error);
+      this.logger.error('Error in DynamoDB delete:', error);
       throw error;
     }
   }
+
+  /**
+   * Atomically deletes an item from DynamoDB and returns its value.
+   * Of several concurrent calls for the same key, at most one receives the value.
+   *
+   * @param key - The key of the item to take.
+   * @returns A promise that resolves to the value that was stored, or null if not found or expired.
+   * @throws Will throw an error if the DynamoDB operation fails.
+   */
+  async take(key: string): Promise<string | null> {
+    try {
+      const command = new DeleteCommand({
+        TableName: this.tableName,
+        Key: this.keyOf(key),
+        ReturnValues: 'ALL_OLD',
+      });
+      const result = await this.send(() => this.client.send(command), false);
+      const item = this.fromRecord(result.Attributes);
+
+      if (typeof item?.value !== 'string' || this.isExpired(item)) {
+        return null;
+      }
+
+      return item.value;
+    } catch (error) {
+      this.logger.error('Error in DynamoDB take:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a value from DynamoDB together with its version.
+   *
+   * @param key - The key of the item to retrieve.
+   * @returns A promise that resolves to the value and version, or null if not found or expired.
+   * @throws Will throw an error if the DynamoDB operation fails.
+   */
+  async getVersioned(key: string): Promise<VersionedValue | null> {
+    try {
+      const item = await this.getItem(key);
+
+      return item ? { value: item.value, version: item.version ?? 0 } : null;
+    } catch (error) {
+      this.logger.error('Error in DynamoDB getVersioned:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Puts a value into DynamoDB only if the stored version still equals the expected version.
+   *
+   * Writes made with put do not carry a version, so mixing put with compareAndSet
+   * on the same key weakens conflict detection.
+   *
+   * @param key - The key of the item to store.
+   * @param expectedVersion - The version read with getVersioned, or null if the item is expected to be absent or expired.
+   * @param value - The value of the item to store.
+   * @param options - Optional settings for the put operation, including expiration time and metadata.
+   * @returns A promise that resolves to the new version of the item.
+   * @throws {StorageVersionConflictError} If the stored version differs from the expected version.
+   * @throws Will throw an error if the DynamoDB operation fails for any other reason.
+   */
+  async compareAndSet(
+    key: string,
+    expectedVersion: number | null,
+    value: string,
+    options?: PutOptions
+  ): Promise<number> {
+    const version = (expectedVersion ?? 0) + 1;
+    const live = '(attribute_not_exists(#expiresAt) OR #expiresAt > :now)';
+    const values: Record<string, unknown> = { ':now': this.nowInSeconds() };
+    let condition: string;
+    let names: Record<string, string>;
+
+    if (expectedVersion === null) {
+      condition = 'attribute_not_exists(#key) OR #expiresAt <= :now';
+      names = this.attributeNames('key', 'expiresAt');
+    } else if (expectedVersion === 0) {
+      condition = `attribute_exists(#key) AND attribute_not_exists(#version) AND ${live}`;
+      names = this.attributeNames('key', 'expiresAt', 'version');
+    } else {
+      condition = `#version = :expectedVersion AND ${live}`;
+      names = this.attributeNames('expiresAt', 'version');
+      values[':expectedVersion'] = expectedVersion;
+    }
+
+    try {
+      const command = new PutCommand({
+        TableName: this.tableName,
+        Item: this.toRecord({
+          ...this.createItem(key, value, options),
+          version,
+        }),
+        ConditionExpression: condition,
+        ExpressionAttributeNames: names,
+        ExpressionAttributeValues: values,
+      });
+      await this.send(() => this.client.send(command), false);
+
+      return version;
+    } catch (error) {
+      if ((error as Error).name === 'ConditionalCheckFailedException') {
+        throw new StorageVersionConflictError(
+          `Version of ${key} is no longer ${expectedVersion ?? 'absent'}`,
+          error
+        );
+      }
+
+      this.logger.error('Error in DynamoDB compareAndSet:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Updates a value with a read-modify-write loop using compareAndSet,
+   * retrying when another writer updates the item concurrently.
+   *
+   * @param key - The key of the item to update.
+   * @param f - A function that computes the new value from the current value, or null if absent or expired.
+   * @param options - Optional settings: the maximum number of attempts, and the expiration time and metadata of the new value.
+   * @returns A promise that resolves to the new value and version.
+   * @throws {StorageVersionConflictError} If every attempt conflicted with a concurrent write.
+   * @throws Will throw an error if f throws or the DynamoDB operation fails.
+   */
+  async update(
+    key: string,
+    f: (current: string | null) => string | Promise<string>,
+    options?: UpdateOptions
+  ): Promise<VersionedValue> {
+    const { maxAttempts = DEFAULT_UPDATE_ATTEMPTS, ...putOptions } =
+      options ?? {};
+
+    for (let attempt = 1; ; attempt++) {
+      const current = await this.getVersioned(key);
+      const value = await f(current?.value ?? null);
+
+      try {
+        const version = await this.compareAndSet(
+          key,
+          current?.version ?? null,
+          value,
+          putOptions
+        );
+
+        return { value, version };
+      } catch (error) {
+        if (
+          !(error instanceof StorageVersionConflictError) ||
+          attempt >= maxAttempts
+        ) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Lists keys stored in DynamoDB, optionally filtered by prefix.
+   *
+   * The table is scanned page by page until `limit` keys have been collected
+   * or the table is exhausted. Expired items are excluded. Unlike KVNamespace, keys are not returned in
+   * lexicographic order because DynamoDB scans are unordered.
+   *
+   * @param options - Optional settings for the list operation: prefix, limit (default 1000) and cursor.
+   * @returns A promise that resolves to the listed keys, whether the listing is complete, and a cursor to continue from if not.
+   * @throws Will throw an error if the cursor is malformed or the DynamoDB operation fails.
+   */
+  async list<Metadata = unknown>(
+    options?: ListOptions
+  ): Promise<ListResult<Metadata>> {
+    try {
+      const limit = options?.limit ?? DEFAULT_LIST_LIMIT;
+      const prefix = this.storedKey(options?.prefix ?? '');
+      const filters = [
+        '(attribute_not_exists(#expiresAt) OR #expiresAt > :now)',
+      ];
+      const names = this.attributeNames('key', 'expiresAt', 'metadata');
+      const values: Record<string, unknown> = { ':now': this.nowInSeconds() };
+
+      if (prefix) {
+        filters.push('begins_with(#key, :prefix)');
+        values[':prefix'] = prefix;
+      }
+
+      if (this.options.sortKey) {
+        filters.push('#sortKey = :sortKey');
+        names['#sortKey'] = this.options.sortKey.name;
+        values[':sortKey'] = this.options.sortKey.value;
+      }
+
+      const keys: KVNamespaceListKey<Metadata>[] = [];
+      let exclusiveStartKey = options?.cursor
+        ? decodeCursor(options.cursor)
+        : undefined;
+
+      do {
+        const command = new ScanCommand({
+          TableName: this.tableName,
+          ProjectionExpression: '#key, #expiresAt, #metadata',
+          ExpressionAttributeNames: names,
+          FilterExpression: filters.join(' AND '),
+          ExpressionAttributeValues: values,
+          Limit: limit - keys.length,
+          ExclusiveStartKey: exclusiveStartKey,
+        });
+        const result = await this.send(() => this.client.send(command));
+
+        for (const record of result.Items ?? []) {
+          const item = this.fromRecord(record);
+          const listKey: KVNamespaceListKey<Metadata> = { name: item.key };
+
+          if (item.expiresAt !== undefined) {
+            listKey.expiration = item.expiresAt;
+          }
+
+          if (item.metadata !== undefined) {
+            listKey.metadata = item.metadata as Metadata;
+          }
+
+          keys.push(listKey);
+        }
+
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey && keys.length < limit);
+
+      if (exclusiveStartKey) {
+        return {
+          keys,
+          list_complete: false,
+          cursor: encodeCursor(exclusiveStartKey),
+          cacheStatus: null,
+        };
+      }
+
+      return { keys, list_complete: true, cacheStatus: null };
+    } catch (error) {
+      this.logger.error('Error in DynamoDB list:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves several values from DynamoDB in as few BatchGetItem requests as possible.
+   * Keys left unprocessed by DynamoDB are retried with backoff.
+   *
+   * @param keys - The keys of the items to retrieve. Duplicates are fetched once.
+   * @returns A promise that resolves to a map from each key to a Result of its value, or null if not found or expired.
+   */
+  async getMany(keys: string[]): Promise<Map<string, Result<string | null>>> {
+    const outcomes = new Map<string, Result<string | null>>();
+
+    for (const keyChunk of chunk([...new Set(keys)], BATCH_GET_LIMIT)) {
+      let pending = keyChunk;
+
+      for (let attempt = 1; pending.length > 0; attempt++) {
+        try {
+          const command = new BatchGetCommand({
+            RequestItems: {
+              [this.tableName]: {
+                Keys: pending.map((key) => this.keyOf(key)),
+              },
+            },
+          });
+          const result = await this.send(() => this.client.send(command));
+          const records = result.Responses?.[this.tableName] ?? [];
+          const unprocessed =
+            result.UnprocessedKeys?.[this.tableName]?.Keys ?? [];
+
+          for (const record of records) {
+            const item = this.fromRecord(record);
+            outcomes.set(item.key, Result.success(await this.liveValue(item)));
+          }
+
+          pending = unprocessed.map((record) => this.fromRecordKey(record));
+
+          for (const key of keyChunk) {
+            if (!outcomes.has(key) && !pending.includes(key)) {
+              outcomes.set(key, Result.success(null));
+            }
+          }
+        } catch (error) {
+          this.logger.error('Error in DynamoDB getMany:', error);
+          pending.forEach((key) =>
+            outcomes.set(key, Result.failure(toStorageError(error)))
+          );
+          pending = [];
+        }
+
+        pending = await this.awaitUnprocessed(pending, attempt, outcomes);
+      }
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Puts several values into DynamoDB in as few BatchWriteItem requests as possible,
+   * honouring the expiration time and metadata of each entry.
+   * Items left unprocessed by DynamoDB are retried with backoff.
+   *
+   * @param entries - The entries to store. If a key appears more than once, the last entry wins.
+   * @returns A promise that resolves to a map from each key to a Result that is successful when the item has been stored.
+   */
+  async putMany(entries: PutEntry[]): Promise<Map<string, Result<void>>> {
+    const requests = new Map<string, BatchWriteEntry>();
+
+    for (const { key, value, options } of entries) {
+      requests.set(key, {
+        key,
+        request: {
+          PutRequest: {
+            Item: this.toRecord(this.createItem(key, value, options)),
+          },
+        },
+      });
+    }
+
+    return this.batchWrite([...requests.values()], 'putMany');
+  }
+
+  /**
+   * Deletes several items from DynamoDB in as few BatchWriteItem requests as possible.
+   * Items left unprocessed by DynamoDB are retried with backoff.
+   *
+   * @param keys - The keys of the items to delete. Duplicates are deleted once.
+   * @returns A promise that resolves to a map from each key to a Result that is successful when the item has been deleted.
+   */
+  async deleteMany(keys: string[]): Promise<Map<string, Result<void>>> {
+    return this.batchWrite(
+      [...new Set(keys)].map((key) => ({
+        key,
+        request: { DeleteRequest: { Key: this.keyOf(key) } },
+      })),
+      'deleteMany'
+    );
+  }
+
+  /**
+   * The logger that failed operations are reported to.
+   */
+  private get logger(): Logger {
+    return this.options.logger ?? console;
+  }
+
+  /**
+   * Sends a request to DynamoDB, retrying it according to the configured retry policy.
+   *
+   * A request that is not idempotent, such as a conditional write or a delete returning the old item,
+   * is retried only after throttling, which DynamoDB reports without applying the request. After a
+   * network failure it may have been applied with its response lost, and sending it again would
+   * report a conflict or a missing item for a write that succeeded.
+   *
+   * @param f - A function that sends the request.
+   * @param idempotent - Whether the request can be sent again after a network failure. Defaults to true.
+   * @returns A promise that resolves to the response.
+   * @throws Will throw the error of the last attempt if all attempts fail.
+   */
+  private async send<T>(f: () => Promise<T>, idempotent = true): Promise<T> {
+    if (!this.options.retry) {
+      return f();
+    }
+
+    const {
+      isRetryable = (error: Error) =>
+        isRetryableStorageError(toStorageError(error)),
+      ...policy
+    } = this.options.retry;
+    const result = await retryAsync(f, {
+      onRetry: (error, attempt, delayMs) =>
+        this.logger.warn(
+          `Retrying DynamoDB request after attempt ${attempt} in ${delayMs}ms:`,
+          error
+        ),
+      ...policy,
+      isRetryable: idempotent
+        ? isRetryable
+        : (error) =>
+            toStorageError(error) instanceof StorageThrottledError &&
+            isRetryable(error),
+    });
+
+    return result.getOrThrow();
+  }
+
+  /**
+   * Sends BatchWriteItem requests in chunks, retrying unprocessed items with backoff.
+   *
+   * @param entries - The writes to send, at most one per key.
+   * @param operation - The name of the public operation, used in log messages.
+   * @returns A promise that resolves to a map from each key to a Result of its write.
+   */
+  private async batchWrite(
+    entries: BatchWriteEntry[],
+    operation: string
+  ): Promise<Map<string, Result<void>>> {
+    const outcomes = new Map<string, Result<void>>();
+
+    for (const entryChunk of chunk(entries, BATCH_WRITE_LIMIT)) {
+      let pending = entryChunk;
+
+      for (let attempt = 1; pending.length > 0; attempt++) {
+        try {
+          const command = new BatchWriteCommand({
+            RequestItems: {
+              [this.tableName]: pending.map(({ request }) => request),
+            },
+          });
+          const result = await this.send(() => this.client.send(command));
+          const unprocessedKeys = new Set(
+            (result.UnprocessedItems?.[this.tableName] ?? []).flatMap(
+              (request) => {
+                const record =
+                  request.PutRequest?.Item ?? request.DeleteRequest?.Key;
+
+                return record ? [this.fromRecordKey(record)] : [];
+              }
+            )
+          );
+
+          pending.forEach(({ key }) => {
+            if (!unprocessedKeys.has(key)) {
+              outcomes.set(key, Result.success(undefined));
+            }
+          });
+          pending = pending.filter(({ key }) => unprocessedKeys.has(key));
+        } catch (error) {
+          this.logger.error(`Error in DynamoDB ${operation}:`, error);
+          pending.forEach(({ key }) =>
+            outcomes.set(key, Result.failure(toStorageError(error)))
+          );
+          pending = [];
+        }
+
+        const pendingKeys = await this.awaitUnprocessed(
+          pending.map(({ key }) => key),
+          attempt,
+          outcomes
+        );
+        pending = pending.filter(({ key }) => pendingKeys.includes(key));
+      }
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Waits before retrying keys left unprocessed by a batch request,
+   * or records them as throttled once the retry policy's attempts are exhausted.
+   *
+   * @param keys - The unprocessed keys.
+   * @param attempt - The number of the attempt that just completed, starting at 1.
+   * @param outcomes - The outcome map to record exhausted keys in.
+   * @returns A promise that resolves to the keys to retry.
+   */
+  private async awaitUnprocessed<T>(
+    keys: string[],
+    attempt: number,
+    outcomes: Map<string, Result<T>>
+  ): Promise<string[]> {
+    if (keys.length === 0) {
+      return keys;
+    }
+
+    const policy = this.options.retry ?? {};
+
+    if (attempt >= (policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS)) {
+      keys.forEach((key) =>
+        outcomes.set(
+          key,
+          Result.failure(
+            new StorageThrottledError(
+              `Item was left unprocessed after ${attempt} attempts`
+            )
+          )
+        )
+      );
+
+      return [];
+    }
+
+    await (policy.sleep ?? sleep)(computeBackoffDelay(attempt, policy));
+
+    return keys;
+  }
+
+  /**
+   * Returns the value of an item read in a batch, treating expired items as absent.
+   *
+   * @param item - The item that was read.
+   * @returns A promise that resolves to the value, or null if the item has expired.
+   */
+  private async liveValue(item: DynamoDBItem): Promise<string | null> {
+    if (!this.isExpired(item)) {
+      return typeof item.value === 'string' ? item.value : null;
+    }
+
+    if (this.options.deleteExpiredOnRead) {
+      await this.deleteExpiredItem(item);
+    }
+
+    return null;
+  }
+
+  /**
+   * Returns the key as stored in the table, with the namespace prepended.
+   *
+   * @param key - The key as seen by callers.
+   * @returns The stored key.
+   */
+  private storedKey(key: string): string {
+    return this.options.namespace
+      ? `${this.options.namespace}${NAMESPACE_SEPARATOR}${key}`
+      : key;
+  }
+
+  /**
+   * Builds the primary key of an item, including the sort key if the table has one.
+   *
+   * @param key - The key as seen by callers.
+   * @returns The primary key attributes.
+   */
+  private keyOf(key: string): Record<string, unknown> {
+    const primaryKey: Record<string, unknown> = {
+      [this.attributes.key]: this.storedKey(key),
+    };
+
+    if (this.options.sortKey) {
+      primaryKey[this.options.sortKey.name] = this.options.sortKey.value;
+    }
+
+    return primaryKey;
+  }
+
+  /**
+   * Converts an item to the record stored in the table, applying the table schema.
+   *
+   * @param item - The item.
+   * @returns The stored record.
+   */
+  private toRecord(item: DynamoDBItem): Record<string, unknown> {
+    const record = { ...this.keyOf(item.key) };
+    record[this.attributes.value] = item.value;
+
+    if (item.expiresAt !== undefined) {
+      record[this.attributes.expiresAt] = item.expiresAt;
+    }
+
+    if (item.metadata !== undefined) {
+      record[this.attributes.metadata] = item.metadata;
+    }
+
+    if (item.version !== undefined) {
+      record[this.attributes.version] = item.version;
+    }
+
+    return record;
+  }
+
+  /**
+   * Converts a record read from the table to an item, undoing the table schema.
+   *
+   * @param record - The stored record.
+   * @returns The item.
+   */
+  private fromRecord(record: Record<string, unknown>): DynamoDBItem;
+  /**
+   * Converts a record read from the table to an item, undoing the table schema.
+   *
+   * @param record - The stored record, if any.
+   * @returns The item, or undefined if there is no record.
+   */
+  private fromRecord(
+    record: Record<string, unknown> | undefined
+  ): DynamoDBItem | undefined;
+  private fromRecord(
+    record: Record<string, unknown> | undefined
+  ): DynamoDBItem | undefined {
+    if (!record) {
+      return undefined;
+    }
+
+    const item: DynamoDBItem = {
+      key: this.fromRecordKey(record),
+      value: record[this.attributes.value] as string,
+    };
+    const expiresAt = record[this.attributes.expiresAt];
+    const metadata = record[this.attributes.metadata];
+    const version = record[this.attributes.version];
+
+    if (expiresAt !== undefined) {
+      item.expiresAt = expiresAt as number;
+    }
+
+    if (metadata !== undefined) {
+      item.metadata = metadata;
+    }
+
+    if (version !== undefined) {
+      item.version = version as number;
+    }
+
+    return item;
+  }
+
+  /**
+   * Extracts the key as seen by callers from a stored record, removing the namespace.
+   *
+   * @param record - The stored record or primary key.
+   * @returns The key.
+   */
+  private fromRecordKey(record: Record<string, unknown>): string {
+    const storedKey = record[this.attributes.key] as string;
+    const prefix = this.storedKey('');
+
+    return storedKey.startsWith(prefix)
+      ? storedKey.slice(prefix.length)
+      : storedKey;
+  }
+
+  /**
+   * Builds ExpressionAttributeNames mapping placeholders such as '#key' to the configured attribute names.
+   *
+   * @param fields - The fields referenced by the expression.
+   * @returns The ExpressionAttributeNames.
+   */
+  private attributeNames(
+    ...fields: (keyof DynamoDBAttributeNames)[]
+  ): Record<string, string> {
+    return Object.fromEntries(
+      fields.map((field) => [`#${field}`, this.attributes[field]])
+    );
+  }
+
+  /**
+   * Builds the item to store from a key, a value and put options.
+   * If both `expiration` and `expirationTtl` are given, `expiration` takes precedence.
+   *
+   * @param key - The key of the item.
+   * @param value - The value of the item.
+   * @param options - Optional settings, including expiration time and metadata.
+   * @returns The item to store.
+   */
+  private createItem(
+    key: string,
+    value: string,
+    options?: PutOptions
+  ): DynamoDBItem {
+    const item: DynamoDBItem = {
+      key,
+      value,
+    };
+
+    if (options?.expiration) {
+      item.expiresAt = options.expiration;
+    } else if (options?.expirationTtl) {
+      item.expiresAt = this.nowInSeconds() + options.expirationTtl;
+    }
+
+    if (options?.metadata !== undefined && options.metadata !== null) {
+      item.metadata = options.metadata;
+    }
+
+    return item;
+  }
+
+  /**
+   * Returns the current time in seconds since the epoch, according to the configured clock.
+   *
+   * @returns The current time in seconds.
+   */
+  private nowInSeconds(): number {
+    const now = this.options.now ?? Date.now;
+
+    return Math.floor(now() / 1000);
+  }
+
+  /**
+   * Checks whether an item has passed its expiration time.
+   *
+   * @param item - The item to check.
+   * @returns True if the item has an expiration time that is not in the future.
+   */
+  private isExpired(item: DynamoDBItem): boolean {
+    return (
+      item.expiresAt !== undefined && item.expiresAt <= this.nowInSeconds()
+    );
+  }
+
+  /**
+   * Retrieves the raw item from DynamoDB by key, treating expired items as absent.
+   *
+   * @param key - The key of the item to retrieve.
+   * @returns A promise that resolves to the item, or null if not found or expired.
+   */
+  private async getItem(key: string): Promise<DynamoDBItem | null> {
+    const command = new GetCommand({
+      TableName: this.tableName,
+      Key: this.keyOf(key),
+    });
+    const result = await this.send(() => this.client.send(command));
+    const item = this.fromRecord(result.Item);
+
+    if (typeof item?.value !== 'string') {
+      return null;
+    }
+
+    if (this.isExpired(item)) {
+      if (this.options.deleteExpiredOnRead) {
+        await this.deleteExpiredItem(item);
+      }
+
+      return null;
+    }
+
+    return item;
+  }
+
+  /**
+   * Deletes an expired item, unless it has been rewritten since it was read.
+   * Failures are logged and ignored because the item is already treated as absent.
+   *
+   * @param item - The expired item to delete.
+   * @returns A promise that resolves when the operation is complete.
+   */
+  private async deleteExpiredItem(item: DynamoDBItem): Promise<void> {
+    try {
+      const command = new DeleteCommand({
+        TableName: this.tableName,
+        Key: this.keyOf(item.key),
+        ConditionExpression: '#expiresAt = :expiresAt',
+        ExpressionAttributeNames: this.attributeNames('expiresAt'),
+        ExpressionAttributeValues: { ':expiresAt': item.expiresAt },
+      });
+      await this.send(() => this.client.send(command), false);
+    } catch (error) {
+      if ((error as Error).name !== 'ConditionalCheckFailedException') {
+        this.logger.error('Error in DynamoDB delete of expired item:', error);
+      }
+    }
+  }
 }
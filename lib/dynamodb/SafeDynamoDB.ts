@@ -0,0 +1,172 @@
+import { KVNamespaceGetWithMetadataResult } from '@cloudflare/workers-types';
+import {
+  ListOptions,
+  ListResult,
+  PutIfAbsentOutcome,
+  PutOptions,
+} from '../storage/KeyValueStore';
+import { StorageError } from '../storage/StorageError';
+import { Result, runAsyncCatching } from '../utils/result';
+import { DynamoDB, UpdateOptions, VersionedValue } from './DynamoDB';
+import { toStorageError } from './toStorageError';
+
+/**
+ * A wrapper around DynamoDB whose operations return a Result instead of throwing.
+ *
+ * Failures are typed as StorageError instances mapped from the AWS SDK error,
+ * so callers can branch on the kind of failure without string matching.
+ */
+export class SafeDynamoDB {
+  /**
+   * Constructs a new SafeDynamoDB instance.
+   *
+   * @param dynamoDB - The DynamoDB instance to delegate to.
+   */
+  constructor(private readonly dynamoDB: DynamoDB) {}
+
+  /**
+   * Retrieves a value by key.
+   *
+   * @param key - The key of the item to retrieve.
+   * @returns A promise that resolves to a Result of the value, or null if not found or expired.
+   */
+  async get(key: string): Promise<Result<string | null, StorageError>> {
+    return this.run(() => this.dynamoDB.get(key));
+  }
+
+  /**
+   * Retrieves a value and its metadata by key.
+   *
+   * @param key - The key of the item to retrieve.
+   * @returns A promise that resolves to a Result of the value and metadata.
+   */
+  async getWithMetadata<Metadata = unknown>(
+    key: string
+  ): Promise<
+    Result<KVNamespaceGetWithMetadataResult<string, Metadata>, StorageError>
+  > {
+    return this.run(() => this.dynamoDB.getWithMetadata<Metadata>(key));
+  }
+
+  /**
+   * Puts a value with an optional expiration time and metadata.
+   *
+   * @param key - The key of the item to store.
+   * @param value - The value of the item to store.
+   * @param options - Optional settings for the put operation.
+   * @returns A promise that resolves to a Result that is successful when the item has been stored.
+   */
+  async put(
+    key: string,
+    value: string,
+    options?: PutOptions
+  ): Promise<Result<void, StorageError>> {
+    return this.run(() => this.dynamoDB.put(key, value, options));
+  }
+
+  /**
+   * Puts a value only if no live item exists for the key.
+   *
+   * @param key - The key of the item to store.
+   * @param value - The value of the item to store.
+   * @param options - Optional settings for the put operation.
+   * @returns A promise that resolves to a Result of the outcome of the conditional put.
+   */
+  async putIfAbsent(
+    key: string,
+    value: string,
+    options?: PutOptions
+  ): Promise<Result<PutIfAbsentOutcome, StorageError>> {
+    return this.run(() => this.dynamoDB.putIfAbsent(key, value, options));
+  }
+
+  /**
+   * Deletes an item by key.
+   *
+   * @param key - The key of the item to delete.
+   * @returns A promise that resolves to a Result that is successful when the item has been deleted.
+   */
+  async delete(key: string): Promise<Result<void, StorageError>> {
+    return this.run(() => this.dynamoDB.delete(key));
+  }
+
+  /**
+   * Atomically deletes an item and returns its value.
+   *
+   * @param key - The key of the item to take.
+   * @returns A promise that resolves to a Result of the value that was stored, or null if not found or expired.
+   */
+  async take(key: string): Promise<Result<string | null, StorageError>> {
+    return this.run(() => this.dynamoDB.take(key));
+  }
+
+  /**
+   * Retrieves a value together with its version.
+   *
+   * @param key - The key of the item to retrieve.
+   * @returns A promise that resolves to a Result of the value and version, or null if not found or expired.
+   */
+  async getVersioned(
+    key: string
+  ): Promise<Result<VersionedValue | null, StorageError>> {
+    return this.run(() => this.dynamoDB.getVersioned(key));
+  }
+
+  /**
+   * Puts a value only if the stored version still equals the expected version.
+   *
+   * @param key - The key of the item to store.
+   * @param expectedVersion - The expected version, or null if the item is expected to be absent.
+   * @param value - The value of the item to store.
+   * @param options - Optional settings for the put operation.
+   * @returns A promise that resolves to a Result of the new version, or a failure with StorageVersionConflictError.
+   */
+  async compareAndSet(
+    key: string,
+    expectedVersion: number | null,
+    value: string,
+    options?: PutOptions
+  ): Promise<Result<number, StorageError>> {
+    return this.run(() =>
+      this.dynamoDB.compareAndSet(key, expectedVersion, value, options)
+    );
+  }
+
+  /**
+   * Updates a value with a read-modify-write loop using compareAndSet.
+   *
+   * @param key - The key of the item to update.
+   * @param f - A function that computes the new value from the current value, or null if absent.
+   * @param options - Optional settings for the update operation.
+   * @returns A promise that resolves to a Result of the new value and version.
+   */
+  async update(
+    key: string,
+    f: (current: string | null) => string | Promise<string>,
+    options?: UpdateOptions
+  ): Promise<Result<VersionedValue, StorageError>> {
+    return this.run(() => this.dynamoDB.update(key, f, options));
+  }
+
+  /**
+   * Lists keys, optionally filtered by prefix.
+   *
+   * @param options - Optional settings: prefix, limit and cursor.
+   * @returns A promise that resolves to a Result of the listed keys.
+   */
+  async list<Metadata = unknown>(
+    options?: ListOptions
+  ): Promise<Result<ListResult<Metadata>, StorageError>> {
+    return this.run(() => this.dynamoDB.list<Metadata>(options));
+  }
+
+  /**
+   * Runs an operation, mapping any thrown error to a StorageError.
+   *
+   * @param f - The operation to run.
+   * @returns A promise that resolves to a Result of the operation.
+   */
+  private async run<T>(f: () => Promise<T>): Promise<Result<T, StorageError>> {
+    return runAsyncCatching({ mapError: toStorageError }, f);
+  }
+}
@@ -1,12 +1,28 @@
 import {
+  BatchGetCommand,
+  BatchWriteCommand,
   DynamoDBDocumentClient,
   GetCommand,
   PutCommand,
   DeleteCommand,
+  ScanCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { mockClient } from 'aws-sdk-client-mock';
 import { DynamoDB } from '../DynamoDB';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  StorageError,
+  StorageThrottledError,
+  StorageVersionConflictError,
+} from '../../storage/StorageError';
+import {
+  describeAtomicKeyValueStore,
+  describeKeyValueStore,
+} from '../../storage/__tests__/keyValueStoreConformance';
+import { createFakeTable } from './fakeTable';
+
+describeKeyValueStore('DynamoDB', createFakeTable);
+describeAtomicKeyValueStore('DynamoDB', createFakeTable);
 
 describe('DynamoDB', () => {
   const ddbMock = mockClient(DynamoDBDocumentClient);
@@ -45,6 +61,52 @@ describe('DynamoDB', () => {
       expect(result).toBeNull();
     });
 
+    it('should return an empty string value as is', async () => {
+      ddbMock.on(GetCommand).resolves({
+        Item: { key: 'testKey', value: '' },
+      });
+
+      const result = await dynamoDB.get('testKey');
+      expect(result).toBe('');
+    });
+
+    it('should parse the value when type is json', async () => {
+      ddbMock.on(GetCommand).resolves({
+        Item: { key: 'testKey', value: '{"a":1}' },
+      });
+
+      expect(await dynamoDB.get('testKey', 'json')).toEqual({ a: 1 });
+      expect(await dynamoDB.get('testKey', { type: 'json' })).toEqual({
+        a: 1,
+      });
+    });
+
+    it('should return an ArrayBuffer when type is arrayBuffer', async () => {
+      ddbMock.on(GetCommand).resolves({
+        Item: { key: 'testKey', value: 'testValue' },
+      });
+
+      const result = await dynamoDB.get('testKey', 'arrayBuffer');
+      expect(result).toBeInstanceOf(ArrayBuffer);
+      expect(new TextDecoder().decode(result!)).toBe('testValue');
+    });
+
+    it('should return a ReadableStream when type is stream', async () => {
+      ddbMock.on(GetCommand).resolves({
+        Item: { key: 'testKey', value: 'testValue' },
+      });
+
+      const result = await dynamoDB.get('testKey', 'stream');
+      expect(await new Response(result).text()).toBe('testValue');
+    });
+
+    it('should return null for any type when key does not exist', async () => {
+      ddbMock.on(GetCommand).resolves({});
+
+      expect(await dynamoDB.get('nonexistentKey', 'json')).toBeNull();
+      expect(await dynamoDB.get('nonexistentKey', 'stream')).toBeNull();
+    });
+
     it('should throw an error when DynamoDB operation fails', async () => {
       ddbMock.on(GetCommand).rejects(new Error('DynamoDB Error'));
 
@@ -52,6 +114,139 @@ describe('DynamoDB', () => {
     });
   });
 
+  describe('expiration on read', () => {
+    const now = 1234567890;
+
+    beforeEach(() => {
+      dynamoDB = new DynamoDB(
+        ddbMock as unknown as DynamoDBDocumentClient,
+        tableName,
+        { now: () => now * 1000 }
+      );
+    });
+
+    it('should return the value when it has not expired yet', async () => {
+      ddbMock.on(GetCommand).resolves({
+        Item: { key: 'testKey', value: 'testValue', expiresAt: now + 1 },
+      });
+
+      expect(await dynamoDB.get('testKey')).toBe('testValue');
+    });
+
+    it('should return null when the item has expired', async () => {
+      ddbMock.on(GetCommand).resolves({
+        Item: { key: 'testKey', value: 'testValue', expiresAt: now },
+      });
+
+      expect(await dynamoDB.get('testKey')).toBeNull();
+      expect(await dynamoDB.getWithMetadata('testKey')).toEqual({
+        value: null,
+        metadata: null,
+        cacheStatus: null,
+      });
+      expect(ddbMock.commandCalls(DeleteCommand)).toHaveLength(0);
+    });
+
+    it('should delete the expired item when deleteExpiredOnRead is enabled', async () => {
+      dynamoDB = new DynamoDB(
+        ddbMock as unknown as DynamoDBDocumentClient,
+        tableName,
+        { now: () => now * 1000, deleteExpiredOnRead: true }
+      );
+      ddbMock.on(GetCommand).resolves({
+        Item: { key: 'testKey', value: 'testValue', expiresAt: now - 1 },
+      });
+      ddbMock.on(DeleteCommand).resolves({});
+
+      expect(await dynamoDB.get('testKey')).toBeNull();
+
+      const deleteCalls = ddbMock.commandCalls(DeleteCommand);
+      expect(deleteCalls).toHaveLength(1);
+      expect(deleteCalls[0].args[0].input).toEqual({
+        TableName: tableName,
+        Key: { key: 'testKey' },
+        ConditionExpression: '#expiresAt = :expiresAt',
+        ExpressionAttributeNames: { '#expiresAt': 'expiresAt' },
+        ExpressionAttributeValues: { ':expiresAt': now - 1 },
+      });
+    });
+
+    it('should still return null when deleting the expired item fails', async () => {
+      dynamoDB = new DynamoDB(
+        ddbMock as unknown as DynamoDBDocumentClient,
+        tableName,
+        { now: () => now * 1000, deleteExpiredOnRead: true }
+      );
+      ddbMock.on(GetCommand).resolves({
+        Item: { key: 'testKey', value: 'testValue', expiresAt: now - 1 },
+      });
+      ddbMock.on(DeleteCommand).rejects(new Error('DynamoDB Error'));
+
+      expect(await dynamoDB.get('testKey')).toBeNull();
+    });
+
+    it('should use the injected clock for expirationTtl', async () => {
+      ddbMock.on(PutCommand).resolves({});
+
+      await dynamoDB.put('testKey', 'testValue', { expirationTtl: 60 });
+
+      expect(ddbMock.call(0).args[0].input).toMatchObject({
+        Item: { expiresAt: now + 60 },
+      });
+    });
+
+    it('should exclude expired items when listing', async () => {
+      ddbMock.on(ScanCommand).resolves({ Items: [] });
+
+      await dynamoDB.list();
+
+      expect(ddbMock.call(0).args[0].input).toMatchObject({
+        FilterExpression:
+          '(attribute_not_exists(#expiresAt) OR #expiresAt > :now)',
+        ExpressionAttributeValues: { ':now': now },
+      });
+    });
+  });
+
+  describe('getWithMetadata', () => {
+    it('should retrieve a value with its metadata', async () => {
+      ddbMock.on(GetCommand).resolves({
+        Item: { key: 'testKey', value: '{"a":1}', metadata: { m: 'x' } },
+      });
+
+      const result = await dynamoDB.getWithMetadata('testKey', 'json');
+      expect(result).toEqual({
+        value: { a: 1 },
+        metadata: { m: 'x' },
+        cacheStatus: null,
+      });
+    });
+
+    it('should return null metadata when none is stored', async () => {
+      ddbMock.on(GetCommand).resolves({
+        Item: { key: 'testKey', value: 'testValue' },
+      });
+
+      const result = await dynamoDB.getWithMetadata('testKey');
+      expect(result).toEqual({
+        value: 'testValue',
+        metadata: null,
+        cacheStatus: null,
+      });
+    });
+
+    it('should return null value and metadata when key does not exist', async () => {
+      ddbMock.on(GetCommand).resolves({});
+
+      const result = await dynamoDB.getWithMetadata('nonexistentKey');
+      expect(result).toEqual({
+        value: null,
+        metadata: null,
+        cacheStatus: null,
+      });
+    });
+  });
+
   describe('put', () => {
     it('should successfully save a value', async () => {
       ddbMock.on(PutCommand).resolves({});
@@ -88,6 +283,41 @@ describe('DynamoDB', () => {
       });
     });
 
+    it('should save a value with absolute expiration', async () => {
+      ddbMock.on(PutCommand).resolves({});
+
+      await dynamoDB.put('testKey', 'testValue', {
+        expiration: 1234567890,
+        expirationTtl: 3600,
+      });
+
+      const putCall = ddbMock.call(0);
+      expect(putCall.args[0].input).toEqual({
+        TableName: tableName,
+        Item: {
+          key: 'testKey',
+          value: 'testValue',
+          expiresAt: 1234567890,
+        },
+      });
+    });
+
+    it('should save a value with metadata', async () => {
+      ddbMock.on(PutCommand).resolves({});
+
+      await dynamoDB.put('testKey', 'testValue', { metadata: { m: 'x' } });
+
+      const putCall = ddbMock.call(0);
+      expect(putCall.args[0].input).toEqual({
+        TableName: tableName,
+        Item: {
+          key: 'testKey',
+          value: 'testValue',
+          metadata: { m: 'x' },
+        },
+      });
+    });
+
     it('should throw an error when DynamoDB operation fails', async () => {
       ddbMock.on(PutCommand).rejects(new Error('DynamoDB Error'));
 
@@ -119,4 +349,936 @@ describe('DynamoDB', () => {
       );
     });
   });
+
+  describe('logger', () => {
+    it('should report failures to the injected logger', async () => {
+      const logger = { warn: vi.fn(), error: vi.fn() };
+      dynamoDB = new DynamoDB(
+        ddbMock as unknown as DynamoDBDocumentClient,
+        tableName,
+        { logger }
+      );
+      const error = new Error('DynamoDB Error');
+      ddbMock.on(GetCommand).rejects(error);
+
+      await expect(dynamoDB.get('testKey')).rejects.toThrow('DynamoDB Error');
+      expect(logger.error).toHaveBeenCalledWith(
+        'Error in DynamoDB get:',
+        error
+      );
+    });
+  });
+
+  describe('retry', () => {
+    const throttled = () => {
+      const error = new Error('Rate exceeded');
+      error.name = 'ProvisionedThroughputExceededException';
+
+      return error;
+    };
+
+    beforeEach(() => {
+      dynamoDB = new DynamoDB(
+        ddbMock as unknown as DynamoDBDocumentClient,
+        tableName,
+        {
+          logger: { warn: vi.fn(), error: vi.fn() },
+          retry: { maxAttempts: 3, sleep: async () => {} },
+        }
+      );
+    });
+
+    it('should retry throttled requests', async () => {
+      ddbMock
+        .on(PutCommand)
+        .rejectsOnce(throttled())
+        .rejectsOnce(throttled())
+        .resolves({});
+
+      await expect(dynamoDB.put('testKey', 'testValue')).resolves.not.toThrow();
+      expect(ddbMock.commandCalls(PutCommand)).toHaveLength(3);
+    });
+
+    it('should throw the last error when attempts are exhausted', async () => {
+      ddbMock.on(GetCommand).rejects(throttled());
+
+      await expect(dynamoDB.get('testKey')).rejects.toThrow('Rate exceeded');
+      expect(ddbMock.commandCalls(GetCommand)).toHaveLength(3);
+    });
+
+    it('should not retry errors that are not transient', async () => {
+      ddbMock.on(GetCommand).rejects(new Error('DynamoDB Error'));
+
+      await expect(dynamoDB.get('testKey')).rejects.toThrow('DynamoDB Error');
+      expect(ddbMock.commandCalls(GetCommand)).toHaveLength(1);
+    });
+
+    it('should not retry a failed condition', async () => {
+      const error = new Error('The conditional request failed');
+      error.name = 'ConditionalCheckFailedException';
+      ddbMock.on(PutCommand).rejects(error);
+
+      expect(await dynamoDB.putIfAbsent('testKey', 'testValue')).toBe(
+        'already_exists'
+      );
+      expect(ddbMock.commandCalls(PutCommand)).toHaveLength(1);
+    });
+
+    describe('when the response of a write may have been lost', () => {
+      const lostResponse = () => {
+        const error = new Error('socket hang up');
+        error.name = 'ECONNRESET';
+
+        return error;
+      };
+
+      it('should not resend a take, whose value would be lost', async () => {
+        ddbMock.on(DeleteCommand).rejectsOnce(lostResponse()).resolves({});
+
+        await expect(dynamoDB.take('testKey')).rejects.toThrow(
+          'socket hang up'
+        );
+        expect(ddbMock.commandCalls(DeleteCommand)).toHaveLength(1);
+      });
+
+      it('should not resend putIfAbsent, which would report already_exists', async () => {
+        const conditionFailed = new Error('The conditional request failed');
+        conditionFailed.name = 'ConditionalCheckFailedException';
+        ddbMock
+          .on(PutCommand)
+          .rejectsOnce(lostResponse())
+          .rejects(conditionFailed);
+
+        await expect(
+          dynamoDB.putIfAbsent('testKey', 'testValue')
+        ).rejects.toThrow('socket hang up');
+        expect(ddbMock.commandCalls(PutCommand)).toHaveLength(1);
+      });
+
+      it('should not resend compareAndSet, which would report a conflict', async () => {
+        ddbMock.on(PutCommand).rejectsOnce(lostResponse()).resolves({});
+
+        await expect(
+          dynamoDB.compareAndSet('testKey', 1, 'testValue')
+        ).rejects.toThrow('socket hang up');
+        expect(ddbMock.commandCalls(PutCommand)).toHaveLength(1);
+      });
+
+      it('should still resend a plain put', async () => {
+        ddbMock.on(PutCommand).rejectsOnce(lostResponse()).resolves({});
+
+        await dynamoDB.put('testKey', 'testValue');
+        expect(ddbMock.commandCalls(PutCommand)).toHaveLength(2);
+      });
+    });
+
+    it('should retry a throttled take, which was not applied', async () => {
+      ddbMock
+        .on(DeleteCommand)
+        .rejectsOnce(throttled())
+        .resolves({ Attributes: { key: 'testKey', value: 'testValue' } });
+
+      expect(await dynamoDB.take('testKey')).toBe('testValue');
+      expect(ddbMock.commandCalls(DeleteCommand)).toHaveLength(2);
+    });
+  });
+
+  describe('take', () => {
+    it('should delete the item and return its value', async () => {
+      ddbMock.on(DeleteCommand).resolves({
+        Attributes: { key: 'testKey', value: 'testValue' },
+      });
+
+      expect(await dynamoDB.take('testKey')).toBe('testValue');
+      expect(ddbMock.call(0).args[0].input).toEqual({
+        TableName: tableName,
+        Key: { key: 'testKey' },
+        ReturnValues: 'ALL_OLD',
+      });
+    });
+
+    it('should return null when key does not exist', async () => {
+      ddbMock.on(DeleteCommand).resolves({});
+
+      expect(await dynamoDB.take('nonexistentKey')).toBeNull();
+    });
+
+    it('should return null when the deleted item had expired', async () => {
+      dynamoDB = new DynamoDB(
+        ddbMock as unknown as DynamoDBDocumentClient,
+        tableName,
+        { now: () => 1000 * 1000 }
+      );
+      ddbMock.on(DeleteCommand).resolves({
+        Attributes: { key: 'testKey', value: 'testValue', expiresAt: 1000 },
+      });
+
+      expect(await dynamoDB.take('testKey')).toBeNull();
+    });
+
+    it('should throw an error when DynamoDB operation fails', async () => {
+      ddbMock.on(DeleteCommand).rejects(new Error('DynamoDB Error'));
+
+      await expect(dynamoDB.take('testKey')).rejects.toThrow('DynamoDB Error');
+    });
+  });
+
+  describe('putIfAbsent', () => {
+    it('should put the item with a condition on absence or expiry', async () => {
+      dynamoDB = new DynamoDB(
+        ddbMock as unknown as DynamoDBDocumentClient,
+        tableName,
+        { now: () => 1000 * 1000 }
+      );
+      ddbMock.on(PutCommand).resolves({});
+
+      const outcome = await dynamoDB.putIfAbsent('testKey', 'testValue', {
+        expirationTtl: 60,
+      });
+
+      expect(outcome).toBe('created');
+      expect(ddbMock.call(0).args[0].input).toEqual({
+        TableName: tableName,
+        Item: { key: 'testKey', value: 'testValue', expiresAt: 1060 },
+        ConditionExpression: 'attribute_not_exists(#key) OR #expiresAt <= :now',
+        ExpressionAttributeNames: { '#key': 'key', '#expiresAt': 'expiresAt' },
+        ExpressionAttributeValues: { ':now': 1000 },
+      });
+    });
+
+    it('should report already_exists when the condition fails', async () => {
+      const error = new Error('The conditional request failed');
+      error.name = 'ConditionalCheckFailedException';
+      ddbMock.on(PutCommand).rejects(error);
+
+      expect(await dynamoDB.putIfAbsent('testKey', 'testValue')).toBe(
+        'already_exists'
+      );
+    });
+
+    it('should throw an error when DynamoDB operation fails', async () => {
+      ddbMock.on(PutCommand).rejects(new Error('DynamoDB Error'));
+
+      await expect(
+        dynamoDB.putIfAbsent('testKey', 'testValue')
+      ).rejects.toThrow('DynamoDB Error');
+    });
+  });
+
+  describe('optimistic concurrency', () => {
+    const conditionFailed = () => {
+      const error = new Error('The conditional request failed');
+      error.name = 'ConditionalCheckFailedException';
+
+      return error;
+    };
+
+    beforeEach(() => {
+      dynamoDB = new DynamoDB(
+        ddbMock as unknown as DynamoDBDocumentClient,
+        tableName,
+        { now: () => 1000 * 1000 }
+      );
+    });
+
+    describe('getVersioned', () => {
+      it('should return the value and version', async () => {
+        ddbMock.on(GetCommand).resolves({
+          Item: { key: 'testKey', value: 'testValue', version: 3 },
+        });
+
+        expect(await dynamoDB.getVersioned('testKey')).toEqual({
+          value: 'testValue',
+          version: 3,
+        });
+      });
+
+      it('should return version 0 for an unversioned item', async () => {
+        ddbMock.on(GetCommand).resolves({
+          Item: { key: 'testKey', value: 'testValue' },
+        });
+
+        expect(await dynamoDB.getVersioned('testKey')).toEqual({
+          value: 'testValue',
+          version: 0,
+        });
+      });
+
+      it('should return null when key does not exist', async () => {
+        ddbMock.on(GetCommand).resolves({});
+
+        expect(await dynamoDB.getVersioned('testKey')).toBeNull();
+      });
+    });
+
+    describe('compareAndSet', () => {
+      it('should write the next version when the expected version matches', async () => {
+        ddbMock.on(PutCommand).resolves({});
+
+        const version = await dynamoDB.compareAndSet('testKey', 3, 'next');
+
+        expect(version).toBe(4);
+        expect(ddbMock.call(0).args[0].input).toEqual({
+          TableName: tableName,
+          Item: { key: 'testKey', value: 'next', version: 4 },
+          ConditionExpression:
+            '#version = :expectedVersion AND (attribute_not_exists(#expiresAt) OR #expiresAt > :now)',
+          ExpressionAttributeNames: {
+            '#expiresAt': 'expiresAt',
+            '#version': 'version',
+          },
+          ExpressionAttributeValues: { ':now': 1000, ':expectedVersion': 3 },
+        });
+      });
+
+      it('should require an unversioned item when the expected version is 0', async () => {
+        ddbMock.on(PutCommand).resolves({});
+
+        expect(await dynamoDB.compareAndSet('testKey', 0, 'next')).toBe(1);
+        expect(ddbMock.call(0).args[0].input).toMatchObject({
+          ConditionExpression:
+            'attribute_exists(#key) AND attribute_not_exists(#version) AND (attribute_not_exists(#expiresAt) OR #expiresAt > :now)',
+        });
+      });
+
+      it('should require an absent or expired item when the expected version is null', async () => {
+        ddbMock.on(PutCommand).resolves({});
+
+        expect(await dynamoDB.compareAndSet('testKey', null, 'first')).toBe(1);
+        expect(ddbMock.call(0).args[0].input).toMatchObject({
+          Item: { key: 'testKey', value: 'first', version: 1 },
+          ConditionExpression:
+            'attribute_not_exists(#key) OR #expiresAt <= :now',
+          ExpressionAttributeNames: {
+            '#key': 'key',
+            '#expiresAt': 'expiresAt',
+          },
+        });
+      });
+
+      it('should throw a conflict error when the version has changed', async () => {
+        ddbMock.on(PutCommand).rejects(conditionFailed());
+
+        await expect(
+          dynamoDB.compareAndSet('testKey', 3, 'next')
+        ).rejects.toBeInstanceOf(StorageVersionConflictError);
+      });
+    });
+
+    describe('update', () => {
+      it('should apply the function to the current value', async () => {
+        ddbMock.on(GetCommand).resolves({
+          Item: { key: 'testKey', value: '1', version: 1 },
+        });
+        ddbMock.on(PutCommand).resolves({});
+
+        const result = await dynamoDB.update('testKey', (current) =>
+          String(Number(current) + 1)
+        );
+
+        expect(result).toEqual({ value: '2', version: 2 });
+      });
+
+      it('should retry after a conflict', async () => {
+        ddbMock
+          .on(GetCommand)
+          .resolvesOnce({ Item: { key: 'testKey', value: '1', version: 1 } })
+          .resolvesOnce({ Item: { key: 'testKey', value: '5', version: 2 } });
+        ddbMock.on(PutCommand).rejectsOnce(conditionFailed()).resolves({});
+        const f = vi.fn((current: string | null) =>
+          String(Number(current) + 1)
+        );
+
+        const result = await dynamoDB.update('testKey', f);
+
+        expect(f.mock.calls).toEqual([['1'], ['5']]);
+        expect(result).toEqual({ value: '6', version: 3 });
+      });
+
+      it('should create the item when it does not exist', async () => {
+        ddbMock.on(GetCommand).resolves({});
+        ddbMock.on(PutCommand).resolves({});
+
+        const result = await dynamoDB.update(
+          'testKey',
+          (current) => current ?? 'initial',
+          { expirationTtl: 60 }
+        );
+
+        expect(result).toEqual({ value: 'initial', version: 1 });
+        expect(ddbMock.commandCalls(PutCommand)[0].args[0].input.Item).toEqual({
+          key: 'testKey',
+          value: 'initial',
+          expiresAt: 1060,
+          version: 1,
+        });
+      });
+
+      it('should give up after maxAttempts conflicts', async () => {
+        ddbMock.on(GetCommand).resolves({
+          Item: { key: 'testKey', value: '1', version: 1 },
+        });
+        ddbMock.on(PutCommand).rejects(conditionFailed());
+
+        await expect(
+          dynamoDB.update('testKey', () => 'next', { maxAttempts: 2 })
+        ).rejects.toBeInstanceOf(StorageVersionConflictError);
+        expect(ddbMock.commandCalls(PutCommand)).toHaveLength(2);
+      });
+    });
+  });
+
+  describe('getMany', () => {
+    it('should retrieve several values in one request', async () => {
+      ddbMock.on(BatchGetCommand).resolves({
+        Responses: {
+          [tableName]: [
+            { key: 'a', value: '1' },
+            { key: 'b', value: '2' },
+          ],
+        },
+      });
+
+      const result = await dynamoDB.getMany(['a', 'b', 'c', 'a']);
+
+      expect(ddbMock.call(0).args[0].input).toEqual({
+        RequestItems: {
+          [tableName]: { Keys: [{ key: 'a' }, { key: 'b' }, { key: 'c' }] },
+        },
+      });
+      expect(result.get('a')?.value).toBe('1');
+      expect(result.get('b')?.value).toBe('2');
+      expect(result.get('c')?.isSuccess()).toBe(true);
+      expect(result.get('c')?.value).toBeNull();
+    });
+
+    it('should chunk keys into requests of at most 100', async () => {
+      ddbMock.on(BatchGetCommand).resolves({ Responses: { [tableName]: [] } });
+      const keys = Array.from({ length: 250 }, (_, i) => `key${i}`);
+
+      const result = await dynamoDB.getMany(keys);
+
+      const calls = ddbMock.commandCalls(BatchGetCommand);
+      expect(
+        calls.map((c) => c.args[0].input.RequestItems![tableName].Keys!.length)
+      ).toEqual([100, 100, 50]);
+      expect(result.size).toBe(250);
+    });
+
+    it('should treat expired items as absent', async () => {
+      dynamoDB = new DynamoDB(
+        ddbMock as unknown as DynamoDBDocumentClient,
+        tableName,
+        { now: () => 1000 * 1000 }
+      );
+      ddbMock.on(BatchGetCommand).resolves({
+        Responses: { [tableName]: [{ key: 'a', value: '1', expiresAt: 1000 }] },
+      });
+
+      const result = await dynamoDB.getMany(['a']);
+
+      expect(result.get('a')?.value).toBeNull();
+    });
+
+    it('should retry unprocessed keys with backoff', async () => {
+      const sleep = vi.fn().mockResolvedValue(undefined);
+      dynamoDB = new DynamoDB(
+        ddbMock as unknown as DynamoDBDocumentClient,
+        tableName,
+        { retry: { sleep, baseDelayMs: 10, jitter: false } }
+      );
+      ddbMock
+        .on(BatchGetCommand)
+        .resolvesOnce({
+          Responses: { [tableName]: [{ key: 'a', value: '1' }] },
+          UnprocessedKeys: { [tableName]: { Keys: [{ key: 'b' }] } },
+        })
+        .resolvesOnce({
+          Responses: { [tableName]: [{ key: 'b', value: '2' }] },
+        });
+
+      const result = await dynamoDB.getMany(['a', 'b']);
+
+      expect(ddbMock.call(1).args[0].input).toEqual({
+        RequestItems: { [tableName]: { Keys: [{ key: 'b' }] } },
+      });
+      expect(sleep).toHaveBeenCalledWith(10);
+      expect(result.get('a')?.value).toBe('1');
+      expect(result.get('b')?.value).toBe('2');
+    });
+
+    it('should report keys still unprocessed after the last attempt as throttled', async () => {
+      dynamoDB = new DynamoDB(
+        ddbMock as unknown as DynamoDBDocumentClient,
+        tableName,
+        { retry: { maxAttempts: 2, sleep: async () => {} } }
+      );
+      ddbMock.on(BatchGetCommand).resolves({
+        UnprocessedKeys: { [tableName]: { Keys: [{ key: 'a' }] } },
+      });
+
+      const result = await dynamoDB.getMany(['a']);
+
+      expect(ddbMock.commandCalls(BatchGetCommand)).toHaveLength(2);
+      expect(result.get('a')?.error).toBeInstanceOf(StorageThrottledError);
+    });
+
+    it('should report a failed request as a failure of each key', async () => {
+      ddbMock.on(BatchGetCommand).rejects(new Error('DynamoDB Error'));
+
+      const result = await dynamoDB.getMany(['a', 'b']);
+
+      expect(result.get('a')?.error?.message).toBe('DynamoDB Error');
+      expect(result.get('b')?.error).toBeInstanceOf(StorageError);
+    });
+  });
+
+  describe('putMany', () => {
+    it('should put several values with their TTL and metadata', async () => {
+      vi.spyOn(Date, 'now').mockImplementation(() => 1000 * 1000);
+      ddbMock.on(BatchWriteCommand).resolves({});
+
+      const result = await dynamoDB.putMany([
+        { key: 'a', value: '1', options: { expirationTtl: 60 } },
+        { key: 'b', value: '2', options: { metadata: { m: 1 } } },
+      ]);
+
+      expect(ddbMock.call(0).args[0].input).toEqual({
+        RequestItems: {
+          [tableName]: [
+            { PutRequest: { Item: { key: 'a', value: '1', expiresAt: 1060 } } },
+            {
+              PutRequest: {
+                Item: { key: 'b', value: '2', metadata: { m: 1 } },
+              },
+            },
+          ],
+        },
+      });
+      expect(result.get('a')?.isSuccess()).toBe(true);
+      expect(result.get('b')?.isSuccess()).toBe(true);
+    });
+
+    it('should keep the last entry for duplicate keys', async () => {
+      ddbMock.on(BatchWriteCommand).resolves({});
+
+      await dynamoDB.putMany([
+        { key: 'a', value: '1' },
+        { key: 'a', value: '2' },
+      ]);
+
+      expect(ddbMock.call(0).args[0].input).toEqual({
+        RequestItems: {
+          [tableName]: [{ PutRequest: { Item: { key: 'a', value: '2' } } }],
+        },
+      });
+    });
+
+    it('should chunk entries into requests of at most 25', async () => {
+      ddbMock.on(BatchWriteCommand).resolves({});
+      const entries = Array.from({ length: 60 }, (_, i) => ({
+        key: `key${i}`,
+        value: `${i}`,
+      }));
+
+      const result = await dynamoDB.putMany(entries);
+
+      const calls = ddbMock.commandCalls(BatchWriteCommand);
+      expect(
+        calls.map((c) => c.args[0].input.RequestItems![tableName].length)
+      ).toEqual([25, 25, 10]);
+      expect(result.size).toBe(60);
+    });
+
+    it('should retry unprocessed items', async () => {
+      dynamoDB = new DynamoDB(
+        ddbMock as unknown as DynamoDBDocumentClient,
+        tableName,
+        { retry: { sleep: async () => {} } }
+      );
+      ddbMock
+        .on(BatchWriteCommand)
+        .resolvesOnce({
+          UnprocessedItems: {
+            [tableName]: [{ PutRequest: { Item: { key: 'b', value: '2' } } }],
+          },
+        })
+        .resolvesOnce({});
+
+      const result = await dynamoDB.putMany([
+        { key: 'a', value: '1' },
+        { key: 'b', value: '2' },
+      ]);
+
+      expect(ddbMock.call(1).args[0].input).toEqual({
+        RequestItems: {
+          [tableName]: [{ PutRequest: { Item: { key: 'b', value: '2' } } }],
+        },
+      });
+      expect(result.get('a')?.isSuccess()).toBe(true);
+      expect(result.get('b')?.isSuccess()).toBe(true);
+    });
+  });
+
+  describe('deleteMany', () => {
+    it('should delete several items', async () => {
+      ddbMock.on(BatchWriteCommand).resolves({});
+
+      const result = await dynamoDB.deleteMany(['a', 'b', 'a']);
+
+      expect(ddbMock.call(0).args[0].input).toEqual({
+        RequestItems: {
+          [tableName]: [
+            { DeleteRequest: { Key: { key: 'a' } } },
+            { DeleteRequest: { Key: { key: 'b' } } },
+          ],
+        },
+      });
+      expect([...result.keys()]).toEqual(['a', 'b']);
+    });
+
+    it('should report unprocessed items after the last attempt as throttled', async () => {
+      dynamoDB = new DynamoDB(
+        ddbMock as unknown as DynamoDBDocumentClient,
+        tableName,
+        { retry: { maxAttempts: 1 } }
+      );
+      ddbMock.on(BatchWriteCommand).resolves({
+        UnprocessedItems: {
+          [tableName]: [{ DeleteRequest: { Key: { key: 'b' } } }],
+        },
+      });
+
+      const result = await dynamoDB.deleteMany(['a', 'b']);
+
+      expect(result.get('a')?.isSuccess()).toBe(true);
+      expect(result.get('b')?.error).toBeInstanceOf(StorageThrottledError);
+    });
+
+    it('should report a failed request as a failure of each key', async () => {
+      ddbMock.on(BatchWriteCommand).rejects(new Error('DynamoDB Error'));
+
+      const result = await dynamoDB.deleteMany(['a']);
+
+      expect(result.get('a')?.error?.message).toBe('DynamoDB Error');
+    });
+  });
+
+  describe('list', () => {
+    it('should list keys with expiration and metadata', async () => {
+      ddbMock.on(ScanCommand).resolves({
+        Items: [{ key: 'a', expiresAt: 100, metadata: { m: 1 } }, { key: 'b' }],
+      });
+
+      const result = await dynamoDB.list();
+      expect(result).toEqual({
+        keys: [
+          { name: 'a', expiration: 100, metadata: { m: 1 } },
+          { name: 'b' },
+        ],
+        list_complete: true,
+        cacheStatus: null,
+      });
+      expect(ddbMock.call(0).args[0].input).toMatchObject({
+        TableName: tableName,
+        Limit: 1000,
+      });
+    });
+
+    it('should filter keys by prefix', async () => {
+      ddbMock.on(ScanCommand).resolves({ Items: [{ key: 'p:a' }] });
+
+      await dynamoDB.list({ prefix: 'p:' });
+
+      expect(ddbMock.call(0).args[0].input).toMatchObject({
+        FilterExpression:
+          '(attribute_not_exists(#expiresAt) OR #expiresAt > :now) AND begins_with(#key, :prefix)',
+        ExpressionAttributeValues: { ':prefix': 'p:' },
+      });
+    });
+
+    it('should keep scanning until the limit is reached', async () => {
+      ddbMock
+        .on(ScanCommand)
+        .resolvesOnce({ Items: [{ key: 'a' }], LastEvaluatedKey: { key: 'a' } })
+        .resolvesOnce({
+          Items: [{ key: 'b' }],
+          LastEvaluatedKey: { key: 'b' },
+        });
+
+      const result = await dynamoDB.list({ limit: 2 });
+
+      expect(ddbMock.calls()).toHaveLength(2);
+      expect(ddbMock.call(1).args[0].input).toMatchObject({
+        Limit: 1,
+        ExclusiveStartKey: { key: 'a' },
+      });
+      expect(result.keys).toEqual([{ name: 'a' }, { name: 'b' }]);
+      expect(result.list_complete).toBe(false);
+    });
+
+    it('should resume from a cursor', async () => {
+      ddbMock
+        .on(ScanCommand)
+        .resolvesOnce({ Items: [{ key: 'a' }], LastEvaluatedKey: { key: 'a' } })
+        .resolvesOnce({ Items: [{ key: 'b' }] });
+
+      const first = await dynamoDB.list({ limit: 1 });
+      expect(first.list_complete).toBe(false);
+
+      const cursor = first.list_complete ? undefined : first.cursor;
+      const second = await dynamoDB.list({ limit: 1, cursor });
+
+      expect(ddbMock.call(1).args[0].input).toMatchObject({
+        ExclusiveStartKey: { key: 'a' },
+      });
+      expect(second).toEqual({
+        keys: [{ name: 'b' }],
+        list_complete: true,
+        cacheStatus: null,
+      });
+    });
+
+    it('should throw an error when DynamoDB operation fails', async () => {
+      ddbMock.on(ScanCommand).rejects(new Error('DynamoDB Error'));
+
+      await expect(dynamoDB.list()).rejects.toThrow('DynamoDB Error');
+    });
+  });
+
+  describe('table schema', () => {
+    beforeEach(() => {
+      dynamoDB = new DynamoDB(
+        ddbMock as unknown as DynamoDBDocumentClient,
+        tableName,
+        {
+          attributeNames: {
+            key: 'pk',
+            value: 'data',
+            expiresAt: 'ttl',
+            metadata: 'meta',
+            version: 'rev',
+          },
+          sortKey: { name: 'sk', value: 'kv' },
+          now: () => 1000_000,
+        }
+      );
+    });
+
+    it('should write items using the configured attribute names', async () => {
+      ddbMock.on(PutCommand).resolves({});
+
+      await dynamoDB.put('testKey', 'testValue', {
+        expiration: 2000,
+        metadata: { m: 1 },
+      });
+
+      expect(ddbMock.call(0).args[0].input).toEqual({
+        TableName: tableName,
+        Item: {
+          pk: 'testKey',
+          sk: 'kv',
+          data: 'testValue',
+          ttl: 2000,
+          meta: { m: 1 },
+        },
+      });
+    });
+
+    it('should read items using the configured attribute names', async () => {
+      ddbMock.on(GetCommand).resolves({
+        Item: { pk: 'testKey', sk: 'kv', data: 'testValue', meta: { m: 1 } },
+      });
+
+      const result = await dynamoDB.getWithMetadata('testKey');
+
+      expect(result).toEqual({
+        value: 'testValue',
+        metadata: { m: 1 },
+        cacheStatus: null,
+      });
+      expect(ddbMock.call(0).args[0].input).toEqual({
+        TableName: tableName,
+        Key: { pk: 'testKey', sk: 'kv' },
+      });
+    });
+
+    it('should treat items past the configured TTL attribute as absent', async () => {
+      ddbMock.on(GetCommand).resolves({
+        Item: { pk: 'testKey', sk: 'kv', data: 'testValue', ttl: 999 },
+      });
+
+      expect(await dynamoDB.get('testKey')).toBeNull();
+    });
+
+    it('should reference the configured attribute names in conditions', async () => {
+      ddbMock.on(PutCommand).resolves({});
+
+      await dynamoDB.compareAndSet('testKey', 1, 'testValue');
+
+      expect(ddbMock.call(0).args[0].input).toMatchObject({
+        Item: { pk: 'testKey', sk: 'kv', data: 'testValue', rev: 2 },
+        ExpressionAttributeNames: { '#expiresAt': 'ttl', '#version': 'rev' },
+      });
+    });
+
+    it('should filter listed keys by the sort key', async () => {
+      ddbMock.on(ScanCommand).resolves({
+        Items: [{ pk: 'a', sk: 'kv', ttl: 2000, meta: { m: 1 } }],
+      });
+
+      const result = await dynamoDB.list();
+
+      expect(result.keys).toEqual([
+        { name: 'a', expiration: 2000, metadata: { m: 1 } },
+      ]);
+      expect(ddbMock.call(0).args[0].input).toMatchObject({
+        FilterExpression:
+          '(attribute_not_exists(#expiresAt) OR #expiresAt > :now) AND #sortKey = :sortKey',
+        ExpressionAttributeNames: {
+          '#key': 'pk',
+          '#expiresAt': 'ttl',
+          '#metadata': 'meta',
+          '#sortKey': 'sk',
+        },
+        ExpressionAttributeValues: { ':sortKey': 'kv' },
+      });
+    });
+
+    it('should use the configured key attributes in batch requests', async () => {
+      ddbMock.on(BatchGetCommand).resolves({
+        Responses: { [tableName]: [{ pk: 'a', sk: 'kv', data: 'A' }] },
+      });
+
+      const result = await dynamoDB.getMany(['a', 'b']);
+
+      expect(result.get('a')?.value).toBe('A');
+      expect(result.get('b')?.value).toBeNull();
+      expect(ddbMock.call(0).args[0].input).toEqual({
+        RequestItems: {
+          [tableName]: {
+            Keys: [
+              { pk: 'a', sk: 'kv' },
+              { pk: 'b', sk: 'kv' },
+            ],
+          },
+        },
+      });
+    });
+  });
+
+  describe('namespace', () => {
+    beforeEach(() => {
+      dynamoDB = new DynamoDB(
+        ddbMock as unknown as DynamoDBDocumentClient,
+        tableName,
+        { namespace: 'vp-session' }
+      );
+    });
+
+    it('should prefix stored keys with the namespace', async () => {
+      ddbMock.on(PutCommand).resolves({});
+      ddbMock.on(DeleteCommand).resolves({});
+
+      await dynamoDB.put('testKey', 'testValue');
+      await dynamoDB.delete('testKey');
+
+      expect(ddbMock.call(0).args[0].input).toEqual({
+        TableName: tableName,
+        Item: { key: 'vp-session:testKey', value: 'testValue' },
+      });
+      expect(ddbMock.call(1).args[0].input).toEqual({
+        TableName: tableName,
+        Key: { key: 'vp-session:testKey' },
+      });
+    });
+
+    it('should look up keys within the namespace', async () => {
+      ddbMock
+        .on(GetCommand, { Key: { key: 'vp-session:testKey' } })
+        .resolves({ Item: { key: 'vp-session:testKey', value: 'testValue' } });
+
+      expect(await dynamoDB.get('testKey')).toBe('testValue');
+    });
+
+    it('should list only keys within the namespace, without the namespace', async () => {
+      ddbMock.on(ScanCommand).resolves({
+        Items: [{ key: 'vp-session:p:a' }],
+      });
+
+      const result = await dynamoDB.list({ prefix: 'p:' });
+
+      expect(result.keys).toEqual([{ name: 'p:a' }]);
+      expect(ddbMock.call(0).args[0].input).toMatchObject({
+        ExpressionAttributeValues: { ':prefix': 'vp-session:p:' },
+      });
+    });
+
+    it('should restrict listing to the namespace without a prefix', async () => {
+      ddbMock.on(ScanCommand).resolves({ Items: [] });
+
+      await dynamoDB.list();
+
+      expect(ddbMock.call(0).args[0].input).toMatchObject({
+        ExpressionAttributeValues: { ':prefix': 'vp-session:' },
+      });
+    });
+
+    it('should report unprocessed batch keys without the namespace', async () => {
+      ddbMock
+        .on(BatchWriteCommand)
+        .resolvesOnce({
+          UnprocessedItems: {
+            [tableName]: [
+              { DeleteRequest: { Key: { key: 'vp-session:testKey' } } },
+            ],
+          },
+        })
+        .resolvesOnce({});
+      dynamoDB = new DynamoDB(
+        ddbMock as unknown as DynamoDBDocumentClient,
+        tableName,
+        { namespace: 'vp-session', retry: { baseDelayMs: 0 } }
+      );
+
+      const result = await dynamoDB.deleteMany(['testKey']);
+
+      expect(result.get('testKey')?.isSuccess()).toBe(true);
+      expect(ddbMock.call(1).args[0].input).toEqual({
+        RequestItems: {
+          [tableName]: [
+            { DeleteRequest: { Key: { key: 'vp-session:testKey' } } },
+          ],
+        },
+      });
+    });
+
+    describe('withNamespace', () => {
+      it('should derive an instance scoped to a nested namespace', async () => {
+        ddbMock.on(PutCommand).resolves({});
+
+        await dynamoDB.withNamespace('tenant').put('testKey', 'testValue');
+
+        expect(ddbMock.call(0).args[0].input).toEqual({
+          TableName: tableName,
+          Item: { key: 'vp-session:tenant:testKey', value: 'testValue' },
+        });
+      });
+
+      it('should derive a scoped instance from an unscoped one', async () => {
+        ddbMock.on(GetCommand).resolves({});
+
+        const scoped = new DynamoDB(
+          ddbMock as unknown as DynamoDBDocumentClient,
+          tableName
+        ).withNamespace('vci-offer');
+        await scoped.get('testKey');
+
+        expect(ddbMock.call(0).args[0].input).toEqual({
+          TableName: tableName,
+          Key: { key: 'vci-offer:testKey' },
+        });
+      });
+    });
+  });
 });
@@ -0,0 +1,145 @@
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  DeleteCommand,
+  ScanCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DynamoDB } from '../DynamoDB';
+import { SafeDynamoDB } from '../SafeDynamoDB';
+import {
+  StorageThrottledError,
+  StorageValidationError,
+  StorageVersionConflictError,
+} from '../../storage/StorageError';
+
+describe('SafeDynamoDB', () => {
+  const ddbMock = mockClient(DynamoDBDocumentClient);
+  const logger = { warn: vi.fn(), error: vi.fn() };
+  let safeDynamoDB: SafeDynamoDB;
+
+  beforeEach(() => {
+    ddbMock.reset();
+    logger.error.mockReset();
+    safeDynamoDB = new SafeDynamoDB(
+      new DynamoDB(ddbMock as unknown as DynamoDBDocumentClient, 'test-table', {
+        logger,
+      })
+    );
+  });
+
+  const throttled = () => {
+    const error = new Error('Rate exceeded');
+    error.name = 'ProvisionedThroughputExceededException';
+
+    return error;
+  };
+
+  it('should return a successful result for get', async () => {
+    ddbMock.on(GetCommand).resolves({
+      Item: { key: 'testKey', value: 'testValue' },
+    });
+
+    const result = await safeDynamoDB.get('testKey');
+
+    expect(result.isSuccess() && result.value).toBe('testValue');
+  });
+
+  it('should return a successful result of null when key does not exist', async () => {
+    ddbMock.on(GetCommand).resolves({});
+
+    const result = await safeDynamoDB.get('testKey');
+
+    expect(result.isSuccess()).toBe(true);
+    expect(result.value).toBeNull();
+  });
+
+  it('should return a typed failure when get fails', async () => {
+    ddbMock.on(GetCommand).rejects(throttled());
+
+    const result = await safeDynamoDB.get('testKey');
+
+    expect(result.isFailure()).toBe(true);
+    expect(result.error).toBeInstanceOf(StorageThrottledError);
+    expect(logger.error).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return a typed failure when put fails', async () => {
+    const error = new Error('One or more parameter values were invalid');
+    error.name = 'ValidationException';
+    ddbMock.on(PutCommand).rejects(error);
+
+    const result = await safeDynamoDB.put('testKey', 'testValue');
+
+    expect(result.error).toBeInstanceOf(StorageValidationError);
+  });
+
+  it('should expose the kind of failure without a cast', async () => {
+    ddbMock.on(GetCommand).rejects(throttled());
+
+    const result = await safeDynamoDB.get('testKey');
+
+    expect(result.fold(String, (error) => error.kind)).toBe('throttled');
+  });
+
+  it('should return a successful result for put and delete', async () => {
+    ddbMock.on(PutCommand).resolves({});
+    ddbMock.on(DeleteCommand).resolves({});
+
+    expect((await safeDynamoDB.put('testKey', 'testValue')).isSuccess()).toBe(
+      true
+    );
+    expect((await safeDynamoDB.delete('testKey')).isSuccess()).toBe(true);
+  });
+
+  it('should return the outcome of putIfAbsent', async () => {
+    const error = new Error('The conditional request failed');
+    error.name = 'ConditionalCheckFailedException';
+    ddbMock.on(PutCommand).rejects(error);
+
+    const result = await safeDynamoDB.putIfAbsent('testKey', 'testValue');
+
+    expect(result.isSuccess() && result.value).toBe('already_exists');
+  });
+
+  it('should return the taken value', async () => {
+    ddbMock.on(DeleteCommand).resolves({
+      Attributes: { key: 'testKey', value: 'testValue' },
+    });
+
+    const result = await safeDynamoDB.take('testKey');
+
+    expect(result.isSuccess() && result.value).toBe('testValue');
+  });
+
+  it('should return a typed failure when list fails', async () => {
+    ddbMock.on(ScanCommand).rejects(throttled());
+
+    const result = await safeDynamoDB.list();
+
+    expect(result.error).toBeInstanceOf(StorageThrottledError);
+  });
+
+  it('should return a conflict failure from compareAndSet', async () => {
+    const error = new Error('The conditional request failed');
+    error.name = 'ConditionalCheckFailedException';
+    ddbMock.on(PutCommand).rejects(error);
+
+    const result = await safeDynamoDB.compareAndSet('testKey', 1, 'next');
+
+    expect(result.error).toBeInstanceOf(StorageVersionConflictError);
+  });
+
+  it('should return the updated value and version', async () => {
+    ddbMock.on(GetCommand).resolves({
+      Item: { key: 'testKey', value: 'a', version: 1 },
+    });
+    ddbMock.on(PutCommand).resolves({});
+
+    const result = await safeDynamoDB.update('testKey', (v) => `${v}b`);
+
+    expect(result.value).toEqual({ value: 'ab', version: 2 });
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  ScanCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDB, DynamoDBItem } from '../DynamoDB';
+
+/**
+ * Creates a DynamoDB instance backed by an in-memory table that evaluates the
+ * conditions used by putIfAbsent and compareAndSet.
+ *
+ * @param now - The clock, in milliseconds, shared by the table and the DynamoDB instance.
+ * @returns A DynamoDB instance over a fresh, empty table.
+ */
+export const createFakeTable = (now: () => number): DynamoDB => {
+  const ddbMock = mockClient(DynamoDBDocumentClient);
+  const table = new Map<string, DynamoDBItem>();
+
+  ddbMock.on(GetCommand).callsFake(({ Key }) => ({ Item: table.get(Key.key) }));
+  ddbMock
+    .on(PutCommand)
+    .callsFake(({ Item, ConditionExpression, ExpressionAttributeValues }) => {
+      const existing = table.get(Item.key);
+      const live =
+        existing !== undefined &&
+        !(
+          existing.expiresAt !== undefined &&
+          existing.expiresAt <= ExpressionAttributeValues?.[':now']
+        );
+      let satisfied = true;
+
+      if (ExpressionAttributeValues?.[':expectedVersion'] !== undefined) {
+        satisfied =
+          live &&
+          existing.version === ExpressionAttributeValues[':expectedVersion'];
+      } else if (
+        ConditionExpression?.includes('attribute_not_exists(#version)')
+      ) {
+        satisfied = live && existing.version === undefined;
+      } else if (ConditionExpression) {
+        satisfied = !live;
+      }
+
+      if (!satisfied) {
+        const error = new Error('The conditional request failed');
+        error.name = 'ConditionalCheckFailedException';
+        throw error;
+      }
+
+      table.set(Item.key, Item);
+
+      return {};
+    });
+  ddbMock.on(DeleteCommand).callsFake(({ Key, ReturnValues }) => {
+    const existing = table.get(Key.key);
+    table.delete(Key.key);
+
+    return ReturnValues === 'ALL_OLD' ? { Attributes: existing } : {};
+  });
+  ddbMock
+    .on(ScanCommand)
+    .callsFake(({ Limit, ExclusiveStartKey, ExpressionAttributeValues }) => {
+      const items = [...table.values()];
+      const start = ExclusiveStartKey
+        ? items.findIndex((item) => item.key === ExclusiveStartKey.key) + 1
+        : 0;
+      const evaluated = items.slice(start, start + Limit);
+      const prefix = ExpressionAttributeValues[':prefix'] ?? '';
+      const last = evaluated[evaluated.length - 1];
+
+      return {
+        Items: evaluated.filter(
+          (item) =>
+            item.key.startsWith(prefix) &&
+            (item.expiresAt === undefined ||
+              item.expiresAt > ExpressionAttributeValues[':now'])
+        ),
+        LastEvaluatedKey:
+          start + Limit < items.length ? { key: last.key } : undefined,
+      };
+    });
+
+  return new DynamoDB(
+    ddbMock as unknown as DynamoDBDocumentClient,
+    'conformance-table',
+    { now }
+  );
+};
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { toStorageError } from '../toStorageError';
+import {
+  StorageConditionalCheckFailedError,
+  StorageError,
+  StorageItemTooLargeError,
+  StorageNetworkError,
+  StorageNotFoundError,
+  StorageThrottledError,
+  StorageValidationError,
+} from '../../storage/StorageError';
+
+const awsError = (name: string, message = 'AWS error') => {
+  const error = new Error(message);
+  error.name = name;
+
+  return error;
+};
+
+describe('toStorageError', () => {
+  it.each([
+    ['ConditionalCheckFailedException', StorageConditionalCheckFailedError],
+    ['TransactionConflictException', StorageConditionalCheckFailedError],
+    ['ProvisionedThroughputExceededException', StorageThrottledError],
+    ['ThrottlingException', StorageThrottledError],
+    ['RequestLimitExceeded', StorageThrottledError],
+    ['ValidationException', StorageValidationError],
+    ['ItemCollectionSizeLimitExceededException', StorageItemTooLargeError],
+    ['ResourceNotFoundException', StorageNotFoundError],
+    ['InternalServerError', StorageNetworkError],
+    ['TimeoutError', StorageNetworkError],
+  ])('should map %s', (name, errorClass) => {
+    const cause = awsError(name);
+    const error = toStorageError(cause);
+
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error.message).toBe('AWS error');
+    expect(error.cause).toBe(cause);
+  });
+
+  it('should map a ValidationException about item size to StorageItemTooLargeError', () => {
+    const error = toStorageError(
+      awsError(
+        'ValidationException',
+        'Item size has exceeded the maximum allowed size'
+      )
+    );
+
+    expect(error).toBeInstanceOf(StorageItemTooLargeError);
+    expect(error.kind).toBe('item_too_large');
+  });
+
+  it('should map network error codes to StorageNetworkError', () => {
+    const cause = Object.assign(new Error('socket hang up'), {
+      code: 'ECONNRESET',
+    });
+
+    expect(toStorageError(cause)).toBeInstanceOf(StorageNetworkError);
+  });
+
+  it('should map unknown errors to a plain StorageError', () => {
+    const error = toStorageError(new Error('Unexpected'));
+
+    expect(error.constructor).toBe(StorageError);
+    expect(error.kind).toBe('unknown');
+    expect(error.name).toBe('StorageError');
+  });
+
+  it('should convert non-Error values', () => {
+    const error = toStorageError('Something went wrong');
+
+    expect(error).toBeInstanceOf(StorageError);
+    expect(error.message).toBe('Something went wrong');
+  });
+
+  it('should return StorageErrors as is', () => {
+    const error = new StorageThrottledError('Throttled');
+
+    expect(toStorageError(error)).toBe(error);
+  });
+});
@@ -1 +1,3 @@
 export * from './DynamoDB';
+export * from './SafeDynamoDB';
+export * from './toStorageError';
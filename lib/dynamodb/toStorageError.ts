@@ -0,0 +1,89 @@
+import {
+  StorageConditionalCheckFailedError,
+  StorageError,
+  StorageItemTooLargeError,
+  StorageNetworkError,
+  StorageNotFoundError,
+  StorageThrottledError,
+  StorageValidationError,
+} from '../storage/StorageError';
+import { convertToError } from '../utils/errorUtils';
+
+/**
+ * AWS error names that indicate a conditional write was rejected.
+ */
+const CONDITIONAL_CHECK_FAILED_NAMES = [
+  'ConditionalCheckFailedException',
+  'TransactionConflictException',
+];
+
+/**
+ * AWS error names that indicate the request was throttled.
+ */
+const THROTTLED_NAMES = [
+  'ProvisionedThroughputExceededException',
+  'ThrottlingException',
+  'RequestLimitExceeded',
+];
+
+/**
+ * AWS and network error names that indicate a transient failure.
+ */
+const NETWORK_NAMES = [
+  'InternalServerError',
+  'ServiceUnavailable',
+  'RequestTimeout',
+  'TimeoutError',
+  'NetworkingError',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+];
+
+/**
+ * Maps an error thrown by the AWS SDK for DynamoDB to a typed StorageError.
+ * StorageErrors are returned as is; unrecognised errors become a plain StorageError.
+ *
+ * @param e - The error thrown by the AWS SDK.
+ * @returns The corresponding StorageError, with the original error as its cause.
+ */
+export const toStorageError = (e: unknown): StorageError => {
+  if (e instanceof StorageError) {
+    return e;
+  }
+
+  const error = convertToError(e);
+  const code = (error as { code?: unknown }).code;
+
+  if (CONDITIONAL_CHECK_FAILED_NAMES.includes(error.name)) {
+    return new StorageConditionalCheckFailedError(error.message, error);
+  }
+
+  if (THROTTLED_NAMES.includes(error.name)) {
+    return new StorageThrottledError(error.message, error);
+  }
+
+  if (error.name === 'ItemCollectionSizeLimitExceededException') {
+    return new StorageItemTooLargeError(error.message, error);
+  }
+
+  if (error.name === 'ValidationException') {
+    return /item size/i.test(error.message)
+      ? new StorageItemTooLargeError(error.message, error)
+      : new StorageValidationError(error.message, error);
+  }
+
+  if (error.name === 'ResourceNotFoundException') {
+    return new StorageNotFoundError(error.message, error);
+  }
+
+  if (
+    NETWORK_NAMES.includes(error.name) ||
+    (typeof code === 'string' && NETWORK_NAMES.includes(code))
+  ) {
+    return new StorageNetworkError(error.message, error);
+  }
+
+  return new StorageError(error.message, error);
+};
@@ -16,4 +16,10 @@
  */
 
 export * from './dynamodb';
+export * from './jose';
+export * from './nonce';
+export * from './oauth';
+export * from './oid4vci';
+export * from './oid4vp';
+export * from './storage';
 export * from './utils';
@@ -0,0 +1,141 @@
+/**
+ * The kinds of failure a JOSE operation can report.
+ */
+export type JoseErrorKind =
+  | 'malformed'
+  | 'unsupported_algorithm'
+  | 'invalid_key'
+  | 'key_not_found'
+  | 'invalid_signature'
+  | 'invalid_claim'
+  | 'expired'
+  | 'unknown';
+
+/**
+ * The base class of errors reported by JWS, JWK and JWT operations.
+ * The underlying WebCrypto or decoding error, if any, is kept as the cause.
+ */
+export class JoseError extends Error {
+  /**
+   * The kind of failure, for branching without instanceof checks.
+   */
+  readonly kind: JoseErrorKind = 'unknown';
+
+  /**
+   * The error that caused this error.
+   */
+  readonly cause?: unknown;
+
+  /**
+   * Constructs a new JoseError instance.
+   *
+   * @param message - The error message.
+   * @param cause - The error that caused this error.
+   */
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'JoseError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * Indicates that a JWS, JWT or JWK is not well-formed.
+ */
+export class JoseMalformedError extends JoseError {
+  readonly kind: JoseErrorKind = 'malformed';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'JoseMalformedError';
+  }
+}
+
+/**
+ * Indicates that an algorithm is not supported or not allowed.
+ */
+export class JoseUnsupportedAlgorithmError extends JoseError {
+  readonly kind: JoseErrorKind = 'unsupported_algorithm';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'JoseUnsupportedAlgorithmError';
+  }
+}
+
+/**
+ * Indicates that a key cannot be imported or does not suit the algorithm.
+ */
+export class JoseInvalidKeyError extends JoseError {
+  readonly kind: JoseErrorKind = 'invalid_key';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'JoseInvalidKeyError';
+  }
+}
+
+/**
+ * Indicates that no key of a JWK Set matches a JWS.
+ */
+export class JoseKeyNotFoundError extends JoseError {
+  readonly kind: JoseErrorKind = 'key_not_found';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'JoseKeyNotFoundError';
+  }
+}
+
+/**
+ * Indicates that the signature of a JWS does not verify.
+ */
+export class JoseSignatureVerificationError extends JoseError {
+  readonly kind: JoseErrorKind = 'invalid_signature';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'JoseSignatureVerificationError';
+  }
+}
+
+/**
+ * Indicates that a claim of a JWT is missing or does not have the expected value.
+ */
+export class JoseClaimValidationError extends JoseError {
+  readonly kind: JoseErrorKind = 'invalid_claim';
+
+  /**
+   * Constructs a new JoseClaimValidationError instance.
+   *
+   * @param claim - The name of the claim, such as 'aud'.
+   * @param reason - Why the claim is invalid, such as 'is missing'.
+   * @param cause - The error that caused this error.
+   */
+  constructor(readonly claim: string, reason: string, cause?: unknown) {
+    super(`The ${claim} claim ${reason}`, cause);
+    this.name = 'JoseClaimValidationError';
+  }
+}
+
+/**
+ * Indicates that a JWT has expired, or was issued longer ago than allowed.
+ */
+export class JoseExpiredError extends JoseClaimValidationError {
+  readonly kind: JoseErrorKind = 'expired';
+
+  constructor(claim: string, reason: string, cause?: unknown) {
+    super(claim, reason, cause);
+    this.name = 'JoseExpiredError';
+  }
+}
+
+/**
+ * Converts a thrown value to a JoseError, keeping JoseErrors as they are.
+ *
+ * @param e - The thrown value.
+ * @param message - The message of the JoseError wrapping any other value.
+ * @returns The JoseError.
+ */
+export const toJoseError = (e: unknown, message: string): JoseError =>
+  e instanceof JoseError ? e : new JoseError(message, e);
@@ -0,0 +1,366 @@
+import { encodeBase64Url, decodeBase64Url } from '../utils/base64url';
+import { Result, runAsyncCatching, runCatching } from '../utils/result';
+import { isJsonObject } from '../utils/validation';
+import {
+  JoseError,
+  JoseInvalidKeyError,
+  JoseKeyNotFoundError,
+  JoseMalformedError,
+} from './JoseError';
+import { JWS_ALGORITHMS, JwsAlgorithm } from './JwsAlgorithm';
+
+/**
+ * A JSON Web Key (RFC 7517).
+ */
+export interface Jwk {
+  kty: string;
+  kid?: string;
+  alg?: string;
+  use?: string;
+  key_ops?: string[];
+  crv?: string;
+  x?: string;
+  y?: string;
+  n?: string;
+  e?: string;
+  d?: string;
+  p?: string;
+  q?: string;
+  dp?: string;
+  dq?: string;
+  qi?: string;
+  k?: string;
+  x5c?: string[];
+  [parameter: string]: unknown;
+}
+
+/**
+ * A JSON Web Key Set (RFC 7517 Section 5).
+ */
+export interface Jwks {
+  keys: Jwk[];
+}
+
+/**
+ * Options for importing a JWK and generating a key pair.
+ */
+export interface ImportJwkOptions {
+  /**
+   * Whether a private key can be exported. Public keys can always be exported. Defaults to false.
+   */
+  extractable?: boolean;
+}
+
+/**
+ * Options for selecting a key from a JWK Set.
+ */
+export interface SelectJwkOptions {
+  /**
+   * The key ID, such as the kid header parameter of a JWS.
+   */
+  kid?: string;
+  /**
+   * The algorithm the key is used with, such as the alg header parameter of a JWS.
+   */
+  alg?: JwsAlgorithm;
+}
+
+/**
+ * The members holding the key material, which are passed to WebCrypto on import.
+ */
+const KEY_MEMBERS = [
+  'kty',
+  'crv',
+  'x',
+  'y',
+  'n',
+  'e',
+  'd',
+  'p',
+  'q',
+  'dp',
+  'dq',
+  'qi',
+];
+
+/**
+ * The members holding private or secret key material.
+ */
+const PRIVATE_MEMBERS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth', 'k'];
+
+/**
+ * The members WebCrypto adds to exported keys, removed by exportJwk.
+ */
+const WEBCRYPTO_MEMBERS = ['ext', 'key_ops', 'alg'];
+
+/**
+ * The required members of each key type, in lexicographic order, as hashed for a thumbprint
+ * (RFC 7638 Section 3.2 and RFC 8037 Section 2).
+ */
+const THUMBPRINT_MEMBERS = new Map([
+  ['EC', ['crv', 'kty', 'x', 'y']],
+  ['OKP', ['crv', 'kty', 'x']],
+  ['RSA', ['e', 'kty', 'n']],
+  ['oct', ['k', 'kty']],
+]);
+
+/**
+ * The smallest RSA modulus accepted, in bytes (RFC 7518 Section 3.3).
+ */
+const MIN_RSA_MODULUS_BYTES = 256;
+
+/**
+ * Checks if a value is a JWK.
+ *
+ * @param {unknown} value - The value to check, such as the jwk header parameter of a JWS.
+ * @returns {boolean} True if the value is a JSON object with a string kty member.
+ */
+export const isJwk = (value: unknown): value is Jwk =>
+  isJsonObject(value) && typeof value.kty === 'string';
+
+/**
+ * Checks if a JWK holds private or secret key material.
+ *
+ * @param {Jwk} jwk - The JWK.
+ * @returns {boolean} True if the JWK has a private member such as d.
+ */
+export const isPrivateJwk = (jwk: Jwk): boolean =>
+  PRIVATE_MEMBERS.some((member) => jwk[member] !== undefined);
+
+/**
+ * Removes the private members of a JWK, for example to publish it or embed it in a JWS header.
+ *
+ * @param {Jwk} jwk - The JWK.
+ * @returns {Jwk} A copy of the JWK without private members.
+ */
+export const toPublicJwk = (jwk: Jwk): Jwk =>
+  Object.fromEntries(
+    Object.entries(jwk).filter(([member]) => !PRIVATE_MEMBERS.includes(member))
+  ) as Jwk;
+
+/**
+ * Checks if a JWK is meant for signatures with an algorithm.
+ *
+ * @param {Jwk} jwk - The JWK.
+ * @param {JwsAlgorithm} alg - The algorithm.
+ * @returns {boolean} True if the key type and curve suit the algorithm and neither alg nor use rules it out.
+ */
+const isJwkFor = (jwk: Jwk, alg: JwsAlgorithm): boolean => {
+  const { kty, crv } = JWS_ALGORITHMS[alg];
+
+  return (
+    jwk.kty === kty &&
+    jwk.crv === crv &&
+    (jwk.alg === undefined ||
+      jwk.alg === alg ||
+      (alg === 'EdDSA' && jwk.alg === crv)) &&
+    (jwk.use === undefined || jwk.use === 'sig')
+  );
+};
+
+/**
+ * Returns the length of the modulus of an RSA JWK.
+ *
+ * @param {Jwk} jwk - The JWK.
+ * @returns {number} The length in bytes, or 0 if the n member is missing or malformed.
+ */
+const modulusLengthOf = (jwk: Jwk): number =>
+  runCatching(() => decodeBase64Url(jwk.n ?? '').length).value ?? 0;
+
+/**
+ * Imports a JWK for signing or verifying with an algorithm.
+ * A JWK with a private member such as d is imported as a private key for signing,
+ * and any other JWK as a public key for verifying.
+ *
+ * @param {Jwk} jwk - The JWK.
+ * @param {JwsAlgorithm} alg - The algorithm the key is used with.
+ * @param {ImportJwkOptions} options - Optional settings such as whether a private key can be exported.
+ * @returns {Promise<Result<CryptoKey, JoseError>>} A promise that resolves to a Result of the key, or a failure with
+ * a JoseInvalidKeyError if the JWK does not suit the algorithm or cannot be imported.
+ *
+ * @example
+ * const key = (await importJwk(header.jwk, 'ES256')).getOrThrow();
+ */
+export const importJwk = async (
+  jwk: Jwk,
+  alg: JwsAlgorithm,
+  options: ImportJwkOptions = {}
+): Promise<Result<CryptoKey, JoseError>> => {
+  if (!isJwkFor(jwk, alg)) {
+    return Result.failure(
+      new JoseInvalidKeyError(`The JWK is not a key for ${alg}`)
+    );
+  }
+
+  if (jwk.kty === 'RSA' && modulusLengthOf(jwk) < MIN_RSA_MODULUS_BYTES) {
+    return Result.failure(
+      new JoseInvalidKeyError('The RSA modulus must be at least 2048 bits')
+    );
+  }
+
+  const material = Object.fromEntries(
+    Object.entries(jwk).filter(([member]) => KEY_MEMBERS.includes(member))
+  );
+  const isPrivate = isPrivateJwk(jwk);
+
+  return runAsyncCatching(
+    {
+      mapError: (e) => new JoseInvalidKeyError('The JWK cannot be imported', e),
+    },
+    () =>
+      crypto.subtle.importKey(
+        'jwk',
+        material,
+        JWS_ALGORITHMS[alg].importParams,
+        isPrivate ? options.extractable ?? false : true,
+        [isPrivate ? 'sign' : 'verify']
+      )
+  );
+};
+
+/**
+ * Exports a key as a JWK, without the WebCrypto-specific ext, key_ops and alg members.
+ *
+ * @param {CryptoKey} key - The key. A private key must have been created as extractable.
+ * @returns {Promise<Result<Jwk, JoseError>>} A promise that resolves to a Result of the JWK, or a failure with
+ * a JoseInvalidKeyError if the key cannot be exported.
+ */
+export const exportJwk = async (
+  key: CryptoKey
+): Promise<Result<Jwk, JoseError>> =>
+  runAsyncCatching(
+    {
+      mapError: (e) => new JoseInvalidKeyError('The key cannot be exported', e),
+    },
+    async () => {
+      const exported = await crypto.subtle.exportKey('jwk', key);
+
+      return Object.fromEntries(
+        Object.entries(exported).filter(
+          ([member]) => !WEBCRYPTO_MEMBERS.includes(member)
+        )
+      ) as Jwk;
+    }
+  );
+
+/**
+ * Generates a key pair for an algorithm, for example a wallet key for proofs of possession.
+ *
+ * @param {JwsAlgorithm} alg - The algorithm.
+ * @param {ImportJwkOptions} options - Optional settings such as whether the private key can be exported.
+ * @returns {Promise<Result<CryptoKeyPair, JoseError>>} A promise that resolves to a Result of the key pair,
+ * or a failure with a JoseError if the runtime cannot generate it.
+ */
+export const generateKeyPair = async (
+  alg: JwsAlgorithm,
+  options: ImportJwkOptions = {}
+): Promise<Result<CryptoKeyPair, JoseError>> =>
+  runAsyncCatching(
+    {
+      mapError: (e) =>
+        new JoseError(`A ${alg} key pair cannot be generated`, e),
+    },
+    () =>
+      crypto.subtle.generateKey(
+        JWS_ALGORITHMS[alg].generateParams,
+        options.extractable ?? false,
+        ['sign', 'verify']
+      ) as Promise<CryptoKeyPair>
+  );
+
+/**
+ * Calculates the JWK thumbprint of a key with SHA-256 (RFC 7638).
+ * The thumbprint of a private key is that of its public key.
+ *
+ * @param {Jwk} jwk - The JWK.
+ * @returns {Promise<Result<string, JoseError>>} A promise that resolves to a Result of the base64url-encoded thumbprint,
+ * or a failure with a JoseMalformedError if the key type is unknown or a required member is missing.
+ *
+ * @example
+ * const thumbprint = (await calculateJwkThumbprint({ kty: 'EC', crv: 'P-256', x, y })).getOrThrow();
+ */
+export const calculateJwkThumbprint = async (
+  jwk: Jwk
+): Promise<Result<string, JoseError>> => {
+  const members = THUMBPRINT_MEMBERS.get(jwk.kty);
+
+  if (members === undefined) {
+    return Result.failure(
+      new JoseMalformedError(`The key type ${jwk.kty} is not supported`)
+    );
+  }
+
+  const missing = members.find((member) => typeof jwk[member] !== 'string');
+
+  if (missing !== undefined) {
+    return Result.failure(
+      new JoseMalformedError(`The JWK is missing the ${missing} member`)
+    );
+  }
+
+  const canonical = JSON.stringify(
+    Object.fromEntries(members.map((member) => [member, jwk[member]]))
+  );
+
+  return runAsyncCatching(
+    {
+      mapError: (e) => new JoseError('The thumbprint cannot be calculated', e),
+    },
+    async () =>
+      encodeBase64Url(
+        new Uint8Array(
+          await crypto.subtle.digest(
+            'SHA-256',
+            new TextEncoder().encode(canonical)
+          )
+        )
+      )
+  );
+};
+
+/**
+ * Selects the key of a JWK Set to verify a JWS with.
+ *
+ * Keys are matched by kid if given, and by key type and curve if alg is given. Keys for
+ * encryption are skipped. Without a kid, the JWK Set must hold a single matching key.
+ *
+ * @param {Jwks} jwks - The JWK Set, such as the jwks of client metadata or issuer metadata.
+ * @param {SelectJwkOptions} options - The kid and alg header parameters of the JWS.
+ * @returns {Result<Jwk, JoseError>} A Result of the key, or a failure with a JoseKeyNotFoundError if no key
+ * or, without a kid, more than one key matches.
+ *
+ * @example
+ * const jwk = selectJwk(jwks, { kid: header.kid, alg: header.alg }).getOrThrow();
+ */
+export const selectJwk = (
+  jwks: Jwks,
+  options: SelectJwkOptions = {}
+): Result<Jwk, JoseError> => {
+  const { kid, alg } = options;
+  const candidates = jwks.keys.filter(
+    (jwk) =>
+      isJwk(jwk) &&
+      (kid === undefined || jwk.kid === kid) &&
+      (alg === undefined ? jwk.use !== 'enc' : isJwkFor(jwk, alg))
+  );
+
+  if (candidates.length === 0) {
+    return Result.failure(
+      new JoseKeyNotFoundError(
+        kid === undefined
+          ? 'No key of the JWK Set matches'
+          : `No key of the JWK Set matches the kid ${kid}`
+      )
+    );
+  }
+
+  if (candidates.length > 1 && kid === undefined) {
+    return Result.failure(
+      new JoseKeyNotFoundError(
+        'Several keys of the JWK Set match, so a kid is required'
+      )
+    );
+  }
+
+  return Result.success(candidates[0]);
+};
@@ -0,0 +1,293 @@
+import { decodeBase64Url, encodeBase64Url } from '../utils/base64url';
+import { Result, runAsyncCatching, runCatching } from '../utils/result';
+import { isJsonObject } from '../utils/validation';
+import {
+  JoseError,
+  JoseInvalidKeyError,
+  JoseMalformedError,
+  JoseSignatureVerificationError,
+  JoseUnsupportedAlgorithmError,
+  toJoseError,
+} from './JoseError';
+import {
+  JWS_ALGORITHMS,
+  JwsAlgorithm,
+  SUPPORTED_JWS_ALGORITHMS,
+  isJwsAlgorithm,
+} from './JwsAlgorithm';
+import { Jwk, Jwks, importJwk, isJwk, isPrivateJwk, selectJwk } from './Jwk';
+
+/**
+ * The protected header of a JWS.
+ */
+export interface JwsHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+  jwk?: Jwk;
+  x5c?: string[];
+  crit?: string[];
+  [parameter: string]: unknown;
+}
+
+/**
+ * A compact JWS split into its parts, with the header and payload decoded.
+ */
+export interface DecodedJws {
+  header: JwsHeader;
+  payload: Uint8Array;
+  /**
+   * The encoded header and payload joined by a dot, over which the signature is computed.
+   */
+  signingInput: string;
+  signature: Uint8Array;
+}
+
+/**
+ * Finds the key to verify a JWS with from its header, for example by looking up the kid
+ * in the JWK Set of the issuer, or by reading the jwk header parameter.
+ */
+export type JwsKeyResolver = (
+  header: JwsHeader
+) => CryptoKey | Jwk | Promise<CryptoKey | Jwk>;
+
+/**
+ * The key to verify a JWS with: a public key, a JWK, a JWK Set from which the key is
+ * selected by the kid header parameter, or a function resolving the key from the header.
+ */
+export type JwsVerificationKey = CryptoKey | Jwk | Jwks | JwsKeyResolver;
+
+/**
+ * Options for verifying a JWS.
+ */
+export interface JwsVerificationOptions {
+  /**
+   * The algorithms accepted. Defaults to all supported algorithms.
+   */
+  algorithms?: readonly JwsAlgorithm[];
+}
+
+/**
+ * Checks if a value is a WebCrypto key.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is a CryptoKey.
+ */
+const isCryptoKey = (value: unknown): value is CryptoKey =>
+  typeof CryptoKey !== 'undefined' && value instanceof CryptoKey;
+
+/**
+ * Checks if a WebCrypto key was imported or generated for an algorithm.
+ *
+ * @param {CryptoKey} key - The key.
+ * @param {JwsAlgorithm} alg - The algorithm.
+ * @returns {boolean} True if the key algorithm, curve and hash match.
+ */
+const isKeyFor = (key: CryptoKey, alg: JwsAlgorithm): boolean => {
+  const expected = JWS_ALGORITHMS[alg].importParams as Partial<
+    EcKeyImportParams & RsaHashedImportParams
+  >;
+  const actual = key.algorithm as Partial<
+    EcKeyAlgorithm & RsaHashedKeyAlgorithm
+  >;
+
+  return (
+    actual.name === expected.name &&
+    actual.namedCurve === expected.namedCurve &&
+    actual.hash?.name === expected.hash
+  );
+};
+
+/**
+ * Decodes a compact JWS without verifying its signature.
+ *
+ * @param {string} jws - The compact JWS.
+ * @returns {Result<DecodedJws, JoseError>} A Result of the decoded JWS, or a failure with a JoseMalformedError
+ * if it does not have three base64url parts or its header is not a JSON object with an alg.
+ *
+ * @example
+ * const { header } = decodeJws(jwt).getOrThrow();
+ */
+export const decodeJws = (jws: string): Result<DecodedJws, JoseError> =>
+  runCatching(
+    { mapError: (e) => new JoseMalformedError('The JWS is malformed', e) },
+    () => {
+      const parts = jws.split('.');
+
+      if (parts.length !== 3) {
+        throw new Error('A compact JWS must have three parts');
+      }
+
+      const [header, payload, signature] = parts;
+      const decodedHeader: unknown = JSON.parse(
+        new TextDecoder().decode(decodeBase64Url(header))
+      );
+
+      if (
+        !isJsonObject(decodedHeader) ||
+        typeof decodedHeader.alg !== 'string'
+      ) {
+        throw new Error('The header must be a JSON object with an alg');
+      }
+
+      return {
+        header: decodedHeader as JwsHeader,
+        payload: decodeBase64Url(payload),
+        signingInput: `${header}.${payload}`,
+        signature: decodeBase64Url(signature),
+      };
+    }
+  );
+
+/**
+ * Signs a payload as a compact JWS.
+ *
+ * @param {Uint8Array | string} payload - The payload. Strings are encoded as UTF-8.
+ * @param {CryptoKey} key - The private key, imported or generated for the algorithm of the header.
+ * @param {JwsHeader} header - The protected header, with a supported alg.
+ * @returns {Promise<Result<string, JoseError>>} A promise that resolves to a Result of the compact JWS, or a failure
+ * with a JoseUnsupportedAlgorithmError if the algorithm is not supported, or a JoseInvalidKeyError if the key does
+ * not suit the algorithm or the jwk header parameter holds a private key.
+ *
+ * @example
+ * const jws = (await signJws('hello', privateKey, { alg: 'ES256', kid: 'key-1' })).getOrThrow();
+ */
+export const signJws = async (
+  payload: Uint8Array | string,
+  key: CryptoKey,
+  header: JwsHeader
+): Promise<Result<string, JoseError>> =>
+  runAsyncCatching(
+    { mapError: (e) => toJoseError(e, 'The JWS cannot be signed') },
+    async () => {
+      const { alg } = header;
+
+      if (!isJwsAlgorithm(alg)) {
+        throw new JoseUnsupportedAlgorithmError(
+          `The algorithm ${alg} is not supported`
+        );
+      }
+
+      if (key.type !== 'private' || !isKeyFor(key, alg)) {
+        throw new JoseInvalidKeyError(
+          `The key is not a private key for ${alg}`
+        );
+      }
+
+      if (header.jwk !== undefined && isPrivateJwk(header.jwk)) {
+        throw new JoseInvalidKeyError(
+          'The jwk header parameter must not hold a private key'
+        );
+      }
+
+      const signingInput = `${encodeBase64Url(
+        JSON.stringify(header)
+      )}.${encodeBase64Url(payload)}`;
+      const signature = await crypto.subtle.sign(
+        JWS_ALGORITHMS[alg].signParams,
+        key,
+        new TextEncoder().encode(signingInput)
+      );
+
+      return `${signingInput}.${encodeBase64Url(new Uint8Array(signature))}`;
+    }
+  );
+
+/**
+ * Resolves the public key to verify a JWS with.
+ *
+ * @param {JwsVerificationKey} key - The key, JWK, JWK Set or resolver.
+ * @param {JwsHeader} header - The header of the JWS.
+ * @param {JwsAlgorithm} alg - The algorithm of the JWS.
+ * @returns {Promise<CryptoKey>} A promise that resolves to the public key.
+ * @throws {JoseError} If no key suits the header.
+ */
+const resolveKey = async (
+  key: JwsVerificationKey,
+  header: JwsHeader,
+  alg: JwsAlgorithm
+): Promise<CryptoKey> => {
+  const resolved = typeof key === 'function' ? await key(header) : key;
+
+  if (isCryptoKey(resolved)) {
+    if (resolved.type !== 'public' || !isKeyFor(resolved, alg)) {
+      throw new JoseInvalidKeyError(`The key is not a public key for ${alg}`);
+    }
+
+    return resolved;
+  }
+
+  const jwk = isJwk(resolved)
+    ? resolved
+    : selectJwk(resolved, {
+        kid: typeof header.kid === 'string' ? header.kid : undefined,
+        alg,
+      }).getOrThrow();
+
+  if (isPrivateJwk(jwk)) {
+    throw new JoseInvalidKeyError('The JWK must be a public key');
+  }
+
+  return (await importJwk(jwk, alg)).getOrThrow();
+};
+
+/**
+ * Verifies the signature of a compact JWS.
+ *
+ * Only the algorithms allowed by the options are accepted, so that a JWS cannot choose a weaker
+ * algorithm or none, and the key must have been made for the algorithm of the header.
+ * Critical header parameters are not supported, so a JWS with crit is rejected.
+ *
+ * @param {string} jws - The compact JWS.
+ * @param {JwsVerificationKey} key - The public key, JWK, JWK Set or resolver to verify with.
+ * @param {JwsVerificationOptions} options - Optional settings such as the accepted algorithms.
+ * @returns {Promise<Result<DecodedJws, JoseError>>} A promise that resolves to a Result of the decoded JWS, or a
+ * failure with a JoseMalformedError, a JoseUnsupportedAlgorithmError, a JoseInvalidKeyError, a JoseKeyNotFoundError,
+ * or a JoseSignatureVerificationError if the signature does not verify.
+ *
+ * @example
+ * const result = await verifyJws(jws, issuerMetadata.jwks, { algorithms: ['ES256'] });
+ * if (result.isFailureOf(JoseSignatureVerificationError)) {
+ *   // Reject the JWS
+ * }
+ */
+export const verifyJws = async (
+  jws: string,
+  key: JwsVerificationKey,
+  options: JwsVerificationOptions = {}
+): Promise<Result<DecodedJws, JoseError>> =>
+  runAsyncCatching(
+    { mapError: (e) => toJoseError(e, 'The JWS cannot be verified') },
+    async () => {
+      const decoded = decodeJws(jws).getOrThrow();
+      const { alg, crit } = decoded.header;
+      const algorithms = options.algorithms ?? SUPPORTED_JWS_ALGORITHMS;
+
+      if (!isJwsAlgorithm(alg) || !algorithms.includes(alg)) {
+        throw new JoseUnsupportedAlgorithmError(
+          `The algorithm ${alg} is not allowed`
+        );
+      }
+
+      if (crit !== undefined) {
+        throw new JoseMalformedError(
+          'The JWS has critical header parameters, which are not supported'
+        );
+      }
+
+      const verified = await crypto.subtle.verify(
+        JWS_ALGORITHMS[alg].signParams,
+        await resolveKey(key, decoded.header, alg),
+        decoded.signature,
+        new TextEncoder().encode(decoded.signingInput)
+      );
+
+      if (!verified) {
+        throw new JoseSignatureVerificationError(
+          'The JWS signature is invalid'
+        );
+      }
+
+      return decoded;
+    }
+  );
@@ -0,0 +1,90 @@
+/**
+ * The JWS algorithms supported on WebCrypto.
+ */
+export type JwsAlgorithm = 'ES256' | 'ES384' | 'EdDSA' | 'RS256';
+
+/**
+ * How a JWS algorithm maps to WebCrypto.
+ */
+export interface JwsAlgorithmParameters {
+  /**
+   * The key type of the JWKs used with the algorithm.
+   */
+  kty: 'EC' | 'OKP' | 'RSA';
+  /**
+   * The curve of the JWKs used with the algorithm, for EC and OKP keys.
+   */
+  crv?: string;
+  /**
+   * The parameters for importing a key.
+   */
+  importParams: Algorithm | EcKeyImportParams | RsaHashedImportParams;
+  /**
+   * The parameters for generating a key pair.
+   */
+  generateParams: Algorithm | EcKeyGenParams | RsaHashedKeyGenParams;
+  /**
+   * The parameters for signing and verifying.
+   */
+  signParams: Algorithm | EcdsaParams;
+}
+
+/**
+ * The WebCrypto mapping of each supported JWS algorithm.
+ */
+export const JWS_ALGORITHMS: Readonly<
+  Record<JwsAlgorithm, JwsAlgorithmParameters>
+> = {
+  ES256: {
+    kty: 'EC',
+    crv: 'P-256',
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    generateParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    signParams: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+  ES384: {
+    kty: 'EC',
+    crv: 'P-384',
+    importParams: { name: 'ECDSA', namedCurve: 'P-384' },
+    generateParams: { name: 'ECDSA', namedCurve: 'P-384' },
+    signParams: { name: 'ECDSA', hash: 'SHA-384' },
+  },
+  EdDSA: {
+    kty: 'OKP',
+    crv: 'Ed25519',
+    importParams: { name: 'Ed25519' },
+    generateParams: { name: 'Ed25519' },
+    signParams: { name: 'Ed25519' },
+  },
+  RS256: {
+    kty: 'RSA',
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    generateParams: {
+      name: 'RSASSA-PKCS1-v1_5',
+      hash: 'SHA-256',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+    },
+    signParams: { name: 'RSASSA-PKCS1-v1_5' },
+  },
+};
+
+/**
+ * The supported JWS algorithms, in order of preference.
+ */
+export const SUPPORTED_JWS_ALGORITHMS: readonly JwsAlgorithm[] = [
+  'ES256',
+  'ES384',
+  'EdDSA',
+  'RS256',
+];
+
+/**
+ * Checks if a value is a supported JWS algorithm.
+ *
+ * @param {unknown} value - The value to check, such as the alg header parameter.
+ * @returns {boolean} True if the value is a supported JWS algorithm.
+ */
+export const isJwsAlgorithm = (value: unknown): value is JwsAlgorithm =>
+  typeof value === 'string' &&
+  Object.prototype.hasOwnProperty.call(JWS_ALGORITHMS, value);
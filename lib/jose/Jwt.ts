@@ -0,0 +1,304 @@
+import { Result, runAsyncCatching, runCatching } from '../utils/result';
+import { isJsonObject } from '../utils/validation';
+import {
+  JoseClaimValidationError,
+  JoseError,
+  JoseExpiredError,
+  JoseMalformedError,
+  toJoseError,
+} from './JoseError';
+import {
+  JwsHeader,
+  JwsVerificationKey,
+  JwsVerificationOptions,
+  decodeJws,
+  signJws,
+  verifyJws,
+} from './Jws';
+
+/**
+ * The claims of a JWT, with the registered claims of RFC 7519 Section 4.1 typed.
+ */
+export interface JwtPayload {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * A JWT with its header and claims decoded.
+ */
+export interface DecodedJwt {
+  header: JwsHeader;
+  payload: JwtPayload;
+}
+
+/**
+ * Options for validating the claims of a JWT.
+ */
+export interface JwtClaimsValidationOptions {
+  /**
+   * The accepted issuers. If given, the iss claim is required and must be one of them.
+   */
+  issuer?: string | string[];
+  /**
+   * The accepted audiences. If given, the aud claim is required and must contain one of them.
+   */
+  audience?: string | string[];
+  /**
+   * The claims that must be present.
+   */
+  requiredClaims?: string[];
+  /**
+   * The longest time since the iat claim, in seconds. If given, the iat claim is required.
+   */
+  maxAgeSeconds?: number;
+  /**
+   * The tolerated difference between the clocks of the issuer and the verifier, in seconds. Defaults to 0.
+   */
+  clockSkewSeconds?: number;
+  /**
+   * Returns the current time in milliseconds since the epoch. Defaults to Date.now.
+   */
+  now?: () => number;
+}
+
+/**
+ * Options for verifying a JWT.
+ */
+export interface JwtVerificationOptions
+  extends JwsVerificationOptions,
+    JwtClaimsValidationOptions {
+  /**
+   * The required typ header parameter, such as 'openid4vci-proof+jwt'.
+   */
+  typ?: string;
+}
+
+const DEFAULT_CLOCK_SKEW_SECONDS = 0;
+
+/**
+ * The registered claims holding a time in seconds since the epoch.
+ */
+const NUMERIC_DATE_CLAIMS = ['exp', 'nbf', 'iat'];
+
+/**
+ * Parses the payload of a JWT.
+ *
+ * @param {Uint8Array} payload - The decoded payload of the JWS.
+ * @returns {JwtPayload} The claims.
+ * @throws {JoseMalformedError} If the payload is not a JSON object.
+ */
+const parsePayload = (payload: Uint8Array): JwtPayload => {
+  const claims = runCatching(() =>
+    JSON.parse(new TextDecoder().decode(payload))
+  );
+
+  if (!isJsonObject(claims.value)) {
+    throw new JoseMalformedError(
+      'The JWT payload is not a JSON object',
+      claims.error
+    );
+  }
+
+  return claims.value;
+};
+
+/**
+ * Decodes a JWT without verifying its signature or claims,
+ * for example to read the kid or the iss before choosing the key.
+ *
+ * @param {string} jwt - The JWT.
+ * @returns {Result<DecodedJwt, JoseError>} A Result of the decoded JWT, or a failure with a JoseMalformedError
+ * if it is not a compact JWS with a JSON object payload.
+ */
+export const decodeJwt = (jwt: string): Result<DecodedJwt, JoseError> =>
+  runCatching(
+    { mapError: (e) => toJoseError(e, 'The JWT is malformed') },
+    () => {
+      const { header, payload } = decodeJws(jwt).getOrThrow();
+
+      return { header, payload: parsePayload(payload) };
+    }
+  );
+
+/**
+ * Signs claims as a JWT.
+ *
+ * @param {JwtPayload} payload - The claims.
+ * @param {CryptoKey} key - The private key, imported or generated for the algorithm of the header.
+ * @param {JwsHeader} header - The protected header, with a supported alg and typically a typ.
+ * @returns {Promise<Result<string, JoseError>>} A promise that resolves to a Result of the JWT, or a failure as for signJws.
+ *
+ * @example
+ * const jwt = (
+ *   await signJwt({ iss, aud, iat: Math.floor(Date.now() / 1000) }, privateKey, { alg: 'ES256', typ: 'JWT' })
+ * ).getOrThrow();
+ */
+export const signJwt = (
+  payload: JwtPayload,
+  key: CryptoKey,
+  header: JwsHeader
+): Promise<Result<string, JoseError>> =>
+  signJws(JSON.stringify(payload), key, header);
+
+/**
+ * Checks that a claim holding a time is a number.
+ *
+ * @param {JwtPayload} payload - The claims.
+ * @param {string} claim - The name of the claim.
+ * @returns {number | undefined} The time in seconds since the epoch, or undefined if the claim is absent.
+ * @throws {JoseClaimValidationError} If the claim is not a number.
+ */
+const numericDateOf = (
+  payload: JwtPayload,
+  claim: string
+): number | undefined => {
+  const value = payload[claim];
+
+  if (value !== undefined && !Number.isFinite(value)) {
+    throw new JoseClaimValidationError(claim, 'must be a number');
+  }
+
+  return value as number | undefined;
+};
+
+/**
+ * Validates the registered claims of a JWT.
+ *
+ * - exp must not have passed, and nbf and iat must not be in the future, within the clock skew.
+ * - iat must be no older than maxAgeSeconds, if given.
+ * - iss must be one of the accepted issuers, and aud must contain one of the accepted audiences, if given.
+ *
+ * @param {JwtPayload} payload - The claims.
+ * @param {JwtClaimsValidationOptions} options - The expected issuer and audience, the clock and the clock skew.
+ * @returns {Result<JwtPayload, JoseError>} A Result of the claims, or a failure with a JoseExpiredError if the JWT
+ * has expired or is too old, or a JoseClaimValidationError if a claim is missing or has another value.
+ *
+ * @example
+ * validateJwtClaims(payload, { audience: credentialIssuer, maxAgeSeconds: 300, clockSkewSeconds: 60 });
+ */
+export const validateJwtClaims = (
+  payload: JwtPayload,
+  options: JwtClaimsValidationOptions = {}
+): Result<JwtPayload, JoseError> =>
+  runCatching(
+    { mapError: (e) => toJoseError(e, 'The JWT claims are invalid') },
+    () => {
+      const now = Math.floor((options.now ?? Date.now)() / 1000);
+      const skew = options.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS;
+      const issuers = [options.issuer ?? []].flat();
+      const audiences = [options.audience ?? []].flat();
+      const required = [
+        ...(options.requiredClaims ?? []),
+        ...(issuers.length > 0 ? ['iss'] : []),
+        ...(audiences.length > 0 ? ['aud'] : []),
+        ...(options.maxAgeSeconds !== undefined ? ['iat'] : []),
+      ];
+
+      required.forEach((claim) => {
+        if (payload[claim] === undefined) {
+          throw new JoseClaimValidationError(claim, 'is missing');
+        }
+      });
+
+      const [exp, nbf, iat] = NUMERIC_DATE_CLAIMS.map((claim) =>
+        numericDateOf(payload, claim)
+      );
+
+      if (exp !== undefined && exp <= now - skew) {
+        throw new JoseExpiredError('exp', 'has passed');
+      }
+
+      if (nbf !== undefined && nbf > now + skew) {
+        throw new JoseClaimValidationError('nbf', 'is in the future');
+      }
+
+      if (iat !== undefined && iat > now + skew) {
+        throw new JoseClaimValidationError('iat', 'is in the future');
+      }
+
+      if (
+        iat !== undefined &&
+        options.maxAgeSeconds !== undefined &&
+        iat + options.maxAgeSeconds < now - skew
+      ) {
+        throw new JoseExpiredError(
+          'iat',
+          `is more than ${options.maxAgeSeconds} seconds in the past`
+        );
+      }
+
+      if (issuers.length > 0 && !issuers.includes(payload.iss as string)) {
+        throw new JoseClaimValidationError(
+          'iss',
+          'does not match the expected issuer'
+        );
+      }
+
+      if (audiences.length > 0) {
+        const aud = [payload.aud].flat();
+
+        if (!aud.every((value) => typeof value === 'string')) {
+          throw new JoseClaimValidationError(
+            'aud',
+            'must be a string or an array of strings'
+          );
+        }
+
+        if (!aud.some((value) => audiences.includes(value as string))) {
+          throw new JoseClaimValidationError(
+            'aud',
+            'does not match the expected audience'
+          );
+        }
+      }
+
+      return payload;
+    }
+  );
+
+/**
+ * Verifies the signature of a JWT and validates its header and claims.
+ *
+ * @param {string} jwt - The JWT.
+ * @param {JwsVerificationKey} key - The public key, JWK, JWK Set or resolver to verify with.
+ * @param {JwtVerificationOptions} options - The accepted algorithms, the expected typ, issuer and audience,
+ * the clock and the clock skew.
+ * @returns {Promise<Result<DecodedJwt, JoseError>>} A promise that resolves to a Result of the decoded JWT, or a
+ * failure as for verifyJws and validateJwtClaims, or with a JoseMalformedError if the typ does not match or the
+ * payload is not a JSON object.
+ *
+ * @example
+ * const result = await verifyJwt(jwt, jwks, { issuer, audience: clientId, clockSkewSeconds: 60 });
+ * if (result.isFailureOf(JoseExpiredError)) {
+ *   // Ask for a fresh token
+ * }
+ */
+export const verifyJwt = async (
+  jwt: string,
+  key: JwsVerificationKey,
+  options: JwtVerificationOptions = {}
+): Promise<Result<DecodedJwt, JoseError>> =>
+  runAsyncCatching(
+    { mapError: (e) => toJoseError(e, 'The JWT cannot be verified') },
+    async () => {
+      const { header, payload } = (
+        await verifyJws(jwt, key, options)
+      ).getOrThrow();
+
+      if (options.typ !== undefined && header.typ !== options.typ) {
+        throw new JoseMalformedError(`The typ header must be ${options.typ}`);
+      }
+
+      return {
+        header,
+        payload: validateJwtClaims(parsePayload(payload), options).getOrThrow(),
+      };
+    }
+  );
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Jwk,
+  calculateJwkThumbprint,
+  exportJwk,
+  generateKeyPair,
+  importJwk,
+  isPrivateJwk,
+  selectJwk,
+  toPublicJwk,
+} from '../Jwk';
+import {
+  JoseInvalidKeyError,
+  JoseKeyNotFoundError,
+  JoseMalformedError,
+} from '../JoseError';
+
+// RFC 7638 Section 3.1
+const rsaJwk: Jwk = {
+  kty: 'RSA',
+  n: '0vx7agoebGcQSuuPiLJXZptN9nndrQmbXEps2aiAFbWhM78LhWx4cbbfAAtVT86zwu1RK7aPFFxuhDR1L6tSoc_BJECPebWKRXjBZCiFV4n3oknjhMstn64tZ_2W-5JsGY4Hc5n9yBXArwl93lqt7_RN5w6Cf0h4QyQ5v-65YGjQR0_FDW2QvzqY368QQMicAtaSqzs8KJZgnYb9c7d0zgdAZHzu6qMQvRL5hajrn1n91CbOpbISD08qNLyrdkt-bFTWhAI4vMQFh6WeZu0fM4lFd2NcRwr3XPksINHaQ-G_xBniIqbw0Ls1jF44-csFCur-kEgU8awapJzKnqDKgw',
+  e: 'AQAB',
+  alg: 'RS256',
+  kid: '2011-04-29',
+};
+
+// RFC 8037 Appendix A.2
+const okpJwk: Jwk = {
+  kty: 'OKP',
+  crv: 'Ed25519',
+  x: '11qYAYKxCrfVS_7TyWQHOg7hcvPapiMlrwIaaPcHURo',
+};
+
+describe('Jwk', () => {
+  describe('calculateJwkThumbprint', () => {
+    it.each([
+      ['RSA', rsaJwk, 'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs'],
+      ['OKP', okpJwk, 'kPrK_qmxVWaYVA9wwBF6Iuo3vVzz7TxHCTwXBygrS4k'],
+    ])('should match the RFC test vector for %s', async (_, jwk, expected) => {
+      expect((await calculateJwkThumbprint(jwk)).getOrThrow()).toBe(expected);
+    });
+
+    it('should ignore optional and private members', async () => {
+      const thumbprint = await calculateJwkThumbprint({
+        ...okpJwk,
+        d: 'nWGxne_9WmC6hEr0kuwsxERJxWl7MmkZcDusAxyuf2A',
+        kid: 'key-1',
+      });
+
+      expect(thumbprint.getOrThrow()).toBe(
+        'kPrK_qmxVWaYVA9wwBF6Iuo3vVzz7TxHCTwXBygrS4k'
+      );
+    });
+
+    it('should fail for an unknown key type', async () => {
+      const result = await calculateJwkThumbprint({ kty: 'XYZ' });
+
+      expect(result.error).toBeInstanceOf(JoseMalformedError);
+      expect(result.error?.message).toBe('The key type XYZ is not supported');
+    });
+
+    it('should fail if a required member is missing', async () => {
+      const result = await calculateJwkThumbprint({ kty: 'EC', crv: 'P-256' });
+
+      expect(result.error).toBeInstanceOf(JoseMalformedError);
+      expect(result.error?.message).toBe('The JWK is missing the x member');
+    });
+  });
+
+  describe('importJwk', () => {
+    it('should import a public JWK for verifying', async () => {
+      const key = (await importJwk(rsaJwk, 'RS256')).getOrThrow();
+
+      expect(key.type).toBe('public');
+      expect(key.usages).toEqual(['verify']);
+    });
+
+    it('should import a private JWK for signing, not extractable by default', async () => {
+      const { privateKey } = (
+        await generateKeyPair('ES256', { extractable: true })
+      ).getOrThrow();
+      const jwk = (await exportJwk(privateKey)).getOrThrow();
+      const key = (await importJwk(jwk, 'ES256')).getOrThrow();
+
+      expect(key.type).toBe('private');
+      expect(key.usages).toEqual(['sign']);
+      expect(key.extractable).toBe(false);
+    });
+
+    it.each([
+      ['the key type', okpJwk, 'ES256'],
+      ['the curve', { kty: 'EC', crv: 'P-384', x: 'AA', y: 'AA' }, 'ES256'],
+      ['the alg', { ...rsaJwk, alg: 'RS512' }, 'RS256'],
+      ['the use', { ...okpJwk, use: 'enc' }, 'EdDSA'],
+    ] as const)(
+      'should fail if %s does not suit the algorithm',
+      async (_, jwk, alg) => {
+        const result = await importJwk(jwk, alg);
+
+        expect(result.error).toBeInstanceOf(JoseInvalidKeyError);
+        expect(result.error?.message).toBe(`The JWK is not a key for ${alg}`);
+      }
+    );
+
+    it('should reject an RSA key shorter than 2048 bits', async () => {
+      const result = await importJwk(
+        { ...rsaJwk, n: rsaJwk.n!.slice(0, 170) },
+        'RS256'
+      );
+
+      expect(result.error).toBeInstanceOf(JoseInvalidKeyError);
+      expect(result.error?.message).toBe(
+        'The RSA modulus must be at least 2048 bits'
+      );
+    });
+
+    it('should fail if WebCrypto rejects the key material', async () => {
+      const result = await importJwk(
+        { kty: 'EC', crv: 'P-256', x: 'AA', y: 'AA' },
+        'ES256'
+      );
+
+      expect(result.error).toBeInstanceOf(JoseInvalidKeyError);
+      expect(result.error?.message).toBe('The JWK cannot be imported');
+      expect(result.error?.cause).toBeDefined();
+    });
+
+    it('should accept Ed25519 as the alg of an EdDSA key', async () => {
+      const result = await importJwk({ ...okpJwk, alg: 'Ed25519' }, 'EdDSA');
+
+      expect(result.isSuccess()).toBe(true);
+    });
+  });
+
+  describe('exportJwk', () => {
+    it.each(['ES256', 'ES384', 'EdDSA'] as const)(
+      'should round-trip a %s public key without WebCrypto members',
+      async (alg) => {
+        const { publicKey } = (await generateKeyPair(alg)).getOrThrow();
+        const jwk = (await exportJwk(publicKey)).getOrThrow();
+
+        expect(jwk).not.toHaveProperty('ext');
+        expect(jwk).not.toHaveProperty('key_ops');
+        expect(jwk).not.toHaveProperty('alg');
+        expect(isPrivateJwk(jwk)).toBe(false);
+        expect((await importJwk(jwk, alg)).isSuccess()).toBe(true);
+      }
+    );
+
+    it('should fail for a private key that is not extractable', async () => {
+      const { privateKey } = (await generateKeyPair('ES256')).getOrThrow();
+      const result = await exportJwk(privateKey);
+
+      expect(result.error).toBeInstanceOf(JoseInvalidKeyError);
+    });
+  });
+
+  describe('toPublicJwk', () => {
+    it('should remove the private members', () => {
+      const jwk = toPublicJwk({ ...okpJwk, d: 'secret', kid: 'key-1' });
+
+      expect(jwk).toEqual({ ...okpJwk, kid: 'key-1' });
+      expect(isPrivateJwk(jwk)).toBe(false);
+    });
+  });
+
+  describe('selectJwk', () => {
+    const jwks = {
+      keys: [
+        { ...okpJwk, kid: 'ed' },
+        { kty: 'EC', crv: 'P-256', x: 'x1', y: 'y1', kid: 'ec-1' },
+        { kty: 'EC', crv: 'P-256', x: 'x2', y: 'y2', kid: 'ec-2' },
+        { kty: 'EC', crv: 'P-256', x: 'x3', y: 'y3', use: 'enc' },
+      ],
+    };
+
+    it('should select a key by kid', () => {
+      expect(selectJwk(jwks, { kid: 'ec-2' }).getOrThrow().x).toBe('x2');
+    });
+
+    it('should select the only key for an algorithm without a kid', () => {
+      expect(selectJwk(jwks, { alg: 'EdDSA' }).getOrThrow().kid).toBe('ed');
+    });
+
+    it('should not select a key for another algorithm', () => {
+      const result = selectJwk(jwks, { kid: 'ed', alg: 'ES256' });
+
+      expect(result.error).toBeInstanceOf(JoseKeyNotFoundError);
+      expect(result.error?.message).toBe(
+        'No key of the JWK Set matches the kid ed'
+      );
+    });
+
+    it('should fail if several keys match without a kid', () => {
+      const result = selectJwk(jwks, { alg: 'ES256' });
+
+      expect(result.error).toBeInstanceOf(JoseKeyNotFoundError);
+      expect(result.error?.message).toBe(
+        'Several keys of the JWK Set match, so a kid is required'
+      );
+    });
+
+    it('should fail for an empty JWK Set', () => {
+      const result = selectJwk({ keys: [] });
+
+      expect(result.error).toBeInstanceOf(JoseKeyNotFoundError);
+      expect(result.error?.message).toBe('No key of the JWK Set matches');
+    });
+  });
+});
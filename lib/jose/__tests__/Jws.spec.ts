@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { decodeJws, signJws, verifyJws } from '../Jws';
+import { exportJwk, generateKeyPair } from '../Jwk';
+import { JwsAlgorithm } from '../JwsAlgorithm';
+import {
+  JoseInvalidKeyError,
+  JoseKeyNotFoundError,
+  JoseMalformedError,
+  JoseSignatureVerificationError,
+  JoseUnsupportedAlgorithmError,
+} from '../JoseError';
+import { encodeBase64Url } from '../../utils/base64url';
+
+const ALGORITHMS: JwsAlgorithm[] = ['ES256', 'ES384', 'EdDSA', 'RS256'];
+
+describe('Jws', () => {
+  const keys = new Map<JwsAlgorithm, CryptoKeyPair>();
+
+  beforeAll(async () => {
+    for (const alg of ALGORITHMS) {
+      keys.set(alg, (await generateKeyPair(alg)).getOrThrow());
+    }
+  });
+
+  const keyPair = (alg: JwsAlgorithm): CryptoKeyPair => keys.get(alg)!;
+
+  describe('signJws and verifyJws', () => {
+    it.each(ALGORITHMS)('should sign and verify with %s', async (alg) => {
+      const { privateKey, publicKey } = keyPair(alg);
+      const jws = (
+        await signJws('hello', privateKey, { alg, kid: 'key-1' })
+      ).getOrThrow();
+      const verified = (await verifyJws(jws, publicKey)).getOrThrow();
+
+      expect(verified.header).toEqual({ alg, kid: 'key-1' });
+      expect(new TextDecoder().decode(verified.payload)).toBe('hello');
+    });
+
+    it('should verify with a JWK', async () => {
+      const { privateKey, publicKey } = keyPair('EdDSA');
+      const jws = (
+        await signJws('hello', privateKey, { alg: 'EdDSA' })
+      ).getOrThrow();
+      const jwk = (await exportJwk(publicKey)).getOrThrow();
+
+      expect((await verifyJws(jws, jwk)).isSuccess()).toBe(true);
+    });
+
+    it('should verify with the key of a JWK Set matching the kid', async () => {
+      const { privateKey, publicKey } = keyPair('ES256');
+      const other = (await exportJwk(keyPair('ES384').publicKey)).getOrThrow();
+      const jwk = (await exportJwk(publicKey)).getOrThrow();
+      const jwks = {
+        keys: [
+          { ...other, kid: 'other' },
+          { ...jwk, kid: 'key-1' },
+        ],
+      };
+      const jws = (
+        await signJws('hello', privateKey, { alg: 'ES256', kid: 'key-1' })
+      ).getOrThrow();
+
+      expect((await verifyJws(jws, jwks)).isSuccess()).toBe(true);
+
+      const unknown = (
+        await signJws('hello', privateKey, { alg: 'ES256', kid: 'key-2' })
+      ).getOrThrow();
+
+      expect((await verifyJws(unknown, jwks)).error).toBeInstanceOf(
+        JoseKeyNotFoundError
+      );
+    });
+
+    it('should verify with a key resolved from the header', async () => {
+      const { privateKey, publicKey } = keyPair('ES256');
+      const jwk = (await exportJwk(publicKey)).getOrThrow();
+      const jws = (
+        await signJws('hello', privateKey, { alg: 'ES256', jwk })
+      ).getOrThrow();
+      const result = await verifyJws(jws, (header) => header.jwk!);
+
+      expect(result.isSuccess()).toBe(true);
+    });
+
+    it('should fail if the signature does not verify', async () => {
+      const jws = (
+        await signJws('hello', keyPair('ES256').privateKey, { alg: 'ES256' })
+      ).getOrThrow();
+      const other = (await generateKeyPair('ES256')).getOrThrow();
+      const result = await verifyJws(jws, other.publicKey);
+
+      expect(result.error).toBeInstanceOf(JoseSignatureVerificationError);
+      expect(result.error?.message).toBe('The JWS signature is invalid');
+    });
+
+    it('should fail if the payload was altered', async () => {
+      const { privateKey, publicKey } = keyPair('EdDSA');
+      const [header, , signature] = (
+        await signJws('hello', privateKey, { alg: 'EdDSA' })
+      )
+        .getOrThrow()
+        .split('.');
+      const result = await verifyJws(
+        `${header}.${encodeBase64Url('hullo')}.${signature}`,
+        publicKey
+      );
+
+      expect(result.error).toBeInstanceOf(JoseSignatureVerificationError);
+    });
+
+    it('should reject an algorithm that is not allowed', async () => {
+      const { privateKey, publicKey } = keyPair('RS256');
+      const jws = (
+        await signJws('hello', privateKey, { alg: 'RS256' })
+      ).getOrThrow();
+      const result = await verifyJws(jws, publicKey, { algorithms: ['ES256'] });
+
+      expect(result.error).toBeInstanceOf(JoseUnsupportedAlgorithmError);
+      expect(result.error?.message).toBe('The algorithm RS256 is not allowed');
+    });
+
+    it('should reject the none algorithm', async () => {
+      const jws = `${encodeBase64Url('{"alg":"none"}')}.${encodeBase64Url(
+        'hello'
+      )}.`;
+      const result = await verifyJws(jws, keyPair('ES256').publicKey);
+
+      expect(result.error).toBeInstanceOf(JoseUnsupportedAlgorithmError);
+    });
+
+    it('should reject a key made for another algorithm', async () => {
+      const jws = (
+        await signJws('hello', keyPair('ES256').privateKey, { alg: 'ES256' })
+      ).getOrThrow();
+      const result = await verifyJws(jws, keyPair('ES384').publicKey);
+
+      expect(result.error).toBeInstanceOf(JoseInvalidKeyError);
+      expect(result.error?.message).toBe(
+        'The key is not a public key for ES256'
+      );
+    });
+
+    it('should reject critical header parameters', async () => {
+      const { privateKey, publicKey } = keyPair('ES256');
+      const jws = (
+        await signJws('hello', privateKey, { alg: 'ES256', crit: ['exp'] })
+      ).getOrThrow();
+      const result = await verifyJws(jws, publicKey);
+
+      expect(result.error).toBeInstanceOf(JoseMalformedError);
+    });
+
+    it('should not sign with an unsupported algorithm', async () => {
+      const result = await signJws('hello', keyPair('ES256').privateKey, {
+        alg: 'HS256',
+      });
+
+      expect(result.error).toBeInstanceOf(JoseUnsupportedAlgorithmError);
+      expect(result.error?.message).toBe(
+        'The algorithm HS256 is not supported'
+      );
+    });
+
+    it('should not sign with a key made for another algorithm', async () => {
+      const result = await signJws('hello', keyPair('ES256').privateKey, {
+        alg: 'EdDSA',
+      });
+
+      expect(result.error).toBeInstanceOf(JoseInvalidKeyError);
+      expect(result.error?.message).toBe(
+        'The key is not a private key for EdDSA'
+      );
+    });
+
+    it('should not embed a private key in the header', async () => {
+      const pair = (
+        await generateKeyPair('ES256', { extractable: true })
+      ).getOrThrow();
+      const jwk = (await exportJwk(pair.privateKey)).getOrThrow();
+      const result = await signJws('hello', pair.privateKey, {
+        alg: 'ES256',
+        jwk,
+      });
+
+      expect(result.error).toBeInstanceOf(JoseInvalidKeyError);
+    });
+  });
+
+  describe('decodeJws', () => {
+    it('should decode the parts without verifying', async () => {
+      const jws = (
+        await signJws('hello', keyPair('ES256').privateKey, {
+          alg: 'ES256',
+          typ: 'JWT',
+        })
+      ).getOrThrow();
+      const decoded = decodeJws(jws).getOrThrow();
+
+      expect(decoded.header).toEqual({ alg: 'ES256', typ: 'JWT' });
+      expect(decoded.signingInput).toBe(jws.slice(0, jws.lastIndexOf('.')));
+      expect(decoded.signature).toHaveLength(64);
+    });
+
+    it.each([
+      ['two parts', 'a.b'],
+      ['a header that is not JSON', `${encodeBase64Url('alg')}.e30.`],
+      ['a header without alg', `${encodeBase64Url('{}')}.e30.`],
+      ['invalid base64url', `${encodeBase64Url('{"alg":"ES256"}')}.e3+0.`],
+    ])('should fail for %s', (_, jws) => {
+      const result = decodeJws(jws);
+
+      expect(result.error).toBeInstanceOf(JoseMalformedError);
+      expect(result.error?.message).toBe('The JWS is malformed');
+    });
+  });
+});
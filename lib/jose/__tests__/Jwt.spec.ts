@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  JwtPayload,
+  decodeJwt,
+  signJwt,
+  validateJwtClaims,
+  verifyJwt,
+} from '../Jwt';
+import { generateKeyPair } from '../Jwk';
+import { signJws } from '../Jws';
+import {
+  JoseClaimValidationError,
+  JoseExpiredError,
+  JoseMalformedError,
+  JoseSignatureVerificationError,
+} from '../JoseError';
+
+const NOW = 1_700_000_000;
+const now = () => NOW * 1000;
+
+describe('Jwt', () => {
+  let keyPair: CryptoKeyPair;
+
+  beforeAll(async () => {
+    keyPair = (await generateKeyPair('ES256')).getOrThrow();
+  });
+
+  describe('validateJwtClaims', () => {
+    it('should accept valid claims', () => {
+      const payload = {
+        iss: 'https://issuer.example.com',
+        aud: ['https://rp.example.com', 'https://other.example.com'],
+        iat: NOW - 10,
+        nbf: NOW - 10,
+        exp: NOW + 10,
+      };
+      const result = validateJwtClaims(payload, {
+        issuer: 'https://issuer.example.com',
+        audience: 'https://rp.example.com',
+        maxAgeSeconds: 60,
+        now,
+      });
+
+      expect(result.getOrThrow()).toBe(payload);
+    });
+
+    it.each([
+      ['exp', { exp: NOW }, JoseExpiredError, 'The exp claim has passed'],
+      [
+        'nbf',
+        { nbf: NOW + 1 },
+        JoseClaimValidationError,
+        'The nbf claim is in the future',
+      ],
+      [
+        'iat',
+        { iat: NOW + 1 },
+        JoseClaimValidationError,
+        'The iat claim is in the future',
+      ],
+      [
+        'iat',
+        { iat: 'yesterday' },
+        JoseClaimValidationError,
+        'The iat claim must be a number',
+      ],
+    ])(
+      'should reject an invalid %s claim',
+      (claim, payload, errorClass, message) => {
+        const result = validateJwtClaims(payload as JwtPayload, { now });
+
+        expect(result.error).toBeInstanceOf(errorClass);
+        expect(result.error?.message).toBe(message);
+        expect((result.error as JoseClaimValidationError).claim).toBe(claim);
+      }
+    );
+
+    it('should tolerate the clock skew', () => {
+      const payload = { exp: NOW - 30, nbf: NOW + 30, iat: NOW + 30 };
+
+      expect(
+        validateJwtClaims(payload, { now, clockSkewSeconds: 60 }).isSuccess()
+      ).toBe(true);
+      expect(
+        validateJwtClaims(payload, { now, clockSkewSeconds: 10 }).isFailure()
+      ).toBe(true);
+    });
+
+    it('should reject a JWT issued longer ago than the maximum age', () => {
+      const result = validateJwtClaims(
+        { iat: NOW - 301 },
+        { now, maxAgeSeconds: 300 }
+      );
+
+      expect(result.error).toBeInstanceOf(JoseExpiredError);
+      expect(result.error?.message).toBe(
+        'The iat claim is more than 300 seconds in the past'
+      );
+    });
+
+    it.each([
+      ['audience', { audience: 'a' }, 'aud'],
+      ['maxAgeSeconds', { maxAgeSeconds: 60 }, 'iat'],
+      ['issuer', { issuer: 'i' }, 'iss'],
+      ['requiredClaims', { requiredClaims: ['nonce'] }, 'nonce'],
+    ])(
+      'should require the claims implied by the %s option',
+      (_, options, claim) => {
+        const result = validateJwtClaims({}, { now, ...options });
+
+        expect(result.error).toBeInstanceOf(JoseClaimValidationError);
+        expect(result.error?.message).toBe(`The ${claim} claim is missing`);
+      }
+    );
+
+    it.each<[string, JwtPayload, string]>([
+      ['another issuer', { iss: 'https://evil.example.com' }, 'iss'],
+      ['another audience', { aud: 'https://evil.example.com' }, 'aud'],
+      ['an empty audience', { aud: [] }, 'aud'],
+    ])('should reject %s', (_, payload, claim) => {
+      const result = validateJwtClaims(payload, {
+        issuer:
+          payload.iss === undefined ? undefined : 'https://issuer.example.com',
+        audience:
+          payload.aud === undefined ? undefined : 'https://rp.example.com',
+        now,
+      });
+
+      expect(result.error).toBeInstanceOf(JoseClaimValidationError);
+      expect((result.error as JoseClaimValidationError).claim).toBe(claim);
+    });
+
+    it('should reject an audience that is not a string', () => {
+      const result = validateJwtClaims({ aud: [42] } as unknown as JwtPayload, {
+        audience: 'https://rp.example.com',
+        now,
+      });
+
+      expect(result.error?.message).toBe(
+        'The aud claim must be a string or an array of strings'
+      );
+    });
+  });
+
+  describe('signJwt and verifyJwt', () => {
+    it('should sign claims and verify them', async () => {
+      const payload = {
+        iss: 'https://issuer.example.com',
+        iat: NOW,
+        sub: 'alice',
+      };
+      const jwt = (
+        await signJwt(payload, keyPair.privateKey, { alg: 'ES256', typ: 'JWT' })
+      ).getOrThrow();
+      const result = await verifyJwt(jwt, keyPair.publicKey, {
+        typ: 'JWT',
+        issuer: 'https://issuer.example.com',
+        maxAgeSeconds: 60,
+        now,
+      });
+
+      expect(result.getOrThrow()).toEqual({
+        header: { alg: 'ES256', typ: 'JWT' },
+        payload,
+      });
+    });
+
+    it('should check the signature before the claims', async () => {
+      const jwt = (
+        await signJwt({ exp: NOW - 1 }, keyPair.privateKey, { alg: 'ES256' })
+      ).getOrThrow();
+      const other = (await generateKeyPair('ES256')).getOrThrow();
+      const result = await verifyJwt(jwt, other.publicKey, { now });
+
+      expect(result.error).toBeInstanceOf(JoseSignatureVerificationError);
+    });
+
+    it('should reject an expired JWT', async () => {
+      const jwt = (
+        await signJwt({ exp: NOW - 1 }, keyPair.privateKey, { alg: 'ES256' })
+      ).getOrThrow();
+      const result = await verifyJwt(jwt, keyPair.publicKey, { now });
+
+      expect(result.isFailureOf(JoseExpiredError)).toBe(true);
+    });
+
+    it('should reject another typ', async () => {
+      const jwt = (
+        await signJwt({}, keyPair.privateKey, { alg: 'ES256', typ: 'JWT' })
+      ).getOrThrow();
+      const result = await verifyJwt(jwt, keyPair.publicKey, {
+        typ: 'openid4vci-proof+jwt',
+      });
+
+      expect(result.error).toBeInstanceOf(JoseMalformedError);
+      expect(result.error?.message).toBe(
+        'The typ header must be openid4vci-proof+jwt'
+      );
+    });
+
+    it('should reject a payload that is not a JSON object', async () => {
+      const jws = (
+        await signJws('[1, 2]', keyPair.privateKey, { alg: 'ES256' })
+      ).getOrThrow();
+      const result = await verifyJwt(jws, keyPair.publicKey);
+
+      expect(result.error).toBeInstanceOf(JoseMalformedError);
+      expect(result.error?.message).toBe(
+        'The JWT payload is not a JSON object'
+      );
+    });
+  });
+
+  describe('decodeJwt', () => {
+    it('should decode the header and claims without verifying', async () => {
+      const jwt = (
+        await signJwt({ iss: 'i' }, keyPair.privateKey, {
+          alg: 'ES256',
+          kid: 'k',
+        })
+      ).getOrThrow();
+
+      expect(decodeJwt(jwt).getOrThrow()).toEqual({
+        header: { alg: 'ES256', kid: 'k' },
+        payload: { iss: 'i' },
+      });
+    });
+
+    it('should fail for a malformed JWT', () => {
+      expect(decodeJwt('not-a-jwt').error).toBeInstanceOf(JoseMalformedError);
+    });
+  });
+});
@@ -0,0 +1,5 @@
+export * from './JoseError';
+export * from './Jwk';
+export * from './Jws';
+export * from './JwsAlgorithm';
+export * from './Jwt';
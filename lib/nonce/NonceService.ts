@@ -0,0 +1,247 @@
+import { InvalidNonceError } from '../oauth/OID4VCError';
+import { OAuthErrorOptions } from '../oauth/OAuthError';
+import { AtomicKeyValueStore } from '../storage/KeyValueStore';
+import { RandomSource, cryptoRandom, randomBase64Url } from '../utils/random';
+import { Result, runAsyncCatching } from '../utils/result';
+
+/**
+ * Options for constructing a NonceService instance.
+ */
+export interface NonceServiceOptions {
+  /**
+   * The lifetime of a nonce in seconds. Defaults to 300.
+   */
+  ttlSeconds?: number;
+  /**
+   * How long an expired nonce is remembered, in seconds, so that it is reported as expired
+   * rather than unknown. Defaults to 300.
+   */
+  expiredRetentionSeconds?: number;
+  /**
+   * The number of random bytes in a nonce. Defaults to 32.
+   */
+  byteLength?: number;
+  /**
+   * The prefix of the keys under which nonces are stored. Defaults to 'nonce:'.
+   */
+  keyPrefix?: string;
+  /**
+   * Returns the current time in milliseconds since the epoch. Defaults to Date.now.
+   */
+  now?: () => number;
+  /**
+   * The random source. Defaults to crypto.getRandomValues.
+   */
+  random?: RandomSource;
+}
+
+/**
+ * Options for issuing a nonce.
+ */
+export interface IssueNonceOptions {
+  /**
+   * The session or client ID the nonce is bound to. A bound nonce can only be consumed with the same binding.
+   */
+  binding?: string;
+  /**
+   * The lifetime of this nonce in seconds, overriding the service default.
+   */
+  ttlSeconds?: number;
+}
+
+/**
+ * Options for consuming a nonce.
+ */
+export interface ConsumeNonceOptions {
+  /**
+   * The session or client ID presenting the nonce.
+   */
+  binding?: string;
+}
+
+/**
+ * A nonce issued by NonceService.
+ */
+export interface IssuedNonce {
+  /**
+   * The nonce value, for example the c_nonce of a credential or nonce response.
+   */
+  nonce: string;
+  /**
+   * The lifetime of the nonce in seconds, for example c_nonce_expires_in.
+   */
+  expiresIn: number;
+  /**
+   * The expiration time in seconds since the epoch.
+   */
+  expiresAt: number;
+}
+
+/**
+ * A nonce that has been consumed.
+ */
+export interface ConsumedNonce {
+  nonce: string;
+  binding?: string;
+  expiresAt: number;
+}
+
+/**
+ * The stored state of a nonce.
+ */
+interface NonceRecord {
+  binding?: string;
+  expiresAt: number;
+}
+
+/**
+ * Indicates that a nonce was issued but its lifetime has passed.
+ * It is reported with the invalid_nonce error code.
+ */
+export class ExpiredNonceError extends InvalidNonceError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super(description, options);
+    this.name = 'ExpiredNonceError';
+  }
+}
+
+const DEFAULT_TTL_SECONDS = 300;
+const DEFAULT_EXPIRED_RETENTION_SECONDS = 300;
+const DEFAULT_BYTE_LENGTH = 32;
+const DEFAULT_KEY_PREFIX = 'nonce:';
+
+/**
+ * Issues single-use nonces, such as OID4VCI c_nonce values and OID4VP nonce values,
+ * and validates them exactly once.
+ *
+ * Nonces are cryptographically random and stored with a TTL in an AtomicKeyValueStore,
+ * so that of several concurrent attempts to consume a nonce at most one succeeds.
+ */
+export class NonceService {
+  /**
+   * Constructs a new NonceService instance.
+   *
+   * @param store - The store holding issued nonces, such as DynamoDB or InMemoryStore.
+   * @param options - Optional settings such as the lifetime, the clock and the random source.
+   */
+  constructor(
+    private readonly store: AtomicKeyValueStore,
+    private readonly options: NonceServiceOptions = {}
+  ) {}
+
+  /**
+   * Issues a new nonce.
+   *
+   * @param options - Optional settings such as the session or client binding.
+   * @returns A promise that resolves to a Result of the issued nonce, or a failure if it could not be stored.
+   */
+  async issue(options: IssueNonceOptions = {}): Promise<Result<IssuedNonce>> {
+    const nonce = randomBase64Url(
+      this.options.byteLength ?? DEFAULT_BYTE_LENGTH,
+      this.options.random ?? cryptoRandom
+    );
+    const expiresIn =
+      options.ttlSeconds ?? this.options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+    const expiresAt = this.nowInSeconds() + expiresIn;
+    const record: NonceRecord = { binding: options.binding, expiresAt };
+
+    return runAsyncCatching(async () => {
+      await this.store.put(this.keyOf(nonce), JSON.stringify(record), {
+        expiration:
+          expiresAt +
+          (this.options.expiredRetentionSeconds ??
+            DEFAULT_EXPIRED_RETENTION_SECONDS),
+      });
+
+      return { nonce, expiresIn, expiresAt };
+    });
+  }
+
+  /**
+   * Validates and consumes a nonce. A nonce can be consumed at most once, even if validation fails.
+   *
+   * @param nonce - The nonce presented by the client.
+   * @param options - Optional settings such as the session or client binding of the presenter.
+   * @returns A promise that resolves to a Result of the consumed nonce. The Result is a failure with
+   * an ExpiredNonceError if the nonce has expired, an InvalidNonceError if it is unknown, already used
+   * or bound to another session or client, or the store error if the store failed.
+   */
+  async consume(
+    nonce: string,
+    options: ConsumeNonceOptions = {}
+  ): Promise<Result<ConsumedNonce>> {
+    const taken = await runAsyncCatching(() =>
+      this.store.take(this.keyOf(nonce))
+    );
+
+    if (taken.isFailure()) {
+      return Result.failure(taken.error);
+    }
+
+    if (taken.value === null) {
+      return Result.failure(
+        new InvalidNonceError('Nonce is unknown or has already been used')
+      );
+    }
+
+    const record = parseRecord(taken.value!);
+
+    if (!record) {
+      return Result.failure(new InvalidNonceError('Nonce record is corrupt'));
+    }
+
+    if (record.expiresAt <= this.nowInSeconds()) {
+      return Result.failure(new ExpiredNonceError('Nonce has expired'));
+    }
+
+    if (record.binding !== undefined && record.binding !== options.binding) {
+      return Result.failure(
+        new InvalidNonceError('Nonce was issued to another session or client')
+      );
+    }
+
+    return Result.success({
+      nonce,
+      binding: record.binding,
+      expiresAt: record.expiresAt,
+    });
+  }
+
+  /**
+   * Returns the key under which a nonce is stored.
+   *
+   * @param nonce - The nonce.
+   * @returns The key.
+   */
+  private keyOf(nonce: string): string {
+    return `${this.options.keyPrefix ?? DEFAULT_KEY_PREFIX}${nonce}`;
+  }
+
+  /**
+   * Returns the current time in whole seconds since the epoch.
+   *
+   * @returns The current time in seconds.
+   */
+  private nowInSeconds(): number {
+    return Math.floor((this.options.now ?? Date.now)() / 1000);
+  }
+}
+
+/**
+ * Parses a stored nonce record.
+ *
+ * @param raw - The stored value.
+ * @returns The record, or undefined if the value is not a valid record.
+ */
+const parseRecord = (raw: string): NonceRecord | undefined => {
+  try {
+    const record = JSON.parse(raw) as Partial<NonceRecord>;
+
+    return typeof record?.expiresAt === 'number' &&
+      (record.binding === undefined || typeof record.binding === 'string')
+      ? (record as NonceRecord)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ExpiredNonceError, NonceService } from '../NonceService';
+import { InMemoryStore } from '../../storage/InMemoryStore';
+import { InvalidNonceError } from '../../oauth/OID4VCError';
+
+describe('NonceService', () => {
+  let now: number;
+  let store: InMemoryStore;
+  let service: NonceService;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    store = new InMemoryStore({ now: () => now });
+    service = new NonceService(store, { now: () => now });
+  });
+
+  describe('issue', () => {
+    it('should issue a random base64url nonce with its lifetime', async () => {
+      const result = await service.issue();
+
+      expect(result.isSuccess()).toBe(true);
+      expect(result.value?.nonce).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(result.value?.expiresIn).toBe(300);
+      expect(result.value?.expiresAt).toBe(1_700_000_300);
+    });
+
+    it('should issue distinct nonces', async () => {
+      const first = await service.issue();
+      const second = await service.issue();
+
+      expect(first.value?.nonce).not.toBe(second.value?.nonce);
+    });
+
+    it('should use the random source, byte length and key prefix', async () => {
+      service = new NonceService(store, {
+        now: () => now,
+        byteLength: 3,
+        keyPrefix: 'c_nonce:',
+        random: (bytes) => bytes.fill(255),
+      });
+
+      const result = await service.issue();
+
+      expect(result.value?.nonce).toBe('____');
+      expect(await store.get('c_nonce:____')).not.toBeNull();
+    });
+
+    it('should honour a per-nonce lifetime', async () => {
+      const result = await service.issue({ ttlSeconds: 60 });
+
+      expect(result.value?.expiresIn).toBe(60);
+      expect(result.value?.expiresAt).toBe(1_700_000_060);
+    });
+
+    it('should return a failure if the store fails', async () => {
+      vi.spyOn(store, 'put').mockRejectedValue(new Error('Store Error'));
+
+      const result = await service.issue();
+
+      expect(result.error?.message).toBe('Store Error');
+    });
+  });
+
+  describe('consume', () => {
+    it('should consume an issued nonce', async () => {
+      const { nonce } = (await service.issue()).getOrThrow();
+
+      const result = await service.consume(nonce);
+
+      expect(result.value).toEqual({ nonce, expiresAt: 1_700_000_300 });
+    });
+
+    it('should consume a nonce at most once', async () => {
+      const { nonce } = (await service.issue()).getOrThrow();
+
+      const results = await Promise.all([
+        service.consume(nonce),
+        service.consume(nonce),
+      ]);
+
+      expect(results.filter((result) => result.isSuccess())).toHaveLength(1);
+      expect(
+        results
+          .find((result) => result.isFailure())
+          ?.isFailureOf(InvalidNonceError)
+      ).toBe(true);
+    });
+
+    it('should reject an unknown nonce', async () => {
+      const result = await service.consume('unknown');
+
+      expect(result.error).toBeInstanceOf(InvalidNonceError);
+      expect(result.error).not.toBeInstanceOf(ExpiredNonceError);
+    });
+
+    it('should report an expired nonce as expired', async () => {
+      const { nonce } = (await service.issue()).getOrThrow();
+      now += 300_000;
+
+      const result = await service.consume(nonce);
+
+      expect(result.error).toBeInstanceOf(ExpiredNonceError);
+      expect((result.error as InvalidNonceError).code).toBe('invalid_nonce');
+    });
+
+    it('should forget an expired nonce after the retention period', async () => {
+      const { nonce } = (await service.issue()).getOrThrow();
+      now += 600_000;
+
+      const result = await service.consume(nonce);
+
+      expect(result.error).toBeInstanceOf(InvalidNonceError);
+      expect(result.error).not.toBeInstanceOf(ExpiredNonceError);
+    });
+
+    it('should accept a bound nonce with the same binding', async () => {
+      const { nonce } = (
+        await service.issue({ binding: 'session-1' })
+      ).getOrThrow();
+
+      const result = await service.consume(nonce, { binding: 'session-1' });
+
+      expect(result.value?.binding).toBe('session-1');
+    });
+
+    it('should reject a bound nonce with another binding and consume it', async () => {
+      const { nonce } = (
+        await service.issue({ binding: 'session-1' })
+      ).getOrThrow();
+
+      const result = await service.consume(nonce, { binding: 'session-2' });
+      const retry = await service.consume(nonce, { binding: 'session-1' });
+
+      expect(result.error).toBeInstanceOf(InvalidNonceError);
+      expect(result.error?.message).toBe(
+        'Nonce was issued to another session or client'
+      );
+      expect(retry.isFailure()).toBe(true);
+    });
+
+    it('should reject a corrupt record', async () => {
+      await store.put('nonce:corrupt', 'not json');
+
+      const result = await service.consume('corrupt');
+
+      expect(result.error).toBeInstanceOf(InvalidNonceError);
+    });
+
+    it('should return a failure if the store fails', async () => {
+      vi.spyOn(store, 'take').mockRejectedValue(new Error('Store Error'));
+
+      const result = await service.consume('nonce');
+
+      expect(result.error?.message).toBe('Store Error');
+    });
+  });
+});
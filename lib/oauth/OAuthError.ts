@@ -0,0 +1,525 @@
+import {
+  SerializableErrorClass,
+  SerializedError,
+  registerErrorClass,
+  registerErrorConverter,
+  registerErrorRestorer,
+} from '../utils/errorUtils';
+
+/**
+ * Error codes defined by OAuth 2.0 (RFC 6749) and Bearer Token Usage (RFC 6750).
+ * Other codes, such as those of OID4VCI and OID4VP, are accepted as strings.
+ */
+export type OAuthErrorCode =
+  | 'invalid_request'
+  | 'invalid_client'
+  | 'invalid_grant'
+  | 'unauthorized_client'
+  | 'unsupported_grant_type'
+  | 'invalid_scope'
+  | 'access_denied'
+  | 'server_error'
+  | 'temporarily_unavailable'
+  | 'invalid_token'
+  | 'insufficient_scope'
+  | 'unexpected_response'
+  | (string & Record<never, never>);
+
+/**
+ * The body of an OAuth 2.0 error response.
+ * Additional parameters, such as a fresh c_nonce, may be present.
+ */
+export interface OAuthErrorBody {
+  error: OAuthErrorCode;
+  error_description?: string;
+  error_uri?: string;
+  [parameter: string]: unknown;
+}
+
+/**
+ * Options for constructing an OAuthError.
+ */
+export interface OAuthErrorOptions {
+  /**
+   * The HTTP status code of the error response. Defaults to the status code of the error code, or 400.
+   */
+  status?: number;
+  /**
+   * A URI identifying a human-readable page with information about the error.
+   */
+  uri?: string;
+  /**
+   * Additional parameters of the error response body.
+   */
+  parameters?: Record<string, unknown>;
+  /**
+   * The error that caused this error.
+   */
+  cause?: unknown;
+}
+
+/**
+ * The HTTP status codes of error codes whose status is not 400.
+ */
+const STATUS_BY_CODE: Record<string, number> = {
+  invalid_client: 401,
+  access_denied: 403,
+  server_error: 500,
+  temporarily_unavailable: 503,
+  invalid_token: 401,
+  insufficient_scope: 403,
+  unexpected_response: 502,
+};
+
+/**
+ * Error codes reported by resource servers in the WWW-Authenticate header (RFC 6750).
+ */
+const BEARER_CHALLENGE_CODES = ['invalid_token', 'insufficient_scope'];
+
+/**
+ * The reserved parameters of an error response body.
+ */
+const RESERVED_PARAMETERS = ['error', 'error_description', 'error_uri'];
+
+/**
+ * The pattern of the error and error_description values (RFC 6749 Section 5.2).
+ */
+const ERROR_VALUE_PATTERN = /^[\x20-\x21\x23-\x5B\x5D-\x7E]+$/;
+
+/**
+ * The constructors of the subclasses, by error code, used to restore typed errors.
+ */
+const errorClassesByCode = new Map<
+  string,
+  new (description?: string, options?: OAuthErrorOptions) => OAuthError
+>();
+
+/**
+ * Registers the subclass of OAuthError reported for an error code by fromJSON and fromResponse.
+ *
+ * @param code - The error code.
+ * @param errorClass - The subclass constructed with a description and options.
+ */
+export const registerOAuthErrorClass = (
+  code: OAuthErrorCode,
+  errorClass: new (
+    description?: string,
+    options?: OAuthErrorOptions
+  ) => OAuthError
+): void => {
+  errorClassesByCode.set(code, errorClass);
+};
+
+/**
+ * Returns the subclass of OAuthError registered for an error code.
+ *
+ * @param code - The error code.
+ * @returns The subclass, or undefined if none is registered.
+ */
+export const getOAuthErrorClass = (
+  code: OAuthErrorCode
+):
+  | (new (description?: string, options?: OAuthErrorOptions) => OAuthError)
+  | undefined => errorClassesByCode.get(code);
+
+/**
+ * Checks whether a value is the body of an OAuth 2.0 error response.
+ *
+ * @param value - The value to check, typically parsed from JSON.
+ * @returns True if the value has a valid string error code.
+ */
+export const isOAuthErrorBody = (value: unknown): value is OAuthErrorBody => {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+
+  const { error, error_description, error_uri } = value as Record<
+    string,
+    unknown
+  >;
+
+  return (
+    typeof error === 'string' &&
+    ERROR_VALUE_PATTERN.test(error) &&
+    (error_description === undefined ||
+      typeof error_description === 'string') &&
+    (error_uri === undefined || typeof error_uri === 'string')
+  );
+};
+
+/**
+ * An OAuth 2.0 protocol error, returned to clients as `{ error, error_description, error_uri }`.
+ */
+export class OAuthError extends Error {
+  /**
+   * The HTTP status code of the error response.
+   */
+  readonly status: number;
+
+  /**
+   * The human-readable description of the error.
+   */
+  readonly description?: string;
+
+  /**
+   * A URI identifying a human-readable page with information about the error.
+   */
+  readonly uri?: string;
+
+  /**
+   * Additional parameters of the error response body.
+   */
+  readonly parameters: Record<string, unknown>;
+
+  /**
+   * The error that caused this error.
+   */
+  readonly cause?: unknown;
+
+  /**
+   * Constructs a new OAuthError instance.
+   *
+   * @param code - The error code.
+   * @param description - The human-readable description of the error.
+   * @param options - Optional settings such as the status code and additional parameters.
+   */
+  constructor(
+    readonly code: OAuthErrorCode,
+    description?: string,
+    options: OAuthErrorOptions = {}
+  ) {
+    super(description ?? code);
+    this.name = 'OAuthError';
+    this.status = options.status ?? STATUS_BY_CODE[code] ?? 400;
+    this.description = description;
+    this.uri = options.uri;
+    this.parameters = options.parameters ?? {};
+    this.cause = options.cause;
+  }
+
+  /**
+   * Restores a typed error from the body of an error response.
+   * Error codes without a registered subclass are restored as OAuthError.
+   *
+   * @param body - The body of the error response.
+   * @param options - Optional settings, typically the status code of the response.
+   * @returns The error.
+   */
+  static fromJSON(
+    body: OAuthErrorBody,
+    options: Omit<OAuthErrorOptions, 'uri' | 'parameters'> = {}
+  ): OAuthError {
+    const parameters = Object.fromEntries(
+      Object.entries(body).filter(
+        ([key]) =>
+          !RESERVED_PARAMETERS.includes(key) &&
+          key !== '__proto__' &&
+          key !== 'constructor'
+      )
+    );
+    const errorOptions: OAuthErrorOptions = {
+      ...options,
+      uri: body.error_uri,
+      parameters,
+    };
+    const errorClass = getOAuthErrorClass(body.error);
+
+    return errorClass
+      ? new errorClass(body.error_description, errorOptions)
+      : new OAuthError(body.error, body.error_description, errorOptions);
+  }
+
+  /**
+   * Restores a typed error from an error response on the client side.
+   * The error is read from the JSON body, or from a Bearer WWW-Authenticate challenge.
+   * Responses carrying neither are reported as 'unexpected_response' with the status code of the response.
+   *
+   * @param response - The error response. Its body is read from a clone.
+   * @returns A promise that resolves to the error.
+   */
+  static async fromResponse(response: Response): Promise<OAuthError> {
+    const body: unknown = await response
+      .clone()
+      .json()
+      .catch(() => undefined);
+
+    if (isOAuthErrorBody(body)) {
+      return OAuthError.fromJSON(body, { status: response.status });
+    }
+
+    const challenge = parseBearerChallenge(
+      response.headers.get('WWW-Authenticate')
+    );
+
+    if (challenge) {
+      return OAuthError.fromJSON(challenge, { status: response.status });
+    }
+
+    return new OAuthError(
+      'unexpected_response',
+      `Unexpected response with status ${response.status}`,
+      { status: response.status }
+    );
+  }
+
+  /**
+   * Converts the error to the body of an error response.
+   *
+   * @returns The body, including additional parameters.
+   */
+  toJSON(): OAuthErrorBody {
+    const body: OAuthErrorBody = { ...this.parameters, error: this.code };
+
+    if (this.description !== undefined) {
+      body.error_description = this.description;
+    }
+
+    if (this.uri !== undefined) {
+      body.error_uri = this.uri;
+    }
+
+    return body;
+  }
+
+  /**
+   * Converts the error to a Fetch API Response, usable in Workers and other Fetch-based runtimes.
+   * The response is not cacheable, and invalid_token and insufficient_scope errors carry a Bearer challenge.
+   *
+   * @param init - Optional additional headers of the response.
+   * @returns The error response.
+   */
+  toResponse(init: { headers?: HeadersInit } = {}): Response {
+    const headers = new Headers(init.headers);
+    headers.set('Content-Type', 'application/json');
+    headers.set('Cache-Control', 'no-store');
+
+    if (BEARER_CHALLENGE_CODES.includes(this.code)) {
+      headers.set('WWW-Authenticate', `Bearer error="${this.code}"`);
+    }
+
+    return new Response(JSON.stringify(this.toJSON()), {
+      status: this.status,
+      headers,
+    });
+  }
+}
+
+/**
+ * Parses the error parameters of a Bearer WWW-Authenticate challenge.
+ *
+ * @param header - The WWW-Authenticate header.
+ * @returns The error response body, or undefined if the header has no Bearer error.
+ */
+const parseBearerChallenge = (
+  header: string | null
+): OAuthErrorBody | undefined => {
+  if (!header || !/^Bearer\b/i.test(header.trim())) {
+    return undefined;
+  }
+
+  const parameters: Record<string, string> = {};
+
+  for (const [, key, value] of header.matchAll(/(\w+)="([^"]*)"/g)) {
+    parameters[key] = value;
+  }
+
+  return isOAuthErrorBody(parameters) ? parameters : undefined;
+};
+
+/**
+ * Rebuilds a serialized OAuthError through fromJSON, so that it has the class, status and parameters of its code.
+ * Errors whose name is registered with a class other than an OAuthError are left to that class.
+ *
+ * @param serialized - The serialized error.
+ * @param errorClass - The class registered under the name of the error, if any.
+ * @returns The error, or undefined if the serialized error is not an OAuthError.
+ */
+const restoreOAuthError = (
+  serialized: SerializedError,
+  errorClass: SerializableErrorClass | undefined
+): OAuthError | undefined => {
+  const { code, status, description, message, uri, parameters } = serialized;
+
+  if (
+    typeof code !== 'string' ||
+    (errorClass === undefined
+      ? getOAuthErrorClass(code) === undefined
+      : errorClass !== OAuthError &&
+        !(errorClass.prototype instanceof OAuthError))
+  ) {
+    return undefined;
+  }
+
+  const body: OAuthErrorBody = {
+    ...(parameters !== null &&
+    typeof parameters === 'object' &&
+    !Array.isArray(parameters)
+      ? parameters
+      : {}),
+    error: code,
+  };
+
+  if (typeof description === 'string') {
+    body.error_description = description;
+  } else if (message !== code) {
+    body.error_description = message;
+  }
+
+  if (typeof uri === 'string') {
+    body.error_uri = uri;
+  }
+
+  return OAuthError.fromJSON(
+    body,
+    typeof status === 'number' ? { status } : {}
+  );
+};
+
+/**
+ * The request is missing a parameter, includes an invalid value or is otherwise malformed.
+ */
+export class InvalidRequestError extends OAuthError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('invalid_request', description, options);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+/**
+ * Client authentication failed.
+ */
+export class InvalidClientError extends OAuthError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('invalid_client', description, options);
+    this.name = 'InvalidClientError';
+  }
+}
+
+/**
+ * The authorization grant, such as a pre-authorized code, is invalid, expired or revoked.
+ */
+export class InvalidGrantError extends OAuthError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('invalid_grant', description, options);
+    this.name = 'InvalidGrantError';
+  }
+}
+
+/**
+ * The client is not authorized to use this grant type.
+ */
+export class UnauthorizedClientError extends OAuthError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('unauthorized_client', description, options);
+    this.name = 'UnauthorizedClientError';
+  }
+}
+
+/**
+ * The grant type is not supported by the authorization server.
+ */
+export class UnsupportedGrantTypeError extends OAuthError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('unsupported_grant_type', description, options);
+    this.name = 'UnsupportedGrantTypeError';
+  }
+}
+
+/**
+ * The requested scope is invalid, unknown or malformed.
+ */
+export class InvalidScopeError extends OAuthError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('invalid_scope', description, options);
+    this.name = 'InvalidScopeError';
+  }
+}
+
+/**
+ * The resource owner or the server denied the request.
+ */
+export class AccessDeniedError extends OAuthError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('access_denied', description, options);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+/**
+ * The server encountered an unexpected condition.
+ */
+export class ServerError extends OAuthError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('server_error', description, options);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The server is temporarily unable to handle the request.
+ */
+export class TemporarilyUnavailableError extends OAuthError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('temporarily_unavailable', description, options);
+    this.name = 'TemporarilyUnavailableError';
+  }
+}
+
+/**
+ * The access token is invalid, expired or revoked.
+ */
+export class InvalidTokenError extends OAuthError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('invalid_token', description, options);
+    this.name = 'InvalidTokenError';
+  }
+}
+
+/**
+ * The access token does not grant the privileges the request requires.
+ */
+export class InsufficientScopeError extends OAuthError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('insufficient_scope', description, options);
+    this.name = 'InsufficientScopeError';
+  }
+}
+
+registerOAuthErrorClass('invalid_request', InvalidRequestError);
+registerOAuthErrorClass('invalid_client', InvalidClientError);
+registerOAuthErrorClass('invalid_grant', InvalidGrantError);
+registerOAuthErrorClass('unauthorized_client', UnauthorizedClientError);
+registerOAuthErrorClass('unsupported_grant_type', UnsupportedGrantTypeError);
+registerOAuthErrorClass('invalid_scope', InvalidScopeError);
+registerOAuthErrorClass('access_denied', AccessDeniedError);
+registerOAuthErrorClass('server_error', ServerError);
+registerOAuthErrorClass('temporarily_unavailable', TemporarilyUnavailableError);
+registerOAuthErrorClass('invalid_token', InvalidTokenError);
+registerOAuthErrorClass('insufficient_scope', InsufficientScopeError);
+
+let converterRegistered = false;
+
+/**
+ * Makes convertToError turn OAuth 2.0 error response bodies, such as a thrown `{ error: 'invalid_grant' }`,
+ * into typed OAuthErrors. Without it they become plain Errors, so that importing this module does not
+ * change how unrelated values are converted. Calling it again has no effect.
+ *
+ * @example
+ * registerOAuthErrorConverter();
+ * convertToError({ error: 'invalid_grant' }); // returns an InvalidGrantError
+ */
+export const registerOAuthErrorConverter = (): void => {
+  if (converterRegistered) {
+    return;
+  }
+
+  converterRegistered = true;
+  registerErrorConverter((value) =>
+    isOAuthErrorBody(value)
+      ? OAuthError.fromJSON(value, { cause: value })
+      : undefined
+  );
+};
+
+registerErrorClass(OAuthError);
+registerErrorRestorer(restoreOAuthError);
@@ -0,0 +1,178 @@
+import { registerErrorClass } from '../utils/errorUtils';
+import {
+  OAuthError,
+  OAuthErrorCode,
+  OAuthErrorOptions,
+  registerOAuthErrorClass,
+} from './OAuthError';
+
+/**
+ * Error codes defined by OpenID for Verifiable Credential Issuance and OpenID for Verifiable Presentations.
+ */
+export type OID4VCErrorCode =
+  | 'invalid_credential_request'
+  | 'unsupported_credential_type'
+  | 'unsupported_credential_format'
+  | 'invalid_proof'
+  | 'invalid_nonce'
+  | 'invalid_encryption_parameters'
+  | 'credential_request_denied'
+  | 'vp_formats_not_supported'
+  | 'invalid_presentation_definition_uri'
+  | 'invalid_presentation_definition_reference';
+
+/**
+ * The base class of the protocol errors defined by OID4VCI and OID4VP.
+ * They are reported with status 400, in the same body format as OAuth 2.0 errors.
+ */
+export class OID4VCError extends OAuthError {
+  /**
+   * Constructs a new OID4VCError instance.
+   *
+   * @param code - The error code.
+   * @param description - The human-readable description of the error.
+   * @param options - Optional settings such as the status code and additional parameters.
+   */
+  constructor(
+    code: OID4VCErrorCode | OAuthErrorCode,
+    description?: string,
+    options?: OAuthErrorOptions
+  ) {
+    super(code, description, options);
+    this.name = 'OID4VCError';
+  }
+}
+
+/**
+ * The credential request is missing a parameter, includes an invalid value or is otherwise malformed.
+ */
+export class InvalidCredentialRequestError extends OID4VCError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('invalid_credential_request', description, options);
+    this.name = 'InvalidCredentialRequestError';
+  }
+}
+
+/**
+ * The requested credential type is not supported.
+ */
+export class UnsupportedCredentialTypeError extends OID4VCError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('unsupported_credential_type', description, options);
+    this.name = 'UnsupportedCredentialTypeError';
+  }
+}
+
+/**
+ * The requested credential format is not supported.
+ */
+export class UnsupportedCredentialFormatError extends OID4VCError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('unsupported_credential_format', description, options);
+    this.name = 'UnsupportedCredentialFormatError';
+  }
+}
+
+/**
+ * The proof of possession in the credential request is invalid or missing.
+ */
+export class InvalidProofError extends OID4VCError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('invalid_proof', description, options);
+    this.name = 'InvalidProofError';
+  }
+}
+
+/**
+ * The nonce in the proof is invalid, expired or already used.
+ */
+export class InvalidNonceError extends OID4VCError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('invalid_nonce', description, options);
+    this.name = 'InvalidNonceError';
+  }
+}
+
+/**
+ * The credential response encryption parameters are invalid or missing.
+ */
+export class InvalidEncryptionParametersError extends OID4VCError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('invalid_encryption_parameters', description, options);
+    this.name = 'InvalidEncryptionParametersError';
+  }
+}
+
+/**
+ * The credential request was understood but the issuer will not issue the credential.
+ */
+export class CredentialRequestDeniedError extends OID4VCError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('credential_request_denied', description, options);
+    this.name = 'CredentialRequestDeniedError';
+  }
+}
+
+/**
+ * The wallet does not support any of the formats requested by the verifier.
+ */
+export class VpFormatsNotSupportedError extends OID4VCError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('vp_formats_not_supported', description, options);
+    this.name = 'VpFormatsNotSupportedError';
+  }
+}
+
+/**
+ * The presentation_definition_uri cannot be reached or does not return a valid presentation definition.
+ */
+export class InvalidPresentationDefinitionUriError extends OID4VCError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('invalid_presentation_definition_uri', description, options);
+    this.name = 'InvalidPresentationDefinitionUriError';
+  }
+}
+
+/**
+ * The presentation definition referenced by a scope value cannot be resolved.
+ */
+export class InvalidPresentationDefinitionReferenceError extends OID4VCError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super('invalid_presentation_definition_reference', description, options);
+    this.name = 'InvalidPresentationDefinitionReferenceError';
+  }
+}
+
+registerOAuthErrorClass(
+  'invalid_credential_request',
+  InvalidCredentialRequestError
+);
+registerOAuthErrorClass(
+  'unsupported_credential_type',
+  UnsupportedCredentialTypeError
+);
+registerOAuthErrorClass(
+  'unsupported_credential_format',
+  UnsupportedCredentialFormatError
+);
+registerOAuthErrorClass('invalid_proof', InvalidProofError);
+registerOAuthErrorClass('invalid_nonce', InvalidNonceError);
+registerOAuthErrorClass(
+  'invalid_encryption_parameters',
+  InvalidEncryptionParametersError
+);
+registerOAuthErrorClass(
+  'credential_request_denied',
+  CredentialRequestDeniedError
+);
+registerOAuthErrorClass('vp_formats_not_supported', VpFormatsNotSupportedError);
+registerOAuthErrorClass(
+  'invalid_presentation_definition_uri',
+  InvalidPresentationDefinitionUriError
+);
+registerOAuthErrorClass(
+  'invalid_presentation_definition_reference',
+  InvalidPresentationDefinitionReferenceError
+);
+
+registerErrorClass(OID4VCError);
@@ -0,0 +1,235 @@
+import { describe, it, expect } from 'vitest';
+import {
+  InvalidClientError,
+  InvalidGrantError,
+  InvalidRequestError,
+  InvalidTokenError,
+  OAuthError,
+  ServerError,
+  isOAuthErrorBody,
+  registerOAuthErrorConverter,
+} from '../OAuthError';
+import {
+  InvalidNonceError,
+  InvalidProofError,
+  OID4VCError,
+  VpFormatsNotSupportedError,
+} from '../OID4VCError';
+import {
+  convertToError,
+  deserializeError,
+  serializeError,
+} from '../../utils/errorUtils';
+
+describe('OAuthError', () => {
+  describe('constructor', () => {
+    it('should use the description as the message', () => {
+      const error = new InvalidGrantError('Pre-authorized code expired');
+
+      expect(error).toBeInstanceOf(OAuthError);
+      expect(error.name).toBe('InvalidGrantError');
+      expect(error.code).toBe('invalid_grant');
+      expect(error.message).toBe('Pre-authorized code expired');
+      expect(error.status).toBe(400);
+    });
+
+    it('should use the code as the message without a description', () => {
+      expect(new InvalidRequestError().message).toBe('invalid_request');
+    });
+
+    it('should default the status code by error code', () => {
+      expect(new InvalidClientError().status).toBe(401);
+      expect(new InvalidTokenError().status).toBe(401);
+      expect(new ServerError().status).toBe(500);
+      expect(new OAuthError('custom_error').status).toBe(400);
+      expect(new ServerError(undefined, { status: 502 }).status).toBe(502);
+    });
+
+    it('should place OID4VC errors under OID4VCError', () => {
+      const error = new InvalidProofError('Proof signature is invalid');
+
+      expect(error).toBeInstanceOf(OID4VCError);
+      expect(error).toBeInstanceOf(OAuthError);
+      expect(error.code).toBe('invalid_proof');
+      expect(error.status).toBe(400);
+    });
+  });
+
+  describe('toJSON', () => {
+    it('should produce the error response body', () => {
+      const error = new InvalidNonceError('c_nonce expired', {
+        uri: 'https://issuer.example.com/errors/nonce',
+        parameters: { c_nonce: 'fresh', c_nonce_expires_in: 300 },
+      });
+
+      expect(error.toJSON()).toEqual({
+        error: 'invalid_nonce',
+        error_description: 'c_nonce expired',
+        error_uri: 'https://issuer.example.com/errors/nonce',
+        c_nonce: 'fresh',
+        c_nonce_expires_in: 300,
+      });
+    });
+
+    it('should omit absent optional members', () => {
+      expect(new InvalidRequestError().toJSON()).toEqual({
+        error: 'invalid_request',
+      });
+    });
+  });
+
+  describe('toResponse', () => {
+    it('should produce a JSON response with the status code', async () => {
+      const response = new VpFormatsNotSupportedError(
+        'mso_mdoc is not supported'
+      ).toResponse();
+
+      expect(response.status).toBe(400);
+      expect(response.headers.get('Content-Type')).toBe('application/json');
+      expect(response.headers.get('Cache-Control')).toBe('no-store');
+      expect(response.headers.get('WWW-Authenticate')).toBeNull();
+      expect(await response.json()).toEqual({
+        error: 'vp_formats_not_supported',
+        error_description: 'mso_mdoc is not supported',
+      });
+    });
+
+    it('should add a Bearer challenge for invalid_token', () => {
+      const response = new InvalidTokenError('Token expired').toResponse();
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('WWW-Authenticate')).toBe(
+        'Bearer error="invalid_token"'
+      );
+    });
+
+    it('should add the given headers', () => {
+      const response = new InvalidRequestError().toResponse({
+        headers: { 'Access-Control-Allow-Origin': '*' },
+      });
+
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    });
+  });
+
+  describe('fromJSON', () => {
+    it('should restore the registered subclass of the code', () => {
+      const error = OAuthError.fromJSON(
+        { error: 'invalid_nonce', error_description: 'Unknown nonce' },
+        { status: 400 }
+      );
+
+      expect(error).toBeInstanceOf(InvalidNonceError);
+      expect(error.description).toBe('Unknown nonce');
+    });
+
+    it('should restore unknown codes as OAuthError with parameters', () => {
+      const error = OAuthError.fromJSON({
+        error: 'custom_error',
+        error_uri: 'https://example.com',
+        extra: 1,
+      });
+
+      expect(Object.getPrototypeOf(error)).toBe(OAuthError.prototype);
+      expect(error.code).toBe('custom_error');
+      expect(error.uri).toBe('https://example.com');
+      expect(error.parameters).toEqual({ extra: 1 });
+    });
+  });
+
+  describe('fromResponse', () => {
+    it('should restore a typed error from the response body', async () => {
+      const response = new InvalidGrantError('Wrong tx_code').toResponse();
+      const error = await OAuthError.fromResponse(response);
+
+      expect(error).toBeInstanceOf(InvalidGrantError);
+      expect(error.message).toBe('Wrong tx_code');
+      expect(error.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: 'invalid_grant',
+        error_description: 'Wrong tx_code',
+      });
+    });
+
+    it('should read the error from a Bearer challenge without a body', async () => {
+      const response = new Response(null, {
+        status: 401,
+        headers: {
+          'WWW-Authenticate':
+            'Bearer realm="issuer", error="invalid_token", error_description="The token expired"',
+        },
+      });
+      const error = await OAuthError.fromResponse(response);
+
+      expect(error).toBeInstanceOf(InvalidTokenError);
+      expect(error.description).toBe('The token expired');
+      expect(error.status).toBe(401);
+    });
+
+    it('should report other responses as unexpected_response', async () => {
+      const error = await OAuthError.fromResponse(
+        new Response('<html>Bad Gateway</html>', { status: 502 })
+      );
+
+      expect(error.code).toBe('unexpected_response');
+      expect(error.status).toBe(502);
+    });
+  });
+
+  describe('isOAuthErrorBody', () => {
+    it('should accept error response bodies', () => {
+      expect(isOAuthErrorBody({ error: 'invalid_request' })).toBe(true);
+      expect(
+        isOAuthErrorBody({ error: 'invalid_request', error_description: 'x' })
+      ).toBe(true);
+    });
+
+    it('should reject other values', () => {
+      expect(isOAuthErrorBody(null)).toBe(false);
+      expect(isOAuthErrorBody({ error: 1 })).toBe(false);
+      expect(isOAuthErrorBody({ error: 'bad"quote' })).toBe(false);
+      expect(
+        isOAuthErrorBody({ error: 'invalid_request', error_description: 1 })
+      ).toBe(false);
+    });
+  });
+
+  describe('errorUtils integration', () => {
+    it('should not be converted by convertToError unless opted in', () => {
+      const error = convertToError({ error: 'Something bad happened' });
+
+      expect(error).not.toBeInstanceOf(OAuthError);
+      expect(error.message).toBe('{"error":"Something bad happened"}');
+    });
+
+    it('should be recognised by convertToError once opted in', () => {
+      registerOAuthErrorConverter();
+      registerOAuthErrorConverter();
+
+      const body = { error: 'invalid_proof', error_description: 'Bad proof' };
+      const error = convertToError(body);
+
+      expect(error).toBeInstanceOf(InvalidProofError);
+      expect((error as OAuthError).cause).toBe(body);
+    });
+
+    it('should be returned as is by convertToError', () => {
+      const error = new InvalidGrantError();
+
+      expect(convertToError(error)).toBe(error);
+    });
+
+    it('should round-trip through serializeError and deserializeError', () => {
+      const original = new InvalidNonceError('c_nonce expired', {
+        parameters: { c_nonce: 'fresh' },
+      });
+      const error = deserializeError(
+        JSON.parse(JSON.stringify(serializeError(original)))
+      );
+
+      expect(error).toBeInstanceOf(InvalidNonceError);
+      expect((error as OAuthError).toJSON()).toEqual(original.toJSON());
+      expect((error as OAuthError).status).toBe(400);
+    });
+  });
+});
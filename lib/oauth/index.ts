@@ -0,0 +1,2 @@
+export * from './OAuthError';
+export * from './OID4VCError';
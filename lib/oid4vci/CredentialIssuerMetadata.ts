@@ -0,0 +1,683 @@
+import { OAuthError } from '../oauth/OAuthError';
+import { Validator } from '../storage/TypedStore';
+import { Result, runAsyncCatching, runCatching } from '../utils/result';
+import {
+  ValidationError,
+  assertArray,
+  assertBoolean,
+  assertHttpsUrl,
+  assertJsonObject,
+  assertNonEmptyString,
+  assertOptional,
+  assertString,
+  assertStringArray,
+  joinPath,
+} from '../utils/validation';
+
+/**
+ * The path inserted between the host and the path of a credential issuer identifier to locate its metadata.
+ */
+export const CREDENTIAL_ISSUER_METADATA_PATH =
+  '/.well-known/openid-credential-issuer';
+
+/**
+ * A logo or image shown by the wallet.
+ */
+export interface DisplayImage {
+  uri: string;
+  alt_text?: string;
+}
+
+/**
+ * Localized display information of the credential issuer.
+ */
+export interface IssuerDisplay {
+  name?: string;
+  /**
+   * A BCP 47 language tag, such as 'en-US'.
+   */
+  locale?: string;
+  logo?: DisplayImage;
+}
+
+/**
+ * Localized display information of a credential.
+ */
+export interface CredentialDisplay {
+  name: string;
+  locale?: string;
+  logo?: DisplayImage;
+  description?: string;
+  background_color?: string;
+  background_image?: Pick<DisplayImage, 'uri'>;
+  text_color?: string;
+}
+
+/**
+ * Localized display information of a claim.
+ */
+export interface ClaimDisplay {
+  name?: string;
+  locale?: string;
+}
+
+/**
+ * Describes a claim of a credential.
+ */
+export interface ClaimDescription {
+  /**
+   * The path to the claim: object keys, array indices, or null for every array element.
+   */
+  path: (string | number | null)[];
+  mandatory?: boolean;
+  display?: ClaimDisplay[];
+}
+
+/**
+ * The requirements on key attestations accompanying a proof.
+ */
+export interface KeyAttestationsRequired {
+  key_storage?: string[];
+  user_authentication?: string[];
+}
+
+/**
+ * Describes a proof type the credential issuer accepts, such as jwt.
+ */
+export interface ProofTypeMetadata {
+  proof_signing_alg_values_supported: string[];
+  key_attestations_required?: KeyAttestationsRequired;
+}
+
+/**
+ * The members common to credential configurations of every format.
+ */
+export interface CredentialConfigurationBase {
+  format: string;
+  scope?: string;
+  /**
+   * How the credential is bound to the holder's key, such as 'jwk' or 'did:example'.
+   */
+  cryptographic_binding_methods_supported?: string[];
+  /**
+   * Algorithms the issuer signs with: JOSE names, or COSE algorithm numbers for mso_mdoc.
+   */
+  credential_signing_alg_values_supported?: (string | number)[];
+  proof_types_supported?: Record<string, ProofTypeMetadata>;
+  display?: CredentialDisplay[];
+  claims?: ClaimDescription[];
+}
+
+/**
+ * A credential configuration of an IETF SD-JWT VC.
+ */
+export interface SdJwtVcCredentialConfiguration
+  extends CredentialConfigurationBase {
+  format: 'dc+sd-jwt' | 'vc+sd-jwt';
+  vct: string;
+}
+
+/**
+ * A credential configuration of an ISO mdoc.
+ */
+export interface MdocCredentialConfiguration
+  extends CredentialConfigurationBase {
+  format: 'mso_mdoc';
+  doctype: string;
+}
+
+/**
+ * A credential configuration of a W3C VC secured as a JWT, not using JSON-LD.
+ */
+export interface JwtVcJsonCredentialConfiguration
+  extends CredentialConfigurationBase {
+  format: 'jwt_vc_json';
+  credential_definition: { type: string[] };
+}
+
+/**
+ * A credential configuration of a W3C VC using JSON-LD.
+ */
+export interface LdpVcCredentialConfiguration
+  extends CredentialConfigurationBase {
+  format: 'ldp_vc' | 'jwt_vc_json-ld';
+  credential_definition: {
+    '@context': (string | Record<string, unknown>)[];
+    type: string[];
+  };
+}
+
+/**
+ * A credential configuration of a format defined by OID4VCI.
+ * Configurations of other formats pass validation of the common members only.
+ */
+export type CredentialConfiguration =
+  | SdJwtVcCredentialConfiguration
+  | MdocCredentialConfiguration
+  | JwtVcJsonCredentialConfiguration
+  | LdpVcCredentialConfiguration;
+
+/**
+ * The encryption of credential responses supported by the credential issuer.
+ */
+export interface CredentialResponseEncryption {
+  alg_values_supported: string[];
+  enc_values_supported: string[];
+  encryption_required: boolean;
+}
+
+/**
+ * Credential Issuer Metadata, served at /.well-known/openid-credential-issuer.
+ */
+export interface CredentialIssuerMetadata {
+  credential_issuer: string;
+  /**
+   * The authorization servers the issuer relies on. Defaults to the credential issuer itself.
+   */
+  authorization_servers?: string[];
+  credential_endpoint: string;
+  nonce_endpoint?: string;
+  deferred_credential_endpoint?: string;
+  notification_endpoint?: string;
+  credential_response_encryption?: CredentialResponseEncryption;
+  batch_credential_issuance?: { batch_size: number };
+  /**
+   * A JWT carrying the metadata signed by the issuer. It is not verified by validateCredentialIssuerMetadata.
+   */
+  signed_metadata?: string;
+  display?: IssuerDisplay[];
+  credential_configurations_supported: Record<string, CredentialConfiguration>;
+}
+
+/**
+ * Options for fetching credential issuer metadata.
+ */
+export interface FetchCredentialIssuerMetadataOptions {
+  /**
+   * The fetch implementation. Defaults to the global fetch.
+   */
+  fetch?: typeof fetch;
+  /**
+   * The preferred languages of display information, sent as Accept-Language.
+   */
+  language?: string;
+  /**
+   * A signal to abort the request.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Creates the URL of the metadata of a credential issuer, inserting the well-known path
+ * between the host and the path of the issuer identifier.
+ *
+ * @param {string} credentialIssuer - The credential issuer identifier.
+ * @returns {string} The metadata URL.
+ * @throws {TypeError} If the identifier is not a URL.
+ *
+ * @example
+ * createCredentialIssuerMetadataUrl('https://issuer.example.com/tenant');
+ * // 'https://issuer.example.com/.well-known/openid-credential-issuer/tenant'
+ */
+export const createCredentialIssuerMetadataUrl = (
+  credentialIssuer: string
+): string => {
+  const url = new URL(credentialIssuer);
+  const path = url.pathname.replace(/\/+$/, '');
+
+  return `${url.origin}${CREDENTIAL_ISSUER_METADATA_PATH}${path}`;
+};
+
+/**
+ * Validates Credential Issuer Metadata.
+ * The validator can be passed to TypedStore to validate cached metadata.
+ *
+ * @param {unknown} value - The value to validate, such as a parsed JSON object.
+ * @returns {Result<CredentialIssuerMetadata>} A Result of the metadata, or a failure with a ValidationError
+ * locating the first invalid member, such as 'credential_configurations_supported.mDL.doctype'.
+ */
+export const validateCredentialIssuerMetadata: Validator<
+  CredentialIssuerMetadata
+> = (value) =>
+  runCatching(() => {
+    assertJsonObject(value, '');
+    assertHttpsUrl(value.credential_issuer, 'credential_issuer', {
+      allowQuery: false,
+    });
+    assertOptional(
+      value.authorization_servers,
+      'authorization_servers',
+      assertHttpsUrlArray
+    );
+    assertHttpsUrl(value.credential_endpoint, 'credential_endpoint');
+
+    for (const endpoint of [
+      'nonce_endpoint',
+      'deferred_credential_endpoint',
+      'notification_endpoint',
+    ]) {
+      assertOptional(value[endpoint], endpoint, assertHttpsUrl);
+    }
+
+    assertOptional(
+      value.credential_response_encryption,
+      'credential_response_encryption',
+      assertCredentialResponseEncryption
+    );
+    assertOptional(
+      value.batch_credential_issuance,
+      'batch_credential_issuance',
+      assertBatchCredentialIssuance
+    );
+    assertOptional(value.signed_metadata, 'signed_metadata', assertString);
+    assertOptional(value.display, 'display', (display, path) =>
+      assertEach(display, path, assertIssuerDisplay)
+    );
+    assertJsonObject(
+      value.credential_configurations_supported,
+      'credential_configurations_supported'
+    );
+
+    for (const [id, configuration] of Object.entries(
+      value.credential_configurations_supported
+    )) {
+      assertCredentialConfiguration(
+        configuration,
+        joinPath('credential_configurations_supported', id)
+      );
+    }
+
+    return value as unknown as CredentialIssuerMetadata;
+  });
+
+/**
+ * Fetches and validates the metadata of a credential issuer.
+ *
+ * @param {string} credentialIssuer - The credential issuer identifier, such as the credential_issuer of a credential offer.
+ * @param {FetchCredentialIssuerMetadataOptions} options - Optional settings such as the fetch implementation.
+ * @returns {Promise<Result<CredentialIssuerMetadata>>} A promise that resolves to a Result of the metadata.
+ * The Result is a failure with an OAuthError if the response is not successful, a ValidationError if the metadata
+ * is invalid or names another credential issuer, or the error thrown by fetch.
+ *
+ * @example
+ * const metadata = await fetchCredentialIssuerMetadata(offer.credential_issuer, {
+ *   language: 'ja, en;q=0.8',
+ * });
+ */
+export const fetchCredentialIssuerMetadata = (
+  credentialIssuer: string,
+  options: FetchCredentialIssuerMetadataOptions = {}
+): Promise<Result<CredentialIssuerMetadata>> =>
+  runAsyncCatching(async () => {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+
+    if (options.language) {
+      headers['Accept-Language'] = options.language;
+    }
+
+    const response = await (options.fetch ?? fetch)(
+      createCredentialIssuerMetadataUrl(credentialIssuer),
+      { headers, signal: options.signal }
+    );
+
+    if (!response.ok) {
+      throw await OAuthError.fromResponse(response);
+    }
+
+    let body: unknown;
+
+    try {
+      body = await response.json();
+    } catch {
+      throw new ValidationError('', 'must be valid JSON');
+    }
+
+    const metadata = validateCredentialIssuerMetadata(body).getOrThrow();
+
+    if (metadata.credential_issuer !== credentialIssuer) {
+      throw new ValidationError(
+        'credential_issuer',
+        `must be the requested credential issuer ${credentialIssuer}`
+      );
+    }
+
+    return metadata;
+  });
+
+/**
+ * The formats whose credential configurations have format-specific members.
+ */
+const FORMAT_ASSERTIONS = new Map<
+  string,
+  (configuration: Record<string, unknown>, path: string) => void
+>([
+  ['dc+sd-jwt', (configuration, path) => assertVct(configuration.vct, path)],
+  ['vc+sd-jwt', (configuration, path) => assertVct(configuration.vct, path)],
+  [
+    'mso_mdoc',
+    (configuration, path) =>
+      assertNonEmptyString(configuration.doctype, joinPath(path, 'doctype')),
+  ],
+  [
+    'jwt_vc_json',
+    (configuration, path) =>
+      assertCredentialDefinition(
+        configuration.credential_definition,
+        joinPath(path, 'credential_definition'),
+        false
+      ),
+  ],
+  [
+    'ldp_vc',
+    (configuration, path) =>
+      assertCredentialDefinition(
+        configuration.credential_definition,
+        joinPath(path, 'credential_definition'),
+        true
+      ),
+  ],
+  [
+    'jwt_vc_json-ld',
+    (configuration, path) =>
+      assertCredentialDefinition(
+        configuration.credential_definition,
+        joinPath(path, 'credential_definition'),
+        true
+      ),
+  ],
+]);
+
+/**
+ * Asserts that the vct member of an SD-JWT VC configuration is a non-empty string.
+ *
+ * @param value - The member.
+ * @param path - The path of the configuration.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertVct = (value: unknown, path: string): void =>
+  assertNonEmptyString(value, joinPath(path, 'vct'));
+
+/**
+ * Asserts that a member is an array and applies an assertion to each element.
+ *
+ * @param value - The member.
+ * @param path - The path of the member.
+ * @param assert - The assertion applied to each element.
+ * @throws {ValidationError} If the member or one of its elements is invalid.
+ */
+const assertEach = (
+  value: unknown,
+  path: string,
+  assert: (element: unknown, path: string) => void
+): void => {
+  assertArray(value, path);
+  value.forEach((element, i) => assert(element, joinPath(path, i)));
+};
+
+/**
+ * Asserts that a member is a non-empty array of https URLs.
+ *
+ * @param value - The member.
+ * @param path - The path of the member.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertHttpsUrlArray = (value: unknown, path: string): void => {
+  assertArray(value, path, { nonEmpty: true });
+  value.forEach((url, i) => assertHttpsUrl(url, joinPath(path, i)));
+};
+
+/**
+ * Asserts that a member is a valid credential_response_encryption object.
+ *
+ * @param value - The member.
+ * @param path - The path of the member.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertCredentialResponseEncryption = (
+  value: unknown,
+  path: string
+): void => {
+  assertJsonObject(value, path);
+  assertStringArray(
+    value.alg_values_supported,
+    joinPath(path, 'alg_values_supported'),
+    { nonEmpty: true }
+  );
+  assertStringArray(
+    value.enc_values_supported,
+    joinPath(path, 'enc_values_supported'),
+    { nonEmpty: true }
+  );
+  assertBoolean(
+    value.encryption_required,
+    joinPath(path, 'encryption_required')
+  );
+};
+
+/**
+ * Asserts that a member is a valid batch_credential_issuance object.
+ *
+ * @param value - The member.
+ * @param path - The path of the member.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertBatchCredentialIssuance = (value: unknown, path: string): void => {
+  assertJsonObject(value, path);
+
+  if (!Number.isInteger(value.batch_size) || (value.batch_size as number) < 2) {
+    throw new ValidationError(
+      joinPath(path, 'batch_size'),
+      'must be an integer of at least 2'
+    );
+  }
+};
+
+/**
+ * Asserts that a member is a valid logo or image object.
+ *
+ * @param value - The member.
+ * @param path - The path of the member.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertDisplayImage = (value: unknown, path: string): void => {
+  assertJsonObject(value, path);
+  assertNonEmptyString(value.uri, joinPath(path, 'uri'));
+  assertOptional(value.alt_text, joinPath(path, 'alt_text'), assertString);
+};
+
+/**
+ * Asserts that a member is a valid display object of the credential issuer.
+ *
+ * @param value - The member.
+ * @param path - The path of the member.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertIssuerDisplay = (value: unknown, path: string): void => {
+  assertJsonObject(value, path);
+  assertOptional(value.name, joinPath(path, 'name'), assertString);
+  assertOptional(value.locale, joinPath(path, 'locale'), assertString);
+  assertOptional(value.logo, joinPath(path, 'logo'), assertDisplayImage);
+};
+
+/**
+ * Asserts that a member is a valid display object of a credential.
+ *
+ * @param value - The member.
+ * @param path - The path of the member.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertCredentialDisplay = (value: unknown, path: string): void => {
+  assertJsonObject(value, path);
+  assertString(value.name, joinPath(path, 'name'));
+
+  for (const member of [
+    'locale',
+    'description',
+    'background_color',
+    'text_color',
+  ]) {
+    assertOptional(value[member], joinPath(path, member), assertString);
+  }
+
+  assertOptional(value.logo, joinPath(path, 'logo'), assertDisplayImage);
+  assertOptional(
+    value.background_image,
+    joinPath(path, 'background_image'),
+    assertDisplayImage
+  );
+};
+
+/**
+ * Asserts that a member is a valid claim description.
+ *
+ * @param value - The member.
+ * @param path - The path of the member.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertClaimDescription = (value: unknown, path: string): void => {
+  assertJsonObject(value, path);
+  assertArray(value.path, joinPath(path, 'path'), { nonEmpty: true });
+  value.path.forEach((component, i) => {
+    if (
+      !(
+        typeof component === 'string' ||
+        component === null ||
+        (Number.isInteger(component) && (component as number) >= 0)
+      )
+    ) {
+      throw new ValidationError(
+        joinPath(joinPath(path, 'path'), i),
+        'must be a string, a non-negative integer or null'
+      );
+    }
+  });
+  assertOptional(value.mandatory, joinPath(path, 'mandatory'), assertBoolean);
+  assertOptional(value.display, joinPath(path, 'display'), (display, p) =>
+    assertEach(display, p, (element, elementPath) => {
+      assertJsonObject(element, elementPath);
+      assertOptional(element.name, joinPath(elementPath, 'name'), assertString);
+      assertOptional(
+        element.locale,
+        joinPath(elementPath, 'locale'),
+        assertString
+      );
+    })
+  );
+};
+
+/**
+ * Asserts that a member is a valid proof_types_supported object.
+ *
+ * @param value - The member.
+ * @param path - The path of the member.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertProofTypesSupported = (value: unknown, path: string): void => {
+  assertJsonObject(value, path);
+
+  for (const [proofType, metadata] of Object.entries(value)) {
+    const proofTypePath = joinPath(path, proofType);
+
+    assertJsonObject(metadata, proofTypePath);
+    assertStringArray(
+      metadata.proof_signing_alg_values_supported,
+      joinPath(proofTypePath, 'proof_signing_alg_values_supported'),
+      { nonEmpty: true }
+    );
+    assertOptional(
+      metadata.key_attestations_required,
+      joinPath(proofTypePath, 'key_attestations_required'),
+      (required, requiredPath) => {
+        assertJsonObject(required, requiredPath);
+        assertOptional(
+          required.key_storage,
+          joinPath(requiredPath, 'key_storage'),
+          assertStringArray
+        );
+        assertOptional(
+          required.user_authentication,
+          joinPath(requiredPath, 'user_authentication'),
+          assertStringArray
+        );
+      }
+    );
+  }
+};
+
+/**
+ * Asserts that a member is a valid credential_definition object.
+ *
+ * @param value - The member.
+ * @param path - The path of the member.
+ * @param jsonLd - Whether the format uses JSON-LD and requires an @context.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertCredentialDefinition = (
+  value: unknown,
+  path: string,
+  jsonLd: boolean
+): void => {
+  assertJsonObject(value, path);
+
+  if (jsonLd) {
+    assertArray(value['@context'], joinPath(path, '@context'), {
+      nonEmpty: true,
+    });
+  }
+
+  assertStringArray(value.type, joinPath(path, 'type'), { nonEmpty: true });
+};
+
+/**
+ * Asserts that a member is a valid credential configuration.
+ *
+ * @param value - The member.
+ * @param path - The path of the member.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertCredentialConfiguration = (value: unknown, path: string): void => {
+  assertJsonObject(value, path);
+  assertNonEmptyString(value.format, joinPath(path, 'format'));
+  assertOptional(value.scope, joinPath(path, 'scope'), assertString);
+  assertOptional(
+    value.cryptographic_binding_methods_supported,
+    joinPath(path, 'cryptographic_binding_methods_supported'),
+    assertStringArray
+  );
+  assertOptional(
+    value.credential_signing_alg_values_supported,
+    joinPath(path, 'credential_signing_alg_values_supported'),
+    (algorithms, algorithmsPath) =>
+      assertEach(algorithms, algorithmsPath, (algorithm, algorithmPath) => {
+        if (typeof algorithm !== 'string' && !Number.isInteger(algorithm)) {
+          throw new ValidationError(
+            algorithmPath,
+            'must be a string or an integer'
+          );
+        }
+      })
+  );
+  assertOptional(
+    value.proof_types_supported,
+    joinPath(path, 'proof_types_supported'),
+    assertProofTypesSupported
+  );
+
+  if (
+    value.cryptographic_binding_methods_supported !== undefined &&
+    value.proof_types_supported === undefined
+  ) {
+    throw new ValidationError(
+      joinPath(path, 'proof_types_supported'),
+      'must be present when cryptographic_binding_methods_supported is present'
+    );
+  }
+
+  assertOptional(value.display, joinPath(path, 'display'), (display, p) =>
+    assertEach(display, p, assertCredentialDisplay)
+  );
+  assertOptional(value.claims, joinPath(path, 'claims'), (claims, p) =>
+    assertEach(claims, p, assertClaimDescription)
+  );
+  FORMAT_ASSERTIONS.get(value.format)?.(value, path);
+};
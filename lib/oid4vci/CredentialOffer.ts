@@ -0,0 +1,426 @@
+import { Validator } from '../storage/TypedStore';
+import { Result, runCatching } from '../utils/result';
+import {
+  ValidationError,
+  assertHttpsUrl,
+  assertJsonObject,
+  assertNonEmptyString,
+  assertOptional,
+  assertString,
+  assertStringArray,
+  joinPath,
+} from '../utils/validation';
+
+/**
+ * The grant type of the OID4VCI pre-authorized code flow.
+ */
+export const PRE_AUTHORIZED_CODE_GRANT_TYPE =
+  'urn:ietf:params:oauth:grant-type:pre-authorized_code';
+
+/**
+ * The custom URI scheme wallets register for credential offers.
+ */
+export const CREDENTIAL_OFFER_SCHEME = 'openid-credential-offer://';
+
+/**
+ * The maximum length of the description of a transaction code.
+ */
+export const MAX_TX_CODE_DESCRIPTION_LENGTH = 300;
+
+/**
+ * The character set of a transaction code.
+ */
+export type TxCodeInputMode = 'numeric' | 'text';
+
+/**
+ * The tx_code object of a credential offer, describing the transaction code the wallet must ask the user for.
+ */
+export interface TxCode {
+  input_mode?: TxCodeInputMode;
+  length?: number;
+  description?: string;
+}
+
+/**
+ * The parameters of the authorization code grant in a credential offer.
+ */
+export interface AuthorizationCodeGrant {
+  /**
+   * An opaque value the wallet passes back in the authorization request to bind it to the offer.
+   */
+  issuer_state?: string;
+  /**
+   * The authorization server to use, if the issuer metadata lists several.
+   */
+  authorization_server?: string;
+}
+
+/**
+ * The parameters of the pre-authorized code grant in a credential offer.
+ */
+export interface PreAuthorizedCodeGrant {
+  'pre-authorized_code': string;
+  tx_code?: TxCode;
+  /**
+   * The authorization server to use, if the issuer metadata lists several.
+   */
+  authorization_server?: string;
+}
+
+/**
+ * The grants a wallet may use to obtain an access token for the offered credentials.
+ */
+export interface CredentialOfferGrants {
+  authorization_code?: AuthorizationCodeGrant;
+  'urn:ietf:params:oauth:grant-type:pre-authorized_code'?: PreAuthorizedCodeGrant;
+}
+
+/**
+ * A Credential Offer, sent by an issuer to a wallet to start issuance.
+ */
+export interface CredentialOffer {
+  /**
+   * The URL of the credential issuer, from which the wallet obtains the issuer metadata.
+   */
+  credential_issuer: string;
+  /**
+   * Keys of credential_configurations_supported in the issuer metadata.
+   */
+  credential_configuration_ids: string[];
+  grants?: CredentialOfferGrants;
+}
+
+/**
+ * A parsed credential offer URI, carrying either the offer itself or the URL to fetch it from.
+ */
+export type ParsedCredentialOfferUri =
+  | { credentialOffer: CredentialOffer; credentialOfferUri?: undefined }
+  | { credentialOffer?: undefined; credentialOfferUri: string };
+
+/**
+ * Options for creating credential offer URIs.
+ */
+export interface CredentialOfferUriOptions {
+  /**
+   * The URI the parameters are appended to, such as a wallet's https link. Defaults to 'openid-credential-offer://'.
+   */
+  baseUri?: string;
+}
+
+/**
+ * Validates a Credential Offer object.
+ * The validator can be passed to TypedStore to validate stored offers.
+ *
+ * @param {unknown} value - The value to validate, such as a parsed JSON object.
+ * @returns {Result<CredentialOffer>} A Result of the offer, or a failure with a ValidationError locating the first invalid member.
+ *
+ * @example
+ * const result = validateCredentialOffer(JSON.parse(body));
+ * if (result.isFailure()) {
+ *   console.log(result.error.message); // e.g. 'credential_configuration_ids must be a non-empty array'
+ * }
+ */
+export const validateCredentialOffer: Validator<CredentialOffer> = (value) =>
+  runCatching(() => {
+    assertJsonObject(value, '');
+    assertHttpsUrl(value.credential_issuer, 'credential_issuer', {
+      allowQuery: false,
+    });
+    assertStringArray(
+      value.credential_configuration_ids,
+      'credential_configuration_ids',
+      { nonEmpty: true, unique: true }
+    );
+
+    if (value.grants !== undefined) {
+      assertGrants(value.grants);
+    }
+
+    return value as unknown as CredentialOffer;
+  });
+
+/**
+ * Builds a Credential Offer.
+ *
+ * @example
+ * const offer = new CredentialOfferBuilder('https://issuer.example.com')
+ *   .addCredentialConfigurationId('UniversityDegree_SD_JWT')
+ *   .withPreAuthorizedCode(issued.grant)
+ *   .build(); // Result<CredentialOffer>
+ */
+export class CredentialOfferBuilder {
+  private readonly credentialConfigurationIds: string[] = [];
+  private readonly grants: CredentialOfferGrants = {};
+
+  /**
+   * Constructs a new CredentialOfferBuilder instance.
+   *
+   * @param credentialIssuer - The URL of the credential issuer.
+   */
+  constructor(private readonly credentialIssuer: string) {}
+
+  /**
+   * Adds offered credential configurations.
+   *
+   * @param ids - Keys of credential_configurations_supported in the issuer metadata.
+   * @returns This builder.
+   */
+  addCredentialConfigurationId(...ids: string[]): this {
+    this.credentialConfigurationIds.push(...ids);
+    return this;
+  }
+
+  /**
+   * Offers the authorization code grant.
+   *
+   * @param grant - Optional issuer_state and authorization_server parameters.
+   * @returns This builder.
+   */
+  withAuthorizationCode(grant: AuthorizationCodeGrant = {}): this {
+    this.grants.authorization_code = grant;
+    return this;
+  }
+
+  /**
+   * Offers the pre-authorized code grant.
+   *
+   * @param grant - The grant parameters, such as the grant of a code created by PreAuthorizedCodeStore.
+   * @returns This builder.
+   */
+  withPreAuthorizedCode(grant: PreAuthorizedCodeGrant): this {
+    this.grants[PRE_AUTHORIZED_CODE_GRANT_TYPE] = grant;
+    return this;
+  }
+
+  /**
+   * Builds and validates the offer.
+   *
+   * @returns A Result of the offer, or a failure with a ValidationError if it is invalid.
+   */
+  build(): Result<CredentialOffer> {
+    const offer: CredentialOffer = {
+      credential_issuer: this.credentialIssuer,
+      credential_configuration_ids: [...this.credentialConfigurationIds],
+    };
+
+    if (Object.keys(this.grants).length > 0) {
+      offer.grants = { ...this.grants };
+    }
+
+    return validateCredentialOffer(offer);
+  }
+}
+
+/**
+ * Creates a URI carrying a credential offer by value in the credential_offer parameter.
+ *
+ * @param {CredentialOffer} credentialOffer - The offer.
+ * @param {CredentialOfferUriOptions} options - Optional settings such as the base URI.
+ * @returns {string} The URI, for example to render as a QR code.
+ *
+ * @example
+ * createCredentialOfferUri(offer); // 'openid-credential-offer://?credential_offer=%7B%22credential_issuer%22...'
+ */
+export const createCredentialOfferUri = (
+  credentialOffer: CredentialOffer,
+  options?: CredentialOfferUriOptions
+): string =>
+  appendParameter(
+    options?.baseUri ?? CREDENTIAL_OFFER_SCHEME,
+    'credential_offer',
+    JSON.stringify(credentialOffer)
+  );
+
+/**
+ * Creates a URI referring to a credential offer in the credential_offer_uri parameter.
+ *
+ * @param {string} credentialOfferUri - The https URL from which the wallet fetches the offer.
+ * @param {CredentialOfferUriOptions} options - Optional settings such as the base URI.
+ * @returns {string} The URI.
+ *
+ * @example
+ * createCredentialOfferReferenceUri('https://issuer.example.com/offers/abc');
+ * // 'openid-credential-offer://?credential_offer_uri=https%3A%2F%2Fissuer.example.com%2Foffers%2Fabc'
+ */
+export const createCredentialOfferReferenceUri = (
+  credentialOfferUri: string,
+  options?: CredentialOfferUriOptions
+): string =>
+  appendParameter(
+    options?.baseUri ?? CREDENTIAL_OFFER_SCHEME,
+    'credential_offer_uri',
+    credentialOfferUri
+  );
+
+/**
+ * Parses a credential offer URI in either the by-value or the by-reference form.
+ * The base of the URI is not checked, so https links to a wallet are accepted too.
+ *
+ * @param {string} uri - The URI, for example read from a QR code.
+ * @returns {Result<ParsedCredentialOfferUri>} A Result of the validated offer or the https URL to fetch it from,
+ * or a failure with a ValidationError.
+ */
+export const parseCredentialOfferUri = (
+  uri: string
+): Result<ParsedCredentialOfferUri> =>
+  runCatching((): ParsedCredentialOfferUri => {
+    const query = uri.includes('?')
+      ? uri.slice(uri.indexOf('?') + 1).split('#')[0]
+      : '';
+    const parameters = new URLSearchParams(query);
+    const credentialOffer = parameters.get('credential_offer');
+    const credentialOfferUri = parameters.get('credential_offer_uri');
+
+    if (credentialOffer !== null && credentialOfferUri !== null) {
+      throw new ValidationError(
+        '',
+        'must not contain both credential_offer and credential_offer_uri'
+      );
+    }
+
+    if (credentialOfferUri !== null) {
+      assertHttpsUrl(credentialOfferUri, 'credential_offer_uri');
+
+      return { credentialOfferUri };
+    }
+
+    if (credentialOffer === null) {
+      throw new ValidationError(
+        '',
+        'must contain a credential_offer or credential_offer_uri parameter'
+      );
+    }
+
+    return {
+      credentialOffer: validateCredentialOffer(
+        parseJson(credentialOffer)
+      ).getOrThrow(),
+    };
+  });
+
+/**
+ * Appends a query parameter to a URI.
+ *
+ * @param base - The URI.
+ * @param name - The parameter name.
+ * @param value - The unencoded parameter value.
+ * @returns The URI with the parameter.
+ */
+const appendParameter = (base: string, name: string, value: string): string =>
+  `${base}${base.includes('?') ? '&' : '?'}${new URLSearchParams({
+    [name]: value,
+  })}`;
+
+/**
+ * Parses the JSON of a credential_offer parameter.
+ *
+ * @param json - The parameter value.
+ * @returns The parsed value.
+ * @throws {ValidationError} If the value is not valid JSON.
+ */
+const parseJson = (json: string): unknown => {
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new ValidationError('credential_offer', 'must be valid JSON');
+  }
+};
+
+/**
+ * Asserts that the grants member holds valid authorization code and pre-authorized code grants.
+ * Grants of other types are allowed and not checked.
+ *
+ * @param value - The member.
+ * @throws {ValidationError} If the member is invalid.
+ */
+function assertGrants(value: unknown): void {
+  assertJsonObject(value, 'grants');
+
+  const authorizationCode = value.authorization_code;
+  const preAuthorizedCode = value[PRE_AUTHORIZED_CODE_GRANT_TYPE];
+
+  if (authorizationCode !== undefined) {
+    const path = joinPath('grants', 'authorization_code');
+
+    assertJsonObject(authorizationCode, path);
+    assertOptional(
+      authorizationCode.issuer_state,
+      joinPath(path, 'issuer_state'),
+      assertString
+    );
+    assertOptional(
+      authorizationCode.authorization_server,
+      joinPath(path, 'authorization_server'),
+      assertHttpsUrl
+    );
+  }
+
+  if (preAuthorizedCode !== undefined) {
+    const path = joinPath('grants', PRE_AUTHORIZED_CODE_GRANT_TYPE);
+
+    assertJsonObject(preAuthorizedCode, path);
+
+    assertNonEmptyString(
+      preAuthorizedCode['pre-authorized_code'],
+      joinPath(path, 'pre-authorized_code')
+    );
+    assertOptional(
+      preAuthorizedCode.tx_code,
+      joinPath(path, 'tx_code'),
+      assertTxCode
+    );
+    assertOptional(
+      preAuthorizedCode.authorization_server,
+      joinPath(path, 'authorization_server'),
+      assertHttpsUrl
+    );
+  }
+}
+
+/**
+ * Asserts that a tx_code member is a valid transaction code object.
+ *
+ * @param value - The member.
+ * @param path - The path of the member.
+ * @throws {ValidationError} If the member is invalid.
+ */
+function assertTxCode(value: unknown, path: string): void {
+  assertJsonObject(value, path);
+
+  if (
+    value.input_mode !== undefined &&
+    value.input_mode !== 'numeric' &&
+    value.input_mode !== 'text'
+  ) {
+    throw new ValidationError(
+      joinPath(path, 'input_mode'),
+      "must be 'numeric' or 'text'"
+    );
+  }
+
+  if (
+    value.length !== undefined &&
+    !(Number.isInteger(value.length) && (value.length as number) > 0)
+  ) {
+    throw new ValidationError(
+      joinPath(path, 'length'),
+      'must be a positive integer'
+    );
+  }
+
+  assertOptional(
+    value.description,
+    joinPath(path, 'description'),
+    assertString
+  );
+
+  if (
+    typeof value.description === 'string' &&
+    value.description.length > MAX_TX_CODE_DESCRIPTION_LENGTH
+  ) {
+    throw new ValidationError(
+      joinPath(path, 'description'),
+      `must be at most ${MAX_TX_CODE_DESCRIPTION_LENGTH} characters`
+    );
+  }
+}
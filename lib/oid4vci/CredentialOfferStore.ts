@@ -0,0 +1,136 @@
+import { DynamoDB } from '../dynamodb/DynamoDB';
+import { TypedStore } from '../storage/TypedStore';
+import { RandomSource, cryptoRandom, randomBase64Url } from '../utils/random';
+import { Result } from '../utils/result';
+import { CredentialOffer, validateCredentialOffer } from './CredentialOffer';
+
+/**
+ * Options for constructing a CredentialOfferStore instance.
+ */
+export interface CredentialOfferStoreOptions {
+  /**
+   * How long a stored offer can be fetched, in seconds. Defaults to 600.
+   */
+  ttlSeconds?: number;
+  /**
+   * The number of random bytes in an offer ID. Defaults to 32.
+   */
+  byteLength?: number;
+  /**
+   * The prefix of the keys under which offers are stored. Defaults to 'credential_offer:'.
+   */
+  keyPrefix?: string;
+  /**
+   * The random source. Defaults to crypto.getRandomValues.
+   */
+  random?: RandomSource;
+}
+
+/**
+ * A credential offer stored for retrieval by reference.
+ */
+export interface StoredCredentialOffer {
+  /**
+   * The ID of the offer, the last path segment of its URL.
+   */
+  id: string;
+  /**
+   * The URL from which the wallet fetches the offer, for the credential_offer_uri parameter.
+   */
+  credentialOfferUri: string;
+  /**
+   * How long the offer can be fetched, in seconds.
+   */
+  expiresIn: number;
+}
+
+const DEFAULT_TTL_SECONDS = 600;
+const DEFAULT_BYTE_LENGTH = 32;
+const DEFAULT_KEY_PREFIX = 'credential_offer:';
+
+/**
+ * Stores credential offers passed by reference, so that the credential offer URI only carries
+ * a short credential_offer_uri instead of the whole offer.
+ *
+ * Offers are stored in DynamoDB under a TTL and validated when stored and when read.
+ */
+export class CredentialOfferStore {
+  private readonly store: TypedStore<CredentialOffer>;
+
+  /**
+   * Constructs a new CredentialOfferStore instance.
+   *
+   * @param db - The DynamoDB table holding offers.
+   * @param endpoint - The https URL of the endpoint serving offers; an offer is served at `${endpoint}/${id}`.
+   * @param options - Optional settings such as the lifetime of offers and the random source.
+   */
+  constructor(
+    db: DynamoDB,
+    private readonly endpoint: string,
+    private readonly options: CredentialOfferStoreOptions = {}
+  ) {
+    this.store = new TypedStore(db, validateCredentialOffer);
+  }
+
+  /**
+   * Validates and stores a credential offer.
+   *
+   * @param credentialOffer - The offer.
+   * @returns A promise that resolves to a Result of the stored offer and its URL, or a failure with a
+   * ValidationError if the offer is invalid, or the store error if it could not be stored.
+   */
+  async put(
+    credentialOffer: CredentialOffer
+  ): Promise<Result<StoredCredentialOffer>> {
+    const validated = validateCredentialOffer(credentialOffer);
+
+    if (validated.isFailure()) {
+      return Result.failure(validated.error);
+    }
+
+    const id = randomBase64Url(
+      this.options.byteLength ?? DEFAULT_BYTE_LENGTH,
+      this.options.random ?? cryptoRandom
+    );
+    const expiresIn = this.options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+    const stored = await this.store.put(this.keyOf(id), validated.value!, {
+      expirationTtl: expiresIn,
+    });
+
+    return stored.map(() => ({
+      id,
+      credentialOfferUri: `${this.endpoint.replace(/\/+$/, '')}/${id}`,
+      expiresIn,
+    }));
+  }
+
+  /**
+   * Retrieves a stored credential offer, for example to serve a request to its credential_offer_uri.
+   *
+   * @param id - The ID of the offer.
+   * @returns A promise that resolves to a Result of the offer, or null if it is unknown or expired.
+   */
+  async get(id: string): Promise<Result<CredentialOffer | null>> {
+    return this.store.get(this.keyOf(id));
+  }
+
+  /**
+   * Removes a stored credential offer, for example once it has been redeemed.
+   *
+   * @param id - The ID of the offer.
+   * @returns A promise that resolves to a Result that is a failure if the store failed.
+   */
+  async delete(id: string): Promise<Result<void>> {
+    return this.store.delete(this.keyOf(id));
+  }
+
+  /**
+   * Returns the key under which an offer is stored.
+   *
+   * @param id - The ID of the offer.
+   * @returns The key.
+   */
+  private keyOf(id: string): string {
+    return `${this.options.keyPrefix ?? DEFAULT_KEY_PREFIX}${id}`;
+  }
+}
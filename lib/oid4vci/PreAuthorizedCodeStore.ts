@@ -0,0 +1,795 @@
+import { DynamoDB, DEFAULT_UPDATE_ATTEMPTS } from '../dynamodb/DynamoDB';
+import {
+  InvalidGrantError,
+  InvalidRequestError,
+  InvalidTokenError,
+} from '../oauth/OAuthError';
+import {
+  StorageDeserializationError,
+  StorageVersionConflictError,
+} from '../storage/StorageError';
+import { TypedStore, Validator } from '../storage/TypedStore';
+import { encodeBase64Url } from '../utils/base64url';
+import {
+  RandomSource,
+  cryptoRandom,
+  randomBase64Url,
+  randomString,
+} from '../utils/random';
+import { Result, runAsyncCatching, runCatching } from '../utils/result';
+import {
+  ValidationError,
+  assertBoolean,
+  assertJsonObject,
+  assertNonEmptyString,
+  assertOptional,
+  assertString,
+  joinPath,
+} from '../utils/validation';
+import {
+  MAX_TX_CODE_DESCRIPTION_LENGTH,
+  PreAuthorizedCodeGrant,
+  TxCode,
+  TxCodeInputMode,
+} from './CredentialOffer';
+
+/**
+ * Options for generating a transaction code.
+ */
+export interface TxCodeOptions {
+  /**
+   * The character set of the code. Defaults to 'numeric'.
+   */
+  inputMode?: TxCodeInputMode;
+  /**
+   * The number of characters. Defaults to 6.
+   */
+  length?: number;
+  /**
+   * Guidance shown to the user, for example how the code is delivered. At most 300 characters.
+   */
+  description?: string;
+}
+
+/**
+ * Options for constructing a PreAuthorizedCodeStore instance.
+ */
+export interface PreAuthorizedCodeStoreOptions<T = unknown> {
+  /**
+   * The lifetime of a pre-authorized code in seconds. Defaults to 300.
+   */
+  ttlSeconds?: number;
+  /**
+   * The lifetime of an access token in seconds. Defaults to 3600.
+   */
+  accessTokenTtlSeconds?: number;
+  /**
+   * The number of wrong transaction codes after which a pre-authorized code is revoked. Defaults to 5.
+   */
+  maxTxCodeAttempts?: number;
+  /**
+   * The number of random bytes in pre-authorized codes and access tokens. Defaults to 32.
+   */
+  byteLength?: number;
+  /**
+   * The prefix of the keys under which pre-authorized codes are stored. Defaults to 'pre_authorized_code:'.
+   */
+  keyPrefix?: string;
+  /**
+   * The prefix of the keys under which access tokens are stored. Defaults to 'access_token:'.
+   */
+  accessTokenKeyPrefix?: string;
+  /**
+   * Returns the current time in milliseconds since the epoch. Defaults to Date.now.
+   */
+  now?: () => number;
+  /**
+   * The random source. Defaults to crypto.getRandomValues.
+   */
+  random?: RandomSource;
+  /**
+   * Validates the credential offer of every code and access token read from the table.
+   * Defaults to accepting any value.
+   */
+  validateCredentialOffer?: Validator<T>;
+}
+
+/**
+ * Options for creating a pre-authorized code.
+ *
+ * @template T The type of the credential offer.
+ */
+export interface CreatePreAuthorizedCodeOptions<T> {
+  /**
+   * The credential offer, or the part of it the issuer needs when the code is redeemed.
+   */
+  credentialOffer: T;
+  /**
+   * The end-user the credentials are issued to.
+   */
+  subject?: string;
+  /**
+   * Generates a transaction code that must accompany the token request.
+   */
+  txCode?: TxCodeOptions;
+  /**
+   * The lifetime of this code in seconds, overriding the store default.
+   */
+  ttlSeconds?: number;
+}
+
+/**
+ * A pre-authorized code created by PreAuthorizedCodeStore.
+ */
+export interface IssuedPreAuthorizedCode {
+  preAuthorizedCode: string;
+  /**
+   * The transaction code to deliver to the user out of band, if one was requested.
+   */
+  txCode?: string;
+  /**
+   * The grant parameters to place in the credential offer.
+   */
+  grant: PreAuthorizedCodeGrant;
+  /**
+   * The lifetime of the code in seconds.
+   */
+  expiresIn: number;
+  /**
+   * The expiration time in seconds since the epoch.
+   */
+  expiresAt: number;
+}
+
+/**
+ * Options for exchanging a pre-authorized code.
+ */
+export interface ExchangePreAuthorizedCodeOptions {
+  /**
+   * The tx_code parameter of the token request.
+   */
+  txCode?: string;
+  /**
+   * The client_id parameter of the token request, recorded with the access token.
+   */
+  clientId?: string;
+}
+
+/**
+ * An access token issued for a pre-authorized code.
+ *
+ * @template T The type of the credential offer.
+ */
+export interface AccessTokenRecord<T = unknown> {
+  accessToken: string;
+  tokenType: 'Bearer';
+  /**
+   * The lifetime of the token in seconds, for the expires_in parameter.
+   */
+  expiresIn: number;
+  /**
+   * The expiration time in seconds since the epoch.
+   */
+  expiresAt: number;
+  credentialOffer: T;
+  subject?: string;
+  clientId?: string;
+}
+
+/**
+ * A stored transaction code. Only a salted hash of the code is stored.
+ */
+interface StoredTxCode extends TxCode {
+  /**
+   * The random salt, base64url-encoded.
+   */
+  salt: string;
+  /**
+   * The SHA-256 hash of the salt followed by the code, base64url-encoded.
+   */
+  hash: string;
+}
+
+/**
+ * The stored state of a pre-authorized code.
+ */
+interface PreAuthorizedCodeRecord<T> {
+  credentialOffer: T;
+  subject?: string;
+  txCode?: StoredTxCode;
+  failedTxCodeAttempts: number;
+  expiresAt: number;
+  /**
+   * The access token issued for the code, set once the code has been used.
+   */
+  accessToken?: string;
+  /**
+   * Set once the code has been revoked after too many wrong transaction codes.
+   */
+  revoked?: boolean;
+}
+
+const DEFAULT_TTL_SECONDS = 300;
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 3600;
+const DEFAULT_MAX_TX_CODE_ATTEMPTS = 5;
+const DEFAULT_BYTE_LENGTH = 32;
+const DEFAULT_KEY_PREFIX = 'pre_authorized_code:';
+const DEFAULT_ACCESS_TOKEN_KEY_PREFIX = 'access_token:';
+const DEFAULT_TX_CODE_LENGTH = 6;
+const TX_CODE_SALT_BYTE_LENGTH = 16;
+const TX_CODE_ALPHABETS: Record<TxCodeInputMode, string> = {
+  numeric: '0123456789',
+  // Excludes characters that are easily confused, such as O and 0 or I and 1.
+  text: 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789',
+};
+
+/**
+ * Stores the server-side state of the OID4VCI pre-authorized code flow in DynamoDB:
+ * pre-authorized codes with their credential offers and optional transaction codes,
+ * and the access tokens they are exchanged for.
+ *
+ * A code can be exchanged at most once, until it expires. Concurrent exchanges are serialized with
+ * the version attribute of DynamoDB, so at most one succeeds and every wrong transaction code is counted.
+ * A code is revoked after too many wrong transaction codes, and presenting a used code again
+ * revokes the access token issued for it. Transaction codes are stored as salted hashes, and every
+ * record read from the table is validated.
+ *
+ * @template T The type of the credential offer.
+ */
+export class PreAuthorizedCodeStore<T = unknown> {
+  private readonly validateCodeRecord: Validator<PreAuthorizedCodeRecord<T>>;
+  private readonly accessTokens: TypedStore<AccessTokenRecord<T>, DynamoDB>;
+
+  /**
+   * Constructs a new PreAuthorizedCodeStore instance.
+   *
+   * @param db - The DynamoDB table holding codes and access tokens.
+   * @param options - Optional settings such as lifetimes, the attempt limit, the clock and the random source.
+   */
+  constructor(
+    private readonly db: DynamoDB,
+    private readonly options: PreAuthorizedCodeStoreOptions<T> = {}
+  ) {
+    const validateCredentialOffer: Validator<T> =
+      options.validateCredentialOffer ?? ((u) => Result.success(u as T));
+
+    this.validateCodeRecord = createCodeRecordValidator(
+      validateCredentialOffer
+    );
+    this.accessTokens = new TypedStore(
+      db,
+      createAccessTokenRecordValidator(validateCredentialOffer)
+    );
+  }
+
+  /**
+   * Creates a pre-authorized code for a credential offer.
+   *
+   * @param options - The credential offer, and optional settings such as the transaction code.
+   * @returns A promise that resolves to a Result of the issued code, or a failure if the transaction code
+   * options are invalid or the code could not be stored.
+   */
+  async create(
+    options: CreatePreAuthorizedCodeOptions<T>
+  ): Promise<Result<IssuedPreAuthorizedCode>> {
+    return runAsyncCatching(async () => {
+      const preAuthorizedCode = this.randomToken();
+      const txCode = options.txCode && this.createTxCode(options.txCode);
+      const expiresIn =
+        options.ttlSeconds ?? this.options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+      const expiresAt = this.nowInSeconds() + expiresIn;
+      const record: PreAuthorizedCodeRecord<T> = {
+        credentialOffer: options.credentialOffer,
+        subject: options.subject,
+        txCode: txCode && (await this.toStoredTxCode(txCode)),
+        failedTxCodeAttempts: 0,
+        expiresAt,
+      };
+
+      await this.db.compareAndSet(
+        this.codeKeyOf(preAuthorizedCode),
+        null,
+        JSON.stringify(record),
+        { expiration: expiresAt }
+      );
+
+      const grant: PreAuthorizedCodeGrant = {
+        'pre-authorized_code': preAuthorizedCode,
+      };
+
+      if (txCode) {
+        const { value, ...txCodeObject } = txCode;
+        grant.tx_code = txCodeObject;
+
+        return {
+          preAuthorizedCode,
+          txCode: value,
+          grant,
+          expiresIn,
+          expiresAt,
+        };
+      }
+
+      return { preAuthorizedCode, grant, expiresIn, expiresAt };
+    });
+  }
+
+  /**
+   * Exchanges a pre-authorized code, and its transaction code if one was generated, for an access token.
+   *
+   * @param preAuthorizedCode - The pre-authorized_code parameter of the token request.
+   * @param options - The tx_code and client_id parameters of the token request.
+   * @returns A promise that resolves to a Result of the stored access token. The Result is a failure with
+   * an InvalidRequestError if a transaction code is missing or unexpected, an InvalidGrantError if the code
+   * is unknown, expired, already used or revoked or the transaction code is wrong, or the store error if
+   * the store failed.
+   */
+  async exchange(
+    preAuthorizedCode: string,
+    options: ExchangePreAuthorizedCodeOptions = {}
+  ): Promise<Result<AccessTokenRecord<T>>> {
+    return runAsyncCatching(() => this.redeem(preAuthorizedCode, options));
+  }
+
+  /**
+   * Retrieves an access token issued by exchange.
+   *
+   * @param accessToken - The access token presented to the credential endpoint.
+   * @returns A promise that resolves to a Result of the stored access token, or a failure with an
+   * InvalidTokenError if the token is unknown, expired or revoked, or a StorageDeserializationError
+   * if the stored record is invalid.
+   */
+  async getAccessToken(
+    accessToken: string
+  ): Promise<Result<AccessTokenRecord<T>>> {
+    return runAsyncCatching(async () => {
+      const record = (
+        await this.accessTokens.get(this.accessTokenKeyOf(accessToken))
+      ).getOrThrow();
+
+      if (record === null) {
+        throw new InvalidTokenError('Access token is unknown or has expired');
+      }
+
+      return record;
+    });
+  }
+
+  /**
+   * Revokes a pre-authorized code so that it can no longer be exchanged.
+   *
+   * @param preAuthorizedCode - The pre-authorized code.
+   * @returns A promise that resolves to a Result that is a failure if the store failed.
+   */
+  async revoke(preAuthorizedCode: string): Promise<Result<void>> {
+    return runAsyncCatching(() =>
+      this.db.delete(this.codeKeyOf(preAuthorizedCode))
+    );
+  }
+
+  /**
+   * Validates a pre-authorized code and marks it as used, retrying when another exchange
+   * updates the code concurrently.
+   *
+   * @param preAuthorizedCode - The pre-authorized code.
+   * @param options - The tx_code and client_id parameters of the token request.
+   * @returns A promise that resolves to the stored access token.
+   * @throws {InvalidRequestError} If a transaction code is missing or unexpected.
+   * @throws {InvalidGrantError} If the code is unknown, expired, used or revoked, or the transaction code is wrong.
+   */
+  private async redeem(
+    preAuthorizedCode: string,
+    options: ExchangePreAuthorizedCodeOptions
+  ): Promise<AccessTokenRecord<T>> {
+    const key = this.codeKeyOf(preAuthorizedCode);
+
+    for (let attempt = 1; ; attempt++) {
+      const current = await this.db.getVersioned(key);
+
+      if (current === null) {
+        throw new InvalidGrantError(
+          'Pre-authorized code is unknown or has expired'
+        );
+      }
+
+      const record = decodeRecord(current.value, this.validateCodeRecord);
+
+      if (record.revoked) {
+        throw new InvalidGrantError(
+          'Too many invalid transaction codes; the pre-authorized code has been revoked'
+        );
+      }
+
+      if (record.accessToken !== undefined) {
+        await this.db.delete(this.accessTokenKeyOf(record.accessToken));
+        throw new InvalidGrantError(
+          'Pre-authorized code has already been used'
+        );
+      }
+
+      const { txCode } = options;
+
+      if (record.txCode) {
+        if (txCode === undefined) {
+          throw new InvalidRequestError('Transaction code is required');
+        }
+
+        if (
+          !timingSafeEqual(
+            record.txCode.hash,
+            await hashTxCode(txCode, record.txCode.salt)
+          )
+        ) {
+          const failedTxCodeAttempts = record.failedTxCodeAttempts + 1;
+          const revoked =
+            failedTxCodeAttempts >=
+            (this.options.maxTxCodeAttempts ?? DEFAULT_MAX_TX_CODE_ATTEMPTS);
+
+          if (
+            await this.tryUpdate(key, current.version, attempt, {
+              ...record,
+              failedTxCodeAttempts,
+              revoked,
+            })
+          ) {
+            throw new InvalidGrantError(
+              revoked
+                ? 'Too many invalid transaction codes; the pre-authorized code has been revoked'
+                : 'Transaction code is invalid'
+            );
+          }
+
+          continue;
+        }
+      } else if (txCode !== undefined) {
+        throw new InvalidRequestError('Transaction code was not expected');
+      }
+
+      const tokenRecord = this.createAccessToken(record, options);
+
+      if (
+        await this.tryUpdate(key, current.version, attempt, {
+          ...record,
+          accessToken: tokenRecord.accessToken,
+        })
+      ) {
+        (
+          await this.accessTokens.put(
+            this.accessTokenKeyOf(tokenRecord.accessToken),
+            tokenRecord,
+            { expiration: tokenRecord.expiresAt }
+          )
+        ).getOrThrow();
+
+        return tokenRecord;
+      }
+    }
+  }
+
+  /**
+   * Writes an updated code record if its version is unchanged.
+   *
+   * @param key - The key of the code.
+   * @param version - The version the record was read at.
+   * @param attempt - The number of the current attempt.
+   * @param record - The updated record.
+   * @returns A promise that resolves to true if the record was written, or false if it changed and should be read again.
+   * @throws {StorageVersionConflictError} If the record changed and no attempts are left.
+   */
+  private async tryUpdate(
+    key: string,
+    version: number,
+    attempt: number,
+    record: PreAuthorizedCodeRecord<T>
+  ): Promise<boolean> {
+    try {
+      await this.db.compareAndSet(key, version, JSON.stringify(record), {
+        expiration: record.expiresAt,
+      });
+
+      return true;
+    } catch (error) {
+      if (
+        error instanceof StorageVersionConflictError &&
+        attempt < DEFAULT_UPDATE_ATTEMPTS
+      ) {
+        return false;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a new access token for a code record.
+   *
+   * The token is stored by redeem only after the code is marked as used, so no token exists for a code
+   * that another exchange redeemed first.
+   *
+   * @param record - The code record.
+   * @param options - The client_id parameter of the token request.
+   * @returns The access token.
+   */
+  private createAccessToken(
+    record: PreAuthorizedCodeRecord<T>,
+    options: ExchangePreAuthorizedCodeOptions
+  ): AccessTokenRecord<T> {
+    const expiresIn =
+      this.options.accessTokenTtlSeconds ?? DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+    return {
+      accessToken: this.randomToken(),
+      tokenType: 'Bearer',
+      expiresIn,
+      expiresAt: this.nowInSeconds() + expiresIn,
+      credentialOffer: record.credentialOffer,
+      subject: record.subject,
+      clientId: options.clientId,
+    };
+  }
+
+  /**
+   * Generates a transaction code.
+   *
+   * @param options - The transaction code options.
+   * @returns The tx_code object together with the generated value.
+   * @throws {RangeError} If the length is not a positive integer or the description is too long.
+   */
+  private createTxCode(options: TxCodeOptions): TxCode & { value: string } {
+    const inputMode = options.inputMode ?? 'numeric';
+    const length = options.length ?? DEFAULT_TX_CODE_LENGTH;
+
+    if (!Number.isInteger(length) || length < 1) {
+      throw new RangeError(
+        'Transaction code length must be a positive integer'
+      );
+    }
+
+    if (
+      options.description !== undefined &&
+      options.description.length > MAX_TX_CODE_DESCRIPTION_LENGTH
+    ) {
+      throw new RangeError(
+        `Transaction code description must be at most ${MAX_TX_CODE_DESCRIPTION_LENGTH} characters`
+      );
+    }
+
+    return {
+      value: randomString(
+        length,
+        TX_CODE_ALPHABETS[inputMode],
+        this.options.random ?? cryptoRandom
+      ),
+      input_mode: inputMode,
+      length,
+      description: options.description,
+    };
+  }
+
+  /**
+   * Replaces the value of a generated transaction code with a salted hash, for storage.
+   *
+   * @param txCode - The generated transaction code.
+   * @returns A promise that resolves to the transaction code to store.
+   */
+  private async toStoredTxCode({
+    value,
+    ...txCode
+  }: TxCode & { value: string }): Promise<StoredTxCode> {
+    const salt = randomBase64Url(
+      TX_CODE_SALT_BYTE_LENGTH,
+      this.options.random ?? cryptoRandom
+    );
+
+    return { ...txCode, salt, hash: await hashTxCode(value, salt) };
+  }
+
+  /**
+   * Generates a pre-authorized code or access token.
+   *
+   * @returns The random token.
+   */
+  private randomToken(): string {
+    return randomBase64Url(
+      this.options.byteLength ?? DEFAULT_BYTE_LENGTH,
+      this.options.random ?? cryptoRandom
+    );
+  }
+
+  /**
+   * Returns the key under which a pre-authorized code is stored.
+   *
+   * @param preAuthorizedCode - The pre-authorized code.
+   * @returns The key.
+   */
+  private codeKeyOf(preAuthorizedCode: string): string {
+    return `${
+      this.options.keyPrefix ?? DEFAULT_KEY_PREFIX
+    }${preAuthorizedCode}`;
+  }
+
+  /**
+   * Returns the key under which an access token is stored.
+   *
+   * @param accessToken - The access token.
+   * @returns The key.
+   */
+  private accessTokenKeyOf(accessToken: string): string {
+    return `${
+      this.options.accessTokenKeyPrefix ?? DEFAULT_ACCESS_TOKEN_KEY_PREFIX
+    }${accessToken}`;
+  }
+
+  /**
+   * Returns the current time in whole seconds since the epoch.
+   *
+   * @returns The current time in seconds.
+   */
+  private nowInSeconds(): number {
+    return Math.floor((this.options.now ?? Date.now)() / 1000);
+  }
+}
+
+/**
+ * Asserts that a member is a non-negative number.
+ *
+ * @param value - The member.
+ * @param path - The path of the member.
+ * @throws {ValidationError} If the member is not a non-negative number.
+ */
+const assertNonNegativeNumber = (value: unknown, path: string): void => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new ValidationError(path, 'must be a non-negative number');
+  }
+};
+
+/**
+ * Asserts that a member is a stored transaction code.
+ *
+ * @param value - The member.
+ * @param path - The path of the member.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertStoredTxCode = (value: unknown, path: string): void => {
+  assertJsonObject(value, path);
+
+  if (value.input_mode !== 'numeric' && value.input_mode !== 'text') {
+    throw new ValidationError(
+      joinPath(path, 'input_mode'),
+      "must be 'numeric' or 'text'"
+    );
+  }
+
+  assertNonNegativeNumber(value.length, joinPath(path, 'length'));
+  assertOptional(
+    value.description,
+    joinPath(path, 'description'),
+    assertString
+  );
+  assertNonEmptyString(value.salt, joinPath(path, 'salt'));
+  assertNonEmptyString(value.hash, joinPath(path, 'hash'));
+};
+
+/**
+ * Creates the validator of stored pre-authorized code records.
+ *
+ * @param validateCredentialOffer - The validator of the credential offer.
+ * @returns The validator.
+ */
+const createCodeRecordValidator =
+  <T>(
+    validateCredentialOffer: Validator<T>
+  ): Validator<PreAuthorizedCodeRecord<T>> =>
+  (value) =>
+    runCatching(() => {
+      assertJsonObject(value, '');
+      assertOptional(value.subject, 'subject', assertString);
+      assertOptional(value.txCode, 'txCode', assertStoredTxCode);
+      assertNonNegativeNumber(
+        value.failedTxCodeAttempts,
+        'failedTxCodeAttempts'
+      );
+      assertNonNegativeNumber(value.expiresAt, 'expiresAt');
+      assertOptional(value.accessToken, 'accessToken', assertNonEmptyString);
+      assertOptional(value.revoked, 'revoked', assertBoolean);
+
+      return {
+        ...value,
+        credentialOffer: validateCredentialOffer(
+          value.credentialOffer
+        ).getOrThrow(),
+      } as unknown as PreAuthorizedCodeRecord<T>;
+    });
+
+/**
+ * Creates the validator of stored access token records.
+ *
+ * @param validateCredentialOffer - The validator of the credential offer.
+ * @returns The validator.
+ */
+const createAccessTokenRecordValidator =
+  <T>(validateCredentialOffer: Validator<T>): Validator<AccessTokenRecord<T>> =>
+  (value) =>
+    runCatching(() => {
+      assertJsonObject(value, '');
+      assertNonEmptyString(value.accessToken, 'accessToken');
+
+      if (value.tokenType !== 'Bearer') {
+        throw new ValidationError('tokenType', "must be 'Bearer'");
+      }
+
+      assertNonNegativeNumber(value.expiresIn, 'expiresIn');
+      assertNonNegativeNumber(value.expiresAt, 'expiresAt');
+      assertOptional(value.subject, 'subject', assertString);
+      assertOptional(value.clientId, 'clientId', assertString);
+
+      return {
+        ...value,
+        credentialOffer: validateCredentialOffer(
+          value.credentialOffer
+        ).getOrThrow(),
+      } as unknown as AccessTokenRecord<T>;
+    });
+
+/**
+ * Parses and validates a stored record.
+ *
+ * @param raw - The stored value.
+ * @param validate - The validator of the record.
+ * @returns The record.
+ * @throws {StorageDeserializationError} If the value is not valid JSON or does not pass validation.
+ */
+const decodeRecord = <R>(raw: string, validate: Validator<R>): R => {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    throw new StorageDeserializationError('Stored value is not valid JSON', e);
+  }
+
+  const validated = validate(parsed);
+
+  if (validated.isFailure()) {
+    throw new StorageDeserializationError(
+      `Stored value failed validation: ${validated.error.message}`,
+      validated.error
+    );
+  }
+
+  return validated.getOrThrow();
+};
+
+/**
+ * Hashes a transaction code with a salt.
+ *
+ * @param txCode - The transaction code.
+ * @param salt - The salt.
+ * @returns A promise that resolves to the base64url-encoded SHA-256 hash of the salt followed by the code.
+ */
+const hashTxCode = async (txCode: string, salt: string): Promise<string> =>
+  encodeBase64Url(
+    new Uint8Array(
+      await crypto.subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode(`${salt}${txCode}`)
+      )
+    )
+  );
+
+/**
+ * Compares two strings in time that depends only on their lengths, so that a transaction code hash
+ * cannot be guessed character by character from response times.
+ *
+ * @param a - The expected string.
+ * @param b - The presented string.
+ * @returns True if the strings are equal.
+ */
+const timingSafeEqual = (a: string, b: string): boolean => {
+  let difference = a.length ^ b.length;
+
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i % (b.length || 1));
+  }
+
+  return difference === 0;
+};
@@ -0,0 +1,340 @@
+import { DynamoDB } from '../dynamodb/DynamoDB';
+import { JoseError, JoseMalformedError } from '../jose/JoseError';
+import { Jwk, isJwk, isPrivateJwk, toPublicJwk } from '../jose/Jwk';
+import { JwsHeader, JwsKeyResolver, signJws } from '../jose/Jws';
+import { JwsAlgorithm, SUPPORTED_JWS_ALGORITHMS } from '../jose/JwsAlgorithm';
+import { decodeJwt, verifyJwt } from '../jose/Jwt';
+import {
+  ConsumeNonceOptions,
+  IssueNonceOptions,
+  IssuedNonce,
+  NonceService,
+} from '../nonce/NonceService';
+import { InvalidNonceError, InvalidProofError } from '../oauth/OID4VCError';
+import { getErrorMessage } from '../utils/errorUtils';
+import { RandomSource } from '../utils/random';
+import { Result, runAsyncCatching } from '../utils/result';
+
+/**
+ * The typ header parameter of an OID4VCI key proof.
+ */
+export const PROOF_JWT_TYPE = 'openid4vci-proof+jwt';
+
+/**
+ * The claims of an OID4VCI key proof.
+ */
+export interface ProofJwtClaims {
+  /**
+   * The client_id of the wallet. Omitted when the access token was obtained anonymously with a pre-authorized code.
+   */
+  iss?: string;
+  /**
+   * The credential issuer identifier.
+   */
+  aud: string | string[];
+  iat: number;
+  /**
+   * The c_nonce provided by the credential issuer.
+   */
+  nonce?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * Options for creating a key proof. Exactly one of jwk, kid and x5c identifies the key.
+ */
+export interface CreateProofJwtOptions {
+  /**
+   * The signing algorithm, matching the private key.
+   */
+  alg: JwsAlgorithm;
+  /**
+   * The public key to bind the credential to. Private members are removed.
+   */
+  jwk?: Jwk;
+  /**
+   * A key ID the credential issuer can resolve, such as a DID URL.
+   */
+  kid?: string;
+  /**
+   * The certificate chain of the key, as base64-encoded DER certificates.
+   */
+  x5c?: string[];
+  /**
+   * The credential issuer identifier, for the aud claim.
+   */
+  credentialIssuer: string;
+  /**
+   * The c_nonce provided by the credential issuer.
+   */
+  nonce?: string;
+  /**
+   * The client_id of the wallet, for the iss claim.
+   */
+  clientId?: string;
+  /**
+   * Returns the current time in milliseconds since the epoch. Defaults to Date.now.
+   */
+  now?: () => number;
+}
+
+/**
+ * Options for constructing a ProofJwtVerifier instance.
+ */
+export interface ProofJwtVerifierOptions {
+  /**
+   * The accepted signing algorithms, as in proof_signing_alg_values_supported. Defaults to all supported algorithms.
+   */
+  algorithms?: readonly JwsAlgorithm[];
+  /**
+   * The longest time since the iat claim of a proof, in seconds. Defaults to 300.
+   */
+  maxAgeSeconds?: number;
+  /**
+   * The tolerated difference between the clocks of the wallet and the issuer, in seconds. Defaults to 60.
+   */
+  clockSkewSeconds?: number;
+  /**
+   * Whether proofs must carry a c_nonce. Defaults to true.
+   */
+  requireNonce?: boolean;
+  /**
+   * Resolves the key of a proof identified by kid or x5c. Without it, only proofs with a jwk are accepted.
+   */
+  resolveKey?: JwsKeyResolver;
+  /**
+   * The lifetime of a c_nonce in seconds. Defaults to 300.
+   */
+  nonceTtlSeconds?: number;
+  /**
+   * The prefix of the keys under which c_nonce values are stored. Defaults to 'c_nonce:'.
+   */
+  nonceKeyPrefix?: string;
+  /**
+   * Returns the current time in milliseconds since the epoch. Defaults to Date.now.
+   */
+  now?: () => number;
+  /**
+   * The random source. Defaults to crypto.getRandomValues.
+   */
+  random?: RandomSource;
+}
+
+/**
+ * Options for verifying a key proof.
+ */
+export interface VerifyProofJwtOptions extends ConsumeNonceOptions {
+  /**
+   * The client_id the access token was issued to. If given, the iss claim must equal it.
+   */
+  clientId?: string;
+}
+
+/**
+ * A verified key proof.
+ */
+export interface VerifiedProofJwt {
+  header: JwsHeader;
+  payload: ProofJwtClaims;
+  /**
+   * The public key the proof was signed with, when the proof carries it in the jwk header parameter.
+   * The credential is bound to it, for example in the cnf claim of an SD-JWT VC.
+   */
+  jwk?: Jwk;
+}
+
+const DEFAULT_MAX_AGE_SECONDS = 300;
+const DEFAULT_CLOCK_SKEW_SECONDS = 60;
+const DEFAULT_NONCE_KEY_PREFIX = 'c_nonce:';
+
+/**
+ * Lists the key identification header parameters present in a header.
+ *
+ * @param {Partial<JwsHeader>} header - The header.
+ * @returns {string[]} The names of the jwk, kid and x5c parameters present.
+ */
+const keyParametersOf = (header: Partial<JwsHeader>): string[] =>
+  ['jwk', 'kid', 'x5c'].filter((name) => header[name] !== undefined);
+
+/**
+ * Creates an OID4VCI key proof (openid4vci-proof+jwt) for the credential endpoint.
+ *
+ * @param {CryptoKey} privateKey - The private key of the wallet, imported or generated for the algorithm.
+ * @param {CreateProofJwtOptions} options - The algorithm, the key identification, the credential issuer and the c_nonce.
+ * @returns {Promise<Result<string, JoseError>>} A promise that resolves to a Result of the proof JWT, or a failure with
+ * a JoseMalformedError if not exactly one of jwk, kid and x5c is given, or as for signJws.
+ *
+ * @example
+ * const proof = (
+ *   await createProofJwt(privateKey, { alg: 'ES256', jwk, credentialIssuer, nonce: c_nonce })
+ * ).getOrThrow();
+ * // { proof: { proof_type: 'jwt', jwt: proof } }
+ */
+export const createProofJwt = async (
+  privateKey: CryptoKey,
+  options: CreateProofJwtOptions
+): Promise<Result<string, JoseError>> => {
+  const { alg, jwk, kid, x5c } = options;
+  const header: JwsHeader = {
+    alg,
+    typ: PROOF_JWT_TYPE,
+    ...(jwk !== undefined ? { jwk: toPublicJwk(jwk) } : {}),
+    ...(kid !== undefined ? { kid } : {}),
+    ...(x5c !== undefined ? { x5c } : {}),
+  };
+
+  if (keyParametersOf(header).length !== 1) {
+    return Result.failure(
+      new JoseMalformedError('Exactly one of jwk, kid and x5c must be given')
+    );
+  }
+
+  const payload: ProofJwtClaims = {
+    ...(options.clientId !== undefined ? { iss: options.clientId } : {}),
+    aud: options.credentialIssuer,
+    iat: Math.floor((options.now ?? Date.now)() / 1000),
+    ...(options.nonce !== undefined ? { nonce: options.nonce } : {}),
+  };
+
+  return signJws(JSON.stringify(payload), privateKey, header);
+};
+
+/**
+ * Issues c_nonce values and verifies OID4VCI key proofs (openid4vci-proof+jwt) at the credential endpoint.
+ *
+ * A proof must be signed with an accepted algorithm by the key it identifies, be addressed to the
+ * credential issuer, be recent, and carry a c_nonce issued by this verifier. The c_nonce is consumed
+ * only after the signature and claims are verified, so a forged proof cannot use it up.
+ * c_nonce values are stored in DynamoDB under a TTL through NonceService.
+ */
+export class ProofJwtVerifier {
+  private readonly nonces: NonceService;
+
+  /**
+   * Constructs a new ProofJwtVerifier instance.
+   *
+   * @param db - The DynamoDB instance holding c_nonce values.
+   * @param credentialIssuer - The credential issuer identifier, which proofs must be addressed to.
+   * @param options - Optional settings such as the accepted algorithms, the freshness window and the key resolver.
+   */
+  constructor(
+    db: DynamoDB,
+    private readonly credentialIssuer: string,
+    private readonly options: ProofJwtVerifierOptions = {}
+  ) {
+    this.nonces = new NonceService(db, {
+      ttlSeconds: options.nonceTtlSeconds,
+      keyPrefix: options.nonceKeyPrefix ?? DEFAULT_NONCE_KEY_PREFIX,
+      now: options.now,
+      random: options.random,
+    });
+  }
+
+  /**
+   * Issues a c_nonce, for example for the response of the nonce endpoint.
+   *
+   * @param options - Optional settings such as the session or client binding.
+   * @returns A promise that resolves to a Result of the c_nonce and its lifetime, or a failure if it could not be stored.
+   */
+  issueNonce(options: IssueNonceOptions = {}): Promise<Result<IssuedNonce>> {
+    return this.nonces.issue(options);
+  }
+
+  /**
+   * Verifies a key proof and consumes its c_nonce.
+   *
+   * @param proof - The jwt of the proof in the credential request.
+   * @param options - Optional settings such as the expected client_id and the nonce binding.
+   * @returns A promise that resolves to a Result of the verified proof. The Result is a failure with an
+   * InvalidProofError if the proof is malformed, not signed by its key, not addressed to the credential issuer
+   * or too old, an InvalidNonceError (or ExpiredNonceError) if its c_nonce is missing, unknown, used or expired,
+   * or the store error if the store failed.
+   *
+   * @example
+   * const verified = await verifier.verify(request.proof.jwt, { clientId });
+   * if (verified.isFailureOf(InvalidNonceError)) {
+   *   // Respond with invalid_nonce so that the wallet fetches a fresh c_nonce
+   * }
+   */
+  async verify(
+    proof: string,
+    options: VerifyProofJwtOptions = {}
+  ): Promise<Result<VerifiedProofJwt>> {
+    const verified = await runAsyncCatching(
+      {
+        mapError: (e) =>
+          e instanceof InvalidProofError
+            ? e
+            : new InvalidProofError(
+                `The proof is invalid: ${getErrorMessage(e)}`,
+                { cause: e }
+              ),
+      },
+      async () => {
+        const { header } = decodeJwt(proof).getOrThrow();
+        const keyParameters = keyParametersOf(header);
+
+        if (keyParameters.length !== 1) {
+          throw new InvalidProofError(
+            'The proof must have exactly one of jwk, kid and x5c'
+          );
+        }
+
+        if (
+          header.jwk !== undefined &&
+          (!isJwk(header.jwk) || isPrivateJwk(header.jwk))
+        ) {
+          throw new InvalidProofError('The jwk must be a public key');
+        }
+
+        const key = header.jwk ?? this.options.resolveKey;
+
+        if (key === undefined) {
+          throw new InvalidProofError(
+            `The proof identifies its key by ${keyParameters[0]}, which is not supported`
+          );
+        }
+
+        const { payload } = (
+          await verifyJwt(proof, key, {
+            typ: PROOF_JWT_TYPE,
+            algorithms: this.options.algorithms ?? SUPPORTED_JWS_ALGORITHMS,
+            audience: this.credentialIssuer,
+            issuer: options.clientId,
+            maxAgeSeconds:
+              this.options.maxAgeSeconds ?? DEFAULT_MAX_AGE_SECONDS,
+            clockSkewSeconds:
+              this.options.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS,
+            now: this.options.now,
+          })
+        ).getOrThrow();
+
+        return {
+          header,
+          payload: payload as ProofJwtClaims,
+          ...(header.jwk !== undefined ? { jwk: header.jwk } : {}),
+        };
+      }
+    );
+
+    return verified.flatMapAsync(
+      async (value): Promise<Result<VerifiedProofJwt>> => {
+        const { nonce } = value.payload;
+
+        if (nonce === undefined) {
+          return this.options.requireNonce ?? true
+            ? Result.failure(new InvalidNonceError('The proof has no c_nonce'))
+            : Result.success(value);
+        }
+
+        if (typeof nonce !== 'string') {
+          return Result.failure(
+            new InvalidProofError('The nonce claim must be a string')
+          );
+        }
+
+        return (await this.nonces.consume(nonce, options)).map(() => value);
+      }
+    );
+  }
+}
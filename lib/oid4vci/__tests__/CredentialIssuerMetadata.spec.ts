@@ -0,0 +1,310 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  CredentialIssuerMetadata,
+  createCredentialIssuerMetadataUrl,
+  fetchCredentialIssuerMetadata,
+  validateCredentialIssuerMetadata,
+} from '../CredentialIssuerMetadata';
+import { OAuthError } from '../../oauth/OAuthError';
+import { ValidationError } from '../../utils/validation';
+
+const metadata: CredentialIssuerMetadata = {
+  credential_issuer: 'https://issuer.example.com',
+  authorization_servers: ['https://as.example.com'],
+  credential_endpoint: 'https://issuer.example.com/credential',
+  nonce_endpoint: 'https://issuer.example.com/nonce',
+  credential_response_encryption: {
+    alg_values_supported: ['ECDH-ES'],
+    enc_values_supported: ['A128GCM'],
+    encryption_required: false,
+  },
+  batch_credential_issuance: { batch_size: 10 },
+  display: [
+    {
+      name: 'Example University',
+      locale: 'en-US',
+      logo: { uri: 'https://issuer.example.com/logo.png', alt_text: 'Logo' },
+    },
+  ],
+  credential_configurations_supported: {
+    UniversityDegree_SD_JWT: {
+      format: 'dc+sd-jwt',
+      vct: 'https://credentials.example.com/university_degree',
+      scope: 'UniversityDegree',
+      cryptographic_binding_methods_supported: ['jwk'],
+      credential_signing_alg_values_supported: ['ES256'],
+      proof_types_supported: {
+        jwt: {
+          proof_signing_alg_values_supported: ['ES256'],
+          key_attestations_required: { key_storage: ['iso_18045_moderate'] },
+        },
+      },
+      display: [
+        {
+          name: 'University Degree',
+          locale: 'en-US',
+          background_color: '#12107c',
+          background_image: { uri: 'https://issuer.example.com/bg.png' },
+          text_color: '#FFFFFF',
+        },
+      ],
+      claims: [
+        {
+          path: ['degrees', null, 'type'],
+          mandatory: true,
+          display: [{ name: 'Degree', locale: 'en-US' }],
+        },
+      ],
+    },
+    mDL: {
+      format: 'mso_mdoc',
+      doctype: 'org.iso.18013.5.1.mDL',
+      credential_signing_alg_values_supported: [-7],
+    },
+    UniversityDegree_JWT: {
+      format: 'jwt_vc_json',
+      credential_definition: {
+        type: ['VerifiableCredential', 'UniversityDegreeCredential'],
+      },
+    },
+    UniversityDegree_LDP: {
+      format: 'ldp_vc',
+      credential_definition: {
+        '@context': ['https://www.w3.org/2018/credentials/v1'],
+        type: ['VerifiableCredential', 'UniversityDegreeCredential'],
+      },
+    },
+  },
+};
+
+const withConfiguration = (configuration: unknown) => ({
+  ...metadata,
+  credential_configurations_supported: { test: configuration },
+});
+
+describe('CredentialIssuerMetadata', () => {
+  describe('createCredentialIssuerMetadataUrl', () => {
+    it.each([
+      [
+        'https://issuer.example.com',
+        'https://issuer.example.com/.well-known/openid-credential-issuer',
+      ],
+      [
+        'https://issuer.example.com/',
+        'https://issuer.example.com/.well-known/openid-credential-issuer',
+      ],
+      [
+        'https://issuer.example.com/tenant/1',
+        'https://issuer.example.com/.well-known/openid-credential-issuer/tenant/1',
+      ],
+      [
+        'https://issuer.example.com:8443/tenant/',
+        'https://issuer.example.com:8443/.well-known/openid-credential-issuer/tenant',
+      ],
+    ])('should locate the metadata of %s', (issuer, url) => {
+      expect(createCredentialIssuerMetadataUrl(issuer)).toBe(url);
+    });
+  });
+
+  describe('validateCredentialIssuerMetadata', () => {
+    it('should accept valid metadata', () => {
+      expect(validateCredentialIssuerMetadata(metadata).value).toBe(metadata);
+    });
+
+    it('should accept configurations of unknown formats', () => {
+      const result = validateCredentialIssuerMetadata(
+        withConfiguration({ format: 'custom_format' })
+      );
+
+      expect(result.isSuccess()).toBe(true);
+    });
+
+    it.each([
+      [
+        { ...metadata, credential_endpoint: undefined },
+        'credential_endpoint must be an https URL',
+      ],
+      [
+        { ...metadata, authorization_servers: [] },
+        'authorization_servers must be a non-empty array',
+      ],
+      [
+        { ...metadata, nonce_endpoint: 'http://issuer.example.com/nonce' },
+        'nonce_endpoint must be an https URL',
+      ],
+      [
+        {
+          ...metadata,
+          credential_response_encryption: {
+            alg_values_supported: ['ECDH-ES'],
+            enc_values_supported: ['A128GCM'],
+          },
+        },
+        'credential_response_encryption.encryption_required must be a boolean',
+      ],
+      [
+        { ...metadata, batch_credential_issuance: { batch_size: 1 } },
+        'batch_credential_issuance.batch_size must be an integer of at least 2',
+      ],
+      [
+        { ...metadata, display: [{ logo: {} }] },
+        'display[0].logo.uri must be a non-empty string',
+      ],
+      [
+        { ...metadata, credential_configurations_supported: undefined },
+        'credential_configurations_supported must be a JSON object',
+      ],
+      [
+        withConfiguration({ format: 'dc+sd-jwt' }),
+        'credential_configurations_supported.test.vct must be a non-empty string',
+      ],
+      [
+        withConfiguration({ format: 'mso_mdoc', doctype: '' }),
+        'credential_configurations_supported.test.doctype must be a non-empty string',
+      ],
+      [
+        withConfiguration({
+          format: 'jwt_vc_json',
+          credential_definition: { type: [] },
+        }),
+        'credential_configurations_supported.test.credential_definition.type must be a non-empty array',
+      ],
+      [
+        withConfiguration({
+          format: 'ldp_vc',
+          credential_definition: { type: ['VerifiableCredential'] },
+        }),
+        'credential_configurations_supported.test.credential_definition.@context must be a non-empty array',
+      ],
+      [
+        withConfiguration({
+          format: 'mso_mdoc',
+          doctype: 'org.iso.18013.5.1.mDL',
+          cryptographic_binding_methods_supported: ['cose_key'],
+        }),
+        'credential_configurations_supported.test.proof_types_supported must be present when cryptographic_binding_methods_supported is present',
+      ],
+      [
+        withConfiguration({
+          format: 'mso_mdoc',
+          doctype: 'org.iso.18013.5.1.mDL',
+          cryptographic_binding_methods_supported: ['cose_key'],
+          proof_types_supported: { jwt: {} },
+        }),
+        'credential_configurations_supported.test.proof_types_supported.jwt.proof_signing_alg_values_supported must be a non-empty array',
+      ],
+      [
+        withConfiguration({
+          format: 'mso_mdoc',
+          doctype: 'org.iso.18013.5.1.mDL',
+          credential_signing_alg_values_supported: [true],
+        }),
+        'credential_configurations_supported.test.credential_signing_alg_values_supported[0] must be a string or an integer',
+      ],
+      [
+        withConfiguration({
+          format: 'mso_mdoc',
+          doctype: 'org.iso.18013.5.1.mDL',
+          display: [{ locale: 'en-US' }],
+        }),
+        'credential_configurations_supported.test.display[0].name must be a string',
+      ],
+      [
+        withConfiguration({
+          format: 'mso_mdoc',
+          doctype: 'org.iso.18013.5.1.mDL',
+          claims: [{ path: ['org.iso.18013.5.1', -1] }],
+        }),
+        'credential_configurations_supported.test.claims[0].path[1] must be a string, a non-negative integer or null',
+      ],
+    ])('should reject invalid metadata %#', (value, message) => {
+      const result = validateCredentialIssuerMetadata(value);
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(result.error?.message).toBe(message);
+    });
+  });
+
+  describe('fetchCredentialIssuerMetadata', () => {
+    const stubFetch = (response: Response) =>
+      vi.fn<typeof fetch>().mockResolvedValue(response);
+
+    it('should fetch and validate the metadata', async () => {
+      const fetch = stubFetch(Response.json(metadata));
+
+      const result = await fetchCredentialIssuerMetadata(
+        'https://issuer.example.com',
+        { fetch, language: 'ja, en;q=0.8' }
+      );
+
+      expect(result.value).toEqual(metadata);
+      expect(fetch).toHaveBeenCalledWith(
+        'https://issuer.example.com/.well-known/openid-credential-issuer',
+        {
+          headers: {
+            Accept: 'application/json',
+            'Accept-Language': 'ja, en;q=0.8',
+          },
+          signal: undefined,
+        }
+      );
+    });
+
+    it('should reject metadata of another credential issuer', async () => {
+      const result = await fetchCredentialIssuerMetadata(
+        'https://issuer.example.com/tenant',
+        { fetch: stubFetch(Response.json(metadata)) }
+      );
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect((result.error as ValidationError).path).toBe('credential_issuer');
+    });
+
+    it('should reject invalid metadata', async () => {
+      const result = await fetchCredentialIssuerMetadata(
+        'https://issuer.example.com',
+        {
+          fetch: stubFetch(
+            Response.json({ ...metadata, credential_endpoint: 1 })
+          ),
+        }
+      );
+
+      expect(result.error?.message).toBe(
+        'credential_endpoint must be an https URL'
+      );
+    });
+
+    it('should reject a body that is not JSON', async () => {
+      const result = await fetchCredentialIssuerMetadata(
+        'https://issuer.example.com',
+        { fetch: stubFetch(new Response('<html></html>')) }
+      );
+
+      expect(result.error?.message).toBe('Value must be valid JSON');
+    });
+
+    it('should report an unsuccessful response', async () => {
+      const result = await fetchCredentialIssuerMetadata(
+        'https://issuer.example.com',
+        { fetch: stubFetch(new Response('Not Found', { status: 404 })) }
+      );
+
+      expect(result.error).toBeInstanceOf(OAuthError);
+      expect((result.error as OAuthError).status).toBe(404);
+    });
+
+    it('should report a network failure', async () => {
+      const fetch = vi
+        .fn<typeof globalThis.fetch>()
+        .mockRejectedValue(new TypeError('fetch failed'));
+
+      const result = await fetchCredentialIssuerMetadata(
+        'https://issuer.example.com',
+        { fetch }
+      );
+
+      expect(result.error).toBeInstanceOf(TypeError);
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CredentialOffer,
+  CredentialOfferBuilder,
+  createCredentialOfferReferenceUri,
+  createCredentialOfferUri,
+  parseCredentialOfferUri,
+  validateCredentialOffer,
+} from '../CredentialOffer';
+import { ValidationError } from '../../utils/validation';
+
+const offer: CredentialOffer = {
+  credential_issuer: 'https://issuer.example.com',
+  credential_configuration_ids: ['UniversityDegree_SD_JWT', 'mDL'],
+  grants: {
+    authorization_code: { issuer_state: 'eyJhbGciOiJSU0Et...FYUaBy' },
+    'urn:ietf:params:oauth:grant-type:pre-authorized_code': {
+      'pre-authorized_code': 'adhjhdjajkdkhjhdj',
+      tx_code: { input_mode: 'numeric', length: 4, description: 'Check mail' },
+    },
+  },
+};
+
+describe('CredentialOffer', () => {
+  describe('validateCredentialOffer', () => {
+    it('should accept a valid offer', () => {
+      expect(validateCredentialOffer(offer).value).toBe(offer);
+    });
+
+    it('should accept an offer without grants', () => {
+      const result = validateCredentialOffer({
+        credential_issuer: 'https://issuer.example.com/tenant',
+        credential_configuration_ids: ['mDL'],
+      });
+
+      expect(result.isSuccess()).toBe(true);
+    });
+
+    it('should ignore grants of other types', () => {
+      const result = validateCredentialOffer({
+        ...offer,
+        grants: { 'urn:example:custom': 1 },
+      });
+
+      expect(result.isSuccess()).toBe(true);
+    });
+
+    it.each([
+      [null, 'Value must be a JSON object'],
+      [
+        { ...offer, credential_issuer: 'http://issuer.example.com' },
+        'credential_issuer must be an https URL without query or fragment',
+      ],
+      [
+        { ...offer, credential_issuer: 'https://issuer.example.com?x=1' },
+        'credential_issuer must be an https URL without query or fragment',
+      ],
+      [
+        { ...offer, credential_configuration_ids: [] },
+        'credential_configuration_ids must be a non-empty array',
+      ],
+      [
+        { ...offer, credential_configuration_ids: ['mDL', 1] },
+        'credential_configuration_ids[1] must be a non-empty string',
+      ],
+      [
+        { ...offer, credential_configuration_ids: ['mDL', 'mDL'] },
+        'credential_configuration_ids[1] must be unique',
+      ],
+      [{ ...offer, grants: [] }, 'grants must be a JSON object'],
+      [
+        { ...offer, grants: { authorization_code: { issuer_state: 1 } } },
+        'grants.authorization_code.issuer_state must be a string',
+      ],
+      [
+        {
+          ...offer,
+          grants: {
+            authorization_code: { authorization_server: 'http://as.example' },
+          },
+        },
+        'grants.authorization_code.authorization_server must be an https URL',
+      ],
+      [
+        {
+          ...offer,
+          grants: {
+            'urn:ietf:params:oauth:grant-type:pre-authorized_code': {},
+          },
+        },
+        'grants.urn:ietf:params:oauth:grant-type:pre-authorized_code.pre-authorized_code must be a non-empty string',
+      ],
+      [
+        {
+          ...offer,
+          grants: {
+            'urn:ietf:params:oauth:grant-type:pre-authorized_code': {
+              'pre-authorized_code': 'code',
+              tx_code: { input_mode: 'alpha' },
+            },
+          },
+        },
+        "grants.urn:ietf:params:oauth:grant-type:pre-authorized_code.tx_code.input_mode must be 'numeric' or 'text'",
+      ],
+      [
+        {
+          ...offer,
+          grants: {
+            'urn:ietf:params:oauth:grant-type:pre-authorized_code': {
+              'pre-authorized_code': 'code',
+              tx_code: { length: 1.5 },
+            },
+          },
+        },
+        'grants.urn:ietf:params:oauth:grant-type:pre-authorized_code.tx_code.length must be a positive integer',
+      ],
+      [
+        {
+          ...offer,
+          grants: {
+            'urn:ietf:params:oauth:grant-type:pre-authorized_code': {
+              'pre-authorized_code': 'code',
+              tx_code: { description: 'x'.repeat(301) },
+            },
+          },
+        },
+        'grants.urn:ietf:params:oauth:grant-type:pre-authorized_code.tx_code.description must be at most 300 characters',
+      ],
+    ])('should reject an invalid offer %#', (value, message) => {
+      const result = validateCredentialOffer(value);
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(result.error?.message).toBe(message);
+    });
+
+    it('should report the path of the invalid member', () => {
+      const result = validateCredentialOffer({
+        ...offer,
+        credential_configuration_ids: [''],
+      });
+
+      expect((result.error as ValidationError).path).toBe(
+        'credential_configuration_ids[0]'
+      );
+    });
+  });
+
+  describe('CredentialOfferBuilder', () => {
+    it('should build an offer with both grants', () => {
+      const result = new CredentialOfferBuilder('https://issuer.example.com')
+        .addCredentialConfigurationId('UniversityDegree_SD_JWT', 'mDL')
+        .withAuthorizationCode({ issuer_state: 'eyJhbGciOiJSU0Et...FYUaBy' })
+        .withPreAuthorizedCode({
+          'pre-authorized_code': 'adhjhdjajkdkhjhdj',
+          tx_code: {
+            input_mode: 'numeric',
+            length: 4,
+            description: 'Check mail',
+          },
+        })
+        .build();
+
+      expect(result.value).toEqual(offer);
+    });
+
+    it('should omit grants when none are offered', () => {
+      const result = new CredentialOfferBuilder('https://issuer.example.com')
+        .addCredentialConfigurationId('mDL')
+        .build();
+
+      expect(result.value).toEqual({
+        credential_issuer: 'https://issuer.example.com',
+        credential_configuration_ids: ['mDL'],
+      });
+    });
+
+    it('should fail without credential configurations', () => {
+      const result = new CredentialOfferBuilder(
+        'https://issuer.example.com'
+      ).build();
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+    });
+  });
+
+  describe('createCredentialOfferUri', () => {
+    it('should pass the offer by value', () => {
+      const uri = createCredentialOfferUri(offer);
+
+      expect(uri).toMatch(
+        /^openid-credential-offer:\/\/\?credential_offer=%7B%22credential_issuer%22/
+      );
+      expect(parseCredentialOfferUri(uri).value).toEqual({
+        credentialOffer: offer,
+      });
+    });
+
+    it('should append to a custom base URI', () => {
+      expect(
+        createCredentialOfferUri(offer, {
+          baseUri: 'https://wallet.example.com/offer?lang=en',
+        })
+      ).toMatch(
+        /^https:\/\/wallet\.example\.com\/offer\?lang=en&credential_offer=/
+      );
+    });
+  });
+
+  describe('createCredentialOfferReferenceUri', () => {
+    it('should pass the offer by reference', () => {
+      const uri = createCredentialOfferReferenceUri(
+        'https://issuer.example.com/offers/abc'
+      );
+
+      expect(uri).toBe(
+        'openid-credential-offer://?credential_offer_uri=https%3A%2F%2Fissuer.example.com%2Foffers%2Fabc'
+      );
+      expect(parseCredentialOfferUri(uri).value).toEqual({
+        credentialOfferUri: 'https://issuer.example.com/offers/abc',
+      });
+    });
+  });
+
+  describe('parseCredentialOfferUri', () => {
+    it('should accept a percent-encoded offer', () => {
+      const uri = `openid-credential-offer://?credential_offer=${encodeURIComponent(
+        JSON.stringify(offer)
+      )}`;
+
+      expect(parseCredentialOfferUri(uri).value?.credentialOffer).toEqual(
+        offer
+      );
+    });
+
+    it.each([
+      ['openid-credential-offer://', 'must contain a credential_offer'],
+      [
+        'openid-credential-offer://?credential_offer=%7B&credential_offer_uri=https%3A%2F%2Fa',
+        'must not contain both',
+      ],
+      [
+        'openid-credential-offer://?credential_offer_uri=http%3A%2F%2Fissuer.example.com',
+        'credential_offer_uri must be an https URL',
+      ],
+      [
+        'openid-credential-offer://?credential_offer=%7B',
+        'credential_offer must be valid JSON',
+      ],
+      [
+        'openid-credential-offer://?credential_offer=%7B%7D',
+        'credential_issuer must be',
+      ],
+    ])('should reject %s', (uri, message) => {
+      const result = parseCredentialOfferUri(uri);
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(result.error?.message).toContain(message);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CredentialOfferStore } from '../CredentialOfferStore';
+import { CredentialOffer } from '../CredentialOffer';
+import { DynamoDB } from '../../dynamodb/DynamoDB';
+import { createFakeTable } from '../../dynamodb/__tests__/fakeTable';
+import { StorageDeserializationError } from '../../storage/StorageError';
+import { ValidationError } from '../../utils/validation';
+
+const offer: CredentialOffer = {
+  credential_issuer: 'https://issuer.example.com',
+  credential_configuration_ids: ['mDL'],
+};
+
+describe('CredentialOfferStore', () => {
+  let now: number;
+  let db: DynamoDB;
+  let store: CredentialOfferStore;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    db = createFakeTable(() => now);
+    store = new CredentialOfferStore(
+      db,
+      'https://issuer.example.com/credential-offers/'
+    );
+  });
+
+  describe('put', () => {
+    it('should store the offer and return its URL', async () => {
+      const stored = (await store.put(offer)).getOrThrow();
+
+      expect(stored.id).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(stored.credentialOfferUri).toBe(
+        `https://issuer.example.com/credential-offers/${stored.id}`
+      );
+      expect(stored.expiresIn).toBe(600);
+      expect((await store.get(stored.id)).value).toEqual(offer);
+    });
+
+    it('should store the offer under a TTL', async () => {
+      store = new CredentialOfferStore(db, 'https://issuer.example.com', {
+        ttlSeconds: 60,
+      });
+      const { id } = (await store.put(offer)).getOrThrow();
+
+      now += 60_000;
+
+      expect((await store.get(id)).value).toBeNull();
+    });
+
+    it('should reject an invalid offer without storing it', async () => {
+      const putSpy = vi.spyOn(db, 'put');
+
+      const result = await store.put({
+        ...offer,
+        credential_configuration_ids: [],
+      });
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(putSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return a failure if the store fails', async () => {
+      vi.spyOn(db, 'put').mockRejectedValue(new Error('Store Error'));
+
+      const result = await store.put(offer);
+
+      expect(result.error?.message).toBe('Store Error');
+    });
+  });
+
+  describe('get', () => {
+    it('should return null for an unknown offer', async () => {
+      expect((await store.get('unknown')).value).toBeNull();
+    });
+
+    it('should reject a stored value that is not a valid offer', async () => {
+      await db.put('credential_offer:corrupt', '{"credential_issuer":1}');
+
+      const result = await store.get('corrupt');
+
+      expect(result.error).toBeInstanceOf(StorageDeserializationError);
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove the offer', async () => {
+      const { id } = (await store.put(offer)).getOrThrow();
+
+      await store.delete(id);
+
+      expect((await store.get(id)).value).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,398 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PreAuthorizedCodeStore } from '../PreAuthorizedCodeStore';
+import { DynamoDB } from '../../dynamodb/DynamoDB';
+import { createFakeTable } from '../../dynamodb/__tests__/fakeTable';
+import {
+  InvalidGrantError,
+  InvalidRequestError,
+  InvalidTokenError,
+} from '../../oauth/OAuthError';
+import {
+  StorageDeserializationError,
+  StorageVersionConflictError,
+} from '../../storage/StorageError';
+import { Result } from '../../utils/result';
+
+interface Offer {
+  credential_configuration_ids: string[];
+}
+
+const credentialOffer: Offer = {
+  credential_configuration_ids: ['UniversityDegree_SD_JWT'],
+};
+
+describe('PreAuthorizedCodeStore', () => {
+  let now: number;
+  let db: DynamoDB;
+  let store: PreAuthorizedCodeStore<Offer>;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    db = createFakeTable(() => now);
+    store = new PreAuthorizedCodeStore(db, { now: () => now });
+  });
+
+  const createWithTxCode = async () =>
+    (
+      await store.create({ credentialOffer, txCode: { length: 4 } })
+    ).getOrThrow();
+
+  describe('create', () => {
+    it('should create a random code with its grant parameters', async () => {
+      const result = await store.create({ credentialOffer });
+      const issued = result.getOrThrow();
+
+      expect(issued.preAuthorizedCode).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(issued.txCode).toBeUndefined();
+      expect(issued.grant).toEqual({
+        'pre-authorized_code': issued.preAuthorizedCode,
+      });
+      expect(issued.expiresIn).toBe(300);
+      expect(issued.expiresAt).toBe(1_700_000_300);
+    });
+
+    it('should store only a salted hash of the transaction code', async () => {
+      const { preAuthorizedCode } = await createWithTxCode();
+
+      const stored = await db.get(`pre_authorized_code:${preAuthorizedCode}`);
+
+      expect(JSON.parse(stored ?? 'null').txCode).toEqual({
+        input_mode: 'numeric',
+        length: 4,
+        salt: expect.stringMatching(/^[A-Za-z0-9_-]{22}$/),
+        hash: expect.stringMatching(/^[A-Za-z0-9_-]{43}$/),
+      });
+    });
+
+    it('should generate a numeric transaction code by default', async () => {
+      const issued = (
+        await store.create({
+          credentialOffer,
+          txCode: { description: 'Sent to your e-mail address' },
+        })
+      ).getOrThrow();
+
+      expect(issued.txCode).toMatch(/^[0-9]{6}$/);
+      expect(issued.grant.tx_code).toEqual({
+        input_mode: 'numeric',
+        length: 6,
+        description: 'Sent to your e-mail address',
+      });
+    });
+
+    it('should generate a text transaction code', async () => {
+      const issued = (
+        await store.create({
+          credentialOffer,
+          txCode: { inputMode: 'text', length: 8 },
+        })
+      ).getOrThrow();
+
+      expect(issued.txCode).toMatch(/^[A-Z2-9]{8}$/);
+      expect(issued.grant.tx_code).toMatchObject({
+        input_mode: 'text',
+        length: 8,
+      });
+    });
+
+    it('should reject invalid transaction code options', async () => {
+      const badLength = await store.create({
+        credentialOffer,
+        txCode: { length: 0 },
+      });
+      const badDescription = await store.create({
+        credentialOffer,
+        txCode: { description: 'x'.repeat(301) },
+      });
+
+      expect(badLength.error).toBeInstanceOf(RangeError);
+      expect(badDescription.error).toBeInstanceOf(RangeError);
+    });
+
+    it('should return a failure if the store fails', async () => {
+      vi.spyOn(db, 'compareAndSet').mockRejectedValue(new Error('Store Error'));
+
+      const result = await store.create({ credentialOffer });
+
+      expect(result.error?.message).toBe('Store Error');
+    });
+  });
+
+  describe('exchange', () => {
+    it('should exchange a code for an access token', async () => {
+      const { preAuthorizedCode } = (
+        await store.create({ credentialOffer, subject: 'user-1' })
+      ).getOrThrow();
+
+      const result = await store.exchange(preAuthorizedCode, {
+        clientId: 'wallet',
+      });
+      const token = result.getOrThrow();
+
+      expect(token).toEqual({
+        accessToken: expect.stringMatching(/^[A-Za-z0-9_-]{43}$/),
+        tokenType: 'Bearer',
+        expiresIn: 3600,
+        expiresAt: 1_700_003_600,
+        credentialOffer,
+        subject: 'user-1',
+        clientId: 'wallet',
+      });
+      expect((await store.getAccessToken(token.accessToken)).value).toEqual(
+        token
+      );
+    });
+
+    it('should exchange a code at most once', async () => {
+      const { preAuthorizedCode } = (
+        await store.create({ credentialOffer })
+      ).getOrThrow();
+
+      const first = await store.exchange(preAuthorizedCode);
+      const second = await store.exchange(preAuthorizedCode);
+
+      expect(first.isSuccess()).toBe(true);
+      expect(second.error).toBeInstanceOf(InvalidGrantError);
+      expect(second.error?.message).toBe(
+        'Pre-authorized code has already been used'
+      );
+    });
+
+    it('should revoke the access token when a used code is presented again', async () => {
+      const { preAuthorizedCode } = (
+        await store.create({ credentialOffer })
+      ).getOrThrow();
+      const token = (await store.exchange(preAuthorizedCode)).getOrThrow();
+
+      await store.exchange(preAuthorizedCode);
+
+      expect(
+        (await store.getAccessToken(token.accessToken)).error
+      ).toBeInstanceOf(InvalidTokenError);
+    });
+
+    it('should let only one concurrent exchange succeed', async () => {
+      const { preAuthorizedCode } = (
+        await store.create({ credentialOffer })
+      ).getOrThrow();
+
+      const results = await Promise.all([
+        store.exchange(preAuthorizedCode),
+        store.exchange(preAuthorizedCode),
+      ]);
+
+      expect(results.filter((result) => result.isSuccess())).toHaveLength(1);
+    });
+
+    it('should reject an unknown code', async () => {
+      const result = await store.exchange('unknown');
+
+      expect(result.error).toBeInstanceOf(InvalidGrantError);
+      expect(result.error?.message).toBe(
+        'Pre-authorized code is unknown or has expired'
+      );
+    });
+
+    it('should reject a stored code that fails validation', async () => {
+      const { preAuthorizedCode } = (
+        await store.create({ credentialOffer })
+      ).getOrThrow();
+      vi.spyOn(db, 'getVersioned').mockResolvedValueOnce({
+        value: '{"failedTxCodeAttempts":0,"expiresAt":"soon"}',
+        version: 1,
+      });
+
+      const result = await store.exchange(preAuthorizedCode);
+
+      expect(result.error).toBeInstanceOf(StorageDeserializationError);
+      expect(result.error?.message).toBe(
+        'Stored value failed validation: expiresAt must be a non-negative number'
+      );
+    });
+
+    it('should reject an expired code', async () => {
+      const { preAuthorizedCode } = (
+        await store.create({ credentialOffer, ttlSeconds: 60 })
+      ).getOrThrow();
+      now += 60_000;
+
+      const result = await store.exchange(preAuthorizedCode);
+
+      expect(result.error).toBeInstanceOf(InvalidGrantError);
+    });
+
+    it('should accept the transaction code', async () => {
+      const { preAuthorizedCode, txCode } = await createWithTxCode();
+
+      const result = await store.exchange(preAuthorizedCode, { txCode });
+
+      expect(result.isSuccess()).toBe(true);
+    });
+
+    it('should require the transaction code', async () => {
+      const { preAuthorizedCode } = await createWithTxCode();
+
+      const result = await store.exchange(preAuthorizedCode);
+
+      expect(result.error).toBeInstanceOf(InvalidRequestError);
+      expect(result.error?.message).toBe('Transaction code is required');
+    });
+
+    it('should reject an unexpected transaction code', async () => {
+      const { preAuthorizedCode } = (
+        await store.create({ credentialOffer })
+      ).getOrThrow();
+
+      const result = await store.exchange(preAuthorizedCode, {
+        txCode: '1234',
+      });
+
+      expect(result.error).toBeInstanceOf(InvalidRequestError);
+      expect(result.error?.message).toBe('Transaction code was not expected');
+    });
+
+    it('should reject a wrong transaction code and allow another attempt', async () => {
+      const { preAuthorizedCode, txCode } = await createWithTxCode();
+
+      const wrong = await store.exchange(preAuthorizedCode, {
+        txCode: `${txCode}0`,
+      });
+      const right = await store.exchange(preAuthorizedCode, { txCode });
+
+      expect(wrong.error).toBeInstanceOf(InvalidGrantError);
+      expect(wrong.error?.message).toBe('Transaction code is invalid');
+      expect(right.isSuccess()).toBe(true);
+    });
+
+    it('should revoke the code after too many wrong transaction codes', async () => {
+      store = new PreAuthorizedCodeStore(db, {
+        now: () => now,
+        maxTxCodeAttempts: 2,
+      });
+      const { preAuthorizedCode, txCode } = await createWithTxCode();
+
+      await store.exchange(preAuthorizedCode, { txCode: 'wrong' });
+      const revoked = await store.exchange(preAuthorizedCode, {
+        txCode: 'wrong',
+      });
+      const right = await store.exchange(preAuthorizedCode, { txCode });
+
+      expect(revoked.error?.message).toBe(
+        'Too many invalid transaction codes; the pre-authorized code has been revoked'
+      );
+      expect(right.error).toBeInstanceOf(InvalidGrantError);
+    });
+
+    it('should count concurrent wrong transaction codes', async () => {
+      store = new PreAuthorizedCodeStore(db, {
+        now: () => now,
+        maxTxCodeAttempts: 3,
+      });
+      const { preAuthorizedCode, txCode } = await createWithTxCode();
+
+      await Promise.all([
+        store.exchange(preAuthorizedCode, { txCode: 'wrong' }),
+        store.exchange(preAuthorizedCode, { txCode: 'wrong' }),
+        store.exchange(preAuthorizedCode, { txCode: 'wrong' }),
+      ]);
+      const right = await store.exchange(preAuthorizedCode, { txCode });
+
+      expect(right.error).toBeInstanceOf(InvalidGrantError);
+    });
+
+    it('should fail closed when the code keeps changing concurrently', async () => {
+      const { preAuthorizedCode } = (
+        await store.create({ credentialOffer })
+      ).getOrThrow();
+      vi.spyOn(db, 'compareAndSet').mockRejectedValue(
+        new StorageVersionConflictError('Conflict')
+      );
+      vi.spyOn(db, 'put');
+
+      const result = await store.exchange(preAuthorizedCode);
+
+      expect(result.error).toBeInstanceOf(StorageVersionConflictError);
+      expect(db.compareAndSet).toHaveBeenCalledTimes(3);
+      expect(db.put).not.toHaveBeenCalled();
+    });
+
+    it('should not revoke a code that was exchanged after it was read', async () => {
+      store = new PreAuthorizedCodeStore(db, {
+        now: () => now,
+        maxTxCodeAttempts: 1,
+      });
+      const { preAuthorizedCode, txCode } = await createWithTxCode();
+      const stale = await db.getVersioned(
+        `pre_authorized_code:${preAuthorizedCode}`
+      );
+      const token = (
+        await store.exchange(preAuthorizedCode, { txCode })
+      ).getOrThrow();
+      vi.spyOn(db, 'getVersioned').mockResolvedValueOnce(stale);
+
+      const wrong = await store.exchange(preAuthorizedCode, {
+        txCode: 'wrong',
+      });
+
+      expect(wrong.error?.message).toBe(
+        'Pre-authorized code has already been used'
+      );
+      expect(
+        (await store.getAccessToken(token.accessToken)).error
+      ).toBeInstanceOf(InvalidTokenError);
+    });
+  });
+
+  describe('getAccessToken', () => {
+    it('should reject an unknown access token', async () => {
+      const result = await store.getAccessToken('unknown');
+
+      expect(result.error).toBeInstanceOf(InvalidTokenError);
+    });
+
+    it('should validate the credential offer of a stored access token', async () => {
+      const { preAuthorizedCode } = (
+        await store.create({ credentialOffer })
+      ).getOrThrow();
+      const token = (await store.exchange(preAuthorizedCode)).getOrThrow();
+      const strict = new PreAuthorizedCodeStore<Offer>(db, {
+        now: () => now,
+        validateCredentialOffer: () =>
+          Result.failure(new Error('Unknown credential offer')),
+      });
+
+      const result = await strict.getAccessToken(token.accessToken);
+
+      expect(result.error).toBeInstanceOf(StorageDeserializationError);
+      expect(result.error?.message).toBe(
+        'Stored value failed validation: Unknown credential offer'
+      );
+    });
+
+    it('should reject an expired access token', async () => {
+      const { preAuthorizedCode } = (
+        await store.create({ credentialOffer })
+      ).getOrThrow();
+      const token = (await store.exchange(preAuthorizedCode)).getOrThrow();
+      now += 3600_000;
+
+      const result = await store.getAccessToken(token.accessToken);
+
+      expect(result.error).toBeInstanceOf(InvalidTokenError);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should prevent the code from being exchanged', async () => {
+      const { preAuthorizedCode } = (
+        await store.create({ credentialOffer })
+      ).getOrThrow();
+
+      await store.revoke(preAuthorizedCode);
+
+      expect((await store.exchange(preAuthorizedCode)).error).toBeInstanceOf(
+        InvalidGrantError
+      );
+    });
+  });
+});
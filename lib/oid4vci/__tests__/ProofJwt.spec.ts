@@ -0,0 +1,309 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import {
+  CreateProofJwtOptions,
+  PROOF_JWT_TYPE,
+  ProofJwtVerifier,
+  createProofJwt,
+} from '../ProofJwt';
+import { DynamoDB } from '../../dynamodb/DynamoDB';
+import { createFakeTable } from '../../dynamodb/__tests__/fakeTable';
+import { Jwk, exportJwk, generateKeyPair } from '../../jose/Jwk';
+import { decodeJwt, signJwt } from '../../jose/Jwt';
+import { JoseMalformedError } from '../../jose/JoseError';
+import { ExpiredNonceError } from '../../nonce/NonceService';
+import { InvalidNonceError, InvalidProofError } from '../../oauth/OID4VCError';
+
+const CREDENTIAL_ISSUER = 'https://issuer.example.com';
+
+describe('ProofJwt', () => {
+  let keyPair: CryptoKeyPair;
+  let jwk: Jwk;
+  let now: number;
+  let db: DynamoDB;
+  let verifier: ProofJwtVerifier;
+
+  beforeAll(async () => {
+    keyPair = (
+      await generateKeyPair('ES256', { extractable: true })
+    ).getOrThrow();
+    jwk = (await exportJwk(keyPair.publicKey)).getOrThrow();
+  });
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    db = createFakeTable(() => now);
+    verifier = new ProofJwtVerifier(db, CREDENTIAL_ISSUER, {
+      now: () => now,
+    });
+  });
+
+  const createProof = async (options: Partial<CreateProofJwtOptions> = {}) =>
+    (
+      await createProofJwt(keyPair.privateKey, {
+        alg: 'ES256',
+        jwk,
+        credentialIssuer: CREDENTIAL_ISSUER,
+        now: () => now,
+        ...options,
+      })
+    ).getOrThrow();
+
+  const issueNonce = async () =>
+    (await verifier.issueNonce()).getOrThrow().nonce;
+
+  describe('createProofJwt', () => {
+    it('should create a proof with the key, audience, time and nonce', async () => {
+      const proof = await createProof({ nonce: 'n-1', clientId: 'wallet' });
+
+      expect(decodeJwt(proof).getOrThrow()).toEqual({
+        header: { alg: 'ES256', typ: PROOF_JWT_TYPE, jwk },
+        payload: {
+          iss: 'wallet',
+          aud: CREDENTIAL_ISSUER,
+          iat: 1_700_000_000,
+          nonce: 'n-1',
+        },
+      });
+    });
+
+    it('should embed only the public members of the jwk', async () => {
+      const privateJwk = (await exportJwk(keyPair.privateKey)).getOrThrow();
+      const proof = await createProof({ jwk: privateJwk });
+
+      expect(decodeJwt(proof).getOrThrow().header.jwk).not.toHaveProperty('d');
+    });
+
+    it.each([
+      ['no key identification', { jwk: undefined }],
+      ['both jwk and kid', { kid: 'did:example:123#key-1' }],
+    ])('should fail with %s', async (_, options) => {
+      const result = await createProofJwt(keyPair.privateKey, {
+        alg: 'ES256',
+        jwk,
+        credentialIssuer: CREDENTIAL_ISSUER,
+        ...options,
+      });
+
+      expect(result.error).toBeInstanceOf(JoseMalformedError);
+      expect(result.error?.message).toBe(
+        'Exactly one of jwk, kid and x5c must be given'
+      );
+    });
+  });
+
+  describe('ProofJwtVerifier', () => {
+    it('should verify a proof and consume its c_nonce', async () => {
+      const nonce = await issueNonce();
+      const proof = await createProof({ nonce, clientId: 'wallet' });
+      const result = await verifier.verify(proof, { clientId: 'wallet' });
+
+      expect(result.getOrThrow().jwk).toEqual(jwk);
+      expect(result.getOrThrow().payload.nonce).toBe(nonce);
+
+      const replayed = await verifier.verify(proof, { clientId: 'wallet' });
+
+      expect(replayed.error).toBeInstanceOf(InvalidNonceError);
+      expect(replayed.error?.message).toBe(
+        'Nonce is unknown or has already been used'
+      );
+    });
+
+    it('should store c_nonce values under their own prefix', async () => {
+      const nonce = await issueNonce();
+
+      expect(await db.get(`c_nonce:${nonce}`)).not.toBeNull();
+    });
+
+    it.each<[string, Partial<CreateProofJwtOptions>, string]>([
+      [
+        'another audience',
+        { credentialIssuer: 'https://evil.example.com' },
+        'The proof is invalid: The aud claim does not match the expected audience',
+      ],
+      [
+        'another client',
+        { clientId: 'other' },
+        'The proof is invalid: The iss claim does not match the expected issuer',
+      ],
+      [
+        'a stale iat',
+        { now: () => now - 361_000 },
+        'The proof is invalid: The iat claim is more than 300 seconds in the past',
+      ],
+      [
+        'an iat in the future',
+        { now: () => now + 61_000 },
+        'The proof is invalid: The iat claim is in the future',
+      ],
+    ])('should reject a proof with %s', async (_, options, message) => {
+      const nonce = await issueNonce();
+      const result = await verifier.verify(
+        await createProof({ nonce, clientId: 'wallet', ...options }),
+        { clientId: 'wallet' }
+      );
+
+      expect(result.error).toBeInstanceOf(InvalidProofError);
+      expect(result.error?.message).toBe(message);
+    });
+
+    it('should tolerate the clock skew', async () => {
+      const nonce = await issueNonce();
+      const proof = await createProof({ nonce, now: () => now + 30_000 });
+
+      expect((await verifier.verify(proof)).isSuccess()).toBe(true);
+    });
+
+    it('should not consume the c_nonce of a rejected proof', async () => {
+      const nonce = await issueNonce();
+      const forged = await createProof({
+        nonce,
+        credentialIssuer: 'https://evil.example.com',
+      });
+
+      expect((await verifier.verify(forged)).isFailure()).toBe(true);
+      expect(
+        (await verifier.verify(await createProof({ nonce }))).isSuccess()
+      ).toBe(true);
+    });
+
+    it('should reject a proof signed by another key', async () => {
+      const other = (await generateKeyPair('ES256')).getOrThrow();
+      const proof = (
+        await createProofJwt(other.privateKey, {
+          alg: 'ES256',
+          jwk,
+          credentialIssuer: CREDENTIAL_ISSUER,
+          nonce: await issueNonce(),
+          now: () => now,
+        })
+      ).getOrThrow();
+      const result = await verifier.verify(proof);
+
+      expect(result.error).toBeInstanceOf(InvalidProofError);
+      expect(result.error?.message).toBe(
+        'The proof is invalid: The JWS signature is invalid'
+      );
+    });
+
+    it('should reject another typ', async () => {
+      const jwt = (
+        await signJwt(
+          {
+            aud: CREDENTIAL_ISSUER,
+            iat: now / 1000,
+            nonce: await issueNonce(),
+          },
+          keyPair.privateKey,
+          { alg: 'ES256', typ: 'JWT', jwk }
+        )
+      ).getOrThrow();
+      const result = await verifier.verify(jwt);
+
+      expect(result.error).toBeInstanceOf(InvalidProofError);
+      expect(result.error?.message).toBe(
+        `The proof is invalid: The typ header must be ${PROOF_JWT_TYPE}`
+      );
+    });
+
+    it('should reject an algorithm that is not accepted', async () => {
+      verifier = new ProofJwtVerifier(db, CREDENTIAL_ISSUER, {
+        algorithms: ['EdDSA'],
+        now: () => now,
+      });
+      const result = await verifier.verify(
+        await createProof({ nonce: await issueNonce() })
+      );
+
+      expect(result.error).toBeInstanceOf(InvalidProofError);
+      expect(result.error?.message).toBe(
+        'The proof is invalid: The algorithm ES256 is not allowed'
+      );
+    });
+
+    it('should reject a malformed proof', async () => {
+      const result = await verifier.verify('not-a-jwt');
+
+      expect(result.error).toBeInstanceOf(InvalidProofError);
+      expect(result.error?.message).toBe(
+        'The proof is invalid: The JWS is malformed'
+      );
+    });
+
+    it('should reject a kid without a key resolver', async () => {
+      const result = await verifier.verify(
+        await createProof({ jwk: undefined, kid: 'did:example:123#key-1' })
+      );
+
+      expect(result.error).toBeInstanceOf(InvalidProofError);
+      expect(result.error?.message).toBe(
+        'The proof identifies its key by kid, which is not supported'
+      );
+    });
+
+    it('should resolve a kid with the key resolver', async () => {
+      const resolved: string[] = [];
+
+      verifier = new ProofJwtVerifier(db, CREDENTIAL_ISSUER, {
+        now: () => now,
+        resolveKey: (header) => {
+          resolved.push(header.kid!);
+          return keyPair.publicKey;
+        },
+      });
+      const proof = await createProof({
+        jwk: undefined,
+        kid: 'did:example:123#key-1',
+        nonce: await issueNonce(),
+      });
+      const result = await verifier.verify(proof);
+
+      expect(result.isSuccess()).toBe(true);
+      expect(result.value?.jwk).toBeUndefined();
+      expect(resolved).toEqual(['did:example:123#key-1']);
+    });
+
+    it('should require a c_nonce unless disabled', async () => {
+      const proof = await createProof();
+      const result = await verifier.verify(proof);
+
+      expect(result.error).toBeInstanceOf(InvalidNonceError);
+      expect(result.error?.message).toBe('The proof has no c_nonce');
+
+      verifier = new ProofJwtVerifier(db, CREDENTIAL_ISSUER, {
+        requireNonce: false,
+        now: () => now,
+      });
+
+      expect((await verifier.verify(proof)).isSuccess()).toBe(true);
+    });
+
+    it('should reject an unknown c_nonce', async () => {
+      const result = await verifier.verify(
+        await createProof({ nonce: 'unknown' })
+      );
+
+      expect(result.error).toBeInstanceOf(InvalidNonceError);
+    });
+
+    it('should reject an expired c_nonce', async () => {
+      const nonce = await issueNonce();
+
+      now += 301_000;
+
+      const result = await verifier.verify(await createProof({ nonce }));
+
+      expect(result.error).toBeInstanceOf(ExpiredNonceError);
+    });
+
+    it('should reject a c_nonce bound to another session', async () => {
+      const nonce = (
+        await verifier.issueNonce({ binding: 'session-1' })
+      ).getOrThrow().nonce;
+      const proof = await createProof({ nonce });
+
+      expect(
+        (await verifier.verify(proof, { binding: 'session-2' })).error
+      ).toBeInstanceOf(InvalidNonceError);
+    });
+  });
+});
@@ -0,0 +1,5 @@
+export * from './CredentialIssuerMetadata';
+export * from './CredentialOffer';
+export * from './CredentialOfferStore';
+export * from './PreAuthorizedCodeStore';
+export * from './ProofJwt';
@@ -0,0 +1,422 @@
+import { Validator } from '../storage/TypedStore';
+import { encodeBase64Url } from '../utils/base64url';
+import { RandomSource, cryptoRandom, randomBase64Url } from '../utils/random';
+import { Result, runCatching } from '../utils/result';
+import {
+  ValidationError,
+  assertHttpsUrl,
+  assertJsonObject,
+  assertNonEmptyString,
+  assertOptional,
+} from '../utils/validation';
+import { DcqlQuery, assertDcqlQuery } from './DcqlQuery';
+import {
+  PresentationDefinition,
+  assertPresentationDefinition,
+} from './PresentationExchange';
+
+/**
+ * The custom URI scheme wallets register for OID4VP authorization requests.
+ */
+export const AUTHORIZATION_REQUEST_SCHEME = 'openid4vp://';
+
+/**
+ * The audience of request objects for wallets discovered statically.
+ */
+export const SELF_ISSUED_AUDIENCE = 'https://self-issued.me/v2';
+
+/**
+ * How the wallet authenticates the verifier from its client_id.
+ * Client IDs without a known prefix are treated as pre-registered.
+ */
+export type ClientIdScheme =
+  | 'redirect_uri'
+  | 'x509_san_dns'
+  | 'did'
+  | 'pre-registered';
+
+/**
+ * How the wallet returns the authorization response.
+ */
+export type ResponseMode = 'direct_post' | 'direct_post.jwt' | 'fragment';
+
+/**
+ * A client_id split into its client identifier scheme and the identifier within the scheme.
+ */
+export interface ClientIdentifier {
+  scheme: ClientIdScheme;
+  /**
+   * The redirect URI, DNS name, DID or pre-registered client ID.
+   */
+  identifier: string;
+}
+
+/**
+ * An OID4VP Authorization Request, sent by a verifier to a wallet to request presentations.
+ */
+export interface AuthorizationRequest {
+  /**
+   * The client ID, prefixed with its client identifier scheme, such as 'x509_san_dns:verifier.example.com'.
+   */
+  client_id: string;
+  response_type: 'vp_token';
+  /**
+   * Defaults to 'fragment'.
+   */
+  response_mode?: ResponseMode;
+  /**
+   * The URL the wallet posts the response to, for the direct_post response modes.
+   */
+  response_uri?: string;
+  /**
+   * The URL the wallet redirects to with the response, for the fragment response mode.
+   */
+  redirect_uri?: string;
+  /**
+   * A fresh random value the presentations must be bound to.
+   */
+  nonce: string;
+  /**
+   * A random value returned unchanged in the response, to correlate it with the request.
+   */
+  state?: string;
+  presentation_definition?: PresentationDefinition;
+  dcql_query?: DcqlQuery;
+  client_metadata?: Record<string, unknown>;
+}
+
+/**
+ * The parameters of an authorization request passed by reference.
+ */
+export interface AuthorizationRequestReference {
+  client_id: string;
+  request_uri: string;
+  /**
+   * Whether the wallet fetches the request object with GET or POST. Defaults to GET.
+   */
+  request_uri_method?: 'get' | 'post';
+}
+
+/**
+ * Options for creating authorization request URIs.
+ */
+export interface AuthorizationRequestUriOptions {
+  /**
+   * The URI the parameters are appended to, such as a wallet's https link. Defaults to 'openid4vp://'.
+   */
+  baseUri?: string;
+}
+
+/**
+ * Options for constructing an AuthorizationRequestBuilder instance.
+ */
+export interface AuthorizationRequestBuilderOptions {
+  /**
+   * The random source for generated nonce and state values. Defaults to crypto.getRandomValues.
+   */
+  random?: RandomSource;
+}
+
+const RESPONSE_MODES: ResponseMode[] = [
+  'direct_post',
+  'direct_post.jwt',
+  'fragment',
+];
+const PREFIXED_SCHEMES: ClientIdScheme[] = ['redirect_uri', 'x509_san_dns'];
+
+/**
+ * Splits a client_id into its client identifier scheme and identifier.
+ *
+ * @param {string} clientId - The client_id.
+ * @returns {ClientIdentifier} The scheme and identifier. DIDs are their own identifier.
+ *
+ * @example
+ * parseClientId('x509_san_dns:verifier.example.com'); // { scheme: 'x509_san_dns', identifier: 'verifier.example.com' }
+ * parseClientId('did:example:123'); // { scheme: 'did', identifier: 'did:example:123' }
+ */
+export const parseClientId = (clientId: string): ClientIdentifier => {
+  if (clientId.startsWith('did:')) {
+    return { scheme: 'did', identifier: clientId };
+  }
+
+  const scheme = PREFIXED_SCHEMES.find((prefix) =>
+    clientId.startsWith(`${prefix}:`)
+  );
+
+  return scheme
+    ? { scheme, identifier: clientId.slice(scheme.length + 1) }
+    : { scheme: 'pre-registered', identifier: clientId };
+};
+
+/**
+ * Creates a client_id from a client identifier scheme and an identifier.
+ *
+ * @param {ClientIdentifier} clientIdentifier - The scheme and identifier.
+ * @returns {string} The client_id.
+ *
+ * @example
+ * createClientId({ scheme: 'redirect_uri', identifier: 'https://verifier.example.com/cb' });
+ * // 'redirect_uri:https://verifier.example.com/cb'
+ */
+export const createClientId = ({
+  scheme,
+  identifier,
+}: ClientIdentifier): string =>
+  scheme === 'did' || scheme === 'pre-registered'
+    ? identifier
+    : `${scheme}:${identifier}`;
+
+/**
+ * Validates an Authorization Request.
+ * The validator can be passed to TypedStore to validate stored requests.
+ *
+ * Besides the structure, it checks that the response mode has its response_uri or redirect_uri,
+ * that a redirect_uri client ID matches it, and that exactly one of presentation_definition
+ * and dcql_query is present.
+ *
+ * @param {unknown} value - The value to validate.
+ * @returns {Result<AuthorizationRequest>} A Result of the request, or a failure with a ValidationError locating the first invalid member.
+ */
+export const validateAuthorizationRequest: Validator<AuthorizationRequest> = (
+  value
+) =>
+  runCatching(() => {
+    assertJsonObject(value, '');
+    assertNonEmptyString(value.client_id, 'client_id');
+
+    if (value.response_type !== 'vp_token') {
+      throw new ValidationError('response_type', "must be 'vp_token'");
+    }
+
+    const responseMode = value.response_mode ?? 'fragment';
+
+    if (!RESPONSE_MODES.includes(responseMode as ResponseMode)) {
+      throw new ValidationError(
+        'response_mode',
+        `must be one of ${RESPONSE_MODES.join(', ')}`
+      );
+    }
+
+    const [uriMember, otherMember] =
+      responseMode === 'fragment'
+        ? ['redirect_uri', 'response_uri']
+        : ['response_uri', 'redirect_uri'];
+
+    assertHttpsUrl(value[uriMember], uriMember);
+
+    if (value[otherMember] !== undefined) {
+      throw new ValidationError(
+        otherMember,
+        `must not be present with response_mode ${responseMode}`
+      );
+    }
+
+    const { scheme, identifier } = parseClientId(value.client_id);
+
+    if (scheme === 'redirect_uri' && identifier !== value[uriMember]) {
+      throw new ValidationError(
+        'client_id',
+        `must be redirect_uri:${uriMember}`
+      );
+    }
+
+    if (scheme === 'x509_san_dns' && !/^[A-Za-z0-9.-]+$/.test(identifier)) {
+      throw new ValidationError('client_id', 'must name a DNS host');
+    }
+
+    assertNonEmptyString(value.nonce, 'nonce');
+    assertOptional(value.state, 'state', assertNonEmptyString);
+
+    if (
+      (value.presentation_definition === undefined) ===
+      (value.dcql_query === undefined)
+    ) {
+      throw new ValidationError(
+        '',
+        'must contain exactly one of presentation_definition and dcql_query'
+      );
+    }
+
+    assertOptional(
+      value.presentation_definition,
+      'presentation_definition',
+      assertPresentationDefinition
+    );
+    assertOptional(value.dcql_query, 'dcql_query', assertDcqlQuery);
+    assertOptional(value.client_metadata, 'client_metadata', assertJsonObject);
+
+    return value as unknown as AuthorizationRequest;
+  });
+
+/**
+ * Builds an Authorization Request, generating the nonce and state unless they are set.
+ *
+ * @example
+ * const request = new AuthorizationRequestBuilder('x509_san_dns:verifier.example.com')
+ *   .withResponseMode('direct_post', 'https://verifier.example.com/response')
+ *   .withDcqlQuery(query)
+ *   .build(); // Result<AuthorizationRequest>
+ */
+export class AuthorizationRequestBuilder {
+  private readonly request: Partial<AuthorizationRequest> = {};
+
+  /**
+   * Constructs a new AuthorizationRequestBuilder instance.
+   *
+   * @param clientId - The client_id, prefixed with its client identifier scheme.
+   * @param options - Optional settings such as the random source.
+   */
+  constructor(
+    private readonly clientId: string,
+    private readonly options: AuthorizationRequestBuilderOptions = {}
+  ) {}
+
+  /**
+   * Sets how the wallet returns the response.
+   *
+   * @param responseMode - The response mode.
+   * @param uri - The response_uri for the direct_post modes, or the redirect_uri for fragment.
+   * @returns This builder.
+   */
+  withResponseMode(responseMode: ResponseMode, uri: string): this {
+    this.request.response_mode = responseMode;
+
+    if (responseMode === 'fragment') {
+      this.request.redirect_uri = uri;
+      delete this.request.response_uri;
+    } else {
+      this.request.response_uri = uri;
+      delete this.request.redirect_uri;
+    }
+
+    return this;
+  }
+
+  /**
+   * Sets the nonce instead of generating one.
+   *
+   * @param nonce - The nonce, for example issued by NonceService.
+   * @returns This builder.
+   */
+  withNonce(nonce: string): this {
+    this.request.nonce = nonce;
+    return this;
+  }
+
+  /**
+   * Sets the state instead of generating one.
+   *
+   * @param state - The state.
+   * @returns This builder.
+   */
+  withState(state: string): this {
+    this.request.state = state;
+    return this;
+  }
+
+  /**
+   * Requests presentations with a Presentation Exchange presentation definition.
+   *
+   * @param presentationDefinition - The presentation definition.
+   * @returns This builder.
+   */
+  withPresentationDefinition(
+    presentationDefinition: PresentationDefinition
+  ): this {
+    this.request.presentation_definition = presentationDefinition;
+    delete this.request.dcql_query;
+    return this;
+  }
+
+  /**
+   * Requests presentations with a DCQL query.
+   *
+   * @param dcqlQuery - The query.
+   * @returns This builder.
+   */
+  withDcqlQuery(dcqlQuery: DcqlQuery): this {
+    this.request.dcql_query = dcqlQuery;
+    delete this.request.presentation_definition;
+    return this;
+  }
+
+  /**
+   * Sets the verifier metadata passed in the request, such as vp_formats.
+   *
+   * @param clientMetadata - The client metadata.
+   * @returns This builder.
+   */
+  withClientMetadata(clientMetadata: Record<string, unknown>): this {
+    this.request.client_metadata = clientMetadata;
+    return this;
+  }
+
+  /**
+   * Builds and validates the request.
+   *
+   * @returns A Result of the request, or a failure with a ValidationError if it is invalid.
+   */
+  build(): Result<AuthorizationRequest> {
+    const random = this.options.random ?? cryptoRandom;
+
+    return validateAuthorizationRequest({
+      client_id: this.clientId,
+      response_type: 'vp_token',
+      ...this.request,
+      nonce: this.request.nonce ?? randomBase64Url(32, random),
+      state: this.request.state ?? randomBase64Url(32, random),
+    });
+  }
+}
+
+/**
+ * Creates a URI carrying an authorization request, either by value or by reference.
+ * Object-valued parameters such as dcql_query are JSON-encoded.
+ *
+ * @param {AuthorizationRequest | AuthorizationRequestReference} request - The request, or its client_id and request_uri.
+ * @param {AuthorizationRequestUriOptions} options - Optional settings such as the base URI.
+ * @returns {string} The URI, for example to render as a QR code.
+ *
+ * @example
+ * createAuthorizationRequestUri({ client_id, request_uri: stored.requestUri });
+ * // 'openid4vp://?client_id=...&request_uri=https%3A%2F%2F...'
+ */
+export const createAuthorizationRequestUri = (
+  request: AuthorizationRequest | AuthorizationRequestReference,
+  options?: AuthorizationRequestUriOptions
+): string => {
+  const base = options?.baseUri ?? AUTHORIZATION_REQUEST_SCHEME;
+  const parameters = new URLSearchParams();
+
+  for (const [name, value] of Object.entries(request)) {
+    if (value !== undefined) {
+      parameters.set(
+        name,
+        typeof value === 'string' ? value : JSON.stringify(value)
+      );
+    }
+  }
+
+  return `${base}${base.includes('?') ? '&' : '?'}${parameters}`;
+};
+
+/**
+ * Creates an unsigned request object (a JWT with alg none), as served from a request_uri
+ * by verifiers using the redirect_uri client identifier scheme.
+ * Verifiers using other schemes must sign the request object instead.
+ *
+ * @param {AuthorizationRequest} request - The request.
+ * @param {string} audience - The aud claim. Defaults to 'https://self-issued.me/v2'.
+ * @returns {string} The unsigned request object.
+ */
+export const createUnsignedRequestObject = (
+  request: AuthorizationRequest,
+  audience: string = SELF_ISSUED_AUDIENCE
+): string =>
+  [
+    encodeBase64Url(
+      JSON.stringify({ alg: 'none', typ: 'oauth-authz-req+jwt' })
+    ),
+    encodeBase64Url(JSON.stringify({ ...request, aud: audience })),
+    '',
+  ].join('.');
@@ -0,0 +1,236 @@
+import { DynamoDB } from '../dynamodb/DynamoDB';
+import { TypedStore } from '../storage/TypedStore';
+import { RandomSource, cryptoRandom, randomBase64Url } from '../utils/random';
+import { Result, runAsyncCatching } from '../utils/result';
+import { ValidationError } from '../utils/validation';
+import {
+  AuthorizationRequest,
+  createUnsignedRequestObject,
+  parseClientId,
+  validateAuthorizationRequest,
+} from './AuthorizationRequest';
+
+/**
+ * Options for constructing an AuthorizationRequestStore instance.
+ */
+export interface AuthorizationRequestStoreOptions {
+  /**
+   * How long a stored request and its request object are kept, in seconds. Defaults to 300.
+   */
+  ttlSeconds?: number;
+  /**
+   * The number of random bytes in a request object ID. Defaults to 32.
+   */
+  byteLength?: number;
+  /**
+   * The prefix of the keys under which requests are stored by state. Defaults to 'authorization_request:'.
+   */
+  keyPrefix?: string;
+  /**
+   * The prefix of the keys under which request objects are stored by ID. Defaults to 'request_object:'.
+   */
+  requestObjectKeyPrefix?: string;
+  /**
+   * The random source. Defaults to crypto.getRandomValues.
+   */
+  random?: RandomSource;
+}
+
+/**
+ * Options for storing an authorization request.
+ */
+export interface PutAuthorizationRequestOptions {
+  /**
+   * The request object served from the request_uri, such as a signed JWT.
+   * Required unless the client_id uses the redirect_uri scheme, for which it defaults to an
+   * unsigned request object created from the request.
+   */
+  requestObject?: string;
+}
+
+/**
+ * An authorization request stored for retrieval by reference.
+ */
+export interface StoredAuthorizationRequest {
+  /**
+   * The ID of the request object, the last path segment of its request_uri.
+   */
+  id: string;
+  /**
+   * The URL from which the wallet fetches the request object, for the request_uri parameter.
+   */
+  requestUri: string;
+  /**
+   * How long the request object can be fetched, in seconds.
+   */
+  expiresIn: number;
+}
+
+const DEFAULT_TTL_SECONDS = 300;
+const DEFAULT_BYTE_LENGTH = 32;
+const DEFAULT_KEY_PREFIX = 'authorization_request:';
+const DEFAULT_REQUEST_OBJECT_KEY_PREFIX = 'request_object:';
+
+/**
+ * Stores OID4VP authorization requests passed by reference.
+ *
+ * Each request is stored twice under a TTL: its request object under a random ID, fetched once by the
+ * wallet from the request_uri, and the request itself under its state, taken once when the
+ * authorization response arrives to validate it.
+ */
+export class AuthorizationRequestStore {
+  private readonly store: TypedStore<AuthorizationRequest, DynamoDB>;
+
+  /**
+   * Constructs a new AuthorizationRequestStore instance.
+   *
+   * @param db - The DynamoDB table holding requests.
+   * @param requestUriEndpoint - The https URL of the endpoint serving request objects; a request object is served at `${requestUriEndpoint}/${id}`.
+   * @param options - Optional settings such as the lifetime of requests and the random source.
+   */
+  constructor(
+    private readonly db: DynamoDB,
+    private readonly requestUriEndpoint: string,
+    private readonly options: AuthorizationRequestStoreOptions = {}
+  ) {
+    this.store = new TypedStore(db, validateAuthorizationRequest);
+  }
+
+  /**
+   * Validates and stores an authorization request and its request object.
+   *
+   * @param request - The request. It must have a state, under which it is stored, that no pending request uses.
+   * @param options - Optional settings such as a signed request object.
+   * @returns A promise that resolves to a Result of the stored request and its request_uri, or a failure
+   * with a ValidationError if the request is invalid, its state is already used by a pending request, or
+   * it needs a signed request object, or the store error if it could not be stored.
+   */
+  async put(
+    request: AuthorizationRequest,
+    options: PutAuthorizationRequestOptions = {}
+  ): Promise<Result<StoredAuthorizationRequest>> {
+    return validateAuthorizationRequest(request).flatMapAsync((validated) =>
+      this.storeRequest(validated, options)
+    );
+  }
+
+  /**
+   * Retrieves and removes a request object, to serve the wallet's request to its request_uri.
+   * A request object can be fetched only once.
+   *
+   * @param id - The ID of the request object.
+   * @returns A promise that resolves to a Result of the request object, or null if it is unknown, expired or already fetched.
+   */
+  async takeRequestObject(id: string): Promise<Result<string | null>> {
+    return runAsyncCatching(() => this.db.take(this.requestObjectKeyOf(id)));
+  }
+
+  /**
+   * Retrieves and removes a request by its state, to validate the authorization response to it.
+   * A request can be taken only once, so a replayed response finds no request.
+   *
+   * @param state - The state of the request, as returned in the response.
+   * @returns A promise that resolves to a Result of the request, or null if it is unknown, expired or already taken.
+   */
+  async takeRequest(
+    state: string
+  ): Promise<Result<AuthorizationRequest | null>> {
+    return this.store.take(this.keyOf(state));
+  }
+
+  /**
+   * Stores a validated authorization request and its request object.
+   *
+   * @param request - The validated request.
+   * @param options - Optional settings such as a signed request object.
+   * @returns A promise that resolves to a Result of the stored request and its request_uri, as for put.
+   */
+  private async storeRequest(
+    request: AuthorizationRequest,
+    options: PutAuthorizationRequestOptions
+  ): Promise<Result<StoredAuthorizationRequest>> {
+    const { state } = request;
+
+    if (state === undefined) {
+      return Result.failure(
+        new ValidationError('state', 'must be present to store the request')
+      );
+    }
+
+    if (
+      options.requestObject === undefined &&
+      parseClientId(request.client_id).scheme !== 'redirect_uri'
+    ) {
+      return Result.failure(
+        new ValidationError(
+          'client_id',
+          'must use the redirect_uri scheme unless a signed request object is given'
+        )
+      );
+    }
+
+    const id = randomBase64Url(
+      this.options.byteLength ?? DEFAULT_BYTE_LENGTH,
+      this.options.random ?? cryptoRandom
+    );
+    const expiresIn = this.options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+    const stored = await runAsyncCatching(() =>
+      this.db.putIfAbsent(this.keyOf(state), JSON.stringify(request), {
+        expirationTtl: expiresIn,
+      })
+    );
+
+    if (stored.isFailure()) {
+      return Result.failure(stored.error);
+    }
+
+    if (stored.value === 'already_exists') {
+      return Result.failure(
+        new ValidationError('state', 'is already used by a pending request')
+      );
+    }
+
+    const requestObject =
+      options.requestObject ?? createUnsignedRequestObject(request);
+    const storedObject = await runAsyncCatching(() =>
+      this.db.put(this.requestObjectKeyOf(id), requestObject, {
+        expirationTtl: expiresIn,
+      })
+    );
+
+    if (storedObject.isFailure()) {
+      // Release the state, so that the request can be stored again instead of being left without a request object.
+      await runAsyncCatching(() => this.db.delete(this.keyOf(state)));
+
+      return Result.failure(storedObject.error);
+    }
+
+    return Result.success({
+      id,
+      requestUri: `${this.requestUriEndpoint.replace(/\/+$/, '')}/${id}`,
+      expiresIn,
+    });
+  }
+
+  /**
+   * Returns the key under which a request is stored.
+   *
+   * @param state - The state of the request.
+   * @returns The key.
+   */
+  private keyOf(state: string): string {
+    return `${this.options.keyPrefix ?? DEFAULT_KEY_PREFIX}${state}`;
+  }
+
+  /**
+   * Returns the key under which a request object is stored.
+   *
+   * @param id - The ID of the request object.
+   * @returns The key.
+   */
+  private requestObjectKeyOf(id: string): string {
+    return `${
+      this.options.requestObjectKeyPrefix ?? DEFAULT_REQUEST_OBJECT_KEY_PREFIX
+    }${id}`;
+  }
+}
@@ -0,0 +1,308 @@
+import {
+  InvalidRequestError,
+  OAuthError,
+  OAuthErrorOptions,
+  isOAuthErrorBody,
+} from '../oauth/OAuthError';
+import { decodeBase64Url } from '../utils/base64url';
+import { Result, runCatching } from '../utils/result';
+import { isJsonObject } from '../utils/validation';
+import { AuthorizationRequest } from './AuthorizationRequest';
+
+/**
+ * A single presentation in a vp_token: a JWT, SD-JWT or mdoc device response string,
+ * or a JSON-LD presentation object.
+ */
+export type Presentation = string | Record<string, unknown>;
+
+/**
+ * The vp_token of an authorization response. It holds one or more presentations when the
+ * request used a presentation definition, and maps credential query IDs to presentations
+ * when it used a DCQL query.
+ */
+export type VpToken =
+  | Presentation
+  | Presentation[]
+  | Record<string, Presentation | Presentation[]>;
+
+/**
+ * A successful OID4VP Authorization Response, with JSON-encoded parameters decoded.
+ */
+export interface AuthorizationResponse {
+  vp_token: VpToken;
+  /**
+   * Maps the presentations to the input descriptors of the presentation definition.
+   */
+  presentation_submission?: Record<string, unknown>;
+  state?: string;
+}
+
+/**
+ * Options for validating an authorization response.
+ */
+export interface AuthorizationResponseValidationOptions {
+  /**
+   * Extracts the nonce a presentation is bound to. Defaults to getPresentationNonce.
+   * Provide it for formats whose nonce cannot be read from the presentation itself, such as mdoc,
+   * typically after verifying the presentation.
+   */
+  getNonce?: (presentation: Presentation) => string | undefined;
+}
+
+/**
+ * Indicates that the state of an authorization response does not match the request.
+ * It is reported with the invalid_request error code.
+ */
+export class StateMismatchError extends InvalidRequestError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super(description, options);
+    this.name = 'StateMismatchError';
+  }
+}
+
+/**
+ * Indicates that a presentation is not bound to the nonce of the request.
+ * It is reported with the invalid_request error code.
+ */
+export class NonceMismatchError extends InvalidRequestError {
+  constructor(description?: string, options?: OAuthErrorOptions) {
+    super(description, options);
+    this.name = 'NonceMismatchError';
+  }
+}
+
+/**
+ * Decodes the payload of a compact JWT without verifying its signature.
+ *
+ * @param {string} jwt - The JWT.
+ * @returns {Record<string, unknown> | undefined} The payload, or undefined if the value is not a JWT with a JSON object payload.
+ */
+export const decodeJwtPayload = (
+  jwt: string
+): Record<string, unknown> | undefined => {
+  const parts = jwt.split('.');
+
+  if (parts.length !== 3) {
+    return undefined;
+  }
+
+  const payload = runCatching(() =>
+    JSON.parse(new TextDecoder().decode(decodeBase64Url(parts[1])))
+  );
+
+  return isJsonObject(payload.value) ? payload.value : undefined;
+};
+
+/**
+ * Reads the nonce a presentation is bound to, without verifying the presentation.
+ *
+ * - JWT presentations: the nonce claim.
+ * - SD-JWT presentations: the nonce claim of the key binding JWT.
+ * - JSON-LD presentations: the challenge of the proof.
+ *
+ * @param {Presentation} presentation - The presentation.
+ * @returns {string | undefined} The nonce, or undefined if it cannot be read, for example from an mdoc device response.
+ */
+export const getPresentationNonce = (
+  presentation: Presentation
+): string | undefined => {
+  if (typeof presentation === 'string') {
+    const jwt = presentation.includes('~')
+      ? presentation.slice(presentation.lastIndexOf('~') + 1)
+      : presentation;
+    const nonce = decodeJwtPayload(jwt)?.nonce;
+
+    return typeof nonce === 'string' ? nonce : undefined;
+  }
+
+  const proofs = Array.isArray(presentation.proof)
+    ? presentation.proof
+    : [presentation.proof];
+  const challenge = proofs.find(isJsonObject)?.challenge;
+
+  return typeof challenge === 'string' ? challenge : undefined;
+};
+
+/**
+ * Decodes a parameter that may be JSON-encoded, as in a form-encoded direct_post response.
+ * Strings that are not JSON, such as a single JWT presentation, are returned unchanged.
+ *
+ * @param {unknown} value - The parameter.
+ * @returns {unknown} The decoded parameter.
+ */
+const decodeParameter = (value: unknown): unknown => {
+  if (typeof value !== 'string' || !/^\s*[[{"]/.test(value)) {
+    return value;
+  }
+
+  const decoded = runCatching(() => JSON.parse(value));
+
+  if (decoded.isFailure()) {
+    throw new InvalidRequestError('A response parameter is not valid JSON');
+  }
+
+  return decoded.value;
+};
+
+/**
+ * Checks if a value is a presentation.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is a non-empty string or a JSON object.
+ */
+const isPresentation = (value: unknown): value is Presentation =>
+  (typeof value === 'string' && value !== '') || isJsonObject(value);
+
+/**
+ * Collects the presentations of a vp_token, checking its shape against the request.
+ *
+ * @param {unknown} vpToken - The decoded vp_token.
+ * @param {AuthorizationRequest} request - The request.
+ * @returns {Presentation[]} The presentations.
+ * @throws {InvalidRequestError} If the vp_token does not have the shape the request calls for.
+ */
+const collectPresentations = (
+  vpToken: unknown,
+  request: AuthorizationRequest
+): Presentation[] => {
+  const toList = (value: unknown): Presentation[] => {
+    const list = Array.isArray(value) ? value : [value];
+
+    if (list.length === 0 || !list.every(isPresentation)) {
+      throw new InvalidRequestError('The vp_token is malformed');
+    }
+
+    return list;
+  };
+
+  if (request.dcql_query === undefined) {
+    return toList(vpToken);
+  }
+
+  if (!isJsonObject(vpToken)) {
+    throw new InvalidRequestError(
+      'The vp_token must be a JSON object for a DCQL query'
+    );
+  }
+
+  const { credentials } = request.dcql_query;
+
+  return Object.entries(vpToken).flatMap(([id, value]) => {
+    const credentialQuery = credentials.find(
+      (credential) => credential.id === id
+    );
+
+    if (credentialQuery === undefined) {
+      throw new InvalidRequestError(
+        `The vp_token contains the unknown credential query ${id}`
+      );
+    }
+
+    const presentations = toList(value);
+
+    if (!credentialQuery.multiple && presentations.length > 1) {
+      throw new InvalidRequestError(
+        `The vp_token contains several presentations for the credential query ${id}`
+      );
+    }
+
+    return presentations;
+  });
+};
+
+/**
+ * Validates an authorization response against the request it answers.
+ *
+ * It checks that the state matches, that the vp_token has the shape the request calls for,
+ * that a presentation_submission refers to the presentation definition, and that every
+ * presentation is bound to the nonce of the request. It does not verify the presentations.
+ *
+ * @param {Record<string, unknown>} response - The response parameters, such as the parsed body of a direct_post request.
+ * @param {AuthorizationRequest} request - The request, for example taken from AuthorizationRequestStore by the response's state.
+ * @param {AuthorizationResponseValidationOptions} options - Optional settings such as how to read nonces.
+ * @returns {Result<AuthorizationResponse, OAuthError>} A Result of the decoded response, or a failure with the
+ * wallet's error if it returned an error response, a StateMismatchError, a NonceMismatchError, or an
+ * InvalidRequestError if the response is malformed.
+ *
+ * @example
+ * const request = (await store.takeRequest(body.state)).getOrThrow();
+ * const response = validateAuthorizationResponse(body, request);
+ * if (response.isFailureOf(NonceMismatchError)) {
+ *   // Reject the presentation
+ * }
+ */
+export const validateAuthorizationResponse = (
+  response: Record<string, unknown>,
+  request: AuthorizationRequest,
+  options: AuthorizationResponseValidationOptions = {}
+): Result<AuthorizationResponse, OAuthError> =>
+  runCatching(
+    {
+      mapError: (e) =>
+        e instanceof OAuthError
+          ? e
+          : new InvalidRequestError('The authorization response is malformed', {
+              cause: e,
+            }),
+    },
+    () => {
+      if (isOAuthErrorBody(response)) {
+        throw OAuthError.fromJSON(response);
+      }
+
+      if (response.response !== undefined) {
+        throw new InvalidRequestError(
+          'Encrypted responses must be decrypted before validation'
+        );
+      }
+
+      if (response.state !== request.state) {
+        throw new StateMismatchError(
+          'The state does not match the authorization request'
+        );
+      }
+
+      const vpToken = decodeParameter(response.vp_token);
+      const presentations = collectPresentations(vpToken, request);
+      const presentationSubmission = decodeParameter(
+        response.presentation_submission
+      );
+
+      if (request.presentation_definition !== undefined) {
+        if (!isJsonObject(presentationSubmission)) {
+          throw new InvalidRequestError(
+            'The presentation_submission is missing or malformed'
+          );
+        }
+
+        if (
+          presentationSubmission.definition_id !==
+          request.presentation_definition.id
+        ) {
+          throw new InvalidRequestError(
+            'The presentation_submission does not refer to the presentation definition'
+          );
+        }
+      }
+
+      const getNonce = options.getNonce ?? getPresentationNonce;
+
+      presentations.forEach((presentation) => {
+        if (getNonce(presentation) !== request.nonce) {
+          throw new NonceMismatchError(
+            'A presentation is not bound to the nonce of the authorization request'
+          );
+        }
+      });
+
+      return {
+        vp_token: vpToken as VpToken,
+        ...(isJsonObject(presentationSubmission)
+          ? { presentation_submission: presentationSubmission }
+          : {}),
+        ...(typeof response.state === 'string'
+          ? { state: response.state }
+          : {}),
+      };
+    }
+  );
@@ -0,0 +1,709 @@
+import { Validator } from '../storage/TypedStore';
+import { Result, runCatching } from '../utils/result';
+import {
+  ValidationError,
+  assertArray,
+  assertBoolean,
+  assertJsonObject,
+  assertNonEmptyString,
+  assertOptional,
+  assertStringArray,
+  isJsonObject,
+  joinPath,
+} from '../utils/validation';
+
+/**
+ * The format identifier of ISO mdoc credentials, whose claim paths are a namespace and an element identifier.
+ */
+export const MDOC_FORMAT = 'mso_mdoc';
+
+/**
+ * A step of a claim path: a member name, an array index, or null for all array elements.
+ */
+export type DcqlPathComponent = string | number | null;
+
+/**
+ * A claim requested by a credential query.
+ */
+export interface DcqlClaimQuery {
+  /**
+   * The ID claim sets refer to; required if the credential query has claim_sets.
+   */
+  id?: string;
+  /**
+   * The path of the claim. For mdoc credentials, the namespace and the element identifier.
+   */
+  path: DcqlPathComponent[];
+  /**
+   * The values the claim must have one of.
+   */
+  values?: (string | number | boolean)[];
+  /**
+   * For mdoc credentials, whether the verifier intends to retain the element.
+   */
+  intent_to_retain?: boolean;
+}
+
+/**
+ * Format-specific constraints on a credential, such as its type.
+ * Members other than vct_values and doctype_value are not evaluated by the matcher.
+ */
+export interface DcqlCredentialMeta {
+  /**
+   * For SD-JWT VC credentials, the accepted vct values.
+   */
+  vct_values?: string[];
+  /**
+   * For mdoc credentials, the required doctype.
+   */
+  doctype_value?: string;
+  [member: string]: unknown;
+}
+
+/**
+ * Requests a credential.
+ */
+export interface DcqlCredentialQuery {
+  /**
+   * The ID the vp_token and credential sets refer to.
+   */
+  id: string;
+  format: string;
+  /**
+   * Whether several credentials may be returned for the query. Defaults to false.
+   */
+  multiple?: boolean;
+  meta?: DcqlCredentialMeta;
+  /**
+   * The requested claims. Without it, no selectively disclosable claims are requested.
+   */
+  claims?: DcqlClaimQuery[];
+  /**
+   * Combinations of claim IDs that are acceptable, in order of preference.
+   */
+  claim_sets?: string[][];
+  require_cryptographic_holder_binding?: boolean;
+  trusted_authorities?: Record<string, unknown>[];
+}
+
+/**
+ * Combinations of credential queries that are acceptable, in order of preference.
+ */
+export interface DcqlCredentialSetQuery {
+  options: string[][];
+  /**
+   * Whether one of the options must be satisfied. Defaults to true.
+   */
+  required?: boolean;
+  purpose?: unknown;
+}
+
+/**
+ * A Digital Credentials Query Language query, as passed in the dcql_query parameter.
+ */
+export interface DcqlQuery {
+  credentials: DcqlCredentialQuery[];
+  /**
+   * Which combinations of credentials satisfy the query. Without it, every credential query must be satisfied.
+   */
+  credential_sets?: DcqlCredentialSetQuery[];
+}
+
+/**
+ * A credential evaluated against credential queries.
+ */
+export interface DcqlCandidate {
+  /**
+   * The format of the credential, such as 'dc+sd-jwt' or 'mso_mdoc'.
+   */
+  format: string;
+  /**
+   * The claims the paths are evaluated against: for SD-JWT VC credentials, the claims with all disclosures
+   * applied, including vct; for mdoc credentials, the elements by namespace, such as
+   * `{ 'org.iso.18013.5.1': { family_name: 'Doe' } }`.
+   */
+  claims: Record<string, unknown>;
+  /**
+   * For mdoc credentials, the doctype.
+   */
+  doctype?: string;
+}
+
+/**
+ * A claim selected by a claim query.
+ */
+export interface DcqlClaimMatch {
+  claim: DcqlClaimQuery;
+  /**
+   * The selected values; several if the path selects all elements of an array.
+   */
+  values: unknown[];
+}
+
+/**
+ * A credential matching a credential query.
+ */
+export interface DcqlCredentialMatch<T extends DcqlCandidate = DcqlCandidate> {
+  credentialQueryId: string;
+  candidate: T;
+  /**
+   * The claims to disclose.
+   */
+  claims: DcqlClaimMatch[];
+  /**
+   * The index of the first claim set the credential satisfies, if the query has claim sets.
+   */
+  claimSetIndex?: number;
+}
+
+/**
+ * A credential set query and those of its options the credentials can satisfy, in order of preference.
+ */
+export interface DcqlCredentialSetMatch {
+  options: string[][];
+  required: boolean;
+}
+
+/**
+ * The credentials matching each credential query of a DCQL query, by credential query ID,
+ * and the satisfiable options of its credential sets.
+ */
+export interface DcqlQueryMatch<T extends DcqlCandidate = DcqlCandidate> {
+  credentials: Record<string, DcqlCredentialMatch<T>[]>;
+  /**
+   * Present if the query has credential sets, in the same order.
+   */
+  credentialSets?: DcqlCredentialSetMatch[];
+}
+
+/**
+ * Indicates that credentials do not satisfy a DCQL query.
+ * The credential query ID names the credential query that did not match, if the failure concerns one.
+ */
+export class DcqlMatchError extends Error {
+  /**
+   * Constructs a new DcqlMatchError instance.
+   *
+   * @param credentialQueryId - The ID of the credential query, or an empty string for the query as a whole.
+   * @param reason - Why it is not satisfied, for example 'claim family_name is missing'.
+   */
+  constructor(readonly credentialQueryId: string, readonly reason: string) {
+    super(
+      credentialQueryId
+        ? `Credential query ${credentialQueryId} ${reason}`
+        : reason
+    );
+    this.name = 'DcqlMatchError';
+  }
+}
+
+/**
+ * The pattern of credential query and claim IDs.
+ */
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Asserts that a member is an ID of a credential query or claim.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @throws {ValidationError} If the member is not a non-empty string of alphanumeric, underscore or hyphen characters.
+ */
+const assertId = (value: unknown, path: string): void => {
+  if (typeof value !== 'string' || !ID_PATTERN.test(value)) {
+    throw new ValidationError(
+      path,
+      'must be a non-empty string of alphanumeric, underscore or hyphen characters'
+    );
+  }
+};
+
+/**
+ * Asserts that a member is a non-empty array of non-empty arrays of known IDs, such as claim sets.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @param {string[]} ids - The known IDs.
+ * @param {string} kind - What the IDs identify, for the error message.
+ * @throws {ValidationError} If the member is invalid or refers to an unknown ID.
+ */
+const assertIdOptions = (
+  value: unknown,
+  path: string,
+  ids: string[],
+  kind: string
+): void => {
+  assertArray(value, path, { nonEmpty: true });
+  value.forEach((option, i) => {
+    const optionPath = joinPath(path, i);
+
+    assertStringArray(option, optionPath, { nonEmpty: true });
+    option.forEach((id, j) => {
+      if (!ids.includes(id)) {
+        throw new ValidationError(
+          joinPath(optionPath, j),
+          `must be the ID of a ${kind}`
+        );
+      }
+    });
+  });
+};
+
+/**
+ * Asserts that a member is a claim query.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @param {string} format - The format of the credential query.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertClaimQuery = (
+  value: unknown,
+  path: string,
+  format: string
+): void => {
+  assertJsonObject(value, path);
+  assertOptional(value.id, joinPath(path, 'id'), assertId);
+
+  const pathPath = joinPath(path, 'path');
+  const claimPath = value.path;
+
+  assertArray(claimPath, pathPath, { nonEmpty: true });
+  claimPath.forEach((component, i) => {
+    if (
+      !(
+        typeof component === 'string' ||
+        component === null ||
+        (typeof component === 'number' &&
+          Number.isInteger(component) &&
+          component >= 0)
+      )
+    ) {
+      throw new ValidationError(
+        joinPath(pathPath, i),
+        'must be a string, a non-negative integer or null'
+      );
+    }
+  });
+
+  if (
+    format === MDOC_FORMAT &&
+    (claimPath.length !== 2 || !claimPath.every((c) => typeof c === 'string'))
+  ) {
+    throw new ValidationError(
+      pathPath,
+      'must be a namespace and an element identifier for mso_mdoc'
+    );
+  }
+
+  if (value.values !== undefined) {
+    const valuesPath = joinPath(path, 'values');
+
+    assertArray(value.values, valuesPath, { nonEmpty: true });
+    value.values.forEach((allowed, i) => {
+      if (!['string', 'number', 'boolean'].includes(typeof allowed)) {
+        throw new ValidationError(
+          joinPath(valuesPath, i),
+          'must be a string, a number or a boolean'
+        );
+      }
+    });
+  }
+
+  assertOptional(
+    value.intent_to_retain,
+    joinPath(path, 'intent_to_retain'),
+    assertBoolean
+  );
+};
+
+/**
+ * Asserts that a member is a credential query.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertCredentialQuery = (value: unknown, path: string): void => {
+  assertJsonObject(value, path);
+  assertId(value.id, joinPath(path, 'id'));
+  assertNonEmptyString(value.format, joinPath(path, 'format'));
+  assertOptional(value.multiple, joinPath(path, 'multiple'), assertBoolean);
+  assertOptional(
+    value.require_cryptographic_holder_binding,
+    joinPath(path, 'require_cryptographic_holder_binding'),
+    assertBoolean
+  );
+
+  const metaPath = joinPath(path, 'meta');
+
+  if (value.meta !== undefined) {
+    assertJsonObject(value.meta, metaPath);
+    assertOptional(
+      value.meta.vct_values,
+      joinPath(metaPath, 'vct_values'),
+      (vctValues, vctPath) =>
+        assertStringArray(vctValues, vctPath, { nonEmpty: true })
+    );
+    assertOptional(
+      value.meta.doctype_value,
+      joinPath(metaPath, 'doctype_value'),
+      assertNonEmptyString
+    );
+  }
+
+  const claimsPath = joinPath(path, 'claims');
+  const format = value.format;
+  let claimIds: string[] = [];
+
+  if (value.claims !== undefined) {
+    assertArray(value.claims, claimsPath, { nonEmpty: true });
+    value.claims.forEach((claim, i) =>
+      assertClaimQuery(claim, joinPath(claimsPath, i), format)
+    );
+
+    claimIds = (value.claims as DcqlClaimQuery[]).flatMap(({ id }) => id ?? []);
+    claimIds.forEach((id, i) => {
+      if (claimIds.indexOf(id) !== i) {
+        throw new ValidationError(
+          claimsPath,
+          `must not repeat the claim ID ${id}`
+        );
+      }
+    });
+  }
+
+  if (value.claim_sets !== undefined) {
+    const claimSetsPath = joinPath(path, 'claim_sets');
+
+    if (value.claims === undefined) {
+      throw new ValidationError(
+        claimSetsPath,
+        'must not be present without claims'
+      );
+    }
+
+    (value.claims as DcqlClaimQuery[]).forEach((claim, i) => {
+      if (claim.id === undefined) {
+        throw new ValidationError(
+          joinPath(joinPath(claimsPath, i), 'id'),
+          'must be present with claim_sets'
+        );
+      }
+    });
+
+    assertIdOptions(value.claim_sets, claimSetsPath, claimIds, 'claim');
+  }
+};
+
+/**
+ * Asserts that a member is a DCQL query.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member, or an empty string for the value itself.
+ * @throws {ValidationError} If the member is invalid, locating the first invalid member.
+ */
+export function assertDcqlQuery(
+  value: unknown,
+  path: string
+): asserts value is DcqlQuery {
+  assertJsonObject(value, path);
+
+  const credentialsPath = joinPath(path, 'credentials');
+  const credentials = value.credentials;
+
+  assertArray(credentials, credentialsPath, { nonEmpty: true });
+  credentials.forEach((credential, i) =>
+    assertCredentialQuery(credential, joinPath(credentialsPath, i))
+  );
+
+  const ids = (credentials as DcqlCredentialQuery[]).map(({ id }) => id);
+
+  ids.forEach((id, i) => {
+    if (ids.indexOf(id) !== i) {
+      throw new ValidationError(
+        joinPath(joinPath(credentialsPath, i), 'id'),
+        'must be unique'
+      );
+    }
+  });
+
+  const setsPath = joinPath(path, 'credential_sets');
+
+  if (value.credential_sets !== undefined) {
+    assertArray(value.credential_sets, setsPath, { nonEmpty: true });
+    value.credential_sets.forEach((set, i) => {
+      const setPath = joinPath(setsPath, i);
+
+      assertJsonObject(set, setPath);
+      assertIdOptions(
+        set.options,
+        joinPath(setPath, 'options'),
+        ids,
+        'credential query'
+      );
+      assertOptional(
+        set.required,
+        joinPath(setPath, 'required'),
+        assertBoolean
+      );
+    });
+  }
+}
+
+/**
+ * Validates a DCQL query: the structure of its credential queries, claim queries and credential sets,
+ * unique IDs, and that claim sets and credential sets refer to existing IDs.
+ *
+ * @param {unknown} value - The value to validate.
+ * @returns {Result<DcqlQuery>} A Result of the query, or a failure with a ValidationError locating the first invalid member.
+ */
+export const validateDcqlQuery: Validator<DcqlQuery> = (value) =>
+  runCatching(() => {
+    assertDcqlQuery(value, '');
+    return value;
+  });
+
+/**
+ * Selects the values a claim path points to, as defined by DCQL.
+ *
+ * @param {Record<string, unknown>} claims - The claims of the credential.
+ * @param {DcqlPathComponent[]} path - The path.
+ * @returns {unknown[]} The selected values, or an empty array if the path does not apply to the claims.
+ */
+const selectClaim = (
+  claims: Record<string, unknown>,
+  path: DcqlPathComponent[]
+): unknown[] => {
+  let selected: unknown[] = [claims];
+
+  for (const component of path) {
+    if (typeof component === 'string') {
+      if (!selected.every(isJsonObject)) {
+        return [];
+      }
+
+      selected = selected
+        .filter((element) =>
+          Object.prototype.hasOwnProperty.call(element, component)
+        )
+        .map((element) => (element as Record<string, unknown>)[component]);
+    } else {
+      if (!selected.every(Array.isArray)) {
+        return [];
+      }
+
+      selected = (selected as unknown[][]).flatMap((element) =>
+        component === null
+          ? element
+          : component < element.length
+          ? [element[component]]
+          : []
+      );
+    }
+
+    if (selected.length === 0) {
+      return [];
+    }
+  }
+
+  return selected;
+};
+
+/**
+ * Describes a claim query for error messages.
+ *
+ * @param {DcqlClaimQuery} claim - The claim query.
+ * @returns {string} The ID of the claim, or its path.
+ */
+const describeClaim = (claim: DcqlClaimQuery): string =>
+  claim.id ?? claim.path.map((component) => component ?? '*').join('.');
+
+/**
+ * Evaluates a credential against a credential query: its format, the vct_values or doctype_value,
+ * and the requested claims, choosing the first satisfiable claim set if the query has claim sets.
+ *
+ * @param {DcqlCredentialQuery} query - The credential query.
+ * @param {T} candidate - The credential.
+ * @returns {Result<DcqlCredentialMatch<T>, DcqlMatchError>} A Result of the match and the claims to disclose,
+ * or a failure explaining why the credential does not match.
+ *
+ * @example
+ * matchCredentialQuery(query, { format: 'mso_mdoc', doctype: 'org.iso.18013.5.1.mDL', claims: namespaces });
+ */
+export const matchCredentialQuery = <T extends DcqlCandidate>(
+  query: DcqlCredentialQuery,
+  candidate: T
+): Result<DcqlCredentialMatch<T>, DcqlMatchError> => {
+  const fail = (reason: string) =>
+    Result.failure<DcqlCredentialMatch<T>, DcqlMatchError>(
+      new DcqlMatchError(query.id, reason)
+    );
+
+  if (candidate.format !== query.format) {
+    return fail(`requires the format ${query.format}`);
+  }
+
+  const vctValues = query.meta?.vct_values;
+  const vct = candidate.claims.vct;
+
+  if (vctValues !== undefined && !vctValues.includes(vct as string)) {
+    return fail(`requires a vct of ${vctValues.join(', ')}`);
+  }
+
+  const doctype = query.meta?.doctype_value;
+
+  if (doctype !== undefined && candidate.doctype !== doctype) {
+    return fail(`requires the doctype ${doctype}`);
+  }
+
+  const matchClaim = (claim: DcqlClaimQuery): DcqlClaimMatch | string => {
+    const selected = selectClaim(candidate.claims, claim.path);
+    const requested = claim.values;
+    const values =
+      requested === undefined
+        ? selected
+        : selected.filter((value) =>
+            requested.includes(value as string | number | boolean)
+          );
+
+    return selected.length === 0
+      ? `claim ${describeClaim(claim)} is missing`
+      : values.length === 0
+      ? `claim ${describeClaim(claim)} has none of the requested values`
+      : { claim, values };
+  };
+  const satisfy = (claims: DcqlClaimQuery[]): DcqlClaimMatch[] | string => {
+    const results = claims.map(matchClaim);
+    const reason = results.find(
+      (result): result is string => typeof result === 'string'
+    );
+
+    return (
+      reason ??
+      results.filter(
+        (result): result is DcqlClaimMatch => typeof result !== 'string'
+      )
+    );
+  };
+
+  if (query.claim_sets === undefined) {
+    const claims = satisfy(query.claims ?? []);
+
+    return typeof claims === 'string'
+      ? fail(claims)
+      : Result.success({ credentialQueryId: query.id, candidate, claims });
+  }
+
+  const reasons: string[] = [];
+
+  for (const [claimSetIndex, claimSet] of query.claim_sets.entries()) {
+    const claims = satisfy(
+      claimSet.flatMap(
+        (id) => query.claims?.filter((claim) => claim.id === id) ?? []
+      )
+    );
+
+    if (typeof claims !== 'string') {
+      return Result.success({
+        credentialQueryId: query.id,
+        candidate,
+        claims,
+        claimSetIndex,
+      });
+    }
+
+    reasons.push(claims);
+  }
+
+  return fail(`satisfies none of the claim sets: ${reasons.join('; ')}`);
+};
+
+/**
+ * Matches the credentials held by a wallet against a DCQL query, to find what it can present.
+ *
+ * Several credentials may match a credential query without multiple; the wallet presents one of them,
+ * and validateAuthorizationResponse rejects several presentations for such a query. Verifiers check each
+ * verified presentation against its credential query with matchCredentialQuery.
+ *
+ * Without credential sets, every credential query must be matched by a credential. With credential sets,
+ * each required set must have an option whose credential queries are all matched; the satisfiable
+ * options are returned in order of preference.
+ *
+ * @param {DcqlQuery} query - The query.
+ * @param {T[]} candidates - The credentials.
+ * @returns {Result<DcqlQueryMatch<T>, DcqlMatchError>} A Result of the matching credentials of each credential query and
+ * the satisfiable options of the credential sets, or a failure explaining which credential query or credential set
+ * cannot be satisfied.
+ *
+ * @example
+ * const match = matchDcqlQuery(query, [{ format: 'dc+sd-jwt', claims: pidClaims }]);
+ * if (match.isFailure()) {
+ *   console.log(match.error.message); // 'Credential query pid matches none of the 1 credentials: claim address.country is missing'
+ * }
+ */
+export const matchDcqlQuery = <T extends DcqlCandidate>(
+  query: DcqlQuery,
+  candidates: T[]
+): Result<DcqlQueryMatch<T>, DcqlMatchError> => {
+  const credentials: Record<string, DcqlCredentialMatch<T>[]> = {};
+  const reasons: Record<string, string[]> = {};
+
+  for (const credentialQuery of query.credentials) {
+    const { values, errors } = Result.partition(
+      candidates.map((candidate) =>
+        matchCredentialQuery(credentialQuery, candidate)
+      )
+    );
+
+    credentials[credentialQuery.id] = values;
+    reasons[credentialQuery.id] = errors.map(({ reason }) => reason);
+  }
+
+  const unmatched = (id: string): DcqlMatchError =>
+    new DcqlMatchError(
+      id,
+      `matches none of the ${candidates.length} credentials${
+        reasons[id].length ? `: ${reasons[id].join('; ')}` : ''
+      }`
+    );
+
+  if (query.credential_sets === undefined) {
+    const missing = query.credentials.find(
+      ({ id }) => credentials[id].length === 0
+    );
+
+    return missing
+      ? Result.failure(unmatched(missing.id))
+      : Result.success({ credentials });
+  }
+
+  const credentialSets = query.credential_sets.map(({ options, required }) => ({
+    options: options.filter((option) =>
+      option.every((id) => credentials[id].length > 0)
+    ),
+    required: required ?? true,
+  }));
+  const unsatisfied = credentialSets.findIndex(
+    ({ options, required }) => required && options.length === 0
+  );
+
+  if (unsatisfied !== -1) {
+    const firstMissing = query.credential_sets[unsatisfied].options
+      .flat()
+      .find((id) => credentials[id].length === 0);
+
+    return Result.failure(
+      new DcqlMatchError(
+        '',
+        `The credential set ${unsatisfied} cannot be satisfied${
+          firstMissing === undefined
+            ? ''
+            : `: ${unmatched(firstMissing).message}`
+        }`
+      )
+    );
+  }
+
+  return Result.success({ credentials, credentialSets });
+};
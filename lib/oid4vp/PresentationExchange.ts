@@ -0,0 +1,949 @@
+import { Validator } from '../storage/TypedStore';
+import { getErrorMessage } from '../utils/errorUtils';
+import {
+  JsonSchema,
+  JsonSchemaOptions,
+  assertJsonSchema,
+} from '../utils/jsonSchema';
+import { parseJsonPath, queryJsonPath } from '../utils/jsonPath';
+import { RandomSource, cryptoRandom, randomBase64Url } from '../utils/random';
+import { Result, runCatching } from '../utils/result';
+import {
+  ValidationError,
+  assertArray,
+  assertBoolean,
+  assertJsonObject,
+  assertNonEmptyString,
+  assertOptional,
+  assertString,
+  assertStringArray,
+  isJsonObject,
+  joinPath,
+} from '../utils/validation';
+import { decodeJwtPayload } from './AuthorizationResponse';
+
+/**
+ * The credential formats whose claims can be disclosed selectively, as limit_disclosure requires.
+ */
+export const SELECTIVE_DISCLOSURE_FORMATS = [
+  'dc+sd-jwt',
+  'vc+sd-jwt',
+  'mso_mdoc',
+];
+
+/**
+ * The formats a verifier accepts, keyed by format identifier such as 'jwt_vc_json' or 'dc+sd-jwt',
+ * with format-specific parameters such as the accepted algorithms.
+ */
+export type PresentationFormats = Record<string, Record<string, unknown>>;
+
+/**
+ * A constraint on a claim of a credential.
+ */
+export interface FieldConstraint {
+  id?: string;
+  /**
+   * JSONPath expressions locating the claim; the first one that selects a value satisfying the filter is used.
+   */
+  path: string[];
+  name?: string;
+  purpose?: string;
+  /**
+   * A JSON Schema the claim must satisfy.
+   */
+  filter?: JsonSchema;
+  /**
+   * Whether the credential matches even if the claim is missing.
+   */
+  optional?: boolean;
+  intent_to_retain?: boolean;
+}
+
+/**
+ * The constraints a credential must satisfy to match an input descriptor.
+ */
+export interface InputDescriptorConstraints {
+  /**
+   * Whether only the claims selected by the fields may be disclosed.
+   */
+  limit_disclosure?: 'required' | 'preferred';
+  fields?: FieldConstraint[];
+}
+
+/**
+ * Describes a credential the verifier requests.
+ */
+export interface InputDescriptor {
+  id: string;
+  name?: string;
+  purpose?: string;
+  /**
+   * The accepted formats, overriding those of the presentation definition.
+   */
+  format?: PresentationFormats;
+  /**
+   * The groups submission requirements refer to.
+   */
+  group?: string[];
+  constraints: InputDescriptorConstraints;
+}
+
+/**
+ * Which input descriptors, or nested requirements, must be satisfied.
+ * Exactly one of from and from_nested is present.
+ */
+export interface SubmissionRequirement {
+  name?: string;
+  purpose?: string;
+  rule: 'all' | 'pick';
+  /**
+   * For the pick rule, the exact number to satisfy.
+   */
+  count?: number;
+  min?: number;
+  max?: number;
+  /**
+   * The group of the input descriptors.
+   */
+  from?: string;
+  from_nested?: SubmissionRequirement[];
+}
+
+/**
+ * A DIF Presentation Exchange v2 presentation definition.
+ */
+export interface PresentationDefinition {
+  id: string;
+  name?: string;
+  purpose?: string;
+  format?: PresentationFormats;
+  /**
+   * Which input descriptors must be satisfied. Without it, all of them must be.
+   */
+  submission_requirements?: SubmissionRequirement[];
+  input_descriptors: InputDescriptor[];
+}
+
+/**
+ * Locates the credential submitted for an input descriptor.
+ * The path selects a value in the vp_token; path_nested selects a value within it once decoded.
+ */
+export interface DescriptorMapEntry {
+  id: string;
+  format: string;
+  path: string;
+  path_nested?: DescriptorMapEntry;
+}
+
+/**
+ * Maps the presentations of a vp_token to the input descriptors of a presentation definition.
+ */
+export interface PresentationSubmission {
+  id: string;
+  definition_id: string;
+  descriptor_map: DescriptorMapEntry[];
+}
+
+/**
+ * A credential evaluated against input descriptors.
+ */
+export interface CredentialCandidate {
+  /**
+   * The format of the credential, such as 'dc+sd-jwt', 'jwt_vc_json' or 'mso_mdoc'.
+   */
+  format: string;
+  /**
+   * The JSON the field paths are evaluated against, such as the payload of a JWT credential or the
+   * claims of an SD-JWT VC with all its disclosures applied.
+   */
+  credential: Record<string, unknown>;
+}
+
+/**
+ * A claim selected by a field constraint.
+ */
+export interface FieldMatch {
+  field: FieldConstraint;
+  /**
+   * The normalized JSONPath of the claim, such as "$['credentialSubject']['given_name']".
+   */
+  path: string;
+  value: unknown;
+}
+
+/**
+ * A credential matching an input descriptor.
+ */
+export interface InputDescriptorMatch<
+  T extends CredentialCandidate = CredentialCandidate
+> {
+  descriptorId: string;
+  candidate: T;
+  /**
+   * The claims selected by the fields. Optional fields without a matching claim are omitted.
+   */
+  fields: FieldMatch[];
+  /**
+   * Whether only the claims of the fields should be disclosed.
+   */
+  limitDisclosure: boolean;
+}
+
+/**
+ * The credentials matching each input descriptor of a presentation definition, by input descriptor ID.
+ * Descriptors that submission requirements allow to be left out may have no matches.
+ */
+export interface PresentationMatches<
+  T extends CredentialCandidate = CredentialCandidate
+> {
+  matches: Record<string, InputDescriptorMatch<T>[]>;
+}
+
+/**
+ * Options for evaluating a presentation submission.
+ */
+export interface PresentationSubmissionEvaluationOptions {
+  /**
+   * Decodes a value selected by a descriptor map path, given its format: a presentation before its
+   * path_nested is applied, or the credential the fields are evaluated against.
+   * Defaults to returning JSON objects as they are and the payload of JWTs; provide it for formats
+   * such as SD-JWT VC and mdoc, typically with the verified claims.
+   */
+  decode?: (value: unknown, format: string) => unknown;
+}
+
+/**
+ * Options for selecting credentials on the wallet side.
+ */
+export interface CredentialSelectionOptions {
+  /**
+   * Limits on the pattern keyword of field filters, which the verifier controls and which run as native regular expressions.
+   * Defaults to patterns of at most 256 characters without nested quantifiers; a field with any other pattern does not match.
+   */
+  patterns?: JsonSchemaOptions;
+}
+
+/**
+ * The limits on filter patterns that selectCredentials applies by default.
+ */
+const DEFAULT_PATTERN_OPTIONS: JsonSchemaOptions = {
+  maxPatternLength: 256,
+  allowNestedQuantifiers: false,
+};
+
+/**
+ * Options for creating a presentation submission.
+ */
+export interface PresentationSubmissionOptions {
+  /**
+   * The random source for the submission ID. Defaults to crypto.getRandomValues.
+   */
+  random?: RandomSource;
+}
+
+/**
+ * Indicates that credentials or a submission do not satisfy a presentation definition.
+ * The descriptor ID names the input descriptor that did not match, if the failure concerns one.
+ */
+export class PresentationExchangeError extends Error {
+  /**
+   * Constructs a new PresentationExchangeError instance.
+   *
+   * @param descriptorId - The ID of the input descriptor, or an empty string for the definition as a whole.
+   * @param reason - Why it is not satisfied, for example 'field $.vct is missing'.
+   */
+  constructor(readonly descriptorId: string, readonly reason: string) {
+    super(descriptorId ? `Input descriptor ${descriptorId} ${reason}` : reason);
+    this.name = 'PresentationExchangeError';
+  }
+}
+
+/**
+ * Asserts that a member is an array of supported JSONPath expressions.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @throws {ValidationError} If the member or one of its expressions is invalid.
+ */
+function assertJsonPaths(
+  value: unknown,
+  path: string
+): asserts value is string[] {
+  assertStringArray(value, path, { nonEmpty: true });
+
+  value.forEach((expression, i) => {
+    if (parseJsonPath(expression).isFailure()) {
+      throw new ValidationError(
+        joinPath(path, i),
+        'must be a supported JSONPath expression'
+      );
+    }
+  });
+}
+
+/**
+ * Asserts that a member is a field constraint.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertField = (value: unknown, path: string): void => {
+  assertJsonObject(value, path);
+  assertJsonPaths(value.path, joinPath(path, 'path'));
+  assertOptional(value.id, joinPath(path, 'id'), assertNonEmptyString);
+  assertOptional(value.name, joinPath(path, 'name'), assertString);
+  assertOptional(value.purpose, joinPath(path, 'purpose'), assertString);
+  assertOptional(value.filter, joinPath(path, 'filter'), assertJsonObject);
+  assertOptional(value.optional, joinPath(path, 'optional'), assertBoolean);
+  assertOptional(
+    value.intent_to_retain,
+    joinPath(path, 'intent_to_retain'),
+    assertBoolean
+  );
+};
+
+/**
+ * Asserts that a member is an input descriptor.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertInputDescriptor = (value: unknown, path: string): void => {
+  assertJsonObject(value, path);
+  assertNonEmptyString(value.id, joinPath(path, 'id'));
+  assertOptional(value.name, joinPath(path, 'name'), assertString);
+  assertOptional(value.purpose, joinPath(path, 'purpose'), assertString);
+  assertOptional(value.format, joinPath(path, 'format'), assertJsonObject);
+  assertOptional(value.group, joinPath(path, 'group'), assertStringArray);
+
+  const constraintsPath = joinPath(path, 'constraints');
+  const { constraints } = value;
+
+  assertJsonObject(constraints, constraintsPath);
+
+  if (
+    constraints.limit_disclosure !== undefined &&
+    constraints.limit_disclosure !== 'required' &&
+    constraints.limit_disclosure !== 'preferred'
+  ) {
+    throw new ValidationError(
+      joinPath(constraintsPath, 'limit_disclosure'),
+      "must be 'required' or 'preferred'"
+    );
+  }
+
+  const fieldsPath = joinPath(constraintsPath, 'fields');
+
+  assertOptional(constraints.fields, fieldsPath, assertArray);
+  (constraints.fields as unknown[] | undefined)?.forEach((field, i) =>
+    assertField(field, joinPath(fieldsPath, i))
+  );
+};
+
+/**
+ * Asserts that a member is a non-negative integer.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @throws {ValidationError} If the member is not a non-negative integer.
+ */
+const assertNonNegativeInteger = (value: unknown, path: string): void => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new ValidationError(path, 'must be a non-negative integer');
+  }
+};
+
+/**
+ * Asserts that a member is a submission requirement referring to existing groups.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @param {Set<string>} groups - The groups of the input descriptors.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertSubmissionRequirement = (
+  value: unknown,
+  path: string,
+  groups: Set<string>
+): void => {
+  assertJsonObject(value, path);
+  assertOptional(value.name, joinPath(path, 'name'), assertString);
+  assertOptional(value.purpose, joinPath(path, 'purpose'), assertString);
+
+  if (value.rule !== 'all' && value.rule !== 'pick') {
+    throw new ValidationError(
+      joinPath(path, 'rule'),
+      "must be 'all' or 'pick'"
+    );
+  }
+
+  for (const member of ['count', 'min', 'max']) {
+    assertOptional(
+      value[member],
+      joinPath(path, member),
+      assertNonNegativeInteger
+    );
+  }
+
+  if ((value.from === undefined) === (value.from_nested === undefined)) {
+    throw new ValidationError(
+      path,
+      'must contain exactly one of from and from_nested'
+    );
+  }
+
+  if (value.from !== undefined) {
+    assertNonEmptyString(value.from, joinPath(path, 'from'));
+
+    if (!groups.has(value.from)) {
+      throw new ValidationError(
+        joinPath(path, 'from'),
+        'must name a group of an input descriptor'
+      );
+    }
+  } else {
+    const nestedPath = joinPath(path, 'from_nested');
+
+    assertArray(value.from_nested, nestedPath, { nonEmpty: true });
+    value.from_nested.forEach((nested, i) =>
+      assertSubmissionRequirement(nested, joinPath(nestedPath, i), groups)
+    );
+  }
+};
+
+/**
+ * Asserts that a member is a presentation definition.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member, or an empty string for the value itself.
+ * @throws {ValidationError} If the member is invalid, locating the first invalid member.
+ */
+export function assertPresentationDefinition(
+  value: unknown,
+  path: string
+): asserts value is PresentationDefinition {
+  assertJsonObject(value, path);
+  assertNonEmptyString(value.id, joinPath(path, 'id'));
+  assertOptional(value.name, joinPath(path, 'name'), assertString);
+  assertOptional(value.purpose, joinPath(path, 'purpose'), assertString);
+  assertOptional(value.format, joinPath(path, 'format'), assertJsonObject);
+
+  const descriptorsPath = joinPath(path, 'input_descriptors');
+  const descriptors = value.input_descriptors;
+
+  assertArray(descriptors, descriptorsPath);
+  descriptors.forEach((descriptor, i) => {
+    assertInputDescriptor(descriptor, joinPath(descriptorsPath, i));
+
+    if (
+      descriptors.findIndex(
+        (other) =>
+          (other as InputDescriptor).id === (descriptor as InputDescriptor).id
+      ) !== i
+    ) {
+      throw new ValidationError(
+        joinPath(joinPath(descriptorsPath, i), 'id'),
+        'must be unique'
+      );
+    }
+  });
+
+  const groups = new Set(
+    (descriptors as InputDescriptor[]).flatMap(({ group }) => group ?? [])
+  );
+  const requirementsPath = joinPath(path, 'submission_requirements');
+
+  if (value.submission_requirements !== undefined) {
+    assertArray(value.submission_requirements, requirementsPath, {
+      nonEmpty: true,
+    });
+    value.submission_requirements.forEach((requirement, i) =>
+      assertSubmissionRequirement(
+        requirement,
+        joinPath(requirementsPath, i),
+        groups
+      )
+    );
+  }
+}
+
+/**
+ * Validates a Presentation Exchange v2 presentation definition, including the syntax of its
+ * JSONPath expressions and the groups its submission requirements refer to.
+ *
+ * @param {unknown} value - The value to validate.
+ * @returns {Result<PresentationDefinition>} A Result of the definition, or a failure with a ValidationError locating the first invalid member.
+ */
+export const validatePresentationDefinition: Validator<
+  PresentationDefinition
+> = (value) =>
+  runCatching(() => {
+    assertPresentationDefinition(value, '');
+    return value;
+  });
+
+/**
+ * Asserts that a member is a descriptor map entry.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @throws {ValidationError} If the member is invalid.
+ */
+const assertDescriptorMapEntry = (value: unknown, path: string): void => {
+  assertJsonObject(value, path);
+  assertNonEmptyString(value.id, joinPath(path, 'id'));
+  assertNonEmptyString(value.format, joinPath(path, 'format'));
+  assertNonEmptyString(value.path, joinPath(path, 'path'));
+
+  if (parseJsonPath(value.path).isFailure()) {
+    throw new ValidationError(
+      joinPath(path, 'path'),
+      'must be a supported JSONPath expression'
+    );
+  }
+
+  assertOptional(
+    value.path_nested,
+    joinPath(path, 'path_nested'),
+    assertDescriptorMapEntry
+  );
+};
+
+/**
+ * Validates a presentation submission.
+ *
+ * @param {unknown} value - The value to validate.
+ * @returns {Result<PresentationSubmission>} A Result of the submission, or a failure with a ValidationError locating the first invalid member.
+ */
+export const validatePresentationSubmission: Validator<
+  PresentationSubmission
+> = (value) =>
+  runCatching(() => {
+    assertJsonObject(value, '');
+    assertNonEmptyString(value.id, 'id');
+    assertNonEmptyString(value.definition_id, 'definition_id');
+    assertArray(value.descriptor_map, 'descriptor_map');
+    value.descriptor_map.forEach((entry, i) =>
+      assertDescriptorMapEntry(entry, joinPath('descriptor_map', i))
+    );
+
+    return value as unknown as PresentationSubmission;
+  });
+
+/**
+ * Finds the first claim a field selects that satisfies its filter.
+ *
+ * @param {FieldConstraint} field - The field.
+ * @param {Record<string, unknown>} credential - The credential.
+ * @param {JsonSchemaOptions} options - The limits on filter patterns.
+ * @returns {FieldMatch | string} The claim, or why no claim matches if none does.
+ */
+const matchField = (
+  field: FieldConstraint,
+  credential: Record<string, unknown>,
+  options: JsonSchemaOptions
+): FieldMatch | string => {
+  let reason = `${field.id ?? field.path[0]} is missing`;
+
+  for (const expression of field.path) {
+    for (const { path, value } of queryJsonPath(
+      credential,
+      expression
+    ).getOrThrow()) {
+      if (field.filter === undefined) {
+        return { field, path, value };
+      }
+
+      try {
+        assertJsonSchema(value, field.filter, path, options);
+        return { field, path, value };
+      } catch (e) {
+        reason = `${
+          field.id ?? expression
+        } does not match the filter: ${getErrorMessage(e)}`;
+      }
+    }
+  }
+
+  return reason;
+};
+
+/**
+ * Evaluates a credential against an input descriptor: its format, the limit_disclosure constraint,
+ * and every field that is not optional.
+ *
+ * @param {InputDescriptor} descriptor - The input descriptor.
+ * @param {T} candidate - The credential.
+ * @param {PresentationDefinition} definition - The definition, whose formats apply when the descriptor has none.
+ * @param {JsonSchemaOptions} options - Optional limits on filter patterns, which are unlimited by default.
+ * @returns {Result<InputDescriptorMatch<T>, PresentationExchangeError>} A Result of the match, or a failure explaining why the credential does not match.
+ *
+ * @example
+ * evaluateInputDescriptor(descriptor, { format: 'dc+sd-jwt', credential: claims }).error?.message;
+ * // "Input descriptor pid field $.age_over_18 does not match the filter: $['age_over_18'] must be true"
+ */
+export const evaluateInputDescriptor = <T extends CredentialCandidate>(
+  descriptor: InputDescriptor,
+  candidate: T,
+  definition?: Pick<PresentationDefinition, 'format'>,
+  options: JsonSchemaOptions = {}
+): Result<InputDescriptorMatch<T>, PresentationExchangeError> => {
+  const fail = (reason: string) =>
+    Result.failure<InputDescriptorMatch<T>, PresentationExchangeError>(
+      new PresentationExchangeError(descriptor.id, reason)
+    );
+  const formats = descriptor.format ?? definition?.format;
+
+  if (
+    formats !== undefined &&
+    !Object.prototype.hasOwnProperty.call(formats, candidate.format)
+  ) {
+    return fail(`does not accept the format ${candidate.format}`);
+  }
+
+  const limitDisclosure = descriptor.constraints.limit_disclosure;
+  const selective = SELECTIVE_DISCLOSURE_FORMATS.includes(candidate.format);
+
+  if (limitDisclosure === 'required' && !selective) {
+    return fail(
+      `requires limited disclosure, which the format ${candidate.format} does not support`
+    );
+  }
+
+  const fields: FieldMatch[] = [];
+
+  for (const field of descriptor.constraints.fields ?? []) {
+    const match = matchField(field, candidate.credential, options);
+
+    if (typeof match !== 'string') {
+      fields.push(match);
+    } else if (!field.optional) {
+      return fail(`field ${match}`);
+    }
+  }
+
+  return Result.success({
+    descriptorId: descriptor.id,
+    candidate,
+    fields,
+    limitDisclosure: limitDisclosure !== undefined && selective,
+  });
+};
+
+/**
+ * Checks whether a submission requirement is satisfied.
+ *
+ * @param {SubmissionRequirement} requirement - The requirement.
+ * @param {InputDescriptor[]} descriptors - The input descriptors of the definition.
+ * @param {Set<string>} satisfied - The IDs of the descriptors that are satisfied.
+ * @param {boolean} exact - Whether the counts must be met exactly, as by a submission, rather than at least, as by available credentials.
+ * @returns {boolean} True if the requirement is satisfied.
+ */
+const isRequirementSatisfied = (
+  requirement: SubmissionRequirement,
+  descriptors: InputDescriptor[],
+  satisfied: Set<string>,
+  exact: boolean
+): boolean => {
+  const { from, from_nested = [] } = requirement;
+  const results =
+    from !== undefined
+      ? descriptors
+          .filter(({ group }) => group?.includes(from))
+          .map(({ id }) => satisfied.has(id))
+      : from_nested.map((nested) =>
+          isRequirementSatisfied(nested, descriptors, satisfied, exact)
+        );
+  const count = results.filter(Boolean).length;
+
+  if (requirement.rule === 'all') {
+    return count === results.length;
+  }
+
+  if (requirement.count !== undefined) {
+    return exact ? count === requirement.count : count >= requirement.count;
+  }
+
+  return (
+    count >= (requirement.min ?? 0) &&
+    (!exact || count <= (requirement.max ?? Infinity))
+  );
+};
+
+/**
+ * Checks that the satisfied input descriptors meet the submission requirements of a definition,
+ * or cover all its input descriptors if it has none.
+ *
+ * @param {PresentationDefinition} definition - The definition.
+ * @param {Record<string, unknown[]>} matches - The matches by descriptor ID.
+ * @param {boolean} exact - Whether the counts must be met exactly.
+ * @param {Function} explain - Explains why a descriptor is not satisfied.
+ * @returns {PresentationExchangeError | undefined} The error if the requirements are not met.
+ */
+const checkRequirements = (
+  definition: PresentationDefinition,
+  matches: Record<string, unknown[]>,
+  exact: boolean,
+  explain: (descriptorId: string) => string
+): PresentationExchangeError | undefined => {
+  const descriptors = definition.input_descriptors;
+  const satisfied = new Set(
+    descriptors.filter(({ id }) => matches[id]?.length).map(({ id }) => id)
+  );
+
+  if (definition.submission_requirements === undefined) {
+    const missing = descriptors.find(({ id }) => !satisfied.has(id));
+
+    return (
+      missing && new PresentationExchangeError(missing.id, explain(missing.id))
+    );
+  }
+
+  const unmet = definition.submission_requirements.find(
+    (requirement) =>
+      !isRequirementSatisfied(requirement, descriptors, satisfied, exact)
+  );
+
+  return (
+    unmet &&
+    new PresentationExchangeError(
+      '',
+      `The submission requirement ${
+        unmet.name ?? definition.submission_requirements.indexOf(unmet)
+      } is not satisfied`
+    )
+  );
+};
+
+/**
+ * Selects, on the wallet side, the credentials matching each input descriptor of a presentation definition,
+ * and checks that they can satisfy its submission requirements.
+ *
+ * The filters of the definition come from the verifier, and their patterns run as native regular expressions,
+ * so a hostile pattern such as ^(a+)+$ could block the wallet. Patterns are limited by default; see CredentialSelectionOptions.
+ *
+ * @param {PresentationDefinition} definition - The definition.
+ * @param {T[]} candidates - The credentials held by the wallet.
+ * @param {CredentialSelectionOptions} options - Optional settings such as the limits on filter patterns.
+ * @returns {Result<PresentationMatches<T>, PresentationExchangeError>} A Result of the matching credentials of each input descriptor,
+ * or a failure explaining which input descriptor no credential matches, or which submission requirement cannot be satisfied.
+ *
+ * @example
+ * const selection = selectCredentials(definition, [{ format: 'dc+sd-jwt', credential: claims, id: 'c1' }]);
+ * if (selection.isFailure()) {
+ *   console.log(selection.error.message); // 'Input descriptor pid matches none of the 1 credentials: field $.vct is missing'
+ * }
+ */
+export const selectCredentials = <T extends CredentialCandidate>(
+  definition: PresentationDefinition,
+  candidates: T[],
+  options: CredentialSelectionOptions = {}
+): Result<PresentationMatches<T>, PresentationExchangeError> => {
+  const patterns = options.patterns ?? DEFAULT_PATTERN_OPTIONS;
+  const matches: Record<string, InputDescriptorMatch<T>[]> = {};
+  const reasons: Record<string, string[]> = {};
+
+  for (const descriptor of definition.input_descriptors) {
+    const { values, errors } = Result.partition(
+      candidates.map((candidate) =>
+        evaluateInputDescriptor(descriptor, candidate, definition, patterns)
+      )
+    );
+
+    matches[descriptor.id] = values;
+    reasons[descriptor.id] = errors.map(({ reason }) => reason);
+  }
+
+  const error = checkRequirements(
+    definition,
+    matches,
+    false,
+    (descriptorId) =>
+      `matches none of the ${candidates.length} credentials${
+        reasons[descriptorId].length
+          ? `: ${reasons[descriptorId].join('; ')}`
+          : ''
+      }`
+  );
+
+  return error ? Result.failure(error) : Result.success({ matches });
+};
+
+/**
+ * Creates a presentation submission for a presentation definition.
+ *
+ * @param {PresentationDefinition} definition - The definition.
+ * @param {DescriptorMapEntry[]} descriptorMap - Where the presentation of each submitted input descriptor is in the vp_token.
+ * @param {PresentationSubmissionOptions} options - Optional settings such as the random source.
+ * @returns {Result<PresentationSubmission>} A Result of the submission, or a failure with a ValidationError if an entry is
+ * invalid or names an input descriptor the definition does not have.
+ *
+ * @example
+ * createPresentationSubmission(definition, [{ id: 'pid', format: 'dc+sd-jwt', path: '$' }]);
+ */
+export const createPresentationSubmission = (
+  definition: PresentationDefinition,
+  descriptorMap: DescriptorMapEntry[],
+  options: PresentationSubmissionOptions = {}
+): Result<PresentationSubmission> =>
+  validatePresentationSubmission({
+    id: randomBase64Url(16, options.random ?? cryptoRandom),
+    definition_id: definition.id,
+    descriptor_map: descriptorMap,
+  }).flatMap((submission) => {
+    const unknown = submission.descriptor_map.findIndex(
+      ({ id }) => !definition.input_descriptors.some((d) => d.id === id)
+    );
+
+    return unknown === -1
+      ? Result.success(submission)
+      : Result.failure(
+          new ValidationError(
+            joinPath(joinPath('descriptor_map', unknown), 'id'),
+            'must name an input descriptor of the presentation definition'
+          )
+        );
+  });
+
+/**
+ * The default decoder of submitted values: JSON objects as they are, and JWTs as their payload.
+ *
+ * @param {unknown} value - The value.
+ * @returns {unknown} The decoded value, or undefined if it cannot be decoded.
+ */
+const decodeSubmittedValue = (value: unknown): unknown =>
+  isJsonObject(value)
+    ? value
+    : typeof value === 'string' && !value.includes('~')
+    ? decodeJwtPayload(value)
+    : undefined;
+
+/**
+ * Resolves the credential a descriptor map entry locates in a vp_token.
+ *
+ * @param {unknown} vpToken - The vp_token.
+ * @param {DescriptorMapEntry} entry - The entry.
+ * @param {Function} decode - Decodes a value given its format.
+ * @returns {CredentialCandidate | string} The credential, or why it cannot be resolved.
+ */
+const resolveCredential = (
+  vpToken: unknown,
+  entry: DescriptorMapEntry,
+  decode: (value: unknown, format: string) => unknown
+): CredentialCandidate | string => {
+  let current = entry;
+  let [match] = queryJsonPath(vpToken, current.path).getOrThrow();
+
+  while (match !== undefined && current.path_nested !== undefined) {
+    const decoded = decode(match.value, current.format);
+
+    if (decoded === undefined) {
+      return `cannot be decoded as ${current.format} at ${current.path}`;
+    }
+
+    current = current.path_nested;
+    [match] = queryJsonPath(decoded, current.path).getOrThrow();
+  }
+
+  if (match === undefined) {
+    return `has no value at ${current.path}`;
+  }
+
+  const credential = decode(match.value, current.format);
+
+  return isJsonObject(credential)
+    ? { format: current.format, credential }
+    : `cannot be decoded as ${current.format} at ${current.path}`;
+};
+
+/**
+ * Evaluates, on the verifier side, a presentation submission against the presentation definition it answers.
+ *
+ * It checks that the submission refers to the definition, resolves the credential of every descriptor map
+ * entry in the vp_token, evaluates it against its input descriptor, and checks the submission requirements,
+ * or that every input descriptor is submitted if there are none. It does not verify the presentations.
+ *
+ * @param {PresentationDefinition} definition - The definition.
+ * @param {unknown} submission - The presentation_submission of the response.
+ * @param {unknown} vpToken - The vp_token of the response.
+ * @param {PresentationSubmissionEvaluationOptions} options - Optional settings such as how to decode presentations.
+ * @returns {Result<PresentationMatches, PresentationExchangeError>} A Result of the submitted credential of each input descriptor,
+ * or a failure explaining which input descriptor is not satisfied.
+ *
+ * @example
+ * const evaluated = evaluatePresentationSubmission(definition, response.presentation_submission, response.vp_token, {
+ *   decode: (value, format) => (format === 'dc+sd-jwt' ? verifiedClaims.get(value) : undefined),
+ * });
+ */
+export const evaluatePresentationSubmission = (
+  definition: PresentationDefinition,
+  submission: unknown,
+  vpToken: unknown,
+  options: PresentationSubmissionEvaluationOptions = {}
+): Result<PresentationMatches, PresentationExchangeError> => {
+  const validated = validatePresentationSubmission(submission);
+
+  if (validated.isFailure()) {
+    return Result.failure(
+      new PresentationExchangeError(
+        '',
+        `The presentation_submission is invalid: ${validated.error.message}`
+      )
+    );
+  }
+
+  const { definition_id, descriptor_map } = validated.getOrThrow();
+
+  if (definition_id !== definition.id) {
+    return Result.failure(
+      new PresentationExchangeError(
+        '',
+        `The presentation_submission refers to the presentation definition ${definition_id}`
+      )
+    );
+  }
+
+  const decode =
+    options.decode ?? ((value: unknown) => decodeSubmittedValue(value));
+  const matches: Record<string, InputDescriptorMatch[]> = {};
+
+  for (const entry of descriptor_map) {
+    const descriptor = definition.input_descriptors.find(
+      ({ id }) => id === entry.id
+    );
+
+    if (descriptor === undefined) {
+      return Result.failure(
+        new PresentationExchangeError(
+          entry.id,
+          'is not in the presentation definition'
+        )
+      );
+    }
+
+    const candidate = resolveCredential(vpToken, entry, decode);
+
+    if (typeof candidate === 'string') {
+      return Result.failure(new PresentationExchangeError(entry.id, candidate));
+    }
+
+    const match = evaluateInputDescriptor(descriptor, candidate, definition);
+
+    if (match.isFailure()) {
+      return Result.failure(match.error);
+    }
+
+    matches[entry.id] = [...(matches[entry.id] ?? []), match.getOrThrow()];
+  }
+
+  const error = checkRequirements(
+    definition,
+    matches,
+    true,
+    () => 'is not submitted'
+  );
+
+  return error ? Result.failure(error) : Result.success({ matches });
+};
@@ -0,0 +1,241 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AuthorizationRequest,
+  AuthorizationRequestBuilder,
+  createAuthorizationRequestUri,
+  createClientId,
+  createUnsignedRequestObject,
+  parseClientId,
+  validateAuthorizationRequest,
+} from '../AuthorizationRequest';
+import { decodeBase64Url } from '../../utils/base64url';
+import { ValidationError } from '../../utils/validation';
+
+const dcqlQuery = {
+  credentials: [
+    { id: 'pid', format: 'dc+sd-jwt', meta: { vct_values: ['urn:eu:pid:1'] } },
+  ],
+};
+
+const request: AuthorizationRequest = {
+  client_id: 'x509_san_dns:verifier.example.com',
+  response_type: 'vp_token',
+  response_mode: 'direct_post',
+  response_uri: 'https://verifier.example.com/response',
+  nonce: 'n-0S6_WzA2Mj',
+  state: 'af0ifjsldkj',
+  dcql_query: dcqlQuery,
+};
+
+const decodeSegment = (segment: string): unknown =>
+  JSON.parse(new TextDecoder().decode(decodeBase64Url(segment)));
+
+describe('AuthorizationRequest', () => {
+  describe('parseClientId', () => {
+    it.each([
+      [
+        'x509_san_dns:verifier.example.com',
+        { scheme: 'x509_san_dns', identifier: 'verifier.example.com' },
+      ],
+      [
+        'redirect_uri:https://verifier.example.com/cb',
+        {
+          scheme: 'redirect_uri',
+          identifier: 'https://verifier.example.com/cb',
+        },
+      ],
+      [
+        'did:example:123#key-1',
+        { scheme: 'did', identifier: 'did:example:123#key-1' },
+      ],
+      ['verifier-1', { scheme: 'pre-registered', identifier: 'verifier-1' }],
+    ])('should parse %s', (clientId, expected) => {
+      expect(parseClientId(clientId)).toEqual(expected);
+    });
+
+    it('should round-trip with createClientId', () => {
+      for (const clientId of [
+        'x509_san_dns:verifier.example.com',
+        'did:example:123',
+        'verifier-1',
+      ]) {
+        expect(createClientId(parseClientId(clientId))).toBe(clientId);
+      }
+    });
+  });
+
+  describe('validateAuthorizationRequest', () => {
+    it('should accept a valid request', () => {
+      expect(validateAuthorizationRequest(request).value).toBe(request);
+    });
+
+    it('should accept a fragment request with a redirect_uri client ID', () => {
+      const result = validateAuthorizationRequest({
+        client_id: 'redirect_uri:https://verifier.example.com/cb',
+        response_type: 'vp_token',
+        redirect_uri: 'https://verifier.example.com/cb',
+        nonce: 'n',
+        presentation_definition: { id: 'pd', input_descriptors: [] },
+      });
+
+      expect(result.isSuccess()).toBe(true);
+    });
+
+    it.each([
+      [
+        { ...request, response_type: 'code' },
+        "response_type must be 'vp_token'",
+      ],
+      [
+        { ...request, response_mode: 'query' },
+        'response_mode must be one of direct_post, direct_post.jwt, fragment',
+      ],
+      [
+        { ...request, response_uri: undefined },
+        'response_uri must be an https URL',
+      ],
+      [
+        { ...request, redirect_uri: 'https://verifier.example.com/cb' },
+        'redirect_uri must not be present with response_mode direct_post',
+      ],
+      [
+        {
+          ...request,
+          client_id: 'redirect_uri:https://verifier.example.com/other',
+        },
+        'client_id must be redirect_uri:response_uri',
+      ],
+      [
+        { ...request, client_id: 'x509_san_dns:https://verifier.example.com' },
+        'client_id must name a DNS host',
+      ],
+      [{ ...request, nonce: '' }, 'nonce must be a non-empty string'],
+      [{ ...request, state: 1 }, 'state must be a non-empty string'],
+      [
+        { ...request, dcql_query: undefined },
+        'Value must contain exactly one of presentation_definition and dcql_query',
+      ],
+      [
+        { ...request, presentation_definition: { id: 'pd' } },
+        'Value must contain exactly one of presentation_definition and dcql_query',
+      ],
+      [{ ...request, dcql_query: [] }, 'dcql_query must be a JSON object'],
+      [
+        {
+          ...request,
+          dcql_query: undefined,
+          presentation_definition: { id: 'pd', input_descriptors: [{}] },
+        },
+        'presentation_definition.input_descriptors[0].id must be a non-empty string',
+      ],
+    ])('should reject %j', (value, message) => {
+      const result = validateAuthorizationRequest(value);
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(result.error?.message).toBe(message);
+    });
+  });
+
+  describe('AuthorizationRequestBuilder', () => {
+    it('should build a request with a generated nonce and state', () => {
+      const built = new AuthorizationRequestBuilder(
+        'x509_san_dns:verifier.example.com'
+      )
+        .withResponseMode('direct_post.jwt', 'https://verifier.example.com/r')
+        .withDcqlQuery(dcqlQuery)
+        .withClientMetadata({ vp_formats: {} })
+        .build()
+        .getOrThrow();
+
+      expect(built).toEqual({
+        client_id: 'x509_san_dns:verifier.example.com',
+        response_type: 'vp_token',
+        response_mode: 'direct_post.jwt',
+        response_uri: 'https://verifier.example.com/r',
+        dcql_query: dcqlQuery,
+        client_metadata: { vp_formats: {} },
+        nonce: expect.stringMatching(/^[A-Za-z0-9_-]{43}$/),
+        state: expect.stringMatching(/^[A-Za-z0-9_-]{43}$/),
+      });
+      expect(built.nonce).not.toBe(built.state);
+    });
+
+    it('should keep a set nonce and state', () => {
+      const built = new AuthorizationRequestBuilder('did:example:123')
+        .withResponseMode('fragment', 'https://verifier.example.com/cb')
+        .withPresentationDefinition({ id: 'pd', input_descriptors: [] })
+        .withNonce('nonce')
+        .withState('state')
+        .build()
+        .getOrThrow();
+
+      expect(built.nonce).toBe('nonce');
+      expect(built.state).toBe('state');
+      expect(built.redirect_uri).toBe('https://verifier.example.com/cb');
+    });
+
+    it('should replace a presentation definition with a DCQL query', () => {
+      const built = new AuthorizationRequestBuilder('did:example:123')
+        .withResponseMode('direct_post', 'https://verifier.example.com/r')
+        .withPresentationDefinition({ id: 'pd', input_descriptors: [] })
+        .withDcqlQuery(dcqlQuery)
+        .build()
+        .getOrThrow();
+
+      expect(built.presentation_definition).toBeUndefined();
+      expect(built.dcql_query).toBe(dcqlQuery);
+    });
+
+    it('should fail without a query', () => {
+      const result = new AuthorizationRequestBuilder('did:example:123')
+        .withResponseMode('direct_post', 'https://verifier.example.com/r')
+        .build();
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+    });
+  });
+
+  describe('createAuthorizationRequestUri', () => {
+    it('should encode a request by value', () => {
+      const uri = createAuthorizationRequestUri(request);
+      const parameters = new URL(uri).searchParams;
+
+      expect(uri.startsWith('openid4vp://?')).toBe(true);
+      expect(parameters.get('client_id')).toBe(request.client_id);
+      expect(JSON.parse(parameters.get('dcql_query')!)).toEqual(dcqlQuery);
+    });
+
+    it('should encode a request by reference on a base URI', () => {
+      const uri = createAuthorizationRequestUri(
+        {
+          client_id: request.client_id,
+          request_uri: 'https://verifier.example.com/request/abc',
+          request_uri_method: 'post',
+        },
+        { baseUri: 'https://wallet.example.com/authorize?lang=en' }
+      );
+
+      expect(uri).toBe(
+        'https://wallet.example.com/authorize?lang=en&client_id=x509_san_dns%3Averifier.example.com' +
+          '&request_uri=https%3A%2F%2Fverifier.example.com%2Frequest%2Fabc&request_uri_method=post'
+      );
+    });
+  });
+
+  describe('createUnsignedRequestObject', () => {
+    it('should create an unsigned JWT with the audience', () => {
+      const [header, payload, signature] =
+        createUnsignedRequestObject(request).split('.');
+
+      expect(decodeSegment(header)).toEqual({
+        alg: 'none',
+        typ: 'oauth-authz-req+jwt',
+      });
+      expect(decodeSegment(payload)).toEqual({
+        ...request,
+        aud: 'https://self-issued.me/v2',
+      });
+      expect(signature).toBe('');
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AuthorizationRequestStore } from '../AuthorizationRequestStore';
+import { AuthorizationRequest } from '../AuthorizationRequest';
+import { DynamoDB } from '../../dynamodb/DynamoDB';
+import { createFakeTable } from '../../dynamodb/__tests__/fakeTable';
+import { ValidationError } from '../../utils/validation';
+
+const request: AuthorizationRequest = {
+  client_id: 'redirect_uri:https://verifier.example.com/response',
+  response_type: 'vp_token',
+  response_mode: 'direct_post',
+  response_uri: 'https://verifier.example.com/response',
+  nonce: 'n-0S6_WzA2Mj',
+  state: 'af0ifjsldkj',
+  dcql_query: { credentials: [{ id: 'pid', format: 'dc+sd-jwt' }] },
+};
+
+describe('AuthorizationRequestStore', () => {
+  let now: number;
+  let db: DynamoDB;
+  let store: AuthorizationRequestStore;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    db = createFakeTable(() => now);
+    store = new AuthorizationRequestStore(
+      db,
+      'https://verifier.example.com/request/'
+    );
+  });
+
+  describe('put', () => {
+    it('should store the request and return its request_uri', async () => {
+      const stored = (await store.put(request)).getOrThrow();
+
+      expect(stored.id).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(stored.requestUri).toBe(
+        `https://verifier.example.com/request/${stored.id}`
+      );
+      expect(stored.expiresIn).toBe(300);
+      expect((await store.takeRequest(request.state!)).value).toEqual(request);
+    });
+
+    it('should store an unsigned request object by default', async () => {
+      const { id } = (await store.put(request)).getOrThrow();
+
+      const requestObject = (await store.takeRequestObject(id)).getOrThrow();
+
+      expect(requestObject?.split('.')).toHaveLength(3);
+      expect(requestObject?.endsWith('.')).toBe(true);
+    });
+
+    it('should require a signed request object for other client identifier schemes', async () => {
+      const signedRequest: AuthorizationRequest = {
+        ...request,
+        client_id: 'x509_san_dns:verifier.example.com',
+      };
+      const putSpy = vi.spyOn(db, 'putIfAbsent');
+
+      const result = await store.put(signedRequest);
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(result.error?.message).toBe(
+        'client_id must use the redirect_uri scheme unless a signed request object is given'
+      );
+      expect(putSpy).not.toHaveBeenCalled();
+      expect(
+        (
+          await store.put(signedRequest, {
+            requestObject: 'signed.request.object',
+          })
+        ).isSuccess()
+      ).toBe(true);
+    });
+
+    it('should not overwrite a pending request with the same state', async () => {
+      await store.put(request);
+
+      const result = await store.put({ ...request, nonce: 'other-nonce' });
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(result.error?.message).toBe(
+        'state is already used by a pending request'
+      );
+      expect((await store.takeRequest(request.state!)).value).toEqual(request);
+    });
+
+    it('should store a given request object', async () => {
+      const { id } = (
+        await store.put(request, { requestObject: 'signed.request.object' })
+      ).getOrThrow();
+
+      expect((await store.takeRequestObject(id)).value).toBe(
+        'signed.request.object'
+      );
+    });
+
+    it('should store the request under a TTL', async () => {
+      store = new AuthorizationRequestStore(
+        db,
+        'https://verifier.example.com/request',
+        { ttlSeconds: 60 }
+      );
+      const { id } = (await store.put(request)).getOrThrow();
+
+      now += 60_000;
+
+      expect((await store.takeRequestObject(id)).value).toBeNull();
+      expect((await store.takeRequest(request.state!)).value).toBeNull();
+    });
+
+    it('should reject a request without state', async () => {
+      const result = await store.put({ ...request, state: undefined });
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(result.error?.message).toBe(
+        'state must be present to store the request'
+      );
+    });
+
+    it('should reject an invalid request without storing it', async () => {
+      const putSpy = vi.spyOn(db, 'put');
+      const putIfAbsentSpy = vi.spyOn(db, 'putIfAbsent');
+
+      const result = await store.put({ ...request, nonce: '' });
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(putSpy).not.toHaveBeenCalled();
+      expect(putIfAbsentSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return a failure if the store fails', async () => {
+      vi.spyOn(db, 'put').mockRejectedValue(new Error('Store Error'));
+
+      const result = await store.put(request);
+
+      expect(result.error?.message).toBe('Store Error');
+    });
+    it('should release the state if the request object cannot be stored', async () => {
+      vi.spyOn(db, 'put').mockRejectedValueOnce(new Error('Store Error'));
+
+      expect((await store.put(request)).error?.message).toBe('Store Error');
+      expect((await store.put(request)).isSuccess()).toBe(true);
+    });
+  });
+
+  describe('takeRequestObject', () => {
+    it('should serve a request object only once', async () => {
+      const { id } = (await store.put(request)).getOrThrow();
+
+      expect((await store.takeRequestObject(id)).value).not.toBeNull();
+      expect((await store.takeRequestObject(id)).value).toBeNull();
+    });
+
+    it('should return null for an unknown request object', async () => {
+      expect((await store.takeRequestObject('unknown')).value).toBeNull();
+    });
+  });
+
+  describe('takeRequest', () => {
+    it('should return a request only once', async () => {
+      await store.put(request);
+
+      expect((await store.takeRequest(request.state!)).value).toEqual(request);
+      expect((await store.takeRequest(request.state!)).value).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import {
+  NonceMismatchError,
+  StateMismatchError,
+  getPresentationNonce,
+  validateAuthorizationResponse,
+} from '../AuthorizationResponse';
+import { AuthorizationRequest } from '../AuthorizationRequest';
+import { AccessDeniedError, InvalidRequestError } from '../../oauth/OAuthError';
+import { createJwt } from './fakeJwt';
+
+const nonce = 'n-0S6_WzA2Mj';
+const sdJwt = `${createJwt({ vct: 'urn:eu:pid:1' })}~disclosure~${createJwt({
+  nonce,
+  aud: 'x509_san_dns:verifier.example.com',
+})}`;
+
+const dcqlRequest: AuthorizationRequest = {
+  client_id: 'x509_san_dns:verifier.example.com',
+  response_type: 'vp_token',
+  response_mode: 'direct_post',
+  response_uri: 'https://verifier.example.com/response',
+  nonce,
+  state: 'af0ifjsldkj',
+  dcql_query: {
+    credentials: [
+      { id: 'pid', format: 'dc+sd-jwt' },
+      { id: 'mdl', format: 'mso_mdoc' },
+    ],
+  },
+};
+
+const pdRequest: AuthorizationRequest = {
+  ...dcqlRequest,
+  dcql_query: undefined,
+  presentation_definition: { id: 'pd-1', input_descriptors: [] },
+};
+
+const submission = {
+  id: 'submission-1',
+  definition_id: 'pd-1',
+  descriptor_map: [{ id: 'pid', format: 'jwt_vp', path: '$' }],
+};
+
+describe('AuthorizationResponse', () => {
+  describe('getPresentationNonce', () => {
+    it('should read the nonce of a JWT presentation', () => {
+      expect(getPresentationNonce(createJwt({ nonce }))).toBe(nonce);
+    });
+
+    it('should read the nonce of the key binding JWT of an SD-JWT', () => {
+      expect(getPresentationNonce(sdJwt)).toBe(nonce);
+    });
+
+    it('should read the challenge of a JSON-LD presentation', () => {
+      expect(
+        getPresentationNonce({ proof: { type: 'Ed25519', challenge: nonce } })
+      ).toBe(nonce);
+      expect(getPresentationNonce({ proof: [{ challenge: nonce }] })).toBe(
+        nonce
+      );
+    });
+
+    it.each([
+      ['an SD-JWT without key binding', `${createJwt({})}~disclosure~`],
+      ['an mdoc device response', 'o2d2ZXJzaW9uYzEuMA'],
+      ['a JSON-LD presentation without proof', {}],
+    ])('should return undefined for %s', (_, presentation) => {
+      expect(getPresentationNonce(presentation)).toBeUndefined();
+    });
+  });
+
+  describe('validateAuthorizationResponse', () => {
+    it('should accept a DCQL response', () => {
+      const result = validateAuthorizationResponse(
+        { vp_token: JSON.stringify({ pid: [sdJwt] }), state: 'af0ifjsldkj' },
+        dcqlRequest
+      );
+
+      expect(result.value).toEqual({
+        vp_token: { pid: [sdJwt] },
+        state: 'af0ifjsldkj',
+      });
+    });
+
+    it('should accept a presentation exchange response', () => {
+      const vpToken = createJwt({ nonce });
+
+      const result = validateAuthorizationResponse(
+        {
+          vp_token: vpToken,
+          presentation_submission: JSON.stringify(submission),
+          state: 'af0ifjsldkj',
+        },
+        pdRequest
+      );
+
+      expect(result.value).toEqual({
+        vp_token: vpToken,
+        presentation_submission: submission,
+        state: 'af0ifjsldkj',
+      });
+    });
+
+    it('should use getNonce to read nonces', () => {
+      const result = validateAuthorizationResponse(
+        { vp_token: { pid: 'o2d2ZXJzaW9uYzEuMA' }, state: 'af0ifjsldkj' },
+        dcqlRequest,
+        { getNonce: () => nonce }
+      );
+
+      expect(result.isSuccess()).toBe(true);
+    });
+
+    it('should restore an error response', () => {
+      const result = validateAuthorizationResponse(
+        { error: 'access_denied', state: 'af0ifjsldkj' },
+        dcqlRequest
+      );
+
+      expect(result.error).toBeInstanceOf(AccessDeniedError);
+    });
+
+    it('should reject a mismatched state', () => {
+      const result = validateAuthorizationResponse(
+        { vp_token: { pid: sdJwt }, state: 'other' },
+        dcqlRequest
+      );
+
+      expect(result.error).toBeInstanceOf(StateMismatchError);
+      expect(result.error?.code).toBe('invalid_request');
+    });
+
+    it.each([
+      ['a different nonce', createJwt({ nonce: 'other' })],
+      ['no nonce', 'o2d2ZXJzaW9uYzEuMA'],
+    ])('should reject a presentation with %s', (_, presentation) => {
+      const result = validateAuthorizationResponse(
+        {
+          vp_token: { pid: [sdJwt], mdl: [presentation] },
+          state: 'af0ifjsldkj',
+        },
+        dcqlRequest
+      );
+
+      expect(result.error).toBeInstanceOf(NonceMismatchError);
+    });
+
+    it.each([
+      [
+        'an encrypted response',
+        { response: 'eyJ...' },
+        'Encrypted responses must be decrypted before validation',
+      ],
+      [
+        'a vp_token that is not JSON',
+        { vp_token: '{pid' },
+        'A response parameter is not valid JSON',
+      ],
+      [
+        'a vp_token that is not an object',
+        { vp_token: sdJwt },
+        'The vp_token must be a JSON object for a DCQL query',
+      ],
+      [
+        'an unknown credential query',
+        { vp_token: { other: sdJwt } },
+        'The vp_token contains the unknown credential query other',
+      ],
+      [
+        'several presentations for a single credential query',
+        { vp_token: { pid: [sdJwt, sdJwt] } },
+        'The vp_token contains several presentations for the credential query pid',
+      ],
+      [
+        'an empty presentation list',
+        { vp_token: { pid: [] } },
+        'The vp_token is malformed',
+      ],
+    ])('should reject %s', (_, parameters, description) => {
+      const result = validateAuthorizationResponse(
+        { state: 'af0ifjsldkj', ...parameters },
+        dcqlRequest
+      );
+
+      expect(result.error).toBeInstanceOf(InvalidRequestError);
+      expect(result.error?.description).toBe(description);
+    });
+
+    it.each([
+      [
+        'a missing presentation_submission',
+        undefined,
+        'The presentation_submission is missing or malformed',
+      ],
+      [
+        'a presentation_submission for another definition',
+        { ...submission, definition_id: 'pd-2' },
+        'The presentation_submission does not refer to the presentation definition',
+      ],
+    ])('should reject %s', (_, presentationSubmission, description) => {
+      const result = validateAuthorizationResponse(
+        {
+          vp_token: [createJwt({ nonce })],
+          presentation_submission: presentationSubmission,
+          state: 'af0ifjsldkj',
+        },
+        pdRequest
+      );
+
+      expect(result.error).toBeInstanceOf(InvalidRequestError);
+      expect(result.error?.description).toBe(description);
+    });
+  });
+});
@@ -0,0 +1,346 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DcqlCandidate,
+  DcqlMatchError,
+  DcqlQuery,
+  matchCredentialQuery,
+  matchDcqlQuery,
+  validateDcqlQuery,
+} from '../DcqlQuery';
+import { ValidationError } from '../../utils/validation';
+
+const query: DcqlQuery = {
+  credentials: [
+    {
+      id: 'pid',
+      format: 'dc+sd-jwt',
+      meta: { vct_values: ['urn:eu:pid:1'] },
+      claims: [
+        { id: 'name', path: ['family_name'] },
+        { id: 'country', path: ['address', 'country'], values: ['DE', 'FR'] },
+        { id: 'nationality', path: ['nationalities', null] },
+      ],
+      claim_sets: [
+        ['name', 'country'],
+        ['name', 'nationality'],
+      ],
+    },
+    {
+      id: 'mdl',
+      format: 'mso_mdoc',
+      meta: { doctype_value: 'org.iso.18013.5.1.mDL' },
+      claims: [
+        { path: ['org.iso.18013.5.1', 'family_name'] },
+        { path: ['org.iso.18013.5.1', 'driving_privileges'] },
+      ],
+    },
+  ],
+  credential_sets: [{ options: [['pid'], ['mdl']] }],
+};
+
+const pid: DcqlCandidate = {
+  format: 'dc+sd-jwt',
+  claims: {
+    vct: 'urn:eu:pid:1',
+    family_name: 'Doe',
+    address: { country: 'AT' },
+    nationalities: ['AT', 'DE'],
+  },
+};
+
+const mdl: DcqlCandidate = {
+  format: 'mso_mdoc',
+  doctype: 'org.iso.18013.5.1.mDL',
+  claims: {
+    'org.iso.18013.5.1': {
+      family_name: 'Doe',
+      driving_privileges: [{ vehicle_category_code: 'B' }],
+    },
+  },
+};
+
+describe('DcqlQuery', () => {
+  describe('validateDcqlQuery', () => {
+    it('should accept a valid query', () => {
+      expect(validateDcqlQuery(query).value).toBe(query);
+    });
+
+    it.each([
+      [{}, 'credentials must be a non-empty array'],
+      [
+        { credentials: [{ id: 'a b', format: 'dc+sd-jwt' }] },
+        'credentials[0].id must be a non-empty string of alphanumeric, underscore or hyphen characters',
+      ],
+      [
+        {
+          credentials: [
+            { id: 'a', format: 'dc+sd-jwt' },
+            { id: 'a', format: 'mso_mdoc' },
+          ],
+        },
+        'credentials[1].id must be unique',
+      ],
+      [
+        { credentials: [{ id: 'a', format: '' }] },
+        'credentials[0].format must be a non-empty string',
+      ],
+      [
+        {
+          credentials: [
+            { id: 'a', format: 'dc+sd-jwt', meta: { vct_values: [] } },
+          ],
+        },
+        'credentials[0].meta.vct_values must be a non-empty array',
+      ],
+      [
+        {
+          credentials: [
+            { id: 'a', format: 'dc+sd-jwt', claims: [{ path: ['a', -1] }] },
+          ],
+        },
+        'credentials[0].claims[0].path[1] must be a string, a non-negative integer or null',
+      ],
+      [
+        {
+          credentials: [
+            { id: 'a', format: 'mso_mdoc', claims: [{ path: ['ns'] }] },
+          ],
+        },
+        'credentials[0].claims[0].path must be a namespace and an element identifier for mso_mdoc',
+      ],
+      [
+        {
+          credentials: [
+            {
+              id: 'a',
+              format: 'dc+sd-jwt',
+              claims: [{ path: ['a'], values: [{}] }],
+            },
+          ],
+        },
+        'credentials[0].claims[0].values[0] must be a string, a number or a boolean',
+      ],
+      [
+        {
+          credentials: [
+            {
+              id: 'a',
+              format: 'dc+sd-jwt',
+              claims: [
+                { id: 'x', path: ['a'] },
+                { id: 'x', path: ['b'] },
+              ],
+            },
+          ],
+        },
+        'credentials[0].claims must not repeat the claim ID x',
+      ],
+      [
+        {
+          credentials: [{ id: 'a', format: 'dc+sd-jwt', claim_sets: [['x']] }],
+        },
+        'credentials[0].claim_sets must not be present without claims',
+      ],
+      [
+        {
+          credentials: [
+            {
+              id: 'a',
+              format: 'dc+sd-jwt',
+              claims: [{ path: ['a'] }],
+              claim_sets: [['x']],
+            },
+          ],
+        },
+        'credentials[0].claims[0].id must be present with claim_sets',
+      ],
+      [
+        {
+          credentials: [
+            {
+              id: 'a',
+              format: 'dc+sd-jwt',
+              claims: [{ id: 'x', path: ['a'] }],
+              claim_sets: [['x', 'y']],
+            },
+          ],
+        },
+        'credentials[0].claim_sets[0][1] must be the ID of a claim',
+      ],
+      [
+        { ...query, credential_sets: [{ options: [['pid', 'other']] }] },
+        'credential_sets[0].options[0][1] must be the ID of a credential query',
+      ],
+      [
+        { ...query, credential_sets: [{ options: [['pid']], required: 'no' }] },
+        'credential_sets[0].required must be a boolean',
+      ],
+    ])('should reject %j', (value, message) => {
+      const result = validateDcqlQuery(value);
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(result.error?.message).toBe(message);
+    });
+  });
+
+  describe('matchCredentialQuery', () => {
+    it('should choose the first satisfiable claim set', () => {
+      const match = matchCredentialQuery(
+        query.credentials[0],
+        pid
+      ).getOrThrow();
+
+      expect(match.claimSetIndex).toBe(1);
+      expect(
+        match.claims.map(({ claim, values }) => [claim.id, values])
+      ).toEqual([
+        ['name', ['Doe']],
+        ['nationality', ['AT', 'DE']],
+      ]);
+    });
+
+    it('should match mdoc namespaces', () => {
+      const match = matchCredentialQuery(
+        query.credentials[1],
+        mdl
+      ).getOrThrow();
+
+      expect(match.claims.map(({ values }) => values)).toEqual([
+        ['Doe'],
+        [[{ vehicle_category_code: 'B' }]],
+      ]);
+      expect(match.claimSetIndex).toBeUndefined();
+    });
+
+    it('should match a query without claims', () => {
+      const match = matchCredentialQuery(
+        { id: 'any', format: 'dc+sd-jwt' },
+        pid
+      ).getOrThrow();
+
+      expect(match.claims).toEqual([]);
+    });
+
+    it.each([
+      [{ ...pid, format: 'jwt_vc_json' }, 'requires the format dc+sd-jwt'],
+      [
+        { ...pid, claims: { ...pid.claims, vct: 'urn:other' } },
+        'requires a vct of urn:eu:pid:1',
+      ],
+      [
+        { ...pid, claims: { vct: 'urn:eu:pid:1', address: { country: 'AT' } } },
+        'satisfies none of the claim sets: claim name is missing; claim name is missing',
+      ],
+      [
+        {
+          ...pid,
+          claims: { ...pid.claims, nationalities: 'AT' },
+        },
+        'satisfies none of the claim sets: claim country has none of the requested values; claim nationality is missing',
+      ],
+    ])('should explain a mismatch of %j', (candidate, reason) => {
+      const result = matchCredentialQuery(query.credentials[0], candidate);
+
+      expect(result.error).toBeInstanceOf(DcqlMatchError);
+      expect(result.error?.credentialQueryId).toBe('pid');
+      expect(result.error?.reason).toBe(reason);
+    });
+
+    it('should require the doctype of mdoc credentials', () => {
+      const result = matchCredentialQuery(query.credentials[1], {
+        ...mdl,
+        doctype: 'org.iso.23220.photoid.1',
+      });
+
+      expect(result.error?.message).toBe(
+        'Credential query mdl requires the doctype org.iso.18013.5.1.mDL'
+      );
+    });
+
+    it('should select array elements by index', () => {
+      const result = matchCredentialQuery(
+        {
+          id: 'first',
+          format: 'dc+sd-jwt',
+          claims: [{ path: ['nationalities', 1], values: ['DE'] }],
+        },
+        pid
+      );
+
+      expect(result.value?.claims[0].values).toEqual(['DE']);
+    });
+  });
+
+  describe('matchDcqlQuery', () => {
+    it('should return the matches and the satisfiable options', () => {
+      const match = matchDcqlQuery(query, [pid, mdl]).getOrThrow();
+
+      expect(match.credentials.pid.map(({ candidate }) => candidate)).toEqual([
+        pid,
+      ]);
+      expect(match.credentials.mdl.map(({ candidate }) => candidate)).toEqual([
+        mdl,
+      ]);
+      expect(match.credentialSets).toEqual([
+        { options: [['pid'], ['mdl']], required: true },
+      ]);
+    });
+
+    it('should return every matching credential of a query without multiple', () => {
+      const otherPid = {
+        ...pid,
+        claims: { ...pid.claims, family_name: 'Roe' },
+      };
+      const match = matchDcqlQuery(query, [pid, otherPid]).getOrThrow();
+
+      expect(match.credentials.pid.map(({ candidate }) => candidate)).toEqual([
+        pid,
+        otherPid,
+      ]);
+    });
+
+    it('should satisfy a credential set with a later option', () => {
+      const match = matchDcqlQuery(query, [mdl]).getOrThrow();
+
+      expect(match.credentials.pid).toEqual([]);
+      expect(match.credentialSets).toEqual([
+        { options: [['mdl']], required: true },
+      ]);
+    });
+
+    it('should allow optional credential sets to be unsatisfiable', () => {
+      const match = matchDcqlQuery(
+        {
+          ...query,
+          credential_sets: [
+            { options: [['mdl']] },
+            { options: [['pid']], required: false },
+          ],
+        },
+        [mdl]
+      ).getOrThrow();
+
+      expect(match.credentialSets?.[1]).toEqual({
+        options: [],
+        required: false,
+      });
+    });
+
+    it('should fail if a required credential set cannot be satisfied', () => {
+      const result = matchDcqlQuery(query, []);
+
+      expect(result.error?.credentialQueryId).toBe('');
+      expect(result.error?.message).toBe(
+        'The credential set 0 cannot be satisfied: Credential query pid matches none of the 0 credentials'
+      );
+    });
+
+    it('should require every credential query without credential sets', () => {
+      const result = matchDcqlQuery({ credentials: query.credentials }, [pid]);
+
+      expect(result.error?.message).toBe(
+        'Credential query mdl matches none of the 1 credentials: requires the format mso_mdoc'
+      );
+    });
+  });
+});
@@ -0,0 +1,508 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CredentialCandidate,
+  PresentationDefinition,
+  PresentationExchangeError,
+  createPresentationSubmission,
+  evaluateInputDescriptor,
+  evaluatePresentationSubmission,
+  selectCredentials,
+  validatePresentationDefinition,
+  validatePresentationSubmission,
+} from '../PresentationExchange';
+import { ValidationError } from '../../utils/validation';
+import { createJwt } from './fakeJwt';
+
+const definition: PresentationDefinition = {
+  id: 'pd-1',
+  input_descriptors: [
+    {
+      id: 'pid',
+      format: { 'dc+sd-jwt': {} },
+      constraints: {
+        limit_disclosure: 'required',
+        fields: [
+          { path: ['$.vct'], filter: { const: 'urn:eu:pid:1' } },
+          {
+            id: 'age',
+            path: ['$.age_over_18', '$.age_equal_or_over.18'],
+            filter: { const: true },
+          },
+          { path: ['$.nationality'], optional: true },
+        ],
+      },
+    },
+    {
+      id: 'degree',
+      format: { jwt_vc_json: {} },
+      constraints: {
+        fields: [
+          {
+            path: ['$.vc.type[*]'],
+            filter: { const: 'UniversityDegree' },
+          },
+        ],
+      },
+    },
+  ],
+};
+
+const pid: CredentialCandidate = {
+  format: 'dc+sd-jwt',
+  credential: {
+    vct: 'urn:eu:pid:1',
+    age_equal_or_over: { 18: true },
+    given_name: 'Alice',
+  },
+};
+const degreeVc = {
+  vc: { type: ['VerifiableCredential', 'UniversityDegree'] },
+};
+const degree: CredentialCandidate = {
+  format: 'jwt_vc_json',
+  credential: degreeVc,
+};
+
+const groupedDefinition: PresentationDefinition = {
+  id: 'pd-2',
+  submission_requirements: [
+    { name: 'Identity', rule: 'pick', count: 1, from: 'A' },
+  ],
+  input_descriptors: [
+    { ...definition.input_descriptors[0], group: ['A'] },
+    { ...definition.input_descriptors[1], group: ['A'] },
+  ],
+};
+
+describe('PresentationExchange', () => {
+  describe('validatePresentationDefinition', () => {
+    it('should accept a valid definition', () => {
+      expect(validatePresentationDefinition(groupedDefinition).value).toBe(
+        groupedDefinition
+      );
+    });
+
+    it('should accept nested submission requirements', () => {
+      const result = validatePresentationDefinition({
+        ...groupedDefinition,
+        submission_requirements: [
+          {
+            rule: 'pick',
+            min: 1,
+            max: 2,
+            from_nested: [{ rule: 'all', from: 'A' }],
+          },
+        ],
+      });
+
+      expect(result.isSuccess()).toBe(true);
+    });
+
+    it.each([
+      [{ input_descriptors: [] }, 'id must be a non-empty string'],
+      [{ id: 'pd' }, 'input_descriptors must be an array'],
+      [
+        { id: 'pd', input_descriptors: [{ id: 'a' }] },
+        'input_descriptors[0].constraints must be a JSON object',
+      ],
+      [
+        {
+          id: 'pd',
+          input_descriptors: [
+            { id: 'a', constraints: {} },
+            { id: 'a', constraints: {} },
+          ],
+        },
+        'input_descriptors[1].id must be unique',
+      ],
+      [
+        {
+          id: 'pd',
+          input_descriptors: [
+            { id: 'a', constraints: { limit_disclosure: 'always' } },
+          ],
+        },
+        "input_descriptors[0].constraints.limit_disclosure must be 'required' or 'preferred'",
+      ],
+      [
+        {
+          id: 'pd',
+          input_descriptors: [
+            { id: 'a', constraints: { fields: [{ path: ['$.a', 'b'] }] } },
+          ],
+        },
+        'input_descriptors[0].constraints.fields[0].path[1] must be a supported JSONPath expression',
+      ],
+      [
+        {
+          id: 'pd',
+          input_descriptors: [
+            { id: 'a', constraints: { fields: [{ path: [] }] } },
+          ],
+        },
+        'input_descriptors[0].constraints.fields[0].path must be a non-empty array',
+      ],
+      [
+        { ...groupedDefinition, submission_requirements: [{ rule: 'any' }] },
+        "submission_requirements[0].rule must be 'all' or 'pick'",
+      ],
+      [
+        {
+          ...groupedDefinition,
+          submission_requirements: [{ rule: 'pick', count: -1, from: 'A' }],
+        },
+        'submission_requirements[0].count must be a non-negative integer',
+      ],
+      [
+        { ...groupedDefinition, submission_requirements: [{ rule: 'all' }] },
+        'submission_requirements[0] must contain exactly one of from and from_nested',
+      ],
+      [
+        {
+          ...groupedDefinition,
+          submission_requirements: [{ rule: 'all', from: 'B' }],
+        },
+        'submission_requirements[0].from must name a group of an input descriptor',
+      ],
+    ])('should reject %j', (value, message) => {
+      const result = validatePresentationDefinition(value);
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(result.error?.message).toBe(message);
+    });
+  });
+
+  describe('evaluateInputDescriptor', () => {
+    it('should match a credential and return the selected claims', () => {
+      const match = evaluateInputDescriptor(
+        definition.input_descriptors[0],
+        pid
+      ).getOrThrow();
+
+      expect(match.candidate).toBe(pid);
+      expect(match.limitDisclosure).toBe(true);
+      expect(match.fields.map(({ path, value }) => [path, value])).toEqual([
+        ["$['vct']", 'urn:eu:pid:1'],
+        ["$['age_equal_or_over']['18']", true],
+      ]);
+    });
+
+    it('should use the first value that satisfies the filter', () => {
+      const match = evaluateInputDescriptor(
+        definition.input_descriptors[1],
+        degree
+      ).getOrThrow();
+
+      expect(match.fields[0].path).toBe("$['vc']['type'][1]");
+      expect(match.limitDisclosure).toBe(false);
+    });
+
+    it.each([
+      [
+        { ...pid, format: 'mso_mdoc' },
+        'Input descriptor pid does not accept the format mso_mdoc',
+      ],
+      [
+        { ...pid, credential: { age_equal_or_over: { 18: true } } },
+        'Input descriptor pid field $.vct is missing',
+      ],
+      [
+        {
+          ...pid,
+          credential: { vct: 'urn:eu:pid:1', age_equal_or_over: { 18: false } },
+        },
+        "Input descriptor pid field age does not match the filter: $['age_equal_or_over']['18'] must be true",
+      ],
+    ])('should explain a mismatch of %j', (candidate, message) => {
+      const result = evaluateInputDescriptor(
+        definition.input_descriptors[0],
+        candidate
+      );
+
+      expect(result.error).toBeInstanceOf(PresentationExchangeError);
+      expect(result.error?.descriptorId).toBe('pid');
+      expect(result.error?.message).toBe(message);
+    });
+
+    it('should apply the formats of the definition', () => {
+      const result = evaluateInputDescriptor(
+        { id: 'any', constraints: {} },
+        degree,
+        { format: { ldp_vc: {} } }
+      );
+
+      expect(result.error?.message).toBe(
+        'Input descriptor any does not accept the format jwt_vc_json'
+      );
+    });
+
+    it('should reject limited disclosure for formats without selective disclosure', () => {
+      const result = evaluateInputDescriptor(
+        { id: 'limited', constraints: { limit_disclosure: 'required' } },
+        degree
+      );
+
+      expect(result.error?.reason).toBe(
+        'requires limited disclosure, which the format jwt_vc_json does not support'
+      );
+    });
+  });
+
+  describe('selectCredentials', () => {
+    it('should select the matching credentials of each input descriptor', () => {
+      const { matches } = selectCredentials(definition, [
+        degree,
+        pid,
+      ]).getOrThrow();
+
+      expect(matches.pid.map(({ candidate }) => candidate)).toEqual([pid]);
+      expect(matches.degree.map(({ candidate }) => candidate)).toEqual([
+        degree,
+      ]);
+    });
+
+    it('should explain why no credential matches an input descriptor', () => {
+      const result = selectCredentials(definition, [degree]);
+
+      expect(result.error?.message).toBe(
+        'Input descriptor pid matches none of the 1 credentials: does not accept the format jwt_vc_json'
+      );
+    });
+
+    it('should fail without credentials', () => {
+      expect(selectCredentials(definition, []).error?.message).toBe(
+        'Input descriptor pid matches none of the 0 credentials'
+      );
+    });
+
+    it('should allow descriptors left out by submission requirements', () => {
+      const { matches } = selectCredentials(groupedDefinition, [
+        degree,
+      ]).getOrThrow();
+
+      expect(matches.pid).toEqual([]);
+      expect(matches.degree).toHaveLength(1);
+    });
+
+    it('should fail if a submission requirement cannot be satisfied', () => {
+      const result = selectCredentials(
+        {
+          ...groupedDefinition,
+          submission_requirements: [
+            { name: 'Both', rule: 'pick', min: 2, from: 'A' },
+          ],
+        },
+        [degree]
+      );
+
+      expect(result.error?.descriptorId).toBe('');
+      expect(result.error?.message).toBe(
+        'The submission requirement Both is not satisfied'
+      );
+    });
+    it('should not evaluate hostile filter patterns by default', () => {
+      const hostile: PresentationDefinition = {
+        id: 'pd-3',
+        input_descriptors: [
+          {
+            id: 'pid',
+            constraints: {
+              fields: [
+                { path: ['$.given_name'], filter: { pattern: '^(a+)+$' } },
+              ],
+            },
+          },
+        ],
+      };
+      const candidate = { ...pid, credential: { given_name: 'a'.repeat(40) } };
+
+      expect(selectCredentials(hostile, [candidate]).error?.message).toBe(
+        "Input descriptor pid matches none of the 1 credentials: field $.given_name does not match the filter: $['given_name'] cannot be checked against the pattern ^(a+)+$, which has nested quantifiers"
+      );
+      expect(
+        selectCredentials(hostile, [pid], { patterns: { maxPatternLength: 4 } })
+          .error?.message
+      ).toBe(
+        "Input descriptor pid matches none of the 1 credentials: field $.given_name does not match the filter: $['given_name'] cannot be checked against a pattern longer than 4 characters"
+      );
+    });
+  });
+
+  describe('createPresentationSubmission', () => {
+    it('should create a submission for the definition', () => {
+      const submission = createPresentationSubmission(definition, [
+        { id: 'pid', format: 'dc+sd-jwt', path: '$[0]' },
+      ]).getOrThrow();
+
+      expect(submission).toEqual({
+        id: expect.stringMatching(/^[A-Za-z0-9_-]{22}$/),
+        definition_id: 'pd-1',
+        descriptor_map: [{ id: 'pid', format: 'dc+sd-jwt', path: '$[0]' }],
+      });
+      expect(validatePresentationSubmission(submission).isSuccess()).toBe(true);
+    });
+
+    it('should reject an unknown input descriptor', () => {
+      const result = createPresentationSubmission(definition, [
+        { id: 'other', format: 'dc+sd-jwt', path: '$' },
+      ]);
+
+      expect(result.error?.message).toBe(
+        'descriptor_map[0].id must name an input descriptor of the presentation definition'
+      );
+    });
+
+    it('should reject an invalid path', () => {
+      const result = createPresentationSubmission(definition, [
+        { id: 'pid', format: 'dc+sd-jwt', path: '0' },
+      ]);
+
+      expect(result.error?.message).toBe(
+        'descriptor_map[0].path must be a supported JSONPath expression'
+      );
+    });
+  });
+
+  describe('evaluatePresentationSubmission', () => {
+    const sdJwt = 'issuer-jwt~disclosure~kb-jwt';
+    const vpToken = [
+      sdJwt,
+      createJwt({ vp: { verifiableCredential: [createJwt(degreeVc)] } }),
+    ];
+    const submission = {
+      id: 'submission-1',
+      definition_id: 'pd-1',
+      descriptor_map: [
+        { id: 'pid', format: 'dc+sd-jwt', path: '$[0]' },
+        {
+          id: 'degree',
+          format: 'jwt_vp_json',
+          path: '$[1]',
+          path_nested: {
+            id: 'degree',
+            format: 'jwt_vc_json',
+            path: '$.vp.verifiableCredential[0]',
+          },
+        },
+      ],
+    };
+    const decode = (value: unknown, format: string) =>
+      value === sdJwt && format === 'dc+sd-jwt'
+        ? pid.credential
+        : typeof value === 'string'
+        ? JSON.parse(
+            new TextDecoder().decode(
+              Uint8Array.from(
+                atob(value.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')),
+                (c) => c.charCodeAt(0)
+              )
+            )
+          )
+        : value;
+
+    it('should resolve and evaluate every submitted credential', () => {
+      const { matches } = evaluatePresentationSubmission(
+        definition,
+        submission,
+        vpToken,
+        { decode }
+      ).getOrThrow();
+
+      expect(matches.pid[0].candidate).toEqual(pid);
+      expect(matches.degree[0].candidate).toEqual({
+        format: 'jwt_vc_json',
+        credential: degreeVc,
+      });
+    });
+
+    it('should decode JWTs by default', () => {
+      const result = evaluatePresentationSubmission(
+        { ...definition, input_descriptors: [definition.input_descriptors[1]] },
+        { ...submission, descriptor_map: [submission.descriptor_map[1]] },
+        vpToken
+      );
+
+      expect(result.isSuccess()).toBe(true);
+    });
+
+    it('should fail if an SD-JWT cannot be decoded by default', () => {
+      const result = evaluatePresentationSubmission(
+        definition,
+        submission,
+        vpToken
+      );
+
+      expect(result.error?.message).toBe(
+        'Input descriptor pid cannot be decoded as dc+sd-jwt at $[0]'
+      );
+    });
+
+    it.each([
+      [
+        { ...submission, descriptor_map: 'x' },
+        'The presentation_submission is invalid: descriptor_map must be an array',
+      ],
+      [
+        { ...submission, definition_id: 'pd-2' },
+        'The presentation_submission refers to the presentation definition pd-2',
+      ],
+      [
+        {
+          ...submission,
+          descriptor_map: [
+            ...submission.descriptor_map,
+            { id: 'other', format: 'jwt_vc_json', path: '$[1]' },
+          ],
+        },
+        'Input descriptor other is not in the presentation definition',
+      ],
+      [
+        {
+          ...submission,
+          descriptor_map: [
+            { id: 'pid', format: 'dc+sd-jwt', path: '$[2]' },
+            submission.descriptor_map[1],
+          ],
+        },
+        'Input descriptor pid has no value at $[2]',
+      ],
+      [
+        { ...submission, descriptor_map: [submission.descriptor_map[0]] },
+        'Input descriptor degree is not submitted',
+      ],
+      [
+        {
+          ...submission,
+          descriptor_map: [
+            { id: 'pid', format: 'jwt_vc_json', path: '$[1]' },
+            submission.descriptor_map[1],
+          ],
+        },
+        'Input descriptor pid does not accept the format jwt_vc_json',
+      ],
+    ])('should reject %j', (value, message) => {
+      const result = evaluatePresentationSubmission(
+        definition,
+        value,
+        vpToken,
+        { decode }
+      );
+
+      expect(result.error).toBeInstanceOf(PresentationExchangeError);
+      expect(result.error?.message).toBe(message);
+    });
+
+    it('should require exact counts of submission requirements', () => {
+      const result = evaluatePresentationSubmission(
+        groupedDefinition,
+        { ...submission, definition_id: 'pd-2' },
+        vpToken,
+        { decode }
+      );
+
+      expect(result.error?.message).toBe(
+        'The submission requirement Identity is not satisfied'
+      );
+    });
+  });
+});
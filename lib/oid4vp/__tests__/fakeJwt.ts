@@ -0,0 +1,14 @@
+import { encodeBase64Url } from '../../utils/base64url';
+
+/**
+ * Creates a JWT with a placeholder signature, for tests that only decode payloads.
+ *
+ * @param payload - The claims of the JWT.
+ * @returns The compact JWT.
+ */
+export const createJwt = (payload: Record<string, unknown>): string =>
+  [
+    encodeBase64Url(JSON.stringify({ alg: 'ES256' })),
+    encodeBase64Url(JSON.stringify(payload)),
+    'signature',
+  ].join('.');
@@ -0,0 +1,5 @@
+export * from './AuthorizationRequest';
+export * from './AuthorizationRequestStore';
+export * from './AuthorizationResponse';
+export * from './DcqlQuery';
+export * from './PresentationExchange';
@@ -0,0 +1,205 @@
+import {
+  AtomicKeyValueStore,
+  ListOptions,
+  ListResult,
+  PutIfAbsentOutcome,
+  PutOptions,
+} from './KeyValueStore';
+
+/**
+ * Represents an entry held by InMemoryStore.
+ */
+interface InMemoryEntry {
+  value: string;
+  expiresAt?: number;
+  metadata?: unknown;
+}
+
+/**
+ * Options for constructing an InMemoryStore instance.
+ */
+export interface InMemoryStoreOptions {
+  /**
+   * Returns the current time in milliseconds since the epoch.
+   * Defaults to Date.now. Inject a fixed clock to test expiration deterministically.
+   */
+  now?: () => number;
+}
+
+/**
+ * The default number of keys returned by list, matching KVNamespace.
+ */
+const DEFAULT_LIMIT = 1000;
+
+/**
+ * A KeyValueStore kept in process memory, intended for tests and local development.
+ *
+ * Expiration follows the same semantics as the other backends:
+ * entries whose expiration time is not in the future are treated as absent.
+ */
+export class InMemoryStore implements AtomicKeyValueStore {
+  private readonly entries = new Map<string, InMemoryEntry>();
+
+  /**
+   * Constructs a new InMemoryStore instance.
+   *
+   * @param options - Optional settings such as the clock.
+   */
+  constructor(private readonly options: InMemoryStoreOptions = {}) {}
+
+  /**
+   * Retrieves a value by key.
+   *
+   * @param key - The key of the value to retrieve.
+   * @returns A promise that resolves to the value, or null if not found or expired.
+   */
+  async get(key: string): Promise<string | null> {
+    return this.getEntry(key)?.value ?? null;
+  }
+
+  /**
+   * Stores a value with an optional expiration time and metadata.
+   * If both `expiration` and `expirationTtl` are given, `expiration` takes precedence.
+   *
+   * @param key - The key of the value to store.
+   * @param value - The value to store.
+   * @param options - Optional settings, including expiration time and metadata.
+   * @returns A promise that resolves when the operation is complete.
+   */
+  async put(key: string, value: string, options?: PutOptions): Promise<void> {
+    const entry: InMemoryEntry = { value };
+
+    if (options?.expiration) {
+      entry.expiresAt = options.expiration;
+    } else if (options?.expirationTtl) {
+      entry.expiresAt = this.nowInSeconds() + options.expirationTtl;
+    }
+
+    if (options?.metadata !== undefined && options.metadata !== null) {
+      entry.metadata = options.metadata;
+    }
+
+    this.entries.set(key, entry);
+  }
+
+  /**
+   * Deletes a value by key.
+   *
+   * @param key - The key of the value to delete.
+   * @returns A promise that resolves when the operation is complete.
+   */
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Deletes a value and returns it.
+   *
+   * @param key - The key of the value to take.
+   * @returns A promise that resolves to the value that was stored, or null if not found or expired.
+   */
+  async take(key: string): Promise<string | null> {
+    const entry = this.getEntry(key);
+    this.entries.delete(key);
+
+    return entry?.value ?? null;
+  }
+
+  /**
+   * Stores a value only if no live value exists for the key.
+   *
+   * @param key - The key of the value to store.
+   * @param value - The value to store.
+   * @param options - Optional settings, including expiration time and metadata.
+   * @returns A promise that resolves to 'created' if the value was written, or 'already_exists' otherwise.
+   */
+  async putIfAbsent(
+    key: string,
+    value: string,
+    options?: PutOptions
+  ): Promise<PutIfAbsentOutcome> {
+    if (this.getEntry(key)) {
+      return 'already_exists';
+    }
+
+    await this.put(key, value, options);
+
+    return 'created';
+  }
+
+  /**
+   * Lists keys in lexicographic order, optionally filtered by prefix.
+   *
+   * @param options - Optional settings: prefix, limit (default 1000) and cursor.
+   * @returns A promise that resolves to the listed keys, whether the listing is complete, and a cursor to continue from if not.
+   */
+  async list<Metadata = unknown>(
+    options?: ListOptions
+  ): Promise<ListResult<Metadata>> {
+    const limit = options?.limit ?? DEFAULT_LIMIT;
+    const prefix = options?.prefix ?? '';
+    const cursor = options?.cursor ?? undefined;
+    const names = [...this.entries.keys()]
+      .filter((name) => name.startsWith(prefix))
+      .filter((name) => cursor === undefined || name > cursor)
+      .filter((name) => this.getEntry(name) !== undefined)
+      .sort();
+    const page = names.slice(0, limit);
+    const keys = page.map((name) => {
+      const entry = this.entries.get(name)!;
+
+      return {
+        name,
+        ...(entry.expiresAt !== undefined
+          ? { expiration: entry.expiresAt }
+          : {}),
+        ...(entry.metadata !== undefined
+          ? { metadata: entry.metadata as Metadata }
+          : {}),
+      };
+    });
+
+    if (names.length > limit) {
+      return {
+        keys,
+        list_complete: false,
+        cursor: page[page.length - 1],
+        cacheStatus: null,
+      };
+    }
+
+    return { keys, list_complete: true, cacheStatus: null };
+  }
+
+  /**
+   * Returns the current time in seconds since the epoch, according to the configured clock.
+   *
+   * @returns The current time in seconds.
+   */
+  private nowInSeconds(): number {
+    const now = this.options.now ?? Date.now;
+
+    return Math.floor(now() / 1000);
+  }
+
+  /**
+   * Retrieves an entry by key, evicting it if it has expired.
+   *
+   * @param key - The key of the entry to retrieve.
+   * @returns The entry, or undefined if not found or expired.
+   */
+  private getEntry(key: string): InMemoryEntry | undefined {
+    const entry = this.entries.get(key);
+
+    if (
+      entry?.expiresAt !== undefined &&
+      entry.expiresAt <= this.nowInSeconds()
+    ) {
+      this.entries.delete(key);
+
+      return undefined;
+    }
+
+    return entry;
+  }
+}
@@ -0,0 +1,63 @@
+import { KVNamespace } from '@cloudflare/workers-types';
+import {
+  KeyValueStore,
+  ListOptions,
+  ListResult,
+  PutOptions,
+} from './KeyValueStore';
+
+/**
+ * A KeyValueStore backed by a Cloudflare Workers KVNamespace.
+ */
+export class KVNamespaceStore implements KeyValueStore {
+  /**
+   * Constructs a new KVNamespaceStore instance.
+   *
+   * @param namespace - The KVNamespace binding to delegate to.
+   */
+  constructor(private readonly namespace: KVNamespace) {}
+
+  /**
+   * Retrieves a value by key.
+   *
+   * @param key - The key of the value to retrieve.
+   * @returns A promise that resolves to the value, or null if not found or expired.
+   */
+  async get(key: string): Promise<string | null> {
+    return this.namespace.get(key, 'text');
+  }
+
+  /**
+   * Stores a value with an optional expiration time and metadata.
+   *
+   * @param key - The key of the value to store.
+   * @param value - The value to store.
+   * @param options - Optional settings, including expiration time and metadata.
+   * @returns A promise that resolves when the operation is complete.
+   */
+  async put(key: string, value: string, options?: PutOptions): Promise<void> {
+    await this.namespace.put(key, value, options);
+  }
+
+  /**
+   * Deletes a value by key.
+   *
+   * @param key - The key of the value to delete.
+   * @returns A promise that resolves when the operation is complete.
+   */
+  async delete(key: string): Promise<void> {
+    await this.namespace.delete(key);
+  }
+
+  /**
+   * Lists keys, optionally filtered by prefix.
+   *
+   * @param options - Optional settings: prefix, limit and cursor.
+   * @returns A promise that resolves to the listed keys, whether the listing is complete, and a cursor to continue from if not.
+   */
+  async list<Metadata = unknown>(
+    options?: ListOptions
+  ): Promise<ListResult<Metadata>> {
+    return this.namespace.list<Metadata>(options);
+  }
+}
@@ -0,0 +1,105 @@
+import {
+  KVNamespaceListOptions,
+  KVNamespaceListResult,
+  KVNamespacePutOptions,
+} from '@cloudflare/workers-types';
+
+/**
+ * Options for the put operation of a key-value store, extending KVNamespacePutOptions.
+ */
+export interface PutOptions extends KVNamespacePutOptions {
+  expirationTtl?: number;
+}
+
+/**
+ * Options for the list operation of a key-value store.
+ */
+export type ListOptions = KVNamespaceListOptions;
+
+/**
+ * The result of the list operation of a key-value store.
+ * @template Metadata The type of the metadata attached to each key.
+ */
+export type ListResult<Metadata = unknown> = KVNamespaceListResult<Metadata>;
+
+/**
+ * A storage-agnostic key-value store with TTL support.
+ *
+ * The contract follows Cloudflare's KVNamespace: values are strings,
+ * expired entries are never returned, and list is paginated with a cursor.
+ */
+export interface KeyValueStore {
+  /**
+   * Retrieves a value by key.
+   *
+   * @param key - The key of the value to retrieve.
+   * @returns A promise that resolves to the value, or null if not found or expired.
+   */
+  get(key: string): Promise<string | null>;
+
+  /**
+   * Stores a value with an optional expiration time and metadata.
+   *
+   * @param key - The key of the value to store.
+   * @param value - The value to store.
+   * @param options - Optional settings, including expiration time and metadata.
+   * @returns A promise that resolves when the operation is complete.
+   */
+  put(key: string, value: string, options?: PutOptions): Promise<void>;
+
+  /**
+   * Deletes a value by key. Deleting a missing key is not an error.
+   *
+   * @param key - The key of the value to delete.
+   * @returns A promise that resolves when the operation is complete.
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Lists keys, optionally filtered by prefix.
+   *
+   * @param options - Optional settings: prefix, limit and cursor.
+   * @returns A promise that resolves to the listed keys, whether the listing is complete, and a cursor to continue from if not.
+   */
+  list<Metadata = unknown>(
+    options?: ListOptions
+  ): Promise<ListResult<Metadata>>;
+}
+
+/**
+ * The outcome of a conditional put.
+ * 'created' when the value was written, 'already_exists' when a live value was already stored under the key.
+ */
+export type PutIfAbsentOutcome = 'created' | 'already_exists';
+
+/**
+ * A key-value store that additionally supports atomic single-use and conditional writes.
+ *
+ * These operations back values that must be redeemed exactly once,
+ * such as pre-authorized codes, authorization codes and nonces.
+ */
+export interface AtomicKeyValueStore extends KeyValueStore {
+  /**
+   * Atomically deletes a value and returns it.
+   * Of several concurrent calls for the same key, at most one receives the value.
+   *
+   * @param key - The key of the value to take.
+   * @returns A promise that resolves to the value that was stored, or null if not found or expired.
+   */
+  take(key: string): Promise<string | null>;
+
+  /**
+   * Stores a value only if no live value exists for the key.
+   * Expired values are treated as absent.
+   *
+   * @param key - The key of the value to store.
+   * @param value - The value to store.
+   * @param options - Optional settings, including expiration time and metadata.
+   * @returns A promise that resolves to the outcome of the conditional put.
+   */
+  putIfAbsent(
+    key: string,
+    value: string,
+    options?: PutOptions
+  ): Promise<PutIfAbsentOutcome>;
+}
@@ -0,0 +1,147 @@
+/**
+ * The kinds of failure a storage operation can report.
+ */
+export type StorageErrorKind =
+  | 'not_found'
+  | 'conditional_check_failed'
+  | 'throttled'
+  | 'validation'
+  | 'item_too_large'
+  | 'network'
+  | 'deserialization'
+  | 'version_conflict'
+  | 'unknown';
+
+/**
+ * The base class of errors reported by storage operations.
+ * The original backend error, if any, is kept as the cause.
+ */
+export class StorageError extends Error {
+  /**
+   * The kind of failure, for branching without instanceof checks.
+   */
+  readonly kind: StorageErrorKind = 'unknown';
+
+  /**
+   * The error reported by the storage backend.
+   */
+  readonly cause?: unknown;
+
+  /**
+   * Constructs a new StorageError instance.
+   *
+   * @param message - The error message.
+   * @param cause - The error reported by the storage backend.
+   */
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * Indicates that the storage resource, such as the table, does not exist.
+ */
+export class StorageNotFoundError extends StorageError {
+  readonly kind: StorageErrorKind = 'not_found';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'StorageNotFoundError';
+  }
+}
+
+/**
+ * Indicates that a conditional write was rejected because its condition did not hold.
+ */
+export class StorageConditionalCheckFailedError extends StorageError {
+  readonly kind: StorageErrorKind = 'conditional_check_failed';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'StorageConditionalCheckFailedError';
+  }
+}
+
+/**
+ * Indicates that the request was throttled by the storage backend.
+ */
+export class StorageThrottledError extends StorageError {
+  readonly kind: StorageErrorKind = 'throttled';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'StorageThrottledError';
+  }
+}
+
+/**
+ * Indicates that the request was rejected as invalid by the storage backend.
+ */
+export class StorageValidationError extends StorageError {
+  readonly kind: StorageErrorKind = 'validation';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'StorageValidationError';
+  }
+}
+
+/**
+ * Indicates that the item exceeds the size limit of the storage backend.
+ */
+export class StorageItemTooLargeError extends StorageError {
+  readonly kind: StorageErrorKind = 'item_too_large';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'StorageItemTooLargeError';
+  }
+}
+
+/**
+ * Indicates a transient network or service failure; the request may succeed if retried.
+ */
+export class StorageNetworkError extends StorageError {
+  readonly kind: StorageErrorKind = 'network';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'StorageNetworkError';
+  }
+}
+
+/**
+ * Indicates that a stored value could not be parsed or did not pass validation.
+ */
+export class StorageDeserializationError extends StorageError {
+  readonly kind: StorageErrorKind = 'deserialization';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'StorageDeserializationError';
+  }
+}
+
+/**
+ * Indicates that a compare-and-set lost against a concurrent write because the stored version changed.
+ */
+export class StorageVersionConflictError extends StorageError {
+  readonly kind: StorageErrorKind = 'version_conflict';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'StorageVersionConflictError';
+  }
+}
+
+/**
+ * Checks whether a storage error is transient, so that the operation may succeed if retried.
+ *
+ * @param error - The error to check.
+ * @returns True if the error is a throttling or network failure.
+ */
+export const isRetryableStorageError = (error: Error): boolean =>
+  error instanceof StorageError &&
+  (error.kind === 'throttled' || error.kind === 'network');
@@ -0,0 +1,137 @@
+import { Result, runAsyncCatching } from '../utils/result';
+import {
+  AtomicKeyValueStore,
+  KeyValueStore,
+  PutOptions,
+} from './KeyValueStore';
+import { StorageDeserializationError } from './StorageError';
+
+/**
+ * Validates an unknown value and narrows it to the expected type.
+ * Any schema library can be adapted to this signature.
+ * @template T The type of a valid value.
+ */
+export type Validator<T> = (u: unknown) => Result<T>;
+
+/**
+ * A typed JSON document store layered on a KeyValueStore such as DynamoDB.
+ *
+ * Values are serialised with JSON.stringify on write, and parsed and validated on read,
+ * so corrupt or schema-mismatched rows surface as failures instead of unchecked casts.
+ * @template T The type of the stored documents.
+ * @template S The type of the underlying store; take is only available over an AtomicKeyValueStore.
+ */
+export class TypedStore<T, S extends KeyValueStore = KeyValueStore> {
+  /**
+   * Constructs a new TypedStore instance.
+   *
+   * @param store - The underlying key-value store.
+   * @param validate - The validator applied to every value read from the store.
+   */
+  constructor(
+    private readonly store: S,
+    private readonly validate: Validator<T>
+  ) {}
+
+  /**
+   * Retrieves and validates a document by key.
+   *
+   * @param key - The key of the document to retrieve.
+   * @returns A promise that resolves to a Result of the document, or null if not found or expired.
+   * The Result is a failure with a StorageDeserializationError if the stored value is not valid JSON or does not pass validation.
+   */
+  async get(key: string): Promise<Result<T | null>> {
+    const raw = await runAsyncCatching(() => this.store.get(key));
+
+    return raw.flatMap((value) => this.decodeOrNull(value));
+  }
+
+  /**
+   * Serialises and stores a document.
+   *
+   * @param key - The key of the document to store.
+   * @param value - The document to store.
+   * @param options - Optional settings, including expiration time and metadata.
+   * @returns A promise that resolves to a Result that is successful when the document has been stored.
+   */
+  async put(
+    key: string,
+    value: T,
+    options?: PutOptions
+  ): Promise<Result<void>> {
+    return runAsyncCatching(() =>
+      this.store.put(key, JSON.stringify(value), options)
+    );
+  }
+
+  /**
+   * Atomically retrieves, deletes and validates a document, so that it is read at most once.
+   * Only available when the underlying store is an AtomicKeyValueStore, such as DynamoDB or InMemoryStore.
+   *
+   * @param key - The key of the document to take.
+   * @returns A promise that resolves to a Result of the document, or null if not found or expired.
+   */
+  async take(
+    this: TypedStore<T, AtomicKeyValueStore>,
+    key: string
+  ): Promise<Result<T | null>> {
+    const raw = await runAsyncCatching(() => this.store.take(key));
+
+    return raw.flatMap((value) => this.decodeOrNull(value));
+  }
+
+  /**
+   * Deletes a document by key.
+   *
+   * @param key - The key of the document to delete.
+   * @returns A promise that resolves to a Result that is successful when the document has been deleted.
+   */
+  async delete(key: string): Promise<Result<void>> {
+    return runAsyncCatching(() => this.store.delete(key));
+  }
+
+  /**
+   * Parses and validates a stored value, if there is one.
+   *
+   * @param raw - The stored string value, or null if not found or expired.
+   * @returns A Result of the validated document, or null if there is no value.
+   */
+  private decodeOrNull(raw: string | null): Result<T | null> {
+    return raw === null ? Result.success(null) : this.decode(raw);
+  }
+
+  /**
+   * Parses and validates a stored value.
+   *
+   * @param raw - The stored string value.
+   * @returns A Result of the validated document.
+   */
+  private decode(raw: string): Result<T> {
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(raw);
+    } catch (e) {
+      return Result.failure(
+        new StorageDeserializationError('Stored value is not valid JSON', e)
+      );
+    }
+
+    try {
+      const validated = this.validate(parsed);
+
+      return validated.isFailure()
+        ? Result.failure(
+            new StorageDeserializationError(
+              `Stored value failed validation: ${validated.error.message}`,
+              validated.error
+            )
+          )
+        : validated;
+    } catch (e) {
+      return Result.failure(
+        new StorageDeserializationError('Stored value failed validation', e)
+      );
+    }
+  }
+}
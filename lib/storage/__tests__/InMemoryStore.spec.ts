@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryStore } from '../InMemoryStore';
+import {
+  describeAtomicKeyValueStore,
+  describeKeyValueStore,
+} from './keyValueStoreConformance';
+
+describeKeyValueStore('InMemoryStore', (now) => new InMemoryStore({ now }));
+describeAtomicKeyValueStore(
+  'InMemoryStore',
+  (now) => new InMemoryStore({ now })
+);
+
+describe('InMemoryStore', () => {
+  it('should list keys in lexicographic order', async () => {
+    const store = new InMemoryStore();
+    await store.put('c', '3');
+    await store.put('a', '1');
+    await store.put('b', '2');
+
+    const result = await store.list();
+
+    expect(result.keys.map((k) => k.name)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should resume listing after the cursor', async () => {
+    const store = new InMemoryStore();
+    await store.put('a', '1');
+    await store.put('b', '2');
+    await store.put('c', '3');
+
+    const first = await store.list({ limit: 2 });
+    expect(first).toEqual({
+      keys: [{ name: 'a' }, { name: 'b' }],
+      list_complete: false,
+      cursor: 'b',
+      cacheStatus: null,
+    });
+
+    const second = await store.list({ limit: 2, cursor: 'b' });
+    expect(second).toEqual({
+      keys: [{ name: 'c' }],
+      list_complete: true,
+      cacheStatus: null,
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { KVNamespace } from '@cloudflare/workers-types';
+import { InMemoryStore } from '../InMemoryStore';
+import { KVNamespaceStore } from '../KVNamespaceStore';
+import { describeKeyValueStore } from './keyValueStoreConformance';
+
+describeKeyValueStore(
+  'KVNamespaceStore',
+  (now) =>
+    new KVNamespaceStore(new InMemoryStore({ now }) as unknown as KVNamespace)
+);
+
+describe('KVNamespaceStore', () => {
+  const createNamespace = () =>
+    ({
+      get: vi.fn().mockResolvedValue('value'),
+      put: vi.fn().mockResolvedValue(undefined),
+      delete: vi.fn().mockResolvedValue(undefined),
+      list: vi.fn().mockResolvedValue({
+        keys: [],
+        list_complete: true,
+        cacheStatus: null,
+      }),
+    } as unknown as KVNamespace);
+
+  it('should read values as text', async () => {
+    const namespace = createNamespace();
+    const store = new KVNamespaceStore(namespace);
+
+    expect(await store.get('key')).toBe('value');
+    expect(namespace.get).toHaveBeenCalledWith('key', 'text');
+  });
+
+  it('should pass put options through', async () => {
+    const namespace = createNamespace();
+    const store = new KVNamespaceStore(namespace);
+
+    await store.put('key', 'value', { expirationTtl: 60, metadata: { m: 1 } });
+
+    expect(namespace.put).toHaveBeenCalledWith('key', 'value', {
+      expirationTtl: 60,
+      metadata: { m: 1 },
+    });
+  });
+
+  it('should pass list options through', async () => {
+    const namespace = createNamespace();
+    const store = new KVNamespaceStore(namespace);
+
+    await store.list({ prefix: 'p:', limit: 10 });
+
+    expect(namespace.list).toHaveBeenCalledWith({ prefix: 'p:', limit: 10 });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { InMemoryStore } from '../InMemoryStore';
+import { TypedStore, Validator } from '../TypedStore';
+import { StorageDeserializationError } from '../StorageError';
+import { Result } from '../../utils/result';
+
+interface Session {
+  state: string;
+  attempts: number;
+}
+
+const validateSession: Validator<Session> = (u) => {
+  const value = u as Partial<Session> | null;
+
+  if (typeof value?.state !== 'string' || typeof value.attempts !== 'number') {
+    return Result.failure(new Error('Invalid session'));
+  }
+
+  return Result.success({ state: value.state, attempts: value.attempts });
+};
+
+describe('TypedStore', () => {
+  let store: InMemoryStore;
+  let sessions: TypedStore<Session, InMemoryStore>;
+
+  beforeEach(() => {
+    store = new InMemoryStore();
+    sessions = new TypedStore(store, validateSession);
+  });
+
+  it('should serialise on put and deserialise on get', async () => {
+    const session = { state: 'abc', attempts: 1 };
+
+    expect((await sessions.put('s1', session)).isSuccess()).toBe(true);
+    expect(await store.get('s1')).toBe('{"state":"abc","attempts":1}');
+
+    const result = await sessions.get('s1');
+    expect(result.isSuccess()).toBe(true);
+    expect(result.value).toEqual(session);
+  });
+
+  it('should pass put options through', async () => {
+    const put = vi.spyOn(store, 'put');
+
+    await sessions.put(
+      's1',
+      { state: 'abc', attempts: 1 },
+      { expirationTtl: 60 }
+    );
+
+    expect(put).toHaveBeenCalledWith('s1', expect.any(String), {
+      expirationTtl: 60,
+    });
+  });
+
+  it('should return a successful result of null when key does not exist', async () => {
+    const result = await sessions.get('missing');
+
+    expect(result.isSuccess()).toBe(true);
+    expect(result.value).toBeNull();
+  });
+
+  it('should fail on a value that is not valid JSON', async () => {
+    await store.put('s1', '{not json');
+
+    const result = await sessions.get('s1');
+
+    expect(result.error).toBeInstanceOf(StorageDeserializationError);
+    expect(result.error?.message).toBe('Stored value is not valid JSON');
+  });
+
+  it('should fail on a value that does not pass validation', async () => {
+    await store.put('s1', '{"state":1}');
+
+    const result = await sessions.get('s1');
+
+    expect(result.error).toBeInstanceOf(StorageDeserializationError);
+    expect(result.error?.message).toBe(
+      'Stored value failed validation: Invalid session'
+    );
+  });
+
+  it('should fail when the validator throws', async () => {
+    const throwing = new TypedStore<Session>(store, () => {
+      throw new Error('Boom');
+    });
+    await store.put('s1', '{}');
+
+    const result = await throwing.get('s1');
+
+    expect(result.error).toBeInstanceOf(StorageDeserializationError);
+  });
+
+  it('should fail when the value cannot be serialised', async () => {
+    const bigints = new TypedStore<bigint>(store, (u) =>
+      Result.success(u as bigint)
+    );
+
+    const result = await bigints.put('b', BigInt(1));
+
+    expect(result.isFailure()).toBe(true);
+  });
+
+  it('should return a failure when the underlying store fails', async () => {
+    vi.spyOn(store, 'get').mockRejectedValue(new Error('Store Error'));
+
+    const result = await sessions.get('s1');
+
+    expect(result.error?.message).toBe('Store Error');
+  });
+
+  it('should take a document at most once', async () => {
+    await sessions.put('s1', { state: 'abc', attempts: 1 });
+
+    expect((await sessions.take('s1')).value).toEqual({
+      state: 'abc',
+      attempts: 1,
+    });
+    expect((await sessions.take('s1')).value).toBeNull();
+  });
+
+  it('should validate a taken document', async () => {
+    await store.put('s1', '{"state":1}');
+
+    const result = await sessions.take('s1');
+
+    expect(result.error).toBeInstanceOf(StorageDeserializationError);
+  });
+
+  it('should only offer take over an AtomicKeyValueStore', async () => {
+    const nonAtomic = new TypedStore<Session>(
+      {
+        get: store.get.bind(store),
+        put: store.put.bind(store),
+        delete: store.delete.bind(store),
+        list: store.list.bind(store),
+      },
+      validateSession
+    );
+
+    // @ts-expect-error take requires an AtomicKeyValueStore
+    const result = await nonAtomic.take('s1');
+
+    expect(result.error).toBeInstanceOf(TypeError);
+  });
+
+  it('should delete a document', async () => {
+    await sessions.put('s1', { state: 'abc', attempts: 1 });
+
+    expect((await sessions.delete('s1')).isSuccess()).toBe(true);
+    expect((await sessions.get('s1')).value).toBeNull();
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AtomicKeyValueStore, KeyValueStore } from '../KeyValueStore';
+
+/**
+ * Registers the behaviour every KeyValueStore backend must exhibit.
+ *
+ * @param name - The name of the backend, used as the suite title.
+ * @param createStore - Creates a fresh, empty store that reads time, in milliseconds, from the given clock.
+ */
+export const describeKeyValueStore = (
+  name: string,
+  createStore: (now: () => number) => KeyValueStore
+) => {
+  describe(`${name} (KeyValueStore conformance)`, () => {
+    const start = 1700000000;
+    let current: number;
+    let store: KeyValueStore;
+
+    beforeEach(() => {
+      current = start;
+      store = createStore(() => current * 1000);
+    });
+
+    const advance = (seconds: number) => {
+      current += seconds;
+    };
+
+    it('should return null for a missing key', async () => {
+      expect(await store.get('missing')).toBeNull();
+    });
+
+    it('should return a stored value', async () => {
+      await store.put('key', 'value');
+
+      expect(await store.get('key')).toBe('value');
+    });
+
+    it('should overwrite an existing value', async () => {
+      await store.put('key', 'first');
+      await store.put('key', 'second');
+
+      expect(await store.get('key')).toBe('second');
+    });
+
+    it('should delete a value', async () => {
+      await store.put('key', 'value');
+      await store.delete('key');
+
+      expect(await store.get('key')).toBeNull();
+    });
+
+    it('should not fail when deleting a missing key', async () => {
+      await expect(store.delete('missing')).resolves.toBeUndefined();
+    });
+
+    it('should expire a value after expirationTtl', async () => {
+      await store.put('key', 'value', { expirationTtl: 60 });
+
+      advance(59);
+      expect(await store.get('key')).toBe('value');
+
+      advance(1);
+      expect(await store.get('key')).toBeNull();
+    });
+
+    it('should expire a value at the absolute expiration', async () => {
+      await store.put('key', 'value', { expiration: start + 120 });
+
+      advance(119);
+      expect(await store.get('key')).toBe('value');
+
+      advance(1);
+      expect(await store.get('key')).toBeNull();
+    });
+
+    it('should list keys with expiration and metadata', async () => {
+      await store.put('a', '1', { expiration: start + 60, metadata: { m: 1 } });
+      await store.put('b', '2');
+
+      const result = await store.list();
+
+      expect(result.list_complete).toBe(true);
+      expect(
+        [...result.keys].sort((x, y) => x.name.localeCompare(y.name))
+      ).toEqual([
+        { name: 'a', expiration: start + 60, metadata: { m: 1 } },
+        { name: 'b' },
+      ]);
+    });
+
+    it('should list only keys with the given prefix', async () => {
+      await store.put('p:a', '1');
+      await store.put('p:b', '2');
+      await store.put('q:a', '3');
+
+      const result = await store.list({ prefix: 'p:' });
+
+      expect(result.keys.map((k) => k.name).sort()).toEqual(['p:a', 'p:b']);
+    });
+
+    it('should not list expired keys', async () => {
+      await store.put('a', '1', { expirationTtl: 60 });
+      await store.put('b', '2');
+
+      advance(60);
+      const result = await store.list();
+
+      expect(result.keys.map((k) => k.name)).toEqual(['b']);
+    });
+
+    it('should paginate with limit and cursor', async () => {
+      const names = ['a', 'b', 'c', 'd', 'e'];
+
+      for (const n of names) {
+        await store.put(n, n);
+      }
+
+      const listed: string[] = [];
+      let cursor: string | undefined;
+
+      for (let page = 0; page < names.length + 1; page++) {
+        const result = await store.list({ limit: 2, cursor });
+
+        expect(result.keys.length).toBeLessThanOrEqual(2);
+        listed.push(...result.keys.map((k) => k.name));
+
+        if (result.list_complete) {
+          break;
+        }
+
+        cursor = result.cursor;
+      }
+
+      expect(listed.sort()).toEqual(names);
+    });
+  });
+};
+
+/**
+ * Registers the behaviour every AtomicKeyValueStore backend must exhibit.
+ *
+ * @param name - The name of the backend, used as the suite title.
+ * @param createStore - Creates a fresh, empty store that reads time, in milliseconds, from the given clock.
+ */
+export const describeAtomicKeyValueStore = (
+  name: string,
+  createStore: (now: () => number) => AtomicKeyValueStore
+) => {
+  describe(`${name} (AtomicKeyValueStore conformance)`, () => {
+    const start = 1700000000;
+    let current: number;
+    let store: AtomicKeyValueStore;
+
+    beforeEach(() => {
+      current = start;
+      store = createStore(() => current * 1000);
+    });
+
+    it('should take a value exactly once', async () => {
+      await store.put('key', 'value');
+
+      expect(await store.take('key')).toBe('value');
+      expect(await store.take('key')).toBeNull();
+      expect(await store.get('key')).toBeNull();
+    });
+
+    it('should return null when taking a missing key', async () => {
+      expect(await store.take('missing')).toBeNull();
+    });
+
+    it('should return null when taking an expired value', async () => {
+      await store.put('key', 'value', { expirationTtl: 60 });
+      current += 60;
+
+      expect(await store.take('key')).toBeNull();
+    });
+
+    it('should put a value when the key is absent', async () => {
+      expect(await store.putIfAbsent('key', 'value')).toBe('created');
+      expect(await store.get('key')).toBe('value');
+    });
+
+    it('should not overwrite a live value', async () => {
+      await store.put('key', 'first');
+
+      expect(await store.putIfAbsent('key', 'second')).toBe('already_exists');
+      expect(await store.get('key')).toBe('first');
+    });
+
+    it('should overwrite an expired value', async () => {
+      await store.put('key', 'first', { expirationTtl: 60 });
+      current += 60;
+
+      expect(await store.putIfAbsent('key', 'second')).toBe('created');
+      expect(await store.get('key')).toBe('second');
+    });
+  });
+};
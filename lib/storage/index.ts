@@ -0,0 +1,5 @@
+export * from './KeyValueStore';
+export * from './InMemoryStore';
+export * from './KVNamespaceStore';
+export * from './StorageError';
+export * from './TypedStore';
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { decodeBase64Url, encodeBase64Url } from '../base64url';
+
+describe('base64url', () => {
+  describe('encodeBase64Url', () => {
+    it('should encode strings as UTF-8 without padding', () => {
+      expect(encodeBase64Url('hello')).toBe('aGVsbG8');
+      expect(encodeBase64Url('ü')).toBe('w7w');
+    });
+
+    it('should use the URL-safe alphabet', () => {
+      expect(encodeBase64Url(new Uint8Array([251, 255]))).toBe('-_8');
+    });
+
+    it('should encode empty input', () => {
+      expect(encodeBase64Url(new Uint8Array())).toBe('');
+    });
+  });
+
+  describe('decodeBase64Url', () => {
+    it('should decode with or without padding', () => {
+      const decoder = new TextDecoder();
+
+      expect(decoder.decode(decodeBase64Url('aGVsbG8'))).toBe('hello');
+      expect(decoder.decode(decodeBase64Url('aGVsbG8='))).toBe('hello');
+    });
+
+    it('should round-trip bytes', () => {
+      const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+
+      expect(decodeBase64Url(encodeBase64Url(bytes))).toEqual(bytes);
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => decodeBase64Url('a+b/')).toThrow('Invalid base64url string');
+    });
+  });
+});
@@ -1,5 +1,53 @@
 import { describe, it, expect } from 'vitest';
-import { getErrorMessage, convertToError } from '../errorUtils';
+import {
+  getErrorMessage,
+  convertToError,
+  serializeError,
+  deserializeError,
+  registerErrorClass,
+  registerErrorConverter,
+  registerErrorRestorer,
+} from '../errorUtils';
+import { InvalidNonceError, InvalidTokenError, OAuthError } from '../../oauth';
+
+class InvalidProofError extends Error {
+  readonly code = 'invalid_proof';
+
+  constructor(message: string, readonly proofIndex: number) {
+    super(message);
+    this.name = 'InvalidProofError';
+  }
+}
+
+registerErrorClass(InvalidProofError);
+
+class QuotaExceededError extends Error {
+  readonly retryAfterMs: number;
+
+  constructor(readonly retryAfterSeconds: number) {
+    super(`Quota exceeded, retry after ${retryAfterSeconds}s`);
+    this.name = 'QuotaExceededError';
+    this.retryAfterMs = retryAfterSeconds * 1000;
+  }
+}
+
+registerErrorConverter((value) =>
+  typeof (value as { retryAfterSeconds?: unknown })?.retryAfterSeconds ===
+  'number'
+    ? new QuotaExceededError(
+        (value as { retryAfterSeconds: number }).retryAfterSeconds
+      )
+    : undefined
+);
+registerErrorRestorer((serialized) =>
+  serialized.name === 'QuotaExceededError' &&
+  typeof serialized.retryAfterSeconds === 'number'
+    ? new QuotaExceededError(serialized.retryAfterSeconds)
+    : undefined
+);
+
+const withCause = <E extends Error>(error: E, cause: unknown) =>
+  Object.assign(error, { cause });
 
 describe('errorUtils', () => {
   describe('getErrorMessage', () => {
@@ -69,7 +117,78 @@ describe('errorUtils', () => {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const circularObj: any = { a: 1 };
       circularObj.self = circularObj;
-      expect(() => getErrorMessage(circularObj)).toThrow();
+      expect(getErrorMessage(circularObj)).toBe('{"a":1,"self":"[Circular]"}');
+    });
+
+    it('should not mistake repeated references for circular ones', () => {
+      const shared = { b: 1 };
+      expect(getErrorMessage({ x: shared, y: shared })).toBe(
+        '{"x":{"b":1},"y":{"b":1}}'
+      );
+    });
+
+    it('should handle BigInt values', () => {
+      expect(getErrorMessage(BigInt(10))).toBe('10');
+      expect(getErrorMessage({ amount: BigInt(10) })).toBe('{"amount":"10"}');
+    });
+
+    it('should handle symbols and functions', () => {
+      expect(getErrorMessage(Symbol('oops'))).toBe('Symbol(oops)');
+      expect(getErrorMessage(function fail() {})).toBe('[Function: fail]');
+      expect(getErrorMessage(() => {})).toBe('[Function: (anonymous)]');
+    });
+
+    it('should fall back when stringification throws', () => {
+      const obj = {
+        toJSON() {
+          throw new Error('No JSON');
+        },
+      };
+      expect(getErrorMessage(obj)).toBe('[object Object]');
+    });
+
+    it('should fall back when stringification yields no JSON text', () => {
+      const obj = { toJSON: () => undefined };
+
+      expect(getErrorMessage(obj)).toBe('[object Object]');
+      expect(convertToError(obj).message).toBe('[object Object]');
+    });
+
+    it('should return the message of error-like objects', () => {
+      expect(
+        getErrorMessage({
+          name: 'ThrottlingException',
+          message: 'Rate exceeded',
+          $metadata: { httpStatusCode: 400 },
+        })
+      ).toBe('Rate exceeded');
+    });
+
+    it('should truncate long messages', () => {
+      expect(getErrorMessage('a'.repeat(2000))).toHaveLength(1000);
+      expect(getErrorMessage('abcdef', { maxLength: 4 })).toBe('abc…');
+      expect(getErrorMessage({ list: [1, 2, 3] }, { maxLength: 8 })).toBe(
+        '{"list"…'
+      );
+    });
+
+    it('should include the cause chain when requested', () => {
+      const error = withCause(
+        new Error('outer'),
+        withCause(new Error('inner'), { code: 'E_ROOT' })
+      );
+
+      expect(getErrorMessage(error)).toBe('outer');
+      expect(getErrorMessage(error, { includeCause: true })).toBe(
+        'outer; caused by: inner; caused by: {"code":"E_ROOT"}'
+      );
+    });
+
+    it('should stop at a circular cause chain', () => {
+      const error = new Error('loop');
+      withCause(error, error);
+
+      expect(getErrorMessage(error, { includeCause: true })).toBe('loop');
     });
   });
 
@@ -80,6 +199,13 @@ describe('errorUtils', () => {
       expect(result).toBe(error);
     });
 
+    it('should convert values recognized by a registered converter', () => {
+      const result = convertToError({ retryAfterSeconds: 2 });
+
+      expect(result).toBeInstanceOf(QuotaExceededError);
+      expect(result.message).toBe('Quota exceeded, retry after 2s');
+    });
+
     it('should convert a string to an Error with the string as the message', () => {
       const errorMessage = 'Something went wrong';
       const result = convertToError(errorMessage);
@@ -119,5 +245,279 @@ describe('errorUtils', () => {
       expect(result).toBeInstanceOf(Error);
       expect(result.message).toBe('undefined');
     });
+
+    it('should preserve the original value as the cause', () => {
+      const value = { code: 'ERR_INVALID_DATA' };
+      const result = convertToError(value) as Error & { cause?: unknown };
+      expect(result.cause).toBe(value);
+      expect(Object.keys(result)).not.toContain('cause');
+    });
+
+    it('should not throw for circular objects and BigInt values', () => {
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+      expect(convertToError(circular).message).toBe('{"self":"[Circular]"}');
+      expect(convertToError(BigInt(1)).message).toBe('1');
+    });
+
+    it('should keep the name, code and $metadata of error-like objects', () => {
+      const result = convertToError({
+        name: 'ThrottlingException',
+        message: 'Rate exceeded',
+        code: 'Throttling',
+        $metadata: { httpStatusCode: 400 },
+      });
+
+      expect(result).toBeInstanceOf(Error);
+      expect(result).toMatchObject({
+        name: 'ThrottlingException',
+        message: 'Rate exceeded',
+        code: 'Throttling',
+        $metadata: { httpStatusCode: 400 },
+      });
+    });
+
+    it('should return a DOMException as is', () => {
+      const error = new DOMException('Aborted', 'AbortError');
+      expect(convertToError(error)).toBe(error);
+    });
+
+    it('should convert a DOMException-like object from another realm', () => {
+      const result = convertToError({
+        name: 'AbortError',
+        message: 'The operation was aborted',
+        code: 20,
+      });
+
+      expect(result.name).toBe('AbortError');
+      expect(result.message).toBe('The operation was aborted');
+    });
+
+    it('should include the cause chain in the message when requested', () => {
+      const result = convertToError(
+        withCause({ message: 'outer' } as Error, 'root'),
+        { includeCause: true }
+      );
+      expect(result.message).toBe('outer; caused by: root');
+    });
+  });
+
+  describe('serializeError', () => {
+    it('should serialize the name and message', () => {
+      expect(serializeError(new TypeError('Bad type'))).toEqual({
+        name: 'TypeError',
+        message: 'Bad type',
+      });
+    });
+
+    it('should serialize the cause chain', () => {
+      const error = withCause(
+        new Error('outer'),
+        withCause(new Error('inner'), 'root')
+      );
+
+      expect(serializeError(error)).toEqual({
+        name: 'Error',
+        message: 'outer',
+        cause: {
+          name: 'Error',
+          message: 'inner',
+          cause: 'root',
+        },
+      });
+    });
+
+    it('should serialize the errors of an AggregateError', () => {
+      const error = new AggregateError(
+        [new Error('first'), 'second'],
+        'Both failed'
+      );
+
+      expect(serializeError(error)).toEqual({
+        name: 'AggregateError',
+        message: 'Both failed',
+        errors: [{ name: 'Error', message: 'first' }, 'second'],
+      });
+    });
+
+    it('should serialize custom fields', () => {
+      expect(serializeError(new InvalidProofError('Bad proof', 2))).toEqual({
+        name: 'InvalidProofError',
+        message: 'Bad proof',
+        code: 'invalid_proof',
+        proofIndex: 2,
+      });
+    });
+
+    it('should include the stack only when requested', () => {
+      const error = new Error('With stack');
+
+      expect(serializeError(error).stack).toBeUndefined();
+      expect(serializeError(error, { includeStack: true }).stack).toBe(
+        error.stack
+      );
+    });
+
+    it('should replace circular references', () => {
+      const error = new Error('outer');
+      const data: Record<string, unknown> = { a: 1 };
+      data.self = data;
+      Object.assign(withCause(error, error), { data });
+
+      expect(serializeError(error)).toEqual({
+        name: 'Error',
+        message: 'outer',
+        cause: '[Circular]',
+        data: { a: 1, self: '[Circular]' },
+      });
+    });
+
+    it('should truncate values nested deeper than maxDepth', () => {
+      const error = withCause(
+        new Error('outer'),
+        withCause(new Error('middle'), new Error('inner'))
+      );
+
+      expect(serializeError(error, { maxDepth: 1 })).toEqual({
+        name: 'Error',
+        message: 'outer',
+        cause: { name: 'Error', message: 'middle', cause: '[Truncated]' },
+      });
+    });
+
+    it('should produce JSON-safe values', () => {
+      const error = Object.assign(new Error('Odd fields'), {
+        big: BigInt(10),
+        fn: () => 1,
+        sym: Symbol('s'),
+      });
+
+      expect(JSON.parse(JSON.stringify(serializeError(error)))).toEqual({
+        name: 'Error',
+        message: 'Odd fields',
+        big: '10',
+      });
+    });
+  });
+
+  describe('deserializeError', () => {
+    it('should restore built-in error classes', () => {
+      const error = deserializeError({
+        name: 'TypeError',
+        message: 'Bad type',
+      });
+
+      expect(error).toBeInstanceOf(TypeError);
+      expect(error.name).toBe('TypeError');
+      expect(error.message).toBe('Bad type');
+    });
+
+    it('should round-trip registered custom classes with their fields', () => {
+      const original = new InvalidProofError('Bad proof', 2);
+      const error = deserializeError(
+        JSON.parse(JSON.stringify(serializeError(original)))
+      );
+
+      expect(error).toBeInstanceOf(InvalidProofError);
+      expect(error).toMatchObject({
+        name: 'InvalidProofError',
+        message: 'Bad proof',
+        code: 'invalid_proof',
+        proofIndex: 2,
+      });
+    });
+
+    it('should rebuild OAuth errors with their status, code and parameters', () => {
+      const original = new InvalidNonceError('Stale nonce', {
+        parameters: { c_nonce: 'fresh' },
+      });
+      const error = deserializeError(
+        JSON.parse(JSON.stringify(serializeError(original)))
+      );
+
+      expect(error).toBeInstanceOf(InvalidNonceError);
+      expect(error).toMatchObject({
+        name: 'InvalidNonceError',
+        message: 'Stale nonce',
+        code: 'invalid_nonce',
+        status: 400,
+        parameters: { c_nonce: 'fresh' },
+      });
+      expect((error as OAuthError).toJSON()).toEqual(original.toJSON());
+    });
+
+    it('should rebuild OAuth errors serialized without their status and parameters', () => {
+      const error = deserializeError({
+        name: 'InvalidTokenError',
+        message: 'Expired',
+        code: 'invalid_token',
+      });
+
+      expect(error).toBeInstanceOf(InvalidTokenError);
+      expect(error).toMatchObject({
+        code: 'invalid_token',
+        status: 401,
+        description: 'Expired',
+        parameters: {},
+      });
+      expect((error as OAuthError).toResponse().status).toBe(401);
+    });
+
+    it('should rebuild errors through a registered restorer', () => {
+      const error = deserializeError({
+        name: 'QuotaExceededError',
+        message: 'Quota exceeded, retry after 3s',
+        retryAfterSeconds: 3,
+        requestId: 'r-1',
+      });
+
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      expect(error).toMatchObject({ retryAfterMs: 3000, requestId: 'r-1' });
+    });
+
+    it('should round-trip cause chains and aggregated errors', () => {
+      const original = withCause(
+        new AggregateError([new RangeError('Out of range')], 'Failed'),
+        new Error('root')
+      );
+      const error = deserializeError(
+        JSON.parse(JSON.stringify(serializeError(original)))
+      ) as AggregateError & { cause?: unknown };
+
+      expect(error).toBeInstanceOf(AggregateError);
+      expect(error.errors[0]).toBeInstanceOf(RangeError);
+      expect(error.errors[0].message).toBe('Out of range');
+      expect(error.cause).toBeInstanceOf(Error);
+      expect((error.cause as Error).message).toBe('root');
+    });
+
+    it('should restore unregistered names as plain Errors', () => {
+      const error = deserializeError({ name: 'UnknownError', message: 'Huh' });
+
+      expect(Object.getPrototypeOf(error)).toBe(Error.prototype);
+      expect(error.name).toBe('UnknownError');
+    });
+
+    it('should convert values that are not serialized errors', () => {
+      expect(deserializeError('Something went wrong').message).toBe(
+        'Something went wrong'
+      );
+      expect(deserializeError(null).message).toBe('null');
+    });
+
+    it('should ignore keys that could pollute prototypes', () => {
+      const error = deserializeError(
+        JSON.parse(
+          '{"name":"Error","message":"Evil","__proto__":{"polluted":true},' +
+            '"constructor":{"prototype":{"polluted":true}},' +
+            '"data":{"__proto__":{"polluted":true}}}'
+        )
+      ) as Error & { data?: object };
+
+      expect(Object.getPrototypeOf(error)).toBe(Error.prototype);
+      expect(({} as { polluted?: boolean }).polluted).toBeUndefined();
+      expect(Object.getPrototypeOf(error.data)).toBe(Object.prototype);
+      expect(error).not.toHaveProperty('polluted');
+    });
   });
 });
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { parseJsonPath, queryJsonPath } from '../jsonPath';
+import { ValidationError } from '../validation';
+
+const credential = {
+  vc: {
+    type: ['VerifiableCredential', 'UniversityDegree'],
+    credentialSubject: {
+      'given-name': 'Alice',
+      degree: { type: 'BachelorDegree', name: "Bachelor's" },
+    },
+  },
+  "it's": 1,
+};
+
+describe('jsonPath', () => {
+  describe('parseJsonPath', () => {
+    it('should parse dot and bracket notation', () => {
+      expect(parseJsonPath("$.vc['type'][-1]..name.*[*]").value).toEqual([
+        { kind: 'member', name: 'vc', descendant: false },
+        { kind: 'member', name: 'type', descendant: false },
+        { kind: 'index', index: -1, descendant: false },
+        { kind: 'member', name: 'name', descendant: true },
+        { kind: 'wildcard', descendant: false },
+        { kind: 'wildcard', descendant: false },
+      ]);
+    });
+
+    it('should parse the root and descendant brackets', () => {
+      expect(parseJsonPath('$').value).toEqual([]);
+      expect(parseJsonPath('$..[0]').value).toEqual([
+        { kind: 'index', index: 0, descendant: true },
+      ]);
+    });
+
+    it.each([
+      ['vc.type', "Value must start with '$'"],
+      ['$.', 'Value has an invalid member name at 2'],
+      ['$vc', 'Value has an unexpected character at 1'],
+      ["$['vc", 'Value has an unterminated name at 2'],
+      ['$[?(@.a)]', 'Value has an invalid selector at 2'],
+      ['$[0:2]', 'Value has an unterminated selector at 3'],
+    ])('should reject %s', (expression, message) => {
+      const result = parseJsonPath(expression);
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(result.error?.message).toBe(message);
+    });
+  });
+
+  describe('queryJsonPath', () => {
+    it('should select members and elements with normalized paths', () => {
+      expect(
+        queryJsonPath(credential, "$.vc.credentialSubject['given-name']").value
+      ).toEqual([
+        { path: "$['vc']['credentialSubject']['given-name']", value: 'Alice' },
+      ]);
+      expect(queryJsonPath(credential, '$.vc.type[-1]').value).toEqual([
+        { path: "$['vc']['type'][1]", value: 'UniversityDegree' },
+      ]);
+    });
+
+    it('should select all children with a wildcard', () => {
+      expect(
+        queryJsonPath(credential, '$.vc.type[*]').value?.map(
+          ({ value }) => value
+        )
+      ).toEqual(['VerifiableCredential', 'UniversityDegree']);
+    });
+
+    it('should select descendants in document order', () => {
+      expect(queryJsonPath(credential, '$..type').value).toEqual([
+        { path: "$['vc']['type']", value: credential.vc.type },
+        {
+          path: "$['vc']['credentialSubject']['degree']['type']",
+          value: 'BachelorDegree',
+        },
+      ]);
+    });
+
+    it('should escape quotes in normalized paths', () => {
+      expect(queryJsonPath(credential, `$["it's"]`).value).toEqual([
+        { path: "$['it\\'s']", value: 1 },
+      ]);
+    });
+
+    it('should return no matches for missing values', () => {
+      expect(queryJsonPath(credential, '$.vc.missing.name').value).toEqual([]);
+      expect(queryJsonPath(credential, '$.vc.type[5]').value).toEqual([]);
+      expect(queryJsonPath(credential, '$.vc[0]').value).toEqual([]);
+      expect(queryJsonPath(credential, '$.vc.type.length').value).toEqual([]);
+    });
+
+    it('should fail for an unsupported expression', () => {
+      expect(queryJsonPath(credential, 'vc').error).toBeInstanceOf(
+        ValidationError
+      );
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { JsonSchema, validateJsonSchema } from '../jsonSchema';
+import { ValidationError } from '../validation';
+
+describe('jsonSchema', () => {
+  describe('validateJsonSchema', () => {
+    it.each<[unknown, JsonSchema]>([
+      ['Alice', { type: 'string', minLength: 1, maxLength: 5 }],
+      [3, { type: 'number', minimum: 3, exclusiveMaximum: 4, multipleOf: 3 }],
+      [3, { type: ['string', 'integer'] }],
+      [null, { type: 'null' }],
+      [{ a: [1] }, { const: { a: [1] } }],
+      ['UniversityDegree', { enum: ['UniversityDegree', 'Diploma'] }],
+      ['urn:eu:pid:1', { pattern: '^urn:eu:' }],
+      ['2000-01-31', { format: 'date', formatMaximum: '2007-01-01' }],
+      [
+        '2030-01-01T00:00:00Z',
+        { format: 'date-time', formatExclusiveMinimum: '2029-12-31T23:59:59Z' },
+      ],
+      ['https://example.com', { format: 'uri' }],
+      ['a@example.com', { format: 'email' }],
+      ['x', { format: 'hostname' }],
+      [
+        ['VC', 'Degree'],
+        {
+          type: 'array',
+          contains: { const: 'Degree' },
+          minItems: 2,
+          uniqueItems: true,
+        },
+      ],
+      [
+        { name: 'Alice' },
+        { required: ['name'], properties: { name: { type: 'string' } } },
+      ],
+      [true, { not: { const: false } }],
+      [
+        5,
+        {
+          allOf: [{ minimum: 1 }, { maximum: 9 }],
+          anyOf: [{ const: 5 }, { const: 6 }],
+          oneOf: [{ minimum: 5 }, { maximum: 4 }],
+        },
+      ],
+      ['anything', { unknownKeyword: 1 }],
+    ])('should accept %j against %j', (value, schema) => {
+      expect(validateJsonSchema(value, schema).isSuccess()).toBe(true);
+    });
+
+    it.each<[unknown, JsonSchema, string]>([
+      [1.5, { type: 'integer' }, 'Value must be of type integer'],
+      [
+        'a',
+        { type: ['number', 'boolean'] },
+        'Value must be of type number or boolean',
+      ],
+      [{ a: [2] }, { const: { a: [1] } }, 'Value must be {"a":[1]}'],
+      ['x', { enum: ['a', 1] }, 'Value must be one of "a", 1'],
+      ['', { minLength: 1 }, 'Value must be at least 1 characters long'],
+      ['🙂🙂', { maxLength: 1 }, 'Value must be at most 1 characters long'],
+      [
+        'urn:x',
+        { pattern: '^urn:eu:' },
+        'Value must match the pattern ^urn:eu:',
+      ],
+      ['2000-02-30x', { format: 'date' }, 'Value must be a valid date'],
+      [
+        '2010-01-01',
+        { format: 'date', formatMaximum: '2007-01-01' },
+        'Value must be at or before 2007-01-01',
+      ],
+      [
+        '2000-01-01',
+        { format: 'date', formatMinimum: '2007-01-01' },
+        'Value must be at or after 2007-01-01',
+      ],
+      [17, { minimum: 18 }, 'Value must be at least 18'],
+      [18, { exclusiveMinimum: 18 }, 'Value must be greater than 18'],
+      [5, { multipleOf: 2 }, 'Value must be a multiple of 2'],
+      [[], { minItems: 1 }, 'Value must contain at least 1 items'],
+      [[1, 1], { uniqueItems: true }, 'Value must contain unique items'],
+      [
+        ['VC'],
+        { contains: { const: 'Degree' } },
+        'Value must contain a matching item',
+      ],
+      [[1, 'a'], { items: { type: 'number' } }, '[1] must be of type number'],
+      [{}, { required: ['name'] }, 'name is required'],
+      [
+        { age: { value: 17 } },
+        { properties: { age: { properties: { value: { minimum: 18 } } } } },
+        'age.value must be at least 18',
+      ],
+      [
+        false,
+        { not: { const: false } },
+        'Value must not match the schema in not',
+      ],
+      [5, { anyOf: [{ const: 4 }] }, 'Value must match a schema in anyOf'],
+      [
+        5,
+        { oneOf: [{ minimum: 1 }, { minimum: 2 }] },
+        'Value must match exactly one schema in oneOf',
+      ],
+    ])('should reject %j against %j', (value, schema, message) => {
+      const result = validateJsonSchema(value, schema);
+
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(result.error?.message).toBe(message);
+    });
+
+    it('should fail for an invalid pattern', () => {
+      expect(validateJsonSchema('a', { pattern: '(' }).isFailure()).toBe(true);
+    });
+
+    it('should reject patterns longer than maxPatternLength', () => {
+      const schema = { pattern: '^urn:eu:' };
+
+      expect(
+        validateJsonSchema('urn:eu:pid:1', schema, {
+          maxPatternLength: 8,
+        }).isSuccess()
+      ).toBe(true);
+      expect(
+        validateJsonSchema('urn:eu:pid:1', schema, { maxPatternLength: 7 })
+          .error?.message
+      ).toBe(
+        'Value cannot be checked against a pattern longer than 7 characters'
+      );
+    });
+
+    it.each(['^(a+)+$', '(\\d*\\.){2,}', '((ab)*c)+', '(?:a|b*)*'])(
+      'should reject the nested quantifiers of %s if not allowed',
+      (pattern) => {
+        const result = validateJsonSchema(
+          { claim: 'a' },
+          { properties: { claim: { pattern } } },
+          { allowNestedQuantifiers: false }
+        );
+
+        expect(result.error?.message).toBe(
+          `claim cannot be checked against the pattern ${pattern}, which has nested quantifiers`
+        );
+      }
+    );
+
+    it.each(['^a+b*$', '(ab)+', '(a+)b+', '[(+]+', '\\(a+\\)+', '(a{2})'])(
+      'should evaluate %s without nested quantifiers',
+      (pattern) => {
+        expect(
+          validateJsonSchema(
+            'x',
+            { not: { pattern } },
+            {
+              allowNestedQuantifiers: false,
+            }
+          ).isSuccess()
+        ).toBe(true);
+      }
+    );
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { randomBase64Url, randomString } from '../random';
+
+describe('random', () => {
+  describe('randomBase64Url', () => {
+    it('should encode the requested number of random bytes', () => {
+      expect(randomBase64Url()).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(randomBase64Url(3, (bytes) => bytes.fill(0))).toBe('AAAA');
+    });
+  });
+
+  describe('randomString', () => {
+    it('should draw characters from the alphabet', () => {
+      expect(randomString(8, '0123456789')).toMatch(/^[0-9]{8}$/);
+    });
+
+    it('should reject bytes that would bias the distribution', () => {
+      const bytes = [250, 255, 3, 12, 249];
+      const random = (target: Uint8Array) => {
+        target.forEach((_, i) => (target[i] = bytes.shift() ?? 0));
+        return target;
+      };
+
+      expect(randomString(3, '0123456789', random)).toBe('329');
+    });
+
+    it('should return an empty string for length 0', () => {
+      expect(randomString(0, 'abc')).toBe('');
+    });
+
+    it('should reject an empty alphabet', () => {
+      expect(() => randomString(4, '')).toThrow(RangeError);
+    });
+  });
+});
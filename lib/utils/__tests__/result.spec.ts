@@ -1,6 +1,20 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
 import { Result, runCatching, runAsyncCatching } from '../result';
 
+class ConflictError extends Error {
+  constructor(message: string, readonly expected: number) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+class InvalidGrantError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidGrantError';
+  }
+}
+
 describe('Result', () => {
   describe('success', () => {
     it('should create a successful result with the given value', () => {
@@ -26,6 +40,73 @@ describe('Result', () => {
     });
   });
 
+  describe('typed errors', () => {
+    it('should preserve the type of the error of a failure', () => {
+      const result = Result.failure<number, ConflictError>(
+        new ConflictError('Conflict', 1)
+      );
+
+      expectTypeOf(result).toEqualTypeOf<Result<number, ConflictError>>();
+      expect(result.isFailure() && result.error.expected).toBe(1);
+    });
+
+    it('should infer the type of the error from the argument', () => {
+      const result = Result.failure(new ConflictError('Conflict', 1));
+
+      expectTypeOf(result.error).toEqualTypeOf<ConflictError | undefined>();
+    });
+
+    it('should be assignable to a Result with the default error type', () => {
+      const typed = Result.failure<number, ConflictError>(
+        new ConflictError('Conflict', 1)
+      );
+      const plain: Result<number> = typed;
+
+      expect(plain.error).toBeInstanceOf(ConflictError);
+    });
+
+    it('should pass the typed error to failure callbacks', () => {
+      const result = Result.failure<number, ConflictError>(
+        new ConflictError('Conflict', 3)
+      );
+
+      expect(result.getOrElse((error) => error.expected)).toBe(3);
+      expect(
+        result.fold(
+          () => 0,
+          (error) => error.expected
+        )
+      ).toBe(3);
+    });
+  });
+
+  describe('isFailureOf', () => {
+    it('should narrow the error to the specified class', () => {
+      const result: Result<number> = Result.failure(
+        new ConflictError('Conflict', 2)
+      );
+
+      if (!result.isFailureOf(ConflictError)) {
+        expect.unreachable();
+      }
+
+      expectTypeOf(result.error).toMatchTypeOf<ConflictError>();
+      expect(result.error.expected).toBe(2);
+    });
+
+    it('should return false for a failure of another class', () => {
+      const result = Result.failure(new InvalidGrantError('Invalid grant'));
+
+      expect(result.isFailureOf(ConflictError)).toBe(false);
+      expect(result.isFailureOf(InvalidGrantError)).toBe(true);
+      expect(result.isFailureOf(Error)).toBe(true);
+    });
+
+    it('should return false for a successful result', () => {
+      expect(Result.success(42).isFailureOf(Error)).toBe(false);
+    });
+  });
+
   describe('getOrThrow', () => {
     it('should return the value if the result is successful', () => {
       const value = 42;
@@ -166,6 +247,585 @@ describe('Result', () => {
       expect(recoveredResult.value).toBe(transformedValue);
     });
   });
+  describe('map', () => {
+    it('should transform the value of a successful result', () => {
+      const result = Result.success(21).map((value) => value * 2);
+
+      expect(result.isSuccess()).toBe(true);
+      expect(result.value).toBe(42);
+    });
+
+    it('should keep the error of a failure without calling the transform', () => {
+      const error = new Error('Something went wrong');
+      const transform = vi.fn();
+      const result = Result.failure<number>(error).map(transform);
+
+      expect(result.error).toBe(error);
+      expect(transform).not.toHaveBeenCalled();
+    });
+
+    it('should return a failure if the transform throws', () => {
+      const result = Result.success(42).map(() => {
+        throw 'boom';
+      });
+
+      expect(result.isFailure()).toBe(true);
+      expect(result.error?.message).toBe('boom');
+    });
+
+    it('should not unwrap a Result returned by the transform', () => {
+      const inner = Result.success(42);
+      const result = Result.success(0).map(() => inner);
+
+      expect(result.value).toBe(inner);
+    });
+  });
+
+  describe('mapAsync', () => {
+    it('should transform the value of a successful result', async () => {
+      const result = await Result.success(21).mapAsync(
+        async (value) => value * 2
+      );
+
+      expect(result.value).toBe(42);
+    });
+
+    it('should return a failure if the transform rejects', async () => {
+      const error = new Error('Async error');
+      const result = await Result.success(42).mapAsync(() =>
+        Promise.reject(error)
+      );
+
+      expect(result.error).toBe(error);
+    });
+
+    it('should keep the error of a failure', async () => {
+      const error = new Error('Something went wrong');
+      const result = await Result.failure<number>(error).mapAsync(
+        async (value) => value * 2
+      );
+
+      expect(result.error).toBe(error);
+    });
+  });
+
+  describe('mapError', () => {
+    it('should transform the error of a failure', () => {
+      const result = Result.failure(new Error('inner')).mapError(
+        (error) => new Error(`outer: ${error.message}`)
+      );
+
+      expect(result.error?.message).toBe('outer: inner');
+    });
+
+    it('should return the original result if it is successful', () => {
+      const original = Result.success(42);
+
+      expect(original.mapError(() => new Error('unused'))).toBe(original);
+    });
+
+    it('should return the thrown error if the transform throws', () => {
+      const thrown = new Error('thrown');
+      const result = Result.failure(new Error('inner')).mapError(() => {
+        throw thrown;
+      });
+
+      expect(result.error).toBe(thrown);
+    });
+  });
+
+  describe('flatMap', () => {
+    it('should return the result of the transform for a successful result', () => {
+      const error = new Error('Too small');
+      const transform = (value: number) =>
+        value > 10 ? Result.success(value) : Result.failure<number>(error);
+
+      expect(Result.success(42).flatMap(transform).value).toBe(42);
+      expect(Result.success(1).flatMap(transform).error).toBe(error);
+    });
+
+    it('should keep the error of a failure', () => {
+      const error = new Error('Something went wrong');
+      const result = Result.failure<number>(error).flatMap((value) =>
+        Result.success(value * 2)
+      );
+
+      expect(result.error).toBe(error);
+    });
+
+    it('should return a failure if the transform throws', () => {
+      const result = Result.success(42).flatMap(() => {
+        throw new Error('thrown');
+      });
+
+      expect(result.error?.message).toBe('thrown');
+    });
+  });
+
+  describe('flatMapAsync', () => {
+    it('should return the result of the async transform for a successful result', async () => {
+      const result = await Result.success(21).flatMapAsync(async (value) =>
+        Result.success(value * 2)
+      );
+
+      expect(result.value).toBe(42);
+    });
+
+    it('should return a failure if the transform rejects', async () => {
+      const result = await Result.success(42).flatMapAsync(() =>
+        Promise.reject('rejected')
+      );
+
+      expect(result.error?.message).toBe('rejected');
+    });
+
+    it('should keep the error of a failure', async () => {
+      const error = new Error('Something went wrong');
+      const transform = vi.fn();
+      const result = await Result.failure<number>(error).flatMapAsync(
+        transform
+      );
+
+      expect(result.error).toBe(error);
+      expect(transform).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fold', () => {
+    it('should apply the success function to a successful result', () => {
+      const folded = Result.success(42).fold(
+        (value) => `value: ${value}`,
+        (error) => `error: ${error.message}`
+      );
+
+      expect(folded).toBe('value: 42');
+    });
+
+    it('should apply the failure function to a failure', () => {
+      const folded = Result.failure<number>(new Error('boom')).fold(
+        (value) => `value: ${value}`,
+        (error) => `error: ${error.message}`
+      );
+
+      expect(folded).toBe('error: boom');
+    });
+  });
+
+  describe('zip', () => {
+    it('should pair the values of two successful results', () => {
+      const result = Result.success(42).zip(Result.success('a'));
+
+      expect(result.value).toEqual([42, 'a']);
+    });
+
+    it('should return the first failure', () => {
+      const first = new Error('first');
+      const second = new Error('second');
+
+      expect(Result.failure(first).zip(Result.failure(second)).error).toBe(
+        first
+      );
+      expect(Result.success(42).zip(Result.failure(second)).error).toBe(second);
+    });
+  });
+
+  describe('combine', () => {
+    it('should combine the values of two successful results', () => {
+      const result = Result.success(40).combine(
+        Result.success(2),
+        (a, b) => a + b
+      );
+
+      expect(result.value).toBe(42);
+    });
+
+    it('should return a failure if the combiner throws', () => {
+      const result = Result.success(1).combine(Result.success(2), () => {
+        throw new Error('thrown');
+      });
+
+      expect(result.error?.message).toBe('thrown');
+    });
+  });
+
+  describe('filter', () => {
+    it('should keep a value that satisfies the predicate', () => {
+      const original = Result.success(42);
+
+      expect(
+        original.filter(
+          (value) => value > 10,
+          () => new Error('Too small')
+        )
+      ).toBe(original);
+    });
+
+    it('should turn a value that does not satisfy the predicate into a failure', () => {
+      const result = Result.success(1).filter(
+        (value) => value > 10,
+        (value) => new Error(`${value} is too small`)
+      );
+
+      expect(result.error?.message).toBe('1 is too small');
+    });
+
+    it('should keep the error of a failure', () => {
+      const error = new Error('Something went wrong');
+      const predicate = vi.fn();
+
+      expect(
+        Result.failure(error).filter(predicate, () => new Error('unused')).error
+      ).toBe(error);
+      expect(predicate).not.toHaveBeenCalled();
+    });
+
+    it('should return a failure if the predicate throws', () => {
+      const result = Result.success(42).filter(
+        () => {
+          throw new Error('thrown');
+        },
+        () => new Error('unused')
+      );
+
+      expect(result.error?.message).toBe('thrown');
+    });
+  });
+
+  describe('toPromise', () => {
+    it('should resolve to the value of a successful result', async () => {
+      await expect(Result.success(42).toPromise()).resolves.toBe(42);
+    });
+
+    it('should reject with the error of a failure', async () => {
+      const error = new Error('Something went wrong');
+
+      await expect(Result.failure(error).toPromise()).rejects.toBe(error);
+    });
+  });
+});
+
+describe('Result serialization', () => {
+  it('should convert a successful result to JSON', () => {
+    expect(JSON.stringify(Result.success({ a: 1 }))).toBe(
+      '{"success":true,"value":{"a":1}}'
+    );
+  });
+
+  it('should convert a failure to JSON with a serialized error', () => {
+    expect(Result.failure(new TypeError('Bad type')).toJSON()).toEqual({
+      success: false,
+      error: { name: 'TypeError', message: 'Bad type' },
+    });
+  });
+
+  it('should round-trip a successful result', () => {
+    const result = Result.fromJSON<{ a: number }>(
+      JSON.parse(JSON.stringify(Result.success({ a: 1 })))
+    );
+
+    expect(result.isSuccess()).toBe(true);
+    expect(result.value).toEqual({ a: 1 });
+  });
+
+  it('should round-trip a failure', () => {
+    const error = Object.assign(new RangeError('Out of range'), {
+      cause: new Error('root'),
+    });
+    const result = Result.fromJSON(
+      JSON.parse(JSON.stringify(Result.failure(error)))
+    );
+
+    expect(result.error).toBeInstanceOf(RangeError);
+    expect(result.error?.message).toBe('Out of range');
+    expect((result.error as { cause?: Error }).cause?.message).toBe('root');
+  });
+
+  it('should throw for values that are not a Result', () => {
+    expect(() => Result.fromJSON(null)).toThrow(TypeError);
+    expect(() => Result.fromJSON({ value: 1 })).toThrow(TypeError);
+  });
+});
+
+describe('Result aggregation', () => {
+  const first = new Error('first');
+  const second = new Error('second');
+
+  const deferred = <T>() => {
+    let resolve!: (value: Result<T>) => void;
+    let reject!: (reason: unknown) => void;
+    const promise = new Promise<Result<T>>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+
+    return { promise, resolve, reject };
+  };
+
+  const collectUnhandledRejections = async (f: () => Promise<void>) => {
+    const reasons: unknown[] = [];
+    const listener = (reason: unknown) => reasons.push(reason);
+
+    process.on('unhandledRejection', listener);
+    try {
+      await f();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    } finally {
+      process.off('unhandledRejection', listener);
+    }
+
+    return reasons;
+  };
+
+  describe('all', () => {
+    it('should collect every value in order', () => {
+      const result = Result.all([Result.success(1), Result.success(2)]);
+
+      expect(result.value).toEqual([1, 2]);
+    });
+
+    it('should return the first failure', () => {
+      const result = Result.all([
+        Result.success(1),
+        Result.failure<number>(first),
+        Result.failure<number>(second),
+      ]);
+
+      expect(result.error).toBe(first);
+    });
+
+    it('should return an empty array for no results', () => {
+      expect(Result.all([]).value).toEqual([]);
+    });
+  });
+
+  describe('allSettled', () => {
+    it('should collect every value in order', () => {
+      const result = Result.allSettled([Result.success(1), Result.success(2)]);
+
+      expect(result.value).toEqual([1, 2]);
+    });
+
+    it('should collect every error into an AggregateError', () => {
+      const result = Result.allSettled([
+        Result.failure<number>(first),
+        Result.success(1),
+        Result.failure<number>(second),
+      ]);
+
+      expect(result.error).toBeInstanceOf(AggregateError);
+      expect(result.error?.errors).toEqual([first, second]);
+      expect(result.error?.message).toBe('2 of 3 results failed');
+    });
+  });
+
+  describe('any', () => {
+    it('should return the first successful result', () => {
+      const result = Result.any([
+        Result.failure<number>(first),
+        Result.success(1),
+        Result.success(2),
+      ]);
+
+      expect(result.value).toBe(1);
+    });
+
+    it('should collect every error if all results failed', () => {
+      const result = Result.any([
+        Result.failure<number>(first),
+        Result.failure<number>(second),
+      ]);
+
+      expect(result.error).toBeInstanceOf(AggregateError);
+      expect(result.error?.errors).toEqual([first, second]);
+      expect(result.error?.message).toBe('All 2 results failed');
+    });
+
+    it('should fail for no results', () => {
+      expect(Result.any([]).isFailure()).toBe(true);
+    });
+  });
+
+  describe('partition', () => {
+    it('should split values and errors, each in order', () => {
+      const typed = new ConflictError('Conflict', 1);
+      const { values, errors } = Result.partition([
+        Result.success<number, ConflictError>(1),
+        Result.failure<number, ConflictError>(typed),
+        Result.success<number, ConflictError>(2),
+      ]);
+
+      expect(values).toEqual([1, 2]);
+      expectTypeOf(errors).toEqualTypeOf<ConflictError[]>();
+      expect(errors).toEqual([typed]);
+    });
+  });
+
+  describe('allAsync', () => {
+    it('should collect every value in the order of the tasks', async () => {
+      const slow = deferred<number>();
+      const pending = Result.allAsync([
+        slow.promise,
+        Promise.resolve(Result.success(2)),
+      ]);
+      slow.resolve(Result.success(1));
+
+      expect((await pending).value).toEqual([1, 2]);
+    });
+
+    it('should return the first failure without waiting for other tasks', async () => {
+      const never = deferred<number>();
+      const result = await Result.allAsync([
+        never.promise,
+        Promise.resolve(Result.failure<number>(first)),
+      ]);
+
+      expect(result.error).toBe(first);
+    });
+
+    it('should turn a rejected task into a failure', async () => {
+      const result = await Result.allAsync([Promise.reject('rejected')]);
+
+      expect(result.error?.message).toBe('rejected');
+    });
+
+    it('should not start further tasks after a failure', async () => {
+      const task = vi.fn(async () => Result.success(1));
+      const result = await Result.allAsync(
+        [async () => Result.failure<number>(first), task],
+        { concurrency: 1 }
+      );
+
+      expect(result.error).toBe(first);
+      expect(task).not.toHaveBeenCalled();
+    });
+
+    it('should run at most the concurrency limit of tasks at once', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const task = (value: number) => async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        running--;
+        return Result.success(value);
+      };
+
+      const result = await Result.allAsync([1, 2, 3, 4, 5].map(task), {
+        concurrency: 2,
+      });
+
+      expect(result.value).toEqual([1, 2, 3, 4, 5]);
+      expect(maxRunning).toBe(2);
+    });
+
+    it('should handle a promise that rejects after a failure', async () => {
+      const late = deferred<number>();
+      const reasons = await collectUnhandledRejections(async () => {
+        const result = await Result.allAsync(
+          [Promise.resolve(Result.failure<number>(first)), late.promise],
+          { concurrency: 1 }
+        );
+
+        expect(result.error).toBe(first);
+        late.reject(new Error('late'));
+      });
+
+      expect(reasons).toEqual([]);
+    });
+
+    it('should not hold promises back behind the concurrency limit', async () => {
+      const slow = deferred<number>();
+      const late = deferred<number>();
+      const reasons = await collectUnhandledRejections(async () => {
+        const pending = Result.allAsync([() => slow.promise, late.promise], {
+          concurrency: 1,
+        });
+        late.reject(second);
+
+        expect((await pending).error).toBe(second);
+        slow.resolve(Result.success(1));
+      });
+
+      expect(reasons).toEqual([]);
+    });
+  });
+
+  describe('allSettledAsync', () => {
+    it('should collect every error into an AggregateError', async () => {
+      const result = await Result.allSettledAsync(
+        [
+          async () => Result.failure<number>(first),
+          async () => Result.success(1),
+          async () => {
+            throw second;
+          },
+        ],
+        { concurrency: 1 }
+      );
+
+      expect(result.error).toBeInstanceOf(AggregateError);
+      expect(result.error?.errors).toEqual([first, second]);
+    });
+
+    it('should collect every value in order', async () => {
+      const result = await Result.allSettledAsync([
+        Promise.resolve(Result.success(1)),
+        Promise.resolve(Result.success(2)),
+      ]);
+
+      expect(result.value).toEqual([1, 2]);
+    });
+  });
+
+  describe('anyAsync', () => {
+    it('should return the first success without waiting for other tasks', async () => {
+      const never = deferred<number>();
+      const result = await Result.anyAsync([
+        never.promise,
+        Promise.resolve(Result.success(1)),
+      ]);
+
+      expect(result.value).toBe(1);
+    });
+
+    it('should not start further tasks after a success', async () => {
+      const task = vi.fn(async () => Result.success(2));
+      const result = await Result.anyAsync(
+        [
+          async () => Result.failure<number>(first),
+          async () => Result.success(1),
+          task,
+        ],
+        { concurrency: 1 }
+      );
+
+      expect(result.value).toBe(1);
+      expect(task).not.toHaveBeenCalled();
+    });
+
+    it('should collect every error if all tasks failed', async () => {
+      const result = await Result.anyAsync([
+        Promise.resolve(Result.failure<number>(first)),
+        Promise.reject(second),
+      ]);
+
+      expect(result.error?.errors).toEqual([first, second]);
+    });
+  });
+
+  describe('partitionAsync', () => {
+    it('should split values and errors in the order of the tasks', async () => {
+      const slow = deferred<number>();
+      const pending = Result.partitionAsync([
+        slow.promise,
+        Promise.resolve(Result.failure<number>(second)),
+        Promise.resolve(Result.success(2)),
+      ]);
+      slow.resolve(Result.failure(first));
+
+      expect(await pending).toEqual({ values: [2], errors: [first, second] });
+    });
+  });
 });
 
 describe('runCatching', () => {
@@ -189,11 +849,45 @@ describe('runCatching', () => {
     expect(result.isFailure() && result.error.message).toBe('string error');
   });
 
+  it('should handle thrown values without a JSON representation', () => {
+    const result = runCatching(() => {
+      throw { toJSON: () => undefined };
+    });
+    expect(result.isFailure() && result.error.message).toBe('[object Object]');
+  });
+
   it('should return the Result if the function returns a Result', () => {
     const innerResult = Result.success(42);
     const result = runCatching(() => innerResult);
     expect(result).toBe(innerResult);
   });
+
+  it('should pass the arguments to the function', () => {
+    const result = runCatching((a: number, b: number) => a + b, 40, 2);
+    expect(result.value).toBe(42);
+  });
+
+  it('should map a thrown value with the error mapper', () => {
+    const mapError = vi.fn(
+      (e: unknown) => new InvalidGrantError(`Invalid grant: ${e}`)
+    );
+    const result = runCatching({ mapError }, () => {
+      throw 'expired';
+    });
+
+    expectTypeOf(result).toEqualTypeOf<Result<never, InvalidGrantError>>();
+    expect(mapError).toHaveBeenCalledWith('expired');
+    expect(result.isFailureOf(InvalidGrantError)).toBe(true);
+    expect(result.error?.message).toBe('Invalid grant: expired');
+  });
+
+  it('should not call the error mapper when the function succeeds', () => {
+    const mapError = vi.fn(() => new InvalidGrantError('unused'));
+    const result = runCatching({ mapError }, (a: number) => a * 2, 21);
+
+    expect(result.value).toBe(42);
+    expect(mapError).not.toHaveBeenCalled();
+  });
 });
 
 describe('runAsyncCatching', () => {
@@ -222,4 +916,18 @@ describe('runAsyncCatching', () => {
     const result = await runAsyncCatching(async () => innerResult);
     expect(result).toBe(innerResult);
   });
+
+  it('should map a rejection with the error mapper', async () => {
+    const result = await runAsyncCatching(
+      { mapError: (e) => new ConflictError(String(e), 7) },
+      async (key: string) => {
+        throw `${key} changed`;
+      },
+      'session'
+    );
+
+    expect(result.isFailureOf(ConflictError)).toBe(true);
+    expect(result.error?.message).toBe('session changed');
+    expect(result.error?.expected).toBe(7);
+  });
 });
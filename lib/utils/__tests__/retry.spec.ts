@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import { computeBackoffDelay, retry, retryAsync } from '../retry';
+import { Result } from '../result';
+
+describe('computeBackoffDelay', () => {
+  it('should double the delay on each attempt without jitter', () => {
+    const policy = { baseDelayMs: 100, jitter: false };
+
+    expect(computeBackoffDelay(1, policy)).toBe(100);
+    expect(computeBackoffDelay(2, policy)).toBe(200);
+    expect(computeBackoffDelay(3, policy)).toBe(400);
+  });
+
+  it('should cap the delay at maxDelayMs', () => {
+    expect(
+      computeBackoffDelay(10, {
+        baseDelayMs: 100,
+        maxDelayMs: 1000,
+        jitter: false,
+      })
+    ).toBe(1000);
+  });
+
+  it('should pick a random delay up to the backoff with full jitter', () => {
+    expect(
+      computeBackoffDelay(3, { baseDelayMs: 100, random: () => 0.5 })
+    ).toBe(200);
+    expect(computeBackoffDelay(3, { baseDelayMs: 100, random: () => 0 })).toBe(
+      0
+    );
+  });
+});
+
+describe('retry', () => {
+  it('should return the first successful result', () => {
+    const f = vi.fn().mockReturnValue(42);
+
+    const result = retry(f);
+
+    expect(result.value).toBe(42);
+    expect(f).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry until the function succeeds', () => {
+    const f = vi.fn((attempt: number) => {
+      if (attempt < 3) {
+        throw new Error(`Attempt ${attempt} failed`);
+      }
+
+      return attempt;
+    });
+
+    const result = retry(f, { maxAttempts: 3 });
+
+    expect(result.value).toBe(3);
+    expect(f).toHaveBeenCalledTimes(3);
+  });
+
+  it('should retry failed Results returned by the function', () => {
+    const f = vi
+      .fn()
+      .mockReturnValueOnce(Result.failure(new Error('Failed')))
+      .mockReturnValueOnce(Result.success('ok'));
+
+    expect(retry(f).value).toBe('ok');
+  });
+
+  it('should return the last failure when attempts are exhausted', () => {
+    const f = vi.fn((attempt: number) => {
+      throw new Error(`Attempt ${attempt} failed`);
+    });
+
+    const result = retry(f, { maxAttempts: 2 });
+
+    expect(result.error?.message).toBe('Attempt 2 failed');
+    expect(f).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry errors that are not retryable', () => {
+    const f = vi.fn(() => {
+      throw new Error('Fatal');
+    });
+
+    const result = retry(f, { isRetryable: () => false });
+
+    expect(result.isFailure()).toBe(true);
+    expect(f).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('retryAsync', () => {
+  it('should retry with backoff until the function succeeds', async () => {
+    const sleep = vi.fn().mockResolvedValue(undefined);
+    const onRetry = vi.fn();
+    const f = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('First'))
+      .mockRejectedValueOnce(new Error('Second'))
+      .mockResolvedValueOnce('ok');
+
+    const result = await retryAsync(f, {
+      baseDelayMs: 100,
+      jitter: false,
+      sleep,
+      onRetry,
+    });
+
+    expect(result.value).toBe('ok');
+    expect(f).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+    expect(onRetry).toHaveBeenCalledWith(new Error('First'), 1, 100);
+    expect(onRetry).toHaveBeenCalledWith(new Error('Second'), 2, 200);
+  });
+
+  it('should pass the attempt number to the function', async () => {
+    const f = vi.fn(async (attempt: number) => {
+      if (attempt === 1) {
+        throw new Error('First');
+      }
+
+      return attempt;
+    });
+
+    const result = await retryAsync(f, { sleep: async () => {} });
+
+    expect(result.value).toBe(2);
+  });
+
+  it('should return the last failure when attempts are exhausted', async () => {
+    const f = vi.fn(async (attempt: number) => {
+      throw new Error(`Attempt ${attempt} failed`);
+    });
+
+    const result = await retryAsync(f, {
+      maxAttempts: 4,
+      sleep: async () => {},
+    });
+
+    expect(result.error?.message).toBe('Attempt 4 failed');
+    expect(f).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not retry errors that are not retryable', async () => {
+    const sleep = vi.fn();
+    const f = vi.fn().mockRejectedValue(new Error('Fatal'));
+
+    const result = await retryAsync(f, {
+      isRetryable: (error) => error.message !== 'Fatal',
+      sleep,
+    });
+
+    expect(result.error?.message).toBe('Fatal');
+    expect(f).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('should stop retrying when the next delay would exceed the deadline', async () => {
+    let now = 0;
+    const sleep = vi.fn(async (ms: number) => {
+      now += ms;
+    });
+    const f = vi.fn().mockRejectedValue(new Error('Failed'));
+
+    const result = await retryAsync(f, {
+      maxAttempts: 10,
+      baseDelayMs: 100,
+      jitter: false,
+      deadlineMs: 350,
+      sleep,
+      now: () => now,
+    });
+
+    expect(result.isFailure()).toBe(true);
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+    expect(f).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ValidationError,
+  assertHttpsUrl,
+  assertOptional,
+  assertString,
+  assertStringArray,
+  isHttpsUrl,
+  isJsonObject,
+  joinPath,
+} from '../validation';
+
+describe('validation', () => {
+  describe('ValidationError', () => {
+    it('should prefix the message with the path', () => {
+      const error = new ValidationError(
+        'grants.tx_code',
+        'must be a JSON object'
+      );
+
+      expect(error.message).toBe('grants.tx_code must be a JSON object');
+      expect(error.path).toBe('grants.tx_code');
+      expect(error.reason).toBe('must be a JSON object');
+      expect(error.name).toBe('ValidationError');
+    });
+
+    it('should describe the root value without a path', () => {
+      expect(new ValidationError('', 'must be a JSON object').message).toBe(
+        'Value must be a JSON object'
+      );
+    });
+  });
+
+  describe('isJsonObject', () => {
+    it('should accept objects only', () => {
+      expect(isJsonObject({})).toBe(true);
+      expect(isJsonObject([])).toBe(false);
+      expect(isJsonObject(null)).toBe(false);
+      expect(isJsonObject('{}')).toBe(false);
+    });
+  });
+
+  describe('joinPath', () => {
+    it('should join member names and array indices', () => {
+      expect(joinPath('', 'grants')).toBe('grants');
+      expect(joinPath('grants', 'tx_code')).toBe('grants.tx_code');
+      expect(joinPath('ids', 0)).toBe('ids[0]');
+    });
+  });
+
+  describe('isHttpsUrl', () => {
+    it('should accept https URLs without a fragment', () => {
+      expect(isHttpsUrl('https://example.com/a?b=c')).toBe(true);
+      expect(isHttpsUrl('https://example.com/a#b')).toBe(false);
+      expect(isHttpsUrl('http://example.com')).toBe(false);
+      expect(isHttpsUrl('example.com')).toBe(false);
+    });
+
+    it('should reject a query when not allowed', () => {
+      expect(
+        isHttpsUrl('https://example.com/a?b=c', { allowQuery: false })
+      ).toBe(false);
+    });
+  });
+
+  describe('assertions', () => {
+    it('should report the path of an invalid array element', () => {
+      expect(() => assertStringArray(['a', 1], 'ids')).toThrow(
+        'ids[1] must be a non-empty string'
+      );
+      expect(() =>
+        assertStringArray(['a', 'a'], 'ids', { unique: true })
+      ).toThrow('ids[1] must be unique');
+    });
+
+    it('should mention a disallowed query', () => {
+      expect(() =>
+        assertHttpsUrl('https://a.example?x', 'iss', { allowQuery: false })
+      ).toThrow('iss must be an https URL without query or fragment');
+    });
+
+    it('should skip absent optional members', () => {
+      expect(() =>
+        assertOptional(undefined, 'name', assertString)
+      ).not.toThrow();
+      expect(() => assertOptional(1, 'name', assertString)).toThrow(
+        'name must be a string'
+      );
+    });
+  });
+});
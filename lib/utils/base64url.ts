@@ -0,0 +1,46 @@
+/**
+ * Encodes bytes or a string as base64url without padding (RFC 4648 Section 5).
+ * Strings are encoded as UTF-8.
+ *
+ * @param {Uint8Array | string} input - The bytes or string to encode.
+ * @returns {string} The base64url encoding of the input.
+ *
+ * @example
+ * encodeBase64Url('hello'); // returns 'aGVsbG8'
+ * encodeBase64Url(new Uint8Array([251, 255])); // returns '-_8'
+ */
+export const encodeBase64Url = (input: Uint8Array | string): string => {
+  const bytes =
+    typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  let binary = '';
+
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+/**
+ * Decodes base64url, with or without padding, to bytes.
+ *
+ * @param {string} input - The base64url string to decode.
+ * @returns {Uint8Array} The decoded bytes.
+ * @throws {Error} If the input is not valid base64url.
+ *
+ * @example
+ * new TextDecoder().decode(decodeBase64Url('aGVsbG8')); // returns 'hello'
+ */
+export const decodeBase64Url = (input: string): Uint8Array => {
+  if (!/^[A-Za-z0-9_-]*={0,2}$/.test(input)) {
+    throw new Error('Invalid base64url string');
+  }
+
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+};
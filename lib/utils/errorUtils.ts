@@ -1,7 +1,53 @@
+/**
+ * Options for getErrorMessage and convertToError.
+ */
+export interface ErrorMessageOptions {
+  /**
+   * The maximum length of the message. Longer messages are truncated with an ellipsis. Defaults to 1000.
+   */
+  maxLength?: number;
+  /**
+   * Whether to append the messages of the cause chain. Defaults to false.
+   */
+  includeCause?: boolean;
+}
+
+/**
+ * An object shaped like an error, such as a DOMException from another realm,
+ * a plain object thrown by a library, or a deserialized AWS SDK error.
+ */
+export interface ErrorLike {
+  message: string;
+  name?: string;
+  code?: unknown;
+  cause?: unknown;
+  $metadata?: unknown;
+}
+
+const DEFAULT_MAX_MESSAGE_LENGTH = 1000;
+const ELLIPSIS = '…';
+
+/**
+ * Checks whether a value is shaped like an error, that is, a non-null object with a string message.
+ *
+ * @param {unknown} e - The value to check.
+ * @returns {boolean} True if the value is an Error or an error-like object.
+ *
+ * @example
+ * isErrorLike({ name: 'ThrottlingException', message: 'Rate exceeded' }); // returns true
+ * isErrorLike({ code: 'ERR_INVALID_DATA' }); // returns false
+ */
+export const isErrorLike = (e: unknown): e is ErrorLike =>
+  typeof e === 'object' &&
+  e !== null &&
+  typeof (e as { message?: unknown }).message === 'string';
+
 /**
  * Converts an unknown value to a string representation for error messages.
+ * Never throws: circular references, BigInt values, symbols and functions are stringified safely.
  *
  * @param {unknown} e - The value to convert to an error message.
+ * @param {ErrorMessageOptions} options - Optional settings for truncation and the cause chain.
  * @returns {string} The string representation of the value for error messages.
  *
  * @example
@@ -10,8 +56,86 @@
  * getErrorMessage('Something went wrong'); // returns 'Something went wrong'
  * getErrorMessage(new Error('An error occurred')); // returns 'An error occurred'
  * getErrorMessage({ code: 'ERR_INVALID_DATA' }); // returns '{"code":"ERR_INVALID_DATA"}'
+ * getErrorMessage({ name: 'ThrottlingException', message: 'Rate exceeded' }); // returns 'Rate exceeded'
+ * getErrorMessage(BigInt(10)); // returns '10'
+ * getErrorMessage(new Error('outer', { cause: new Error('inner') }), { includeCause: true }); // returns 'outer; caused by: inner'
  */
-export const getErrorMessage = (e: unknown): string => {
+export const getErrorMessage = (
+  e: unknown,
+  options: ErrorMessageOptions = {}
+): string => {
+  const message = options.includeCause
+    ? causeChain(e)
+        .map((cause) => describeValue(cause))
+        .join('; caused by: ')
+    : describeValue(e);
+
+  return truncate(message, options.maxLength ?? DEFAULT_MAX_MESSAGE_LENGTH);
+};
+
+/**
+ * Converts an unknown value to an Error object.
+ * Values recognized by a registered ErrorConverter, such as OAuth 2.0 error response bodies, become
+ * its typed errors, and error-like objects keep their name, code and AWS SDK $metadata.
+ * Values other than Errors are preserved as the cause of the new Error.
+ *
+ * @param {unknown} e - The value to convert to an Error object.
+ * @param {ErrorMessageOptions} options - Optional settings for the message of the new Error.
+ * @returns {Error} An Error object representing the provided value.
+ *
+ * @example
+ * convertToError(new Error('An error occurred')); // returns the same Error object
+ * convertToError('Something went wrong'); // returns a new Error object with the message 'Something went wrong'
+ * convertToError(404); // returns a new Error object with the message '404'
+ * convertToError({ code: 'ERR_INVALID_DATA' }); // returns a new Error object with the message '{"code":"ERR_INVALID_DATA"}'
+ * convertToError({ name: 'ThrottlingException', message: 'Rate exceeded' }); // returns an Error named 'ThrottlingException'
+ * convertToError({ error: 'invalid_grant' }); // returns an InvalidGrantError after registerOAuthErrorConverter()
+ */
+export const convertToError = (
+  e: unknown,
+  options: ErrorMessageOptions = {}
+): Error => {
+  if (e instanceof Error) {
+    return e;
+  }
+
+  for (const converter of errorConverters) {
+    const converted = converter(e);
+
+    if (converted !== undefined) {
+      return converted;
+    }
+  }
+
+  const error: Error & Partial<ErrorLike> = new Error(
+    getErrorMessage(e, options)
+  );
+
+  if (isErrorLike(e)) {
+    if (typeof e.name === 'string') {
+      error.name = e.name;
+    }
+
+    if (e.code !== undefined) {
+      error.code = e.code;
+    }
+
+    if (e.$metadata !== undefined) {
+      error.$metadata = e.$metadata;
+    }
+  }
+
+  if (e !== undefined) {
+    defineHidden(error, 'cause', e);
+  }
+
+  return error;
+};
+
+/**
+ * Describes a single value, without its cause chain.
+ */
+const describeValue = (e: unknown): string => {
   if (e === undefined) {
     return 'undefined';
   }
@@ -24,29 +148,470 @@ export const getErrorMessage = (e: unknown): string => {
     return e;
   }
 
-  if (e instanceof Error) {
+  if (isErrorLike(e)) {
     return e.message;
   }
 
-  return JSON.stringify(e);
+  if (typeof e === 'bigint' || typeof e === 'symbol') {
+    return e.toString();
+  }
+
+  if (typeof e === 'function') {
+    return `[Function: ${e.name || '(anonymous)'}]`;
+  }
+
+  return safeStringify(e);
 };
 
 /**
- * Converts an unknown value to an Error object.
+ * Lists a value followed by its causes, stopping at the first repeated cause.
+ */
+const causeChain = (e: unknown): unknown[] => {
+  const chain: unknown[] = [];
+  let current = e;
+
+  while (!chain.includes(current)) {
+    chain.push(current);
+
+    if (!isErrorLike(current) || current.cause === undefined) {
+      break;
+    }
+
+    current = current.cause;
+  }
+
+  return chain;
+};
+
+/**
+ * Stringifies a value as JSON, replacing circular references with '[Circular]' and BigInt values with strings.
+ * Falls back to Object.prototype.toString if stringification throws, for example in a toJSON method,
+ * or yields no JSON text, for example when toJSON returns undefined.
+ */
+const safeStringify = (value: unknown): string => {
+  const ancestors: unknown[] = [];
+
+  try {
+    // JSON.stringify returns undefined for values without a JSON representation, despite its declared type.
+    const json: string | undefined = JSON.stringify(
+      value,
+      function (this: unknown, _key, item) {
+        if (typeof item === 'bigint') {
+          return item.toString();
+        }
+
+        if (typeof item !== 'object' || item === null) {
+          return item;
+        }
+
+        while (
+          ancestors.length > 0 &&
+          ancestors[ancestors.length - 1] !== this
+        ) {
+          ancestors.pop();
+        }
+
+        if (ancestors.includes(item)) {
+          return CIRCULAR;
+        }
+
+        ancestors.push(item);
+
+        return item;
+      }
+    );
+
+    return json ?? Object.prototype.toString.call(value);
+  } catch {
+    return Object.prototype.toString.call(value);
+  }
+};
+
+/**
+ * Truncates a message to the maximum length, ending it with an ellipsis.
+ */
+const truncate = (message: string, maxLength: number): string =>
+  message.length > maxLength
+    ? `${message.slice(0, Math.max(0, maxLength - ELLIPSIS.length))}${ELLIPSIS}`
+    : message;
+
+/**
+ * The wire format of an Error, produced by serializeError.
+ * Custom fields of the error are kept as additional properties.
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+  errors?: unknown[];
+  [key: string]: unknown;
+}
+
+/**
+ * Options for serializeError.
+ */
+export interface SerializeErrorOptions {
+  /**
+   * Whether to include the stack trace. Defaults to false, as stacks may reveal internals.
+   */
+  includeStack?: boolean;
+  /**
+   * The maximum nesting depth of causes, aggregated errors and custom fields. Defaults to 16.
+   */
+  maxDepth?: number;
+}
+
+/**
+ * A constructor of an error class that can be registered for deserialization.
+ */
+export type SerializableErrorClass = abstract new (...args: never[]) => Error;
+
+/**
+ * Converts values of a shape it recognizes, such as error response bodies, to typed errors for convertToError.
+ * Returns undefined for other values.
+ */
+export type ErrorConverter = (value: unknown) => Error | undefined;
+
+/**
+ * Rebuilds serialized errors that cannot be restored without running their constructor, for deserializeError.
+ * It receives the serialized error, with keys that could pollute prototypes removed, and the class registered
+ * under its name, if any. Returns undefined for errors it does not rebuild.
+ */
+export type ErrorRestorer = (
+  serialized: SerializedError,
+  errorClass: SerializableErrorClass | undefined
+) => Error | undefined;
+
+const DEFAULT_MAX_DEPTH = 16;
+const CIRCULAR = '[Circular]';
+const TRUNCATED = '[Truncated]';
+const RESERVED_KEYS = ['name', 'message', 'stack', 'cause', 'errors'];
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+const errorClasses = new Map<string, SerializableErrorClass>([
+  ...[
+    Error,
+    TypeError,
+    RangeError,
+    SyntaxError,
+    ReferenceError,
+    EvalError,
+    URIError,
+    AggregateError,
+  ].map((errorClass): [string, SerializableErrorClass] => [
+    errorClass.name,
+    errorClass,
+  ]),
+]);
+const errorConverters: ErrorConverter[] = [];
+const errorRestorers: ErrorRestorer[] = [];
+
+/**
+ * Registers an error class so that deserializeError restores errors of that name as instances of the class.
  *
- * @param {unknown} e - The value to convert to an Error object.
- * @returns {Error} An Error object representing the provided value.
+ * @param {SerializableErrorClass} errorClass - The error class.
+ * @param {string} name - The name of the serialized errors. Defaults to the name of the class.
  *
  * @example
- * convertToError(new Error('An error occurred')); // returns the same Error object
- * convertToError('Something went wrong'); // returns a new Error object with the message 'Something went wrong'
- * convertToError(404); // returns a new Error object with the message '404'
- * convertToError({ code: 'ERR_INVALID_DATA' }); // returns a new Error object with the message '{"code":"ERR_INVALID_DATA"}'
+ * registerErrorClass(StorageThrottledError);
+ * deserializeError(serializeError(new StorageThrottledError('Slow down'))) instanceof StorageThrottledError; // true
  */
-export const convertToError = (e: unknown): Error => {
-  if (e instanceof Error) {
-    return e;
+export const registerErrorClass = (
+  errorClass: SerializableErrorClass,
+  name: string = errorClass.name
+): void => {
+  errorClasses.set(name, errorClass);
+};
+
+/**
+ * Registers a converter that convertToError tries, in the order of registration, before
+ * converting a value to a plain Error.
+ *
+ * @param {ErrorConverter} converter - The converter.
+ *
+ * @example
+ * registerErrorConverter((value) =>
+ *   isOAuthErrorBody(value) ? OAuthError.fromJSON(value, { cause: value }) : undefined
+ * );
+ */
+export const registerErrorConverter = (converter: ErrorConverter): void => {
+  errorConverters.push(converter);
+};
+
+/**
+ * Registers a restorer that deserializeError tries, in the order of registration, before
+ * restoring an error as an instance of its registered class.
+ * Custom fields of the serialized error are copied onto the rebuilt error unless it already has them.
+ *
+ * @param {ErrorRestorer} restorer - The restorer.
+ */
+export const registerErrorRestorer = (restorer: ErrorRestorer): void => {
+  errorRestorers.push(restorer);
+};
+
+/**
+ * Converts an Error to a JSON-safe object, keeping its name, message, cause chain,
+ * aggregated errors and custom fields. Circular references are replaced with '[Circular]'
+ * and values nested deeper than maxDepth with '[Truncated]'.
+ *
+ * @param {Error} error - The error to serialize.
+ * @param {SerializeErrorOptions} options - Optional settings.
+ * @returns {SerializedError} The serialized error.
+ *
+ * @example
+ * serializeError(new Error('outer', { cause: new Error('inner') }));
+ * // returns { name: 'Error', message: 'outer', cause: { name: 'Error', message: 'inner' } }
+ */
+export const serializeError = (
+  error: Error,
+  options: SerializeErrorOptions = {}
+): SerializedError =>
+  serializeErrorAt(error, options, new Set(), 0) as SerializedError;
+
+/**
+ * Restores an Error from the output of serializeError. Errors whose name is registered
+ * are rebuilt by a registered ErrorRestorer or restored as instances of the registered class,
+ * and other errors as plain Errors. The oauth module registers a restorer rebuilding OAuth errors.
+ * Keys that could pollute prototypes are ignored.
+ *
+ * @param {unknown} serialized - The serialized error, typically parsed from JSON.
+ * @returns {Error} The restored error.
+ *
+ * @example
+ * deserializeError({ name: 'TypeError', message: 'Bad type' }); // returns a TypeError
+ * deserializeError('Something went wrong'); // returns an Error with the message 'Something went wrong'
+ */
+export const deserializeError = (serialized: unknown): Error =>
+  deserializeErrorAt(serialized, 0);
+
+const serializeErrorAt = (
+  error: Error,
+  options: SerializeErrorOptions,
+  seen: Set<unknown>,
+  depth: number
+): SerializedError | string => {
+  if (seen.has(error)) {
+    return CIRCULAR;
+  }
+
+  if (depth > (options.maxDepth ?? DEFAULT_MAX_DEPTH)) {
+    return TRUNCATED;
+  }
+
+  seen.add(error);
+
+  const serialized: SerializedError = {
+    name: error.name,
+    message: error.message,
+  };
+
+  if (options.includeStack && error.stack !== undefined) {
+    serialized.stack = error.stack;
+  }
+
+  const { cause } = error as { cause?: unknown };
+
+  if (cause !== undefined) {
+    serialized.cause = toSerializable(cause, options, seen, depth + 1);
+  }
+
+  if (error instanceof AggregateError) {
+    serialized.errors = (error.errors as unknown[]).map((e) =>
+      toSerializable(e, options, seen, depth + 1)
+    );
+  }
+
+  for (const [key, value] of Object.entries(error)) {
+    if (!RESERVED_KEYS.includes(key) && !UNSAFE_KEYS.includes(key)) {
+      const serializable = toSerializable(value, options, seen, depth + 1);
+
+      if (serializable !== undefined) {
+        serialized[key] = serializable;
+      }
+    }
+  }
+
+  seen.delete(error);
+
+  return serialized;
+};
+
+const toSerializable = (
+  value: unknown,
+  options: SerializeErrorOptions,
+  seen: Set<unknown>,
+  depth: number
+): unknown => {
+  if (value instanceof Error) {
+    return serializeErrorAt(value, options, seen, depth);
+  }
+
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    return undefined;
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (seen.has(value)) {
+    return CIRCULAR;
+  }
+
+  if (depth > (options.maxDepth ?? DEFAULT_MAX_DEPTH)) {
+    return TRUNCATED;
+  }
+
+  seen.add(value);
+
+  let serializable: unknown;
+
+  if (Array.isArray(value)) {
+    serializable = value.map(
+      (item) => toSerializable(item, options, seen, depth + 1) ?? null
+    );
+  } else if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    serializable = (value as { toJSON: () => unknown }).toJSON();
+  } else {
+    const object: Record<string, unknown> = {};
+
+    for (const [key, item] of Object.entries(value)) {
+      const serializableItem = toSerializable(item, options, seen, depth + 1);
+
+      if (!UNSAFE_KEYS.includes(key) && serializableItem !== undefined) {
+        object[key] = serializableItem;
+      }
+    }
+
+    serializable = object;
+  }
+
+  seen.delete(value);
+
+  return serializable;
+};
+
+const deserializeErrorAt = (serialized: unknown, depth: number): Error => {
+  if (
+    serialized === null ||
+    typeof serialized !== 'object' ||
+    Array.isArray(serialized) ||
+    depth > DEFAULT_MAX_DEPTH
+  ) {
+    return new Error(
+      typeof serialized === 'string' ? serialized : String(serialized)
+    );
+  }
+
+  const source = serialized as Record<string, unknown>;
+  const name = typeof source.name === 'string' ? source.name : 'Error';
+  const errorClass = errorClasses.get(name);
+  const restored = restoreError(
+    sanitize(source, depth) as SerializedError,
+    errorClass
+  );
+  const error: Error & Record<string, unknown> =
+    restored ?? Object.create((errorClass ?? Error).prototype);
+
+  defineHidden(error, 'message', String(source.message ?? ''));
+  defineHidden(error, 'name', name);
+
+  if (typeof source.stack === 'string') {
+    defineHidden(error, 'stack', source.stack);
+  }
+
+  if ('cause' in source) {
+    defineHidden(error, 'cause', fromSerializable(source.cause, depth + 1));
+  }
+
+  if (Array.isArray(source.errors)) {
+    defineHidden(
+      error,
+      'errors',
+      source.errors.map((e) => deserializeErrorAt(e, depth + 1))
+    );
   }
 
-  return new Error(getErrorMessage(e));
+  for (const [key, value] of Object.entries(source)) {
+    if (
+      !RESERVED_KEYS.includes(key) &&
+      !UNSAFE_KEYS.includes(key) &&
+      !(restored !== undefined && key in restored)
+    ) {
+      error[key] = sanitize(value, depth + 1);
+    }
+  }
+
+  return error;
+};
+
+/**
+ * Rebuilds a serialized error with the first registered restorer that recognizes it.
+ *
+ * @param {SerializedError} serialized - The serialized error.
+ * @param {SerializableErrorClass | undefined} errorClass - The class registered under its name, if any.
+ * @returns {(Error & Record<string, unknown>) | undefined} The error, or undefined if no restorer recognizes it.
+ */
+const restoreError = (
+  serialized: SerializedError,
+  errorClass: SerializableErrorClass | undefined
+): (Error & Record<string, unknown>) | undefined => {
+  for (const restorer of errorRestorers) {
+    const restored = restorer(serialized, errorClass);
+
+    if (restored !== undefined) {
+      return restored as Error & Record<string, unknown>;
+    }
+  }
+
+  return undefined;
+};
+
+const fromSerializable = (value: unknown, depth: number): unknown =>
+  isSerializedError(value)
+    ? deserializeErrorAt(value, depth)
+    : sanitize(value, depth);
+
+const isSerializedError = (value: unknown): boolean =>
+  value !== null &&
+  typeof value === 'object' &&
+  typeof (value as SerializedError).name === 'string' &&
+  typeof (value as SerializedError).message === 'string';
+
+const sanitize = (value: unknown, depth: number): unknown => {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (depth > DEFAULT_MAX_DEPTH) {
+    return TRUNCATED;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitize(item, depth + 1));
+  }
+
+  const object: Record<string, unknown> = {};
+
+  for (const [key, item] of Object.entries(value)) {
+    if (!UNSAFE_KEYS.includes(key)) {
+      object[key] = sanitize(item, depth + 1);
+    }
+  }
+
+  return object;
+};
+
+const defineHidden = (target: object, key: string, value: unknown): void => {
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    enumerable: false,
+    configurable: true,
+  });
 };
@@ -1,2 +1,9 @@
+export * from './base64url';
 export * from './errorUtils';
+export * from './jsonPath';
+export * from './jsonSchema';
+export * from './logger';
+export * from './random';
 export * from './result';
+export * from './retry';
+export * from './validation';
@@ -0,0 +1,247 @@
+import { Result, runCatching } from './result';
+import { ValidationError, isJsonObject } from './validation';
+
+/**
+ * A step of a parsed JSONPath expression.
+ * A descendant step applies to the current value and all values nested in it, as written with '..'.
+ */
+export type JsonPathSegment =
+  | { kind: 'member'; name: string; descendant: boolean }
+  | { kind: 'index'; index: number; descendant: boolean }
+  | { kind: 'wildcard'; descendant: boolean };
+
+/**
+ * A value selected by a JSONPath expression, with its normalized path such as "$['address']['country']".
+ */
+export interface JsonPathMatch {
+  path: string;
+  value: unknown;
+}
+
+/**
+ * The characters of a member name written in dot notation.
+ */
+const DOT_NAME_PATTERN = /^[^.[\]\s'"]+/;
+
+/**
+ * Parses a quoted member name in bracket notation.
+ *
+ * @param {string} expression - The expression.
+ * @param {number} start - The position of the opening quote.
+ * @returns {[string, number]} The name and the position after the closing quote.
+ * @throws {ValidationError} If the name is not terminated.
+ */
+const parseQuotedName = (
+  expression: string,
+  start: number
+): [string, number] => {
+  const quote = expression[start];
+  let name = '';
+
+  for (let i = start + 1; i < expression.length; i++) {
+    if (expression[i] === '\\' && i + 1 < expression.length) {
+      name += expression[++i];
+    } else if (expression[i] === quote) {
+      return [name, i + 1];
+    } else {
+      name += expression[i];
+    }
+  }
+
+  throw new ValidationError('', `has an unterminated name at ${start}`);
+};
+
+/**
+ * Parses a JSONPath expression.
+ *
+ * The supported subset covers the paths used by Presentation Exchange: the root '$', members in
+ * dot and bracket notation, array indices (negative ones count from the end), the wildcard '*'
+ * and recursive descent '..'. Filters, slices and unions are not supported.
+ *
+ * @param {string} expression - The expression, such as "$.credentialSubject['given_name']".
+ * @returns {Result<JsonPathSegment[]>} A Result of the steps, or a failure with a ValidationError if the expression is not supported.
+ *
+ * @example
+ * parseJsonPath('$.vc.type[0]').getOrThrow();
+ * // [{ kind: 'member', name: 'vc', ... }, { kind: 'member', name: 'type', ... }, { kind: 'index', index: 0, ... }]
+ */
+export const parseJsonPath = (expression: string): Result<JsonPathSegment[]> =>
+  runCatching(() => {
+    if (!expression.startsWith('$')) {
+      throw new ValidationError('', "must start with '$'");
+    }
+
+    const segments: JsonPathSegment[] = [];
+    let i = 1;
+
+    while (i < expression.length) {
+      const descendant = expression.startsWith('..', i);
+
+      if (expression[i] === '.') {
+        i += descendant ? 2 : 1;
+
+        if (expression[i] === '*') {
+          segments.push({ kind: 'wildcard', descendant });
+          i++;
+          continue;
+        }
+
+        const name = DOT_NAME_PATTERN.exec(expression.slice(i))?.[0];
+
+        if (name !== undefined) {
+          segments.push({ kind: 'member', name, descendant });
+          i += name.length;
+          continue;
+        }
+
+        if (!descendant || expression[i] !== '[') {
+          throw new ValidationError('', `has an invalid member name at ${i}`);
+        }
+      }
+
+      if (expression[i] !== '[') {
+        throw new ValidationError('', `has an unexpected character at ${i}`);
+      }
+
+      const start = i + 1;
+
+      if (expression[start] === "'" || expression[start] === '"') {
+        const [name, end] = parseQuotedName(expression, start);
+
+        segments.push({ kind: 'member', name, descendant });
+        i = end;
+      } else if (expression[start] === '*') {
+        segments.push({ kind: 'wildcard', descendant });
+        i = start + 1;
+      } else {
+        const index = /^-?\d+/.exec(expression.slice(start))?.[0];
+
+        if (index === undefined) {
+          throw new ValidationError('', `has an invalid selector at ${start}`);
+        }
+
+        segments.push({ kind: 'index', index: Number(index), descendant });
+        i = start + index.length;
+      }
+
+      if (expression[i] !== ']') {
+        throw new ValidationError('', `has an unterminated selector at ${i}`);
+      }
+
+      i++;
+    }
+
+    return segments;
+  });
+
+/**
+ * Lists a value and all values nested in it, with their normalized paths.
+ *
+ * @param {JsonPathMatch} match - The value.
+ * @returns {JsonPathMatch[]} The value followed by its descendants.
+ */
+const descendantsOf = (match: JsonPathMatch): JsonPathMatch[] => [
+  match,
+  ...childrenOf(match).flatMap(descendantsOf),
+];
+
+/**
+ * Appends a member name to a normalized path.
+ *
+ * @param {string} path - The normalized path of the object.
+ * @param {string} name - The member name.
+ * @returns {string} The normalized path of the member.
+ */
+const memberPath = (path: string, name: string): string =>
+  `${path}['${name.replace(/['\\]/g, '\\$&')}']`;
+
+/**
+ * Lists the members of an object or the elements of an array, with their normalized paths.
+ *
+ * @param {JsonPathMatch} match - The value.
+ * @returns {JsonPathMatch[]} The children, or an empty array for other values.
+ */
+const childrenOf = ({ path, value }: JsonPathMatch): JsonPathMatch[] => {
+  if (Array.isArray(value)) {
+    return value.map((element, i) => ({
+      path: `${path}[${i}]`,
+      value: element,
+    }));
+  }
+
+  if (isJsonObject(value)) {
+    return Object.entries(value).map(([name, member]) => ({
+      path: memberPath(path, name),
+      value: member,
+    }));
+  }
+
+  return [];
+};
+
+/**
+ * Applies a step to a value.
+ *
+ * @param {JsonPathMatch} match - The value.
+ * @param {JsonPathSegment} segment - The step.
+ * @returns {JsonPathMatch[]} The selected values.
+ */
+const select = (
+  match: JsonPathMatch,
+  segment: JsonPathSegment
+): JsonPathMatch[] => {
+  const { path, value } = match;
+
+  switch (segment.kind) {
+    case 'wildcard':
+      return childrenOf(match);
+    case 'member':
+      return isJsonObject(value) &&
+        Object.prototype.hasOwnProperty.call(value, segment.name)
+        ? [{ path: memberPath(path, segment.name), value: value[segment.name] }]
+        : [];
+    case 'index': {
+      if (!Array.isArray(value)) {
+        return [];
+      }
+
+      const index =
+        segment.index < 0 ? value.length + segment.index : segment.index;
+
+      return index >= 0 && index < value.length
+        ? [{ path: `${path}[${index}]`, value: value[index] }]
+        : [];
+    }
+  }
+};
+
+/**
+ * Selects the values matching a JSONPath expression.
+ *
+ * @param {unknown} value - The JSON value to query.
+ * @param {string | JsonPathSegment[]} expression - The expression, or its parsed steps.
+ * @returns {Result<JsonPathMatch[]>} A Result of the matches in document order, which is empty if nothing matches,
+ * or a failure with a ValidationError if the expression is not supported.
+ *
+ * @example
+ * queryJsonPath({ vc: { type: ['VC', 'Degree'] } }, '$.vc.type[*]').getOrThrow();
+ * // [{ path: "$['vc']['type'][0]", value: 'VC' }, { path: "$['vc']['type'][1]", value: 'Degree' }]
+ */
+export const queryJsonPath = (
+  value: unknown,
+  expression: string | JsonPathSegment[]
+): Result<JsonPathMatch[]> =>
+  runCatching(() => {
+    const segments =
+      typeof expression === 'string'
+        ? parseJsonPath(expression).getOrThrow()
+        : expression;
+
+    return segments.reduce<JsonPathMatch[]>(
+      (matches, segment) =>
+        (segment.descendant ? matches.flatMap(descendantsOf) : matches).flatMap(
+          (match) => select(match, segment)
+        ),
+      [{ path: '$', value }]
+    );
+  });
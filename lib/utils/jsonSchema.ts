@@ -0,0 +1,541 @@
+import { Result, runCatching } from './result';
+import { ValidationError, isJsonObject, joinPath } from './validation';
+
+/**
+ * A JSON Schema, such as the filter of a Presentation Exchange field.
+ * Keywords outside the supported subset are ignored, as JSON Schema requires of unknown keywords.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  const?: unknown;
+  enum?: unknown[];
+  pattern?: string;
+  /**
+   * One of 'date', 'date-time', 'email' and 'uri'; other formats are not checked.
+   */
+  format?: string;
+  /**
+   * The earliest allowed 'date' or 'date-time' value, as used to express age requirements.
+   */
+  formatMinimum?: string;
+  formatMaximum?: string;
+  formatExclusiveMinimum?: string;
+  formatExclusiveMaximum?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  items?: JsonSchema;
+  contains?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  not?: JsonSchema;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+/**
+ * Options for validating a value against a JSON Schema.
+ *
+ * The pattern keyword is evaluated as a native regular expression, which can backtrack catastrophically
+ * on a hostile pattern such as ^(a+)+$. Limit patterns when schemas come from untrusted parties.
+ */
+export interface JsonSchemaOptions {
+  /**
+   * The longest pattern evaluated, in characters. Values checked against a longer pattern fail validation;
+   * 0 turns the pattern keyword off. Unlimited by default.
+   */
+  maxPatternLength?: number;
+  /**
+   * Whether patterns with a quantified group that itself contains a quantifier, such as (a+)+, are evaluated.
+   * If false, values checked against such a pattern fail validation. Defaults to true.
+   */
+  allowNestedQuantifiers?: boolean;
+}
+
+/**
+ * The JSON types a schema can require.
+ */
+export type JsonSchemaType =
+  | 'null'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'number'
+  | 'integer'
+  | 'string';
+
+/**
+ * The checks of the supported formats.
+ */
+const FORMATS = new Map<string, (value: string) => boolean>([
+  [
+    'date',
+    (value) =>
+      /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)),
+  ],
+  [
+    'date-time',
+    (value) =>
+      /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(
+        value
+      ) && !Number.isNaN(Date.parse(value)),
+  ],
+  ['email', (value) => /^[^\s@]+@[^\s@]+$/.test(value)],
+  [
+    'uri',
+    (value) => {
+      try {
+        return new URL(value).protocol !== '';
+      } catch {
+        return false;
+      }
+    },
+  ],
+]);
+
+/**
+ * Returns the JSON type of a value.
+ *
+ * @param {unknown} value - The value.
+ * @returns {JsonSchemaType | undefined} The type, where integers are 'integer', or undefined for values that are not JSON.
+ */
+const typeOf = (value: unknown): JsonSchemaType | undefined => {
+  if (value === null) {
+    return 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+
+  switch (typeof value) {
+    case 'boolean':
+    case 'string':
+      return typeof value as JsonSchemaType;
+    case 'number':
+      return Number.isInteger(value) ? 'integer' : 'number';
+    case 'object':
+      return 'object';
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Compares two JSON values structurally.
+ *
+ * @param {unknown} a - The first value.
+ * @param {unknown} b - The second value.
+ * @returns {boolean} True if the values are equal, regardless of member order.
+ */
+const jsonEquals = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((value, i) => jsonEquals(value, b[i]))
+    );
+  }
+
+  if (isJsonObject(a) && isJsonObject(b)) {
+    const keys = Object.keys(a);
+
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(
+        (key) =>
+          Object.prototype.hasOwnProperty.call(b, key) &&
+          jsonEquals(a[key], b[key])
+      )
+    );
+  }
+
+  return a === b;
+};
+
+/**
+ * Checks a string against the format bounds of a schema.
+ *
+ * @param {string} value - The string, of the 'date' or 'date-time' format.
+ * @param {JsonSchema} schema - The schema.
+ * @param {string} path - The path of the string.
+ * @throws {ValidationError} If the string is out of bounds.
+ */
+const assertFormatBounds = (
+  value: string,
+  schema: JsonSchema,
+  path: string
+): void => {
+  const time = Date.parse(value);
+  const bounds: [string | undefined, string, (bound: number) => boolean][] = [
+    [schema.formatMinimum, 'at or after', (bound) => time >= bound],
+    [schema.formatExclusiveMinimum, 'after', (bound) => time > bound],
+    [schema.formatMaximum, 'at or before', (bound) => time <= bound],
+    [schema.formatExclusiveMaximum, 'before', (bound) => time < bound],
+  ];
+
+  for (const [bound, relation, holds] of bounds) {
+    if (bound !== undefined && !holds(Date.parse(bound))) {
+      throw new ValidationError(path, `must be ${relation} ${bound}`);
+    }
+  }
+};
+
+/**
+ * Checks a number against the numeric keywords of a schema.
+ *
+ * @param {number} value - The number.
+ * @param {JsonSchema} schema - The schema.
+ * @param {string} path - The path of the number.
+ * @throws {ValidationError} If the number is out of bounds.
+ */
+const assertNumberKeywords = (
+  value: number,
+  schema: JsonSchema,
+  path: string
+): void => {
+  const bounds: [number | undefined, string, (bound: number) => boolean][] = [
+    [schema.minimum, 'at least', (bound) => value >= bound],
+    [schema.exclusiveMinimum, 'greater than', (bound) => value > bound],
+    [schema.maximum, 'at most', (bound) => value <= bound],
+    [schema.exclusiveMaximum, 'less than', (bound) => value < bound],
+  ];
+
+  for (const [bound, relation, holds] of bounds) {
+    if (bound !== undefined && !holds(bound)) {
+      throw new ValidationError(path, `must be ${relation} ${bound}`);
+    }
+  }
+
+  if (
+    schema.multipleOf !== undefined &&
+    !Number.isInteger(value / schema.multipleOf)
+  ) {
+    throw new ValidationError(
+      path,
+      `must be a multiple of ${schema.multipleOf}`
+    );
+  }
+};
+
+/**
+ * Checks whether a pattern quantifies a group that itself contains a quantifier, such as (a+)+ or (\d*\.){2,}.
+ *
+ * @param {string} pattern - The pattern.
+ * @returns {boolean} True if the pattern has nested quantifiers.
+ */
+const hasNestedQuantifier = (pattern: string): boolean => {
+  const enclosing: boolean[] = [];
+  let quantified = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') {
+          i++;
+        }
+      }
+    } else if (char === '(') {
+      enclosing.push(quantified);
+      quantified = false;
+    } else if (char === ')') {
+      if (quantified && ['*', '+', '{'].includes(pattern[i + 1])) {
+        return true;
+      }
+
+      quantified = (enclosing.pop() ?? false) || quantified;
+    } else if (char === '*' || char === '+' || char === '{') {
+      quantified = true;
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Checks that a pattern may be evaluated under the limits of the options.
+ *
+ * @param {string} pattern - The pattern.
+ * @param {string} path - The path of the string checked against it.
+ * @param {JsonSchemaOptions} options - The limits on patterns.
+ * @throws {ValidationError} If the pattern is too long or has nested quantifiers that are not allowed.
+ */
+const assertPatternAllowed = (
+  pattern: string,
+  path: string,
+  options: JsonSchemaOptions
+): void => {
+  if (
+    options.maxPatternLength !== undefined &&
+    pattern.length > options.maxPatternLength
+  ) {
+    throw new ValidationError(
+      path,
+      `cannot be checked against a pattern longer than ${options.maxPatternLength} characters`
+    );
+  }
+
+  if (
+    options.allowNestedQuantifiers === false &&
+    hasNestedQuantifier(pattern)
+  ) {
+    throw new ValidationError(
+      path,
+      `cannot be checked against the pattern ${pattern}, which has nested quantifiers`
+    );
+  }
+};
+
+/**
+ * Checks a string against the string keywords of a schema.
+ *
+ * @param {string} value - The string.
+ * @param {JsonSchema} schema - The schema.
+ * @param {string} path - The path of the string.
+ * @param {JsonSchemaOptions} options - The limits on patterns.
+ * @throws {ValidationError} If the string does not satisfy the schema.
+ */
+const assertStringKeywords = (
+  value: string,
+  schema: JsonSchema,
+  path: string,
+  options: JsonSchemaOptions
+): void => {
+  const length = [...value].length;
+
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    throw new ValidationError(
+      path,
+      `must be at least ${schema.minLength} characters long`
+    );
+  }
+
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    throw new ValidationError(
+      path,
+      `must be at most ${schema.maxLength} characters long`
+    );
+  }
+
+  if (schema.pattern !== undefined) {
+    assertPatternAllowed(schema.pattern, path, options);
+
+    if (!new RegExp(schema.pattern, 'u').test(value)) {
+      throw new ValidationError(
+        path,
+        `must match the pattern ${schema.pattern}`
+      );
+    }
+  }
+
+  const checkFormat =
+    schema.format === undefined ? undefined : FORMATS.get(schema.format);
+
+  if (checkFormat && !checkFormat(value)) {
+    throw new ValidationError(path, `must be a valid ${schema.format}`);
+  }
+
+  if (schema.format === 'date' || schema.format === 'date-time') {
+    assertFormatBounds(value, schema, path);
+  }
+};
+
+/**
+ * Checks an array against the array keywords of a schema.
+ *
+ * @param {unknown[]} value - The array.
+ * @param {JsonSchema} schema - The schema.
+ * @param {string} path - The path of the array.
+ * @param {JsonSchemaOptions} options - The limits on patterns.
+ * @throws {ValidationError} If the array or one of its elements does not satisfy the schema.
+ */
+const assertArrayKeywords = (
+  value: unknown[],
+  schema: JsonSchema,
+  path: string,
+  options: JsonSchemaOptions
+): void => {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    throw new ValidationError(
+      path,
+      `must contain at least ${schema.minItems} items`
+    );
+  }
+
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    throw new ValidationError(
+      path,
+      `must contain at most ${schema.maxItems} items`
+    );
+  }
+
+  if (
+    schema.uniqueItems &&
+    value.some((item, i) =>
+      value.slice(0, i).some((other) => jsonEquals(item, other))
+    )
+  ) {
+    throw new ValidationError(path, 'must contain unique items');
+  }
+
+  const { items, contains } = schema;
+
+  if (items !== undefined) {
+    value.forEach((item, i) =>
+      assertJsonSchema(item, items, joinPath(path, i), options)
+    );
+  }
+
+  if (
+    contains !== undefined &&
+    !value.some((item) =>
+      validateJsonSchema(item, contains, options).isSuccess()
+    )
+  ) {
+    throw new ValidationError(path, 'must contain a matching item');
+  }
+};
+
+/**
+ * Checks an object against the object keywords of a schema.
+ *
+ * @param {Record<string, unknown>} value - The object.
+ * @param {JsonSchema} schema - The schema.
+ * @param {string} path - The path of the object.
+ * @param {JsonSchemaOptions} options - The limits on patterns.
+ * @throws {ValidationError} If the object or one of its members does not satisfy the schema.
+ */
+const assertObjectKeywords = (
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  path: string,
+  options: JsonSchemaOptions
+): void => {
+  for (const name of schema.required ?? []) {
+    if (!Object.prototype.hasOwnProperty.call(value, name)) {
+      throw new ValidationError(joinPath(path, name), 'is required');
+    }
+  }
+
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    if (Object.prototype.hasOwnProperty.call(value, name)) {
+      assertJsonSchema(value[name], property, joinPath(path, name), options);
+    }
+  }
+};
+
+/**
+ * Asserts that a value satisfies a JSON Schema.
+ *
+ * @param {unknown} value - The value.
+ * @param {JsonSchema} schema - The schema.
+ * @param {string} path - The path of the value.
+ * @param {JsonSchemaOptions} options - Optional limits on patterns.
+ * @throws {ValidationError} If the value does not satisfy the schema, locating the first violation.
+ */
+export function assertJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  options: JsonSchemaOptions = {}
+): void {
+  const type = typeOf(value);
+  const types = schema.type === undefined ? undefined : [schema.type].flat();
+
+  if (
+    types !== undefined &&
+    !types.some(
+      (expected) =>
+        expected === type || (expected === 'number' && type === 'integer')
+    )
+  ) {
+    throw new ValidationError(path, `must be of type ${types.join(' or ')}`);
+  }
+
+  if ('const' in schema && !jsonEquals(value, schema.const)) {
+    throw new ValidationError(path, `must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (
+    schema.enum !== undefined &&
+    !schema.enum.some((allowed) => jsonEquals(value, allowed))
+  ) {
+    throw new ValidationError(
+      path,
+      `must be one of ${schema.enum
+        .map((allowed) => JSON.stringify(allowed))
+        .join(', ')}`
+    );
+  }
+
+  if (typeof value === 'string') {
+    assertStringKeywords(value, schema, path, options);
+  } else if (typeof value === 'number') {
+    assertNumberKeywords(value, schema, path);
+  } else if (Array.isArray(value)) {
+    assertArrayKeywords(value, schema, path, options);
+  } else if (isJsonObject(value)) {
+    assertObjectKeywords(value, schema, path, options);
+  }
+
+  if (
+    schema.not !== undefined &&
+    validateJsonSchema(value, schema.not, options).isSuccess()
+  ) {
+    throw new ValidationError(path, 'must not match the schema in not');
+  }
+
+  schema.allOf?.forEach((subschema) =>
+    assertJsonSchema(value, subschema, path, options)
+  );
+
+  const matching = (subschemas: JsonSchema[]): number =>
+    subschemas.filter((subschema) =>
+      validateJsonSchema(value, subschema, options).isSuccess()
+    ).length;
+
+  if (schema.anyOf !== undefined && matching(schema.anyOf) === 0) {
+    throw new ValidationError(path, 'must match a schema in anyOf');
+  }
+
+  if (schema.oneOf !== undefined && matching(schema.oneOf) !== 1) {
+    throw new ValidationError(path, 'must match exactly one schema in oneOf');
+  }
+}
+
+/**
+ * Validates a value against a JSON Schema.
+ *
+ * The supported subset covers the keywords used in Presentation Exchange filters: type, const, enum,
+ * the string, number, array and object keywords, not, allOf, anyOf and oneOf, and the date formats
+ * with formatMinimum and formatMaximum. References ($ref) are not resolved.
+ *
+ * @param {unknown} value - The value.
+ * @param {JsonSchema} schema - The schema.
+ * @param {JsonSchemaOptions} options - Optional limits on patterns, for schemas from untrusted parties.
+ * @returns {Result<unknown>} A Result of the value, or a failure with a ValidationError locating the first violation.
+ *
+ * @example
+ * validateJsonSchema('2000-01-01', { type: 'string', format: 'date', formatMaximum: '2007-01-01' }); // success
+ * validateJsonSchema(17, { type: 'number', minimum: 18 }).error?.message; // 'Value must be at least 18'
+ */
+export const validateJsonSchema = (
+  value: unknown,
+  schema: JsonSchema,
+  options: JsonSchemaOptions = {}
+): Result<unknown> =>
+  runCatching(() => {
+    assertJsonSchema(value, schema, '', options);
+    return value;
+  });
@@ -0,0 +1,23 @@
+/**
+ * A minimal logger interface, satisfied by the global console.
+ *
+ * Classes that log accept a Logger so that applications can route
+ * messages to their own logging infrastructure or silence them in tests.
+ */
+export interface Logger {
+  /**
+   * Logs a warning.
+   *
+   * @param message - The message to log.
+   * @param optionalParams - Additional values to log, such as the error that caused the warning.
+   */
+  warn(message: string, ...optionalParams: unknown[]): void;
+
+  /**
+   * Logs an error.
+   *
+   * @param message - The message to log.
+   * @param optionalParams - Additional values to log, such as the error itself.
+   */
+  error(message: string, ...optionalParams: unknown[]): void;
+}
@@ -0,0 +1,65 @@
+import { encodeBase64Url } from './base64url';
+
+/**
+ * Fills a byte array with cryptographically secure random values.
+ * Defaults to the Web Crypto API, available in Workers, browsers and Node.js.
+ */
+export type RandomSource = (bytes: Uint8Array) => Uint8Array;
+
+/**
+ * The default random source, backed by crypto.getRandomValues.
+ */
+export const cryptoRandom: RandomSource = (bytes) =>
+  crypto.getRandomValues(bytes);
+
+/**
+ * Generates a cryptographically random base64url string, suitable for nonces, codes and state values.
+ *
+ * @param {number} byteLength - The number of random bytes. Defaults to 32 (256 bits).
+ * @param {RandomSource} random - The random source. Defaults to crypto.getRandomValues.
+ * @returns {string} The base64url encoding of the random bytes.
+ *
+ * @example
+ * randomBase64Url(); // returns a 43-character string such as 'kq3x...'
+ */
+export const randomBase64Url = (
+  byteLength = 32,
+  random: RandomSource = cryptoRandom
+): string => encodeBase64Url(random(new Uint8Array(byteLength)));
+
+/**
+ * Generates a cryptographically random string of characters drawn uniformly from an alphabet,
+ * suitable for values typed by a user such as transaction codes.
+ *
+ * @param {number} length - The number of characters.
+ * @param {string} alphabet - The characters to draw from; at most 256.
+ * @param {RandomSource} random - The random source. Defaults to crypto.getRandomValues.
+ * @returns {string} The random string.
+ * @throws {RangeError} If the alphabet is empty or longer than 256 characters.
+ *
+ * @example
+ * randomString(6, '0123456789'); // returns a string such as '493027'
+ */
+export const randomString = (
+  length: number,
+  alphabet: string,
+  random: RandomSource = cryptoRandom
+): string => {
+  if (alphabet.length === 0 || alphabet.length > 256) {
+    throw new RangeError('Alphabet must contain between 1 and 256 characters');
+  }
+
+  // Bytes at or above the largest multiple of the alphabet size are rejected to avoid modulo bias.
+  const limit = 256 - (256 % alphabet.length);
+  let result = '';
+
+  while (result.length < length) {
+    for (const byte of random(new Uint8Array(length))) {
+      if (byte < limit && result.length < length) {
+        result += alphabet[byte % alphabet.length];
+      }
+    }
+  }
+
+  return result;
+};
@@ -14,42 +14,262 @@
  * limitations under the License.
  */
 
-import { convertToError } from './errorUtils';
+import {
+  SerializedError,
+  convertToError,
+  deserializeError,
+  serializeError,
+} from './errorUtils';
+
+/**
+ * A constructor of an error class, used to narrow the error of a failure.
+ * @template E The type of the error.
+ */
+export type ErrorClass<E extends Error> = abstract new (...args: never[]) => E;
+
+/**
+ * Options for runCatching and runAsyncCatching.
+ * @template E The type of the error of a failure.
+ */
+export interface CatchingOptions<E extends Error> {
+  /**
+   * Maps a thrown value to the error of the failure.
+   */
+  mapError: (e: unknown) => E;
+}
+
+/**
+ * A result to be awaited by the asynchronous aggregation helpers: either a promise,
+ * or a function starting the operation, which lets the concurrency limit apply.
+ * @template T The type of the value returned on success.
+ * @template E The type of the error returned on failure.
+ */
+export type ResultTask<T, E extends Error = Error> =
+  | Promise<Result<T, E>>
+  | (() => Promise<Result<T, E>>);
+
+/**
+ * Options for the asynchronous aggregation helpers.
+ */
+export interface AggregateOptions {
+  /**
+   * The maximum number of tasks given as functions running at once. Unlimited by default.
+   */
+  concurrency?: number;
+}
+
+/**
+ * The values and errors of a list of results, in order.
+ * @template T The type of the values.
+ * @template E The type of the errors.
+ */
+export interface Partitioned<T, E extends Error = Error> {
+  values: T[];
+  errors: E[];
+}
+
+/**
+ * The wire format of a Result, produced by toJSON.
+ * @template T The type of the value returned on success.
+ */
+export type ResultJSON<T> =
+  | { success: true; value: T }
+  | { success: false; error: SerializedError };
 
 /**
  * Represents the result of an operation that can either be successful or fail with an error.
  * @template T The type of the value returned on success.
+ * @template E The type of the error returned on failure.
  */
-export class Result<T> {
+export class Result<T, E extends Error = Error> {
   /**
    * Creates a successful result with the specified value.
    * @template T The type of the value.
+   * @template E The type of the error.
    * @param {T} value The value to be wrapped in the successful result.
-   * @returns {Result<T>} A successful result containing the value.
+   * @returns {Result<T, E>} A successful result containing the value.
    */
-  static success<T>(value: T): Result<T> {
-    return new Result(value, undefined);
+  static success<T, E extends Error = Error>(value: T): Result<T, E> {
+    return new Result<T, E>(value, undefined);
   }
 
   /**
-   * Creates a failure result with the specified error.
+   * Creates a failure result with the specified error, preserving the type of the error.
    * @template T The type of the value.
-   * @param {Error} error The error to be wrapped in the failure result.
-   * @returns {Result<T>} A failure result containing the error.
+   * @template E The type of the error.
+   * @param {E} error The error to be wrapped in the failure result.
+   * @returns {Result<T, E>} A failure result containing the error.
    */
-  static failure<T>(error: Error): Result<T> {
-    return new Result<T>(undefined, error);
+  static failure<T, E extends Error = Error>(error: E): Result<T, E> {
+    return new Result<T, E>(undefined, error);
+  }
+
+  /**
+   * Collects the values of the results, short-circuiting on the first failure.
+   * @template T The type of the values.
+   * @template E The type of the errors.
+   * @param {Result<T, E>[]} results The results.
+   * @returns {Result<T[], E>} A successful result with every value in order, or the first failure.
+   */
+  static all<T, E extends Error = Error>(
+    results: Result<T, E>[]
+  ): Result<T[], E> {
+    const values: T[] = [];
+
+    for (const result of results) {
+      if (result.isFailure()) {
+        return Result.failure(result.error);
+      }
+
+      values.push(result.getOrThrow());
+    }
+
+    return Result.success(values);
+  }
+
+  /**
+   * Collects the values of the results, or every error if any of them failed.
+   * @template T The type of the values.
+   * @template E The type of the errors.
+   * @param {Result<T, E>[]} results The results.
+   * @returns {Result<T[], AggregateError>} A successful result with every value in order, or a failure with an AggregateError of every error.
+   */
+  static allSettled<T, E extends Error = Error>(
+    results: Result<T, E>[]
+  ): Result<T[], AggregateError> {
+    const { values, errors } = Result.partition(results);
+
+    return errors.length === 0
+      ? Result.success(values)
+      : Result.failure(
+          new AggregateError(
+            errors,
+            `${errors.length} of ${results.length} results failed`
+          )
+        );
+  }
+
+  /**
+   * Returns the first successful result, or every error if all of them failed.
+   * @template T The type of the values.
+   * @template E The type of the errors.
+   * @param {Result<T, E>[]} results The results.
+   * @returns {Result<T, AggregateError>} The first successful result, or a failure with an AggregateError of every error.
+   */
+  static any<T, E extends Error = Error>(
+    results: Result<T, E>[]
+  ): Result<T, AggregateError> {
+    const { values, errors } = Result.partition(results);
+
+    return values.length > 0
+      ? Result.success(values[0])
+      : Result.failure(
+          new AggregateError(errors, `All ${results.length} results failed`)
+        );
+  }
+
+  /**
+   * Splits the results into their values and their errors.
+   * @template T The type of the values.
+   * @template E The type of the errors.
+   * @param {Result<T, E>[]} results The results.
+   * @returns {Partitioned<T, E>} The values and the errors, each in order.
+   */
+  static partition<T, E extends Error = Error>(
+    results: Result<T, E>[]
+  ): Partitioned<T, E> {
+    const partitioned: Partitioned<T, E> = { values: [], errors: [] };
+
+    for (const result of results) {
+      if (result.isFailure()) {
+        partitioned.errors.push(result.error);
+      } else {
+        partitioned.values.push(result.getOrThrow());
+      }
+    }
+
+    return partitioned;
+  }
+
+  /**
+   * Awaits the tasks and collects their values, short-circuiting on the first failure to settle.
+   * No further tasks are started after a failure. A rejected task becomes a failure.
+   * @template T The type of the values.
+   * @template E The type of the errors.
+   * @param {ResultTask<T, E>[]} tasks The promises of results, or functions starting them.
+   * @param {AggregateOptions} options The options, including the concurrency limit.
+   * @returns {Promise<Result<T[], E | Error>>} A promise that resolves to a successful result with every value in order, or the first failure.
+   */
+  static async allAsync<T, E extends Error = Error>(
+    tasks: ResultTask<T, E>[],
+    options: AggregateOptions = {}
+  ): Promise<Result<T[], E | Error>> {
+    // Settling stops at the first failure, so it is the only failure among the results.
+    return Result.all(
+      await settleTasks(tasks, options, (result) => result.isFailure())
+    );
+  }
+
+  /**
+   * Awaits every task and collects their values, or every error if any of them failed.
+   * A rejected task becomes a failure.
+   * @template T The type of the values.
+   * @template E The type of the errors.
+   * @param {ResultTask<T, E>[]} tasks The promises of results, or functions starting them.
+   * @param {AggregateOptions} options The options, including the concurrency limit.
+   * @returns {Promise<Result<T[], AggregateError>>} A promise that resolves to a successful result with every value in order, or a failure with an AggregateError of every error.
+   */
+  static async allSettledAsync<T, E extends Error = Error>(
+    tasks: ResultTask<T, E>[],
+    options: AggregateOptions = {}
+  ): Promise<Result<T[], AggregateError>> {
+    return Result.allSettled(await settleTasks(tasks, options, () => false));
+  }
+
+  /**
+   * Awaits the tasks until one succeeds. No further tasks are started after a success.
+   * A rejected task becomes a failure.
+   * @template T The type of the values.
+   * @template E The type of the errors.
+   * @param {ResultTask<T, E>[]} tasks The promises of results, or functions starting them.
+   * @param {AggregateOptions} options The options, including the concurrency limit.
+   * @returns {Promise<Result<T, AggregateError>>} A promise that resolves to the first successful result to settle, or a failure with an AggregateError of every error.
+   */
+  static async anyAsync<T, E extends Error = Error>(
+    tasks: ResultTask<T, E>[],
+    options: AggregateOptions = {}
+  ): Promise<Result<T, AggregateError>> {
+    // Settling stops at the first success, so it is the only success among the results.
+    return Result.any(
+      await settleTasks(tasks, options, (result) => result.isSuccess())
+    );
+  }
+
+  /**
+   * Awaits every task and splits the results into their values and their errors.
+   * A rejected task becomes an error.
+   * @template T The type of the values.
+   * @template E The type of the errors.
+   * @param {ResultTask<T, E>[]} tasks The promises of results, or functions starting them.
+   * @param {AggregateOptions} options The options, including the concurrency limit.
+   * @returns {Promise<Partitioned<T, E | Error>>} A promise that resolves to the values and the errors, each in the order of the tasks.
+   */
+  static async partitionAsync<T, E extends Error = Error>(
+    tasks: ResultTask<T, E>[],
+    options: AggregateOptions = {}
+  ): Promise<Partitioned<T, E | Error>> {
+    return Result.partition(await settleTasks(tasks, options, () => false));
   }
 
   /**
    * Constructs a new instance of the Result class.
    * @param {T | undefined} value The value associated with the result, if successful.
-   * @param {Error | undefined} error The error associated with the result, if failed.
+   * @param {E | undefined} error The error associated with the result, if failed.
    * @throws {Error} If both value and error are provided.
    */
   private constructor(
     public value: T | undefined,
-    public error: Error | undefined
+    public error: E | undefined
   ) {
     if (value && error) {
       throw new Error('Result cannot be both success and failure');
@@ -66,16 +286,28 @@ export class Result<T> {
 
   /**
    * Checks if the result is a failure.
-   * @returns {this is { error: Error }} True if the result is a failure, false otherwise.
+   * @returns {this is { error: E }} True if the result is a failure, false otherwise.
    */
-  isFailure(): this is { error: Error } {
+  isFailure(): this is { error: E } {
     return !this.isSuccess();
   }
 
+  /**
+   * Checks if the result is a failure whose error is an instance of the specified class.
+   * @template F The type of the error.
+   * @param {ErrorClass<F>} errorClass The class of the error.
+   * @returns {this is { error: F }} True if the result is a failure with an error of the class, false otherwise.
+   */
+  isFailureOf<F extends Error>(
+    errorClass: ErrorClass<F>
+  ): this is { error: F } {
+    return this.error instanceof errorClass;
+  }
+
   /**
    * Returns the value if the result is successful, or throws the error if it is a failure.
    * @returns {T} The value, if the result is successful.
-   * @throws {Error} The error, if the result is a failure.
+   * @throws {E} The error, if the result is a failure.
    */
   getOrThrow(): T {
     if (this.isSuccess()) {
@@ -101,19 +333,19 @@ export class Result<T> {
 
   /**
    * Returns the value if the result is successful, or the result of the transfer function if it is a failure.
-   * @param {(error: Error) => T} transfer A function that transfers the error to a value.
+   * @param {(error: E) => T} transfer A function that transfers the error to a value.
    * @returns {T} The value, if the result is successful, or the result of the transfer function if it is a failure.
    */
-  getOrElse(transfer: (error: Error) => T): T {
-    return this.isSuccess() ? this.value : transfer(this.error!);
+  getOrElse(transfer: (error: E) => T): T {
+    return this.isFailure() ? transfer(this.error) : this.getOrThrow();
   }
 
   /**
    * Executes the specified function if the result is successful.
    * @param {(value: T) => void} f A function to be executed if the result is successful.
-   * @returns {Result<T>} The current result instance.
+   * @returns {Result<T, E>} The current result instance.
    */
-  onSuccess(f: (value: T) => void): Result<T> {
+  onSuccess(f: (value: T) => void): Result<T, E> {
     if (this.isSuccess()) {
       f(this.value);
     }
@@ -123,10 +355,10 @@ export class Result<T> {
 
   /**
    * Executes the specified function if the result is a failure.
-   * @param {(error: Error) => void} f A function to be executed if the result is a failure.
-   * @returns {Result<T>} The current result instance.
+   * @param {(error: E) => void} f A function to be executed if the result is a failure.
+   * @returns {Result<T, E>} The current result instance.
    */
-  onFailure(f: (error: Error) => void): Result<T> {
+  onFailure(f: (error: E) => void): Result<T, E> {
     if (this.isFailure()) {
       f(this.error);
     }
@@ -136,25 +368,237 @@ export class Result<T> {
 
   /**
    * Recovers from a failure by applying the specified transform function.
-   * @param {(error: Error) => T} transform A function that transforms the error to a value.
+   * @param {(error: E) => T} transform A function that transforms the error to a value.
    * @returns {Result<T>} A new successful result with the transformed value if the current result is a failure, or the current result if it is already successful.
    */
-  recover(transform: (error: Error) => T): Result<T> {
+  recover(transform: (error: E) => T): Result<T> {
     return this.isFailure() ? runCatching(() => transform(this.error)) : this;
   }
 
   /**
    * Recovers from a failure by applying the specified asynchronous transform function.
-   * @param {(error: Error) => Promise<T>} transform An asynchronous function that transforms the error to a value.
+   * @param {(error: E) => Promise<T>} transform An asynchronous function that transforms the error to a value.
    * @returns {Promise<Result<T>>} A promise that resolves to a new successful result with the transformed value if the current result is a failure, or the current result if it is already successful.
    */
-  async recoverAsync(
-    transform: (error: Error) => Promise<T>
-  ): Promise<Result<T>> {
+  async recoverAsync(transform: (error: E) => Promise<T>): Promise<Result<T>> {
     return this.isFailure()
       ? runAsyncCatching(() => transform(this.error))
       : this;
   }
+
+  /**
+   * Transforms the value of a successful result.
+   * @template U The type of the transformed value.
+   * @param {(value: T) => U} transform A function that transforms the value.
+   * @returns {Result<U, E | Error>} A successful result with the transformed value, a failure if the transform throws, or the current failure.
+   */
+  map<U>(transform: (value: T) => U): Result<U, E | Error> {
+    if (this.isFailure()) {
+      return Result.failure(this.error);
+    }
+
+    try {
+      return Result.success(transform(this.getOrThrow()));
+    } catch (e) {
+      return Result.failure(convertToError(e));
+    }
+  }
+
+  /**
+   * Transforms the value of a successful result with an asynchronous function.
+   * @template U The type of the transformed value.
+   * @param {(value: T) => Promise<U>} transform An asynchronous function that transforms the value.
+   * @returns {Promise<Result<U, E | Error>>} A promise that resolves to a successful result with the transformed value, a failure if the transform rejects, or the current failure.
+   */
+  async mapAsync<U>(
+    transform: (value: T) => Promise<U>
+  ): Promise<Result<U, E | Error>> {
+    if (this.isFailure()) {
+      return Result.failure(this.error);
+    }
+
+    try {
+      return Result.success(await transform(this.getOrThrow()));
+    } catch (e) {
+      return Result.failure(convertToError(e));
+    }
+  }
+
+  /**
+   * Transforms the error of a failed result.
+   * @template F The type of the transformed error.
+   * @param {(error: E) => F} transform A function that transforms the error.
+   * @returns {Result<T, F | Error>} A failure with the transformed error, a failure with the thrown error if the transform throws, or the current successful result.
+   */
+  mapError<F extends Error>(transform: (error: E) => F): Result<T, F | Error> {
+    if (this.isFailure()) {
+      try {
+        return Result.failure(transform(this.error));
+      } catch (e) {
+        return Result.failure(convertToError(e));
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Chains an operation that itself returns a Result onto a successful result.
+   * @template U The type of the value of the chained result.
+   * @template F The type of the error of the chained result.
+   * @param {(value: T) => Result<U, F>} transform A function that returns the next result.
+   * @returns {Result<U, E | F | Error>} The result of the transform, a failure if the transform throws, or the current failure.
+   */
+  flatMap<U, F extends Error = E>(
+    transform: (value: T) => Result<U, F>
+  ): Result<U, E | F | Error> {
+    if (this.isFailure()) {
+      return Result.failure(this.error);
+    }
+
+    try {
+      return transform(this.getOrThrow());
+    } catch (e) {
+      return Result.failure(convertToError(e));
+    }
+  }
+
+  /**
+   * Chains an asynchronous operation that returns a Result onto a successful result.
+   * @template U The type of the value of the chained result.
+   * @template F The type of the error of the chained result.
+   * @param {(value: T) => Promise<Result<U, F>>} transform An asynchronous function that returns the next result.
+   * @returns {Promise<Result<U, E | F | Error>>} A promise that resolves to the result of the transform, a failure if the transform rejects, or the current failure.
+   */
+  async flatMapAsync<U, F extends Error = E>(
+    transform: (value: T) => Promise<Result<U, F>>
+  ): Promise<Result<U, E | F | Error>> {
+    if (this.isFailure()) {
+      return Result.failure(this.error);
+    }
+
+    try {
+      return await transform(this.getOrThrow());
+    } catch (e) {
+      return Result.failure(convertToError(e));
+    }
+  }
+
+  /**
+   * Reduces the result to a single value by applying one of two functions.
+   * @template R The type of the returned value.
+   * @param {(value: T) => R} onSuccess A function applied to the value if the result is successful.
+   * @param {(error: E) => R} onFailure A function applied to the error if the result is a failure.
+   * @returns {R} The value returned by the applied function.
+   */
+  fold<R>(onSuccess: (value: T) => R, onFailure: (error: E) => R): R {
+    return this.isFailure()
+      ? onFailure(this.error)
+      : onSuccess(this.getOrThrow());
+  }
+
+  /**
+   * Pairs the value of this result with the value of another.
+   * @template U The type of the value of the other result.
+   * @template F The type of the error of the other result.
+   * @param {Result<U, F>} other The other result.
+   * @returns {Result<[T, U], E | F>} A successful result with both values, or the first failure.
+   */
+  zip<U, F extends Error = E>(other: Result<U, F>): Result<[T, U], E | F> {
+    if (this.isFailure()) {
+      return Result.failure(this.error);
+    }
+
+    if (other.isFailure()) {
+      return Result.failure(other.error);
+    }
+
+    return Result.success([this.getOrThrow(), other.getOrThrow()]);
+  }
+
+  /**
+   * Combines the value of this result with the value of another.
+   * @template U The type of the value of the other result.
+   * @template F The type of the error of the other result.
+   * @template R The type of the combined value.
+   * @param {Result<U, F>} other The other result.
+   * @param {(value: T, otherValue: U) => R} combiner A function that combines both values.
+   * @returns {Result<R, E | F | Error>} A successful result with the combined value, a failure if the combiner throws, or the first failure.
+   */
+  combine<U, R, F extends Error = E>(
+    other: Result<U, F>,
+    combiner: (value: T, otherValue: U) => R
+  ): Result<R, E | F | Error> {
+    return this.zip(other).map(([value, otherValue]) =>
+      combiner(value, otherValue)
+    );
+  }
+
+  /**
+   * Turns a successful result into a failure if its value does not satisfy the predicate.
+   * @template F The type of the error for a rejected value.
+   * @param {(value: T) => boolean} predicate A function that tests the value.
+   * @param {(value: T) => F} errorFactory A function that creates the error for a rejected value.
+   * @returns {Result<T, E | F | Error>} The current result if it is a failure or its value satisfies the predicate, or a failure otherwise.
+   */
+  filter<F extends Error>(
+    predicate: (value: T) => boolean,
+    errorFactory: (value: T) => F
+  ): Result<T, E | F | Error> {
+    return this.flatMap<T, E | F>((value) =>
+      predicate(value) ? this : Result.failure(errorFactory(value))
+    );
+  }
+
+  /**
+   * Converts the result to a promise.
+   * @returns {Promise<T>} A promise that resolves to the value if the result is successful, or rejects with the error if it is a failure.
+   */
+  toPromise(): Promise<T> {
+    return this.isSuccess()
+      ? Promise.resolve(this.value)
+      : Promise.reject(this.error);
+  }
+
+  /**
+   * Converts the result to its wire format. Called by JSON.stringify.
+   * The error of a failure is serialized with serializeError, without its stack trace.
+   * @returns {ResultJSON<T>} The wire format of the result.
+   */
+  toJSON(): ResultJSON<T> {
+    return this.isFailure()
+      ? { success: false, error: serializeError(this.error) }
+      : { success: true, value: this.getOrThrow() };
+  }
+
+  /**
+   * Restores a result from its wire format, deserializing the error of a failure with deserializeError.
+   * @template T The type of the value.
+   * @param {unknown} json The wire format of the result, typically parsed from JSON.
+   * @returns {Result<T>} The restored result.
+   * @throws {TypeError} If the argument is not the wire format of a result.
+   */
+  static fromJSON<T>(json: unknown): Result<T> {
+    if (json === null || typeof json !== 'object') {
+      throw new TypeError('Result JSON must be an object');
+    }
+
+    const { success, value, error } = json as {
+      success?: unknown;
+      value?: unknown;
+      error?: unknown;
+    };
+
+    if (success === true) {
+      return Result.success(value as T);
+    }
+
+    if (success === false) {
+      return Result.failure(deserializeError(error));
+    }
+
+    throw new TypeError('Result JSON must have a boolean success property');
+  }
 }
 
 /**
@@ -165,10 +609,28 @@ export class Result<T> {
  * @param {...A} args The arguments to be passed to the function.
  * @returns {Result<T>} A result containing the value returned by the function if it succeeds, or a failure result if an error occurs.
  */
-export const runCatching = <T, A extends unknown[]>(
+export function runCatching<T, A extends unknown[]>(
   f: (...args: A) => T,
   ...args: A
-): Result<T> => {
+): Result<T>;
+/**
+ * Executes the specified function and wraps the result in a Result instance, mapping a thrown value to a typed error.
+ * @template T The type of the value returned by the function.
+ * @template E The type of the error of a failure.
+ * @template A The type of the arguments passed to the function.
+ * @param {CatchingOptions<E>} options The options, including the error mapper.
+ * @param {(...args: A) => T} f The function to be executed.
+ * @param {...A} args The arguments to be passed to the function.
+ * @returns {Result<T, E>} A result containing the value returned by the function if it succeeds, or a failure result with the mapped error if an error occurs.
+ */
+export function runCatching<T, E extends Error, A extends unknown[]>(
+  options: CatchingOptions<E>,
+  f: (...args: A) => T,
+  ...args: A
+): Result<T, E>;
+export function runCatching(...params: unknown[]): Result<unknown, Error> {
+  const [mapError, f, args] = parseCatchingParams(params);
+
   try {
     const value = f(...args);
 
@@ -178,9 +640,9 @@ export const runCatching = <T, A extends unknown[]>(
 
     return Result.success(value);
   } catch (e) {
-    return Result.failure(convertToError(e));
+    return Result.failure(mapError(e));
   }
-};
+}
 
 /**
  * Executes the specified asynchronous function and wraps the result in a Promise of a Result instance.
@@ -190,10 +652,30 @@ export const runCatching = <T, A extends unknown[]>(
  * @param {...A} args The arguments to be passed to the asynchronous function.
  * @returns {Promise<Result<T>>} A promise that resolves to a result containing the value returned by the asynchronous function if it succeeds, or a failure result if an error occurs.
  */
-export const runAsyncCatching = async <T, A extends unknown[]>(
+export function runAsyncCatching<T, A extends unknown[]>(
+  f: (...args: A) => Promise<T>,
+  ...args: A
+): Promise<Result<T>>;
+/**
+ * Executes the specified asynchronous function and wraps the result in a Promise of a Result instance, mapping a thrown value to a typed error.
+ * @template T The type of the value returned by the asynchronous function.
+ * @template E The type of the error of a failure.
+ * @template A The type of the arguments passed to the asynchronous function.
+ * @param {CatchingOptions<E>} options The options, including the error mapper.
+ * @param {(...args: A) => Promise<T>} f The asynchronous function to be executed.
+ * @param {...A} args The arguments to be passed to the asynchronous function.
+ * @returns {Promise<Result<T, E>>} A promise that resolves to a result containing the value returned by the asynchronous function if it succeeds, or a failure result with the mapped error if an error occurs.
+ */
+export function runAsyncCatching<T, E extends Error, A extends unknown[]>(
+  options: CatchingOptions<E>,
   f: (...args: A) => Promise<T>,
   ...args: A
-): Promise<Result<T>> => {
+): Promise<Result<T, E>>;
+export async function runAsyncCatching(
+  ...params: unknown[]
+): Promise<Result<unknown, Error>> {
+  const [mapError, f, args] = parseCatchingParams(params);
+
   try {
     const value = await f(...args);
 
@@ -203,6 +685,106 @@ export const runAsyncCatching = async <T, A extends unknown[]>(
 
     return Result.success(value);
   } catch (e) {
-    return Result.failure(convertToError(e));
+    return Result.failure(mapError(e));
+  }
+}
+
+/**
+ * Splits the parameters of runCatching and runAsyncCatching into the error mapper, the function and its arguments.
+ * @param {unknown[]} params The parameters, optionally starting with CatchingOptions.
+ * @returns The error mapper, the function and its arguments.
+ */
+const parseCatchingParams = (
+  params: unknown[]
+): [(e: unknown) => Error, (...args: unknown[]) => unknown, unknown[]] => {
+  if (typeof params[0] === 'function') {
+    const [f, ...args] = params;
+
+    return [convertToError, f as (...args: unknown[]) => unknown, args];
   }
+
+  const [options, f, ...args] = params;
+
+  return [
+    (options as CatchingOptions<Error>).mapError,
+    f as (...args: unknown[]) => unknown,
+    args,
+  ];
+};
+
+/**
+ * Awaits the tasks with at most `concurrency` functions running at once, stopping early when `shouldStop` returns true.
+ * Every promise is handled as soon as settleTasks is called, so one that rejects after stopping, or while waiting for
+ * earlier tasks, is never an unhandled rejection.
+ * @param {ResultTask<T, E>[]} tasks The promises of results, or functions starting them.
+ * @param {AggregateOptions} options The options, including the concurrency limit.
+ * @param {(result: Result<T, E | Error>) => boolean} shouldStop A function deciding from a settled result whether to stop.
+ * @returns {Promise<Result<T, E | Error>[]>} A promise that resolves to the results of the settled tasks, in the order of the tasks.
+ */
+const settleTasks = async <T, E extends Error>(
+  tasks: ResultTask<T, E>[],
+  options: AggregateOptions,
+  shouldStop: (result: Result<T, E | Error>) => boolean
+): Promise<Result<T, E | Error>[]> => {
+  const results: Result<T, E | Error>[] = [];
+  const functionIndexes: number[] = [];
+  let next = 0;
+  let stopped = false;
+  let stop = () => {};
+  const stopping = new Promise<void>((resolve) => {
+    stop = resolve;
+  });
+
+  const settle = (index: number, result: Result<T, E | Error>) => {
+    if (stopped) {
+      return;
+    }
+
+    results[index] = result;
+
+    if (shouldStop(result)) {
+      stopped = true;
+      stop();
+    }
+  };
+
+  const promises = tasks.flatMap((task, index) => {
+    if (typeof task === 'function') {
+      functionIndexes.push(index);
+      return [];
+    }
+
+    return [
+      runAsyncCatching(() => task).then((result) =>
+        settle(index, result as Result<T, E | Error>)
+      ),
+    ];
+  });
+
+  const work = async () => {
+    while (!stopped && next < functionIndexes.length) {
+      const index = functionIndexes[next++];
+      const task = tasks[index] as () => Promise<Result<T, E>>;
+
+      settle(index, (await runAsyncCatching(task)) as Result<T, E | Error>);
+    }
+  };
+
+  const concurrency = Math.max(
+    1,
+    options.concurrency ?? functionIndexes.length
+  );
+
+  await Promise.race([
+    Promise.all([
+      ...promises,
+      ...Array.from(
+        { length: Math.min(concurrency, functionIndexes.length) },
+        work
+      ),
+    ]),
+    stopping,
+  ]);
+
+  return results.filter((result) => result !== undefined);
 };
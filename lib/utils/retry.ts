@@ -0,0 +1,176 @@
+import { Result, runAsyncCatching, runCatching } from './result';
+
+/**
+ * A policy describing when and how often a failed operation is retried.
+ */
+export interface RetryPolicy {
+  /**
+   * The maximum number of attempts, including the first one. Defaults to 3.
+   */
+  maxAttempts?: number;
+  /**
+   * The delay before the first retry in milliseconds, doubled on each further retry. Defaults to 50.
+   */
+  baseDelayMs?: number;
+  /**
+   * The upper bound of the delay between attempts in milliseconds. Defaults to 5000.
+   */
+  maxDelayMs?: number;
+  /**
+   * Whether to apply full jitter, picking a random delay between 0 and the backoff. Defaults to true.
+   */
+  jitter?: boolean;
+  /**
+   * The overall time budget in milliseconds, measured from the first attempt.
+   * No retry is started if its delay would exceed the deadline. Unlimited by default.
+   */
+  deadlineMs?: number;
+  /**
+   * Decides whether a failure is worth retrying. All failures are retried by default.
+   */
+  isRetryable?: (error: Error) => boolean;
+  /**
+   * Called before each retry with the error, the number of the failed attempt and the delay.
+   */
+  onRetry?: (error: Error, attempt: number, delayMs: number) => void;
+  /**
+   * Waits for the given number of milliseconds. Defaults to setTimeout.
+   */
+  sleep?: (ms: number) => Promise<void>;
+  /**
+   * Returns a random number in [0, 1). Defaults to Math.random.
+   */
+  random?: () => number;
+  /**
+   * Returns the current time in milliseconds. Defaults to Date.now.
+   */
+  now?: () => number;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+export const DEFAULT_BASE_DELAY_MS = 50;
+export const DEFAULT_MAX_DELAY_MS = 5000;
+
+/**
+ * Waits for the given number of milliseconds.
+ *
+ * @param {number} ms - The number of milliseconds to wait.
+ * @returns {Promise<void>} A promise that resolves after the delay.
+ */
+export const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Computes the delay before the next attempt using exponential backoff with optional full jitter.
+ *
+ * @param {number} attempt - The number of the attempt that just failed, starting at 1.
+ * @param {RetryPolicy} policy - The retry policy.
+ * @returns {number} The delay in milliseconds.
+ *
+ * @example
+ * computeBackoffDelay(1, { baseDelayMs: 100, jitter: false }); // returns 100
+ * computeBackoffDelay(3, { baseDelayMs: 100, jitter: false }); // returns 400
+ * computeBackoffDelay(10, { baseDelayMs: 100, maxDelayMs: 1000, jitter: false }); // returns 1000
+ */
+export const computeBackoffDelay = (
+  attempt: number,
+  policy: RetryPolicy = {}
+): number => {
+  const baseDelayMs = policy.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+
+  if (policy.jitter === false) {
+    return backoff;
+  }
+
+  const random = policy.random ?? Math.random;
+
+  return Math.floor(random() * backoff);
+};
+
+/**
+ * Returns the value of an attempt as a Result, unless it already is one.
+ *
+ * @template T The type of the value.
+ * @param {T | Result<T>} value The value returned by the attempt.
+ * @returns {Result<T>} The Result.
+ */
+const toResult = <T>(value: T | Result<T>): Result<T> =>
+  value instanceof Result ? value : Result.success(value);
+
+/**
+ * Executes the specified function, retrying it immediately while it fails and the policy allows.
+ * Delays and the deadline do not apply because a synchronous function cannot wait.
+ *
+ * @template T The type of the value returned by the function.
+ * @param {(attempt: number) => T | Result<T>} f The function to be executed. It receives the attempt number, starting at 1.
+ * @param {RetryPolicy} policy The retry policy.
+ * @returns {Result<T>} The result of the first successful attempt, or the failure of the last attempt.
+ */
+export const retry = <T>(
+  f: (attempt: number) => T | Result<T>,
+  policy: RetryPolicy = {}
+): Result<T> => {
+  const maxAttempts = policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  let attempt = 1;
+
+  for (;;) {
+    const result = runCatching(f, attempt).flatMap(toResult);
+
+    if (
+      !result.isFailure() ||
+      attempt >= maxAttempts ||
+      !(policy.isRetryable?.(result.error) ?? true)
+    ) {
+      return result;
+    }
+
+    policy.onRetry?.(result.error, attempt, 0);
+    attempt++;
+  }
+};
+
+/**
+ * Executes the specified asynchronous function, retrying it with exponential backoff while it fails and the policy allows.
+ *
+ * @template T The type of the value returned by the asynchronous function.
+ * @param {(attempt: number) => Promise<T | Result<T>>} f The asynchronous function to be executed. It receives the attempt number, starting at 1.
+ * @param {RetryPolicy} policy The retry policy.
+ * @returns {Promise<Result<T>>} A promise that resolves to the result of the first successful attempt, or the failure of the last attempt.
+ */
+export const retryAsync = async <T>(
+  f: (attempt: number) => Promise<T | Result<T>>,
+  policy: RetryPolicy = {}
+): Promise<Result<T>> => {
+  const maxAttempts = policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const wait = policy.sleep ?? sleep;
+  const now = policy.now ?? Date.now;
+  const startedAt = now();
+  let attempt = 1;
+
+  for (;;) {
+    const result = (await runAsyncCatching(f, attempt)).flatMap(toResult);
+
+    if (
+      !result.isFailure() ||
+      attempt >= maxAttempts ||
+      !(policy.isRetryable?.(result.error) ?? true)
+    ) {
+      return result;
+    }
+
+    const delayMs = computeBackoffDelay(attempt, policy);
+
+    if (
+      policy.deadlineMs !== undefined &&
+      now() + delayMs - startedAt > policy.deadlineMs
+    ) {
+      return result;
+    }
+
+    policy.onRetry?.(result.error, attempt, delayMs);
+    await wait(delayMs);
+    attempt++;
+  }
+};
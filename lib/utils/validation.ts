@@ -0,0 +1,223 @@
+/**
+ * Indicates that a value does not conform to the expected structure.
+ * The path locates the offending member, for example 'grants.authorization_code.issuer_state'.
+ */
+export class ValidationError extends Error {
+  /**
+   * Constructs a new ValidationError instance.
+   *
+   * @param path - The path of the invalid member, or an empty string for the value itself.
+   * @param reason - Why the member is invalid, for example 'must be a string'.
+   */
+  constructor(readonly path: string, readonly reason: string) {
+    super(path ? `${path} ${reason}` : `Value ${reason}`);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Checks if a value is a non-null object that is not an array, such as a parsed JSON object.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is a JSON object.
+ */
+export const isJsonObject = (
+  value: unknown
+): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Appends a member name or array index to a path.
+ *
+ * @param {string} path - The path of the parent, or an empty string for the root.
+ * @param {string | number} member - The member name or array index.
+ * @returns {string} The path of the member, such as 'grants.tx_code' or 'ids[0]'.
+ */
+export const joinPath = (path: string, member: string | number): string =>
+  typeof member === 'number'
+    ? `${path}[${member}]`
+    : path
+    ? `${path}.${member}`
+    : member;
+
+/**
+ * Checks if a string is an absolute https URL without a fragment, as required for
+ * identifiers such as the credential issuer.
+ *
+ * @param {string} value - The string to check.
+ * @param {object} options - Set allowQuery to false to also reject a query component.
+ * @returns {boolean} True if the string is such a URL.
+ */
+export const isHttpsUrl = (
+  value: string,
+  { allowQuery = true }: { allowQuery?: boolean } = {}
+): boolean => {
+  try {
+    const url = new URL(value);
+
+    return (
+      url.protocol === 'https:' &&
+      !value.includes('#') &&
+      (allowQuery || !value.includes('?'))
+    );
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Asserts that a member is a JSON object.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @throws {ValidationError} If the member is not a JSON object.
+ */
+export function assertJsonObject(
+  value: unknown,
+  path: string
+): asserts value is Record<string, unknown> {
+  if (!isJsonObject(value)) {
+    throw new ValidationError(path, 'must be a JSON object');
+  }
+}
+
+/**
+ * Asserts that a member is a string.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @throws {ValidationError} If the member is not a string.
+ */
+export function assertString(
+  value: unknown,
+  path: string
+): asserts value is string {
+  if (typeof value !== 'string') {
+    throw new ValidationError(path, 'must be a string');
+  }
+}
+
+/**
+ * Asserts that a member is a non-empty string.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @throws {ValidationError} If the member is not a non-empty string.
+ */
+export function assertNonEmptyString(
+  value: unknown,
+  path: string
+): asserts value is string {
+  if (typeof value !== 'string' || value === '') {
+    throw new ValidationError(path, 'must be a non-empty string');
+  }
+}
+
+/**
+ * Asserts that a member is a boolean.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @throws {ValidationError} If the member is not a boolean.
+ */
+export function assertBoolean(
+  value: unknown,
+  path: string
+): asserts value is boolean {
+  if (typeof value !== 'boolean') {
+    throw new ValidationError(path, 'must be a boolean');
+  }
+}
+
+/**
+ * Asserts that a member is an https URL.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @param {object} options - Set allowQuery to false to also reject a query component.
+ * @throws {ValidationError} If the member is not such a URL.
+ */
+export function assertHttpsUrl(
+  value: unknown,
+  path: string,
+  options: { allowQuery?: boolean } = {}
+): asserts value is string {
+  if (typeof value !== 'string' || !isHttpsUrl(value, options)) {
+    throw new ValidationError(
+      path,
+      options.allowQuery === false
+        ? 'must be an https URL without query or fragment'
+        : 'must be an https URL'
+    );
+  }
+}
+
+/**
+ * Asserts that a member is an array.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @param {object} options - Set nonEmpty to reject an empty array.
+ * @throws {ValidationError} If the member is not an array, or is empty when nonEmpty is set.
+ */
+export function assertArray(
+  value: unknown,
+  path: string,
+  { nonEmpty = false }: { nonEmpty?: boolean } = {}
+): asserts value is unknown[] {
+  if (!Array.isArray(value)) {
+    throw new ValidationError(
+      path,
+      nonEmpty ? 'must be a non-empty array' : 'must be an array'
+    );
+  }
+
+  if (nonEmpty && value.length === 0) {
+    throw new ValidationError(path, 'must be a non-empty array');
+  }
+}
+
+/**
+ * Asserts that a member is an array of non-empty strings.
+ *
+ * @param {unknown} value - The member.
+ * @param {string} path - The path of the member.
+ * @param {object} options - Set nonEmpty to reject an empty array, and unique to reject duplicates.
+ * @throws {ValidationError} If the member or one of its elements is invalid.
+ */
+export function assertStringArray(
+  value: unknown,
+  path: string,
+  options: { nonEmpty?: boolean; unique?: boolean } = {}
+): asserts value is string[] {
+  assertArray(value, path, options);
+
+  value.forEach((element, i) => {
+    assertNonEmptyString(element, joinPath(path, i));
+
+    if (options.unique && value.indexOf(element) !== i) {
+      throw new ValidationError(joinPath(path, i), 'must be unique');
+    }
+  });
+}
+
+/**
+ * Applies an assertion to a member only if it is present.
+ *
+ * @param {unknown} value - The member, or undefined if absent.
+ * @param {string} path - The path of the member.
+ * @param {Function} assert - The assertion to apply.
+ * @throws {ValidationError} If the member is present and fails the assertion.
+ *
+ * @example
+ * assertOptional(grant.issuer_state, 'issuer_state', assertString);
+ */
+export const assertOptional = (
+  value: unknown,
+  path: string,
+  assert: (value: unknown, path: string) => void
+): void => {
+  if (value !== undefined) {
+    assert(value, path);
+  }
+};
@@ -9,6 +9,12 @@ export default defineConfig({
         main: './lib/index.ts',
         utils: './lib/utils/index.ts',
         dynamodb: './lib/dynamodb/index.ts',
+        storage: './lib/storage/index.ts',
+        oauth: './lib/oauth/index.ts',
+        nonce: './lib/nonce/index.ts',
+        oid4vci: './lib/oid4vci/index.ts',
+        oid4vp: './lib/oid4vp/index.ts',
+        jose: './lib/jose/index.ts',
       },
       name: 'oid4vc-core',
       fileName: (format, entry) => {